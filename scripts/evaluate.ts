@@ -0,0 +1,254 @@
+/**
+ * Offline RAG evaluation against a JSONL golden set
+ * Runs every question through RAGPipeline and writes JSON and Markdown reports,
+ * optionally compared with a previous run, and generates synthetic golden sets
+ */
+
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'fs';
+import path from 'path';
+import { RAGPipeline } from '@/core/rag/ragPipeline';
+import { createEmbeddingAdapter } from '@/adapters/embedding';
+import { createLLMAdapter } from '@/adapters/llm';
+import { InMemoryVectorAdapter } from '@/adapters/vector-store/memory';
+import { PostgresVectorAdapter } from '@/adapters/vector-store/postgres';
+import { buildCorpusDocuments, loadCorpus, loadGoldenSet, writeGoldenSet } from '@/core/evaluation/goldenSet';
+import { runEvaluation, type EvaluationReport } from '@/core/evaluation/evaluator';
+import { diffReports, formatMarkdownReport, type ReportDiff } from '@/core/evaluation/report';
+import { QuestionGenerator } from '@/core/evaluation/questionGenerator';
+import type { EmbeddingAdapter, VectorStoreAdapter } from '@/types';
+import config from '@/utils/config';
+
+const DEFAULT_GOLDEN_SET = 'data/eval/golden.jsonl';
+const DEFAULT_OUTPUT_DIR = 'eval-results';
+
+/**
+ * Value of a --name=value flag
+ */
+function getFlag(args: string[], name: string): string | undefined {
+  return args.find(arg => arg.startsWith(`--${name}=`))?.slice(name.length + 3);
+}
+
+function readReport(filePath: string): EvaluationReport {
+  return JSON.parse(readFileSync(filePath, 'utf8')) as EvaluationReport;
+}
+
+/**
+ * The in-memory store loaded from a corpus file, or the configured Postgres store
+ */
+async function createStore(
+  corpusPath: string | undefined,
+  embeddingAdapter: EmbeddingAdapter
+): Promise<InMemoryVectorAdapter | PostgresVectorAdapter> {
+  if (!corpusPath) {
+    return new PostgresVectorAdapter({
+      connectionString: config.DATABASE_URL,
+      tableName: config.VECTOR_TABLE_NAME,
+    });
+  }
+
+  const corpus = loadCorpus(corpusPath);
+  const memoryStore = new InMemoryVectorAdapter();
+  await memoryStore.upsert(await buildCorpusDocuments(corpus, texts => embeddingAdapter.embedBatch(texts)));
+  console.log(`📚 Loaded ${corpus.length} corpus pages from ${corpusPath} into the in-memory store`);
+  return memoryStore;
+}
+
+function printDiffStatus(diff: ReportDiff): boolean {
+  const regressed = diff.metrics.filter(change => change.regressed);
+  if (regressed.length > 0) {
+    console.log(`⚠️  Regressed vs baseline: ${regressed.map(change => change.metric).join(', ')}`);
+  } else {
+    console.log('✅ No metric regressed vs baseline');
+  }
+  return regressed.length > 0;
+}
+
+/**
+ * Run the golden set and write <out>/<timestamp>[-label].json and .md
+ */
+async function runCommand(args: string[]): Promise<boolean> {
+  const goldenPath = getFlag(args, 'golden') ?? DEFAULT_GOLDEN_SET;
+  const corpusPath = getFlag(args, 'corpus');
+  const baselinePath = getFlag(args, 'baseline');
+  const outputDir = getFlag(args, 'out') ?? DEFAULT_OUTPUT_DIR;
+  const label = getFlag(args, 'label');
+  const k = Number(getFlag(args, 'k') ?? 5);
+  const threshold = getFlag(args, 'similarity-threshold');
+  // Mock local embeddings carry no meaning, so in-memory runs lean on keyword search
+  const useHybridSearch = args.includes('--hybrid') || (Boolean(corpusPath) && !args.includes('--vector-only'));
+
+  if (!Number.isInteger(k) || k < 1) {
+    throw new Error(`--k must be a positive integer, got ${getFlag(args, 'k')}`);
+  }
+
+  const examples = loadGoldenSet(goldenPath);
+  console.log(`🧪 Evaluating ${examples.length} examples from ${goldenPath}`);
+  console.log(`🤖 Embeddings: ${config.EMBEDDING_PROVIDER}, LLM: ${config.LLM_PROVIDER}`);
+
+  const embeddingAdapter = await createEmbeddingAdapter(config.EMBEDDING_PROVIDER, { model: config.EMBEDDING_MODEL });
+  const llmAdapter = await createLLMAdapter(config.LLM_PROVIDER, { model: config.LLM_MODEL });
+
+  const vectorStore: VectorStoreAdapter = await createStore(corpusPath, embeddingAdapter);
+
+  // No answer cache: every example must hit retrieval and generation
+  const pipeline = new RAGPipeline(embeddingAdapter, vectorStore, llmAdapter, null);
+  const pipelineOptions = {
+    context_window_tokens: 3000,
+    groundingAction: 'strip' as const,
+    useHybridSearch,
+    ...(threshold !== undefined && { similarityThreshold: Number(threshold) }),
+  };
+
+  const report = await runEvaluation(pipeline, examples, {
+    k,
+    goldenSet: goldenPath,
+    pipelineOptions,
+    ...(label && { label }),
+    settings: {
+      store: corpusPath ? `memory:${corpusPath}` : 'postgres',
+      embedding_model: embeddingAdapter.getModel(),
+      llm_model: llmAdapter.getModel(),
+      hybrid: useHybridSearch,
+      ...(threshold !== undefined && { similarity_threshold: Number(threshold) }),
+    },
+    onProgress: (result, index, total) => {
+      const status = result.error ? '❌' : result.recall_at_k === 1 ? '✅' : '⚠️ ';
+      console.log(`  ${status} [${index + 1}/${total}] ${result.id} recall=${result.recall_at_k.toFixed(2)} ${result.latency_ms}ms`);
+    },
+  });
+
+  const diff = baselinePath ? diffReports(report, readReport(baselinePath)) : undefined;
+  const markdown = formatMarkdownReport(report, diff);
+
+  mkdirSync(outputDir, { recursive: true });
+  const baseName = `${report.created_at.replace(/[:.]/g, '-')}${label ? `-${label.replace(/[^\w-]+/g, '_')}` : ''}`;
+  const jsonPath = path.join(outputDir, `${baseName}.json`);
+  writeFileSync(jsonPath, JSON.stringify(diff ? { ...report, diff } : report, null, 2));
+  writeFileSync(path.join(outputDir, `${baseName}.md`), markdown);
+
+  console.log('');
+  console.log(markdown);
+  console.log(`📝 Report written to ${jsonPath}`);
+
+  if (vectorStore instanceof PostgresVectorAdapter) {
+    await vectorStore.close();
+  }
+
+  const regressed = diff ? printDiffStatus(diff) : false;
+  return !(regressed && args.includes('--fail-on-regression'));
+}
+
+/**
+ * Sample chunks per collection/section and write LLM-generated questions as a golden set
+ */
+async function generateCommand(args: string[]): Promise<boolean> {
+  const outputPath = getFlag(args, 'out') ?? 'data/eval/synthetic.jsonl';
+  const corpusPath = getFlag(args, 'corpus');
+  const collection = getFlag(args, 'collection');
+  const perSection = Number(getFlag(args, 'per-section') ?? 2);
+  const questionsPerChunk = Number(getFlag(args, 'questions-per-chunk') ?? 2);
+  const minLength = Number(getFlag(args, 'min-length') ?? 200);
+  const seed = getFlag(args, 'seed') ?? 'golden';
+  const append = args.includes('--append');
+
+  for (const [name, value] of Object.entries({ 'per-section': perSection, 'questions-per-chunk': questionsPerChunk })) {
+    if (!Number.isInteger(value) || value < 1) {
+      throw new Error(`--${name} must be a positive integer`);
+    }
+  }
+
+  const embeddingAdapter = await createEmbeddingAdapter(config.EMBEDDING_PROVIDER, { model: config.EMBEDDING_MODEL });
+  const llmAdapter = await createLLMAdapter(config.LLM_PROVIDER, { model: config.LLM_MODEL });
+  const vectorStore = await createStore(corpusPath, embeddingAdapter);
+
+  const chunks = await vectorStore.sampleChunks({
+    perSection,
+    minLength,
+    seed,
+    ...(collection && { collections: [collection] }),
+  });
+  console.log(`🎲 Sampled ${chunks.length} chunks (${perSection} per section) with ${llmAdapter.getModel()}`);
+
+  const existing = append && existsSync(outputPath) ? loadGoldenSet(outputPath) : [];
+  const generator = new QuestionGenerator(llmAdapter, { questionsPerChunk });
+  const { examples, stats } = await generator.generate(chunks, existing, (chunk, kept, index) => {
+    const section = chunk.metadata.section || chunk.metadata.title;
+    console.log(`  ${kept > 0 ? '✅' : '⚠️ '} [${index + 1}/${chunks.length}] ${chunk.metadata.collection ?? ''} / ${section}: ${kept} questions`);
+  });
+
+  mkdirSync(path.dirname(outputPath), { recursive: true });
+  writeGoldenSet(outputPath, [...existing, ...examples]);
+
+  if (vectorStore instanceof PostgresVectorAdapter) {
+    await vectorStore.close();
+  }
+
+  console.log('');
+  console.log(`📝 Wrote ${examples.length} new examples to ${outputPath}` + (append ? ` (${existing.length} kept)` : ''));
+  console.log(`   ${stats.generated} generated, ${stats.duplicates} duplicates dropped, ${stats.failedChunks} chunks failed`);
+  return examples.length > 0;
+}
+
+/**
+ * Compare two existing JSON reports
+ */
+function diffCommand(args: string[]): boolean {
+  const [currentPath, baselinePath] = args.filter(arg => !arg.startsWith('--'));
+  if (!currentPath || !baselinePath) {
+    throw new Error('Usage: evaluate diff <current.json> <baseline.json>');
+  }
+
+  const current = readReport(currentPath);
+  const diff = diffReports(current, readReport(baselinePath));
+  console.log(formatMarkdownReport(current, diff));
+
+  const regressed = printDiffStatus(diff);
+  return !(regressed && args.includes('--fail-on-regression'));
+}
+
+async function main(): Promise<void> {
+  const args = process.argv.slice(2);
+  const command = args[0] || 'run';
+
+  // Pipeline debug logs drown out the per-example progress
+  if (!args.includes('--verbose')) {
+    console.debug = () => undefined;
+  }
+
+  let passed: boolean;
+
+  switch (command) {
+    case 'run':
+      passed = await runCommand(args.slice(1));
+      break;
+
+    case 'diff':
+      passed = diffCommand(args.slice(1));
+      break;
+
+    case 'generate':
+      passed = await generateCommand(args.slice(1));
+      break;
+
+    default:
+      console.error(`❌ Unknown command: ${command}`);
+      console.log('Available commands:');
+      console.log('  run      - Evaluate the golden set [--golden=<jsonl>] [--corpus=<jsonl>] [--k=5] [--label=<name>]');
+      console.log('             [--baseline=<report.json>] [--out=<dir>] [--hybrid|--vector-only]');
+      console.log('             [--similarity-threshold=<0-1>] [--fail-on-regression] [--verbose]');
+      console.log('  diff     - Compare two reports <current.json> <baseline.json> [--fail-on-regression]');
+      console.log('  generate - Write synthetic questions [--out=<jsonl>] [--collection=<name>] [--per-section=2]');
+      console.log('             [--questions-per-chunk=2] [--min-length=200] [--seed=<text>] [--corpus=<jsonl>] [--append]');
+      process.exit(1);
+  }
+
+  process.exit(passed ? 0 : 1);
+}
+
+// Execute if run directly
+if (require.main === module) {
+  main().catch(error => {
+    console.error('💥 Evaluation failed:', error instanceof Error ? error.message : error);
+    process.exit(1);
+  });
+}
@@ -3,8 +3,16 @@
  * Sets up PostgreSQL with pgvector extension and creates all required tables
  */
 
+import { execSync } from 'child_process';
+import { writeFileSync } from 'fs';
+import path from 'path';
 import { Pool, PoolClient } from 'pg';
 import config from '@/utils/config';
+import { getGlossary } from '@/core/rag/glossary';
+
+// Text search configuration and dictionary created by the glossary command
+const GLOSSARY_TEXT_SEARCH_CONFIG = 'powerschool';
+const GLOSSARY_DICTIONARY = 'powerschool_synonyms';
 
 interface MigrationResult {
   success: boolean;
@@ -160,17 +168,28 @@ async function runMigrations(): Promise<MigrationResult> {
       await executeSqlSafely(client, `
         CREATE TABLE IF NOT EXISTS query_stats (
             id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
-            query_text TEXT NOT NULL,
+            -- NULL when QUERY_STATS_STORE_TEXT=false
+            query_text TEXT,
+            -- sha256 of the normalized query, for grouping repeated questions
+            query_hash CHAR(64),
+            -- Response or context id the answer was sent with, for linking feedback
+            response_id TEXT,
             user_id TEXT,
+            platform VARCHAR(20) DEFAULT 'api' CHECK (platform IN ('api', 'slack', 'teams')),
+            collection VARCHAR(50),
             
             -- Query performance metrics
             embedding_time_ms INTEGER,
             search_time_ms INTEGER,
+            llm_time_ms INTEGER,
             total_time_ms INTEGER,
             
             -- Search results metadata
             results_count INTEGER NOT NULL DEFAULT 0,
             top_score DECIMAL(5,4),
+            is_fallback BOOLEAN NOT NULL DEFAULT false,
+            fallback_reason VARCHAR(50),
+            cached BOOLEAN NOT NULL DEFAULT false,
             
             -- Query classification
             query_type VARCHAR(50) DEFAULT 'unknown' CHECK (query_type IN ('feature', 'configuration', 'troubleshooting', 'general', 'unknown')),
@@ -183,6 +202,20 @@ async function runMigrations(): Promise<MigrationResult> {
         )
       `, 'Creating query_stats table');
 
+      // Analytics columns for query_stats tables created before they were recorded
+      await executeSqlSafely(client, `
+        ALTER TABLE query_stats
+            ALTER COLUMN query_text DROP NOT NULL,
+            ADD COLUMN IF NOT EXISTS query_hash CHAR(64),
+            ADD COLUMN IF NOT EXISTS response_id TEXT,
+            ADD COLUMN IF NOT EXISTS platform VARCHAR(20) DEFAULT 'api' CHECK (platform IN ('api', 'slack', 'teams')),
+            ADD COLUMN IF NOT EXISTS collection VARCHAR(50),
+            ADD COLUMN IF NOT EXISTS llm_time_ms INTEGER,
+            ADD COLUMN IF NOT EXISTS is_fallback BOOLEAN NOT NULL DEFAULT false,
+            ADD COLUMN IF NOT EXISTS fallback_reason VARCHAR(50),
+            ADD COLUMN IF NOT EXISTS cached BOOLEAN NOT NULL DEFAULT false
+      `, 'Adding query_stats analytics columns');
+
       await executeSqlSafely(client, `
         CREATE TABLE IF NOT EXISTS processing_jobs (
             id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
@@ -203,12 +236,99 @@ async function runMigrations(): Promise<MigrationResult> {
             -- Timing information
             started_at TIMESTAMP WITH TIME ZONE,
             completed_at TIMESTAMP WITH TIME ZONE,
+            -- Refreshed by the worker running the job; a stale heartbeat means the worker is gone
+            heartbeat_at TIMESTAMP WITH TIME ZONE,
             created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
             
             CONSTRAINT valid_progress CHECK (progress_current >= 0 AND progress_total >= 0)
         )
       `, 'Creating processing_jobs table');
 
+      // Worker heartbeats for processing_jobs tables created before they were recorded
+      await executeSqlSafely(client, `
+        ALTER TABLE processing_jobs ADD COLUMN IF NOT EXISTS heartbeat_at TIMESTAMP WITH TIME ZONE
+      `, 'Adding processing_jobs heartbeat column');
+
+      await executeSqlSafely(client, `
+        CREATE TABLE IF NOT EXISTS embedding_cache (
+            -- sha256 of model + normalized text
+            cache_key TEXT PRIMARY KEY,
+            model TEXT NOT NULL,
+            dimensions INTEGER NOT NULL,
+            embedding DOUBLE PRECISION[] NOT NULL,
+            created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+        )
+      `, 'Creating embedding_cache table');
+
+      await executeSqlSafely(client, `
+        CREATE TABLE IF NOT EXISTS prompt_templates (
+            id UUID PRIMARY KEY,
+            -- Collection and intent scope, '*' matches any
+            collection VARCHAR(50) NOT NULL DEFAULT '*',
+            intent VARCHAR(50) NOT NULL DEFAULT '*',
+            version INTEGER NOT NULL,
+            template TEXT NOT NULL,
+            description TEXT,
+            active BOOLEAN NOT NULL DEFAULT FALSE,
+            created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+            CONSTRAINT unique_prompt_template_version UNIQUE (collection, intent, version)
+        )
+      `, 'Creating prompt_templates table');
+
+      await executeSqlSafely(client, `
+        CREATE TABLE IF NOT EXISTS answer_feedback (
+            id UUID PRIMARY KEY,
+            -- Matches query_stats.response_id
+            response_id TEXT NOT NULL,
+            platform VARCHAR(20) NOT NULL CHECK (platform IN ('api', 'slack', 'teams')),
+            user_id TEXT NOT NULL,
+            rating VARCHAR(20) NOT NULL CHECK (rating IN ('helpful', 'not_helpful')),
+            reason VARCHAR(50) CHECK (reason IN ('incorrect', 'incomplete', 'outdated', 'wrong_sources', 'other')),
+            comment TEXT,
+            created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+            updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+            CONSTRAINT unique_answer_feedback_user UNIQUE (response_id, user_id)
+        )
+      `, 'Creating answer_feedback table');
+
+      await executeSqlSafely(client, `
+        CREATE TABLE IF NOT EXISTS curated_answers (
+            id UUID PRIMARY KEY,
+            question TEXT NOT NULL,
+            -- Other phrasings of the question that should get the same answer
+            variants TEXT[] NOT NULL DEFAULT '{}',
+            answer TEXT NOT NULL,
+            summary TEXT NOT NULL,
+            citations JSONB NOT NULL DEFAULT '[]',
+            -- Collection scope, '*' matches any
+            collection VARCHAR(50) NOT NULL DEFAULT '*',
+            expires_at TIMESTAMP WITH TIME ZONE,
+            created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+            updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+        )
+      `, 'Creating curated_answers table');
+
+      await executeSqlSafely(client, `
+        CREATE TABLE IF NOT EXISTS crawled_pages (
+            url TEXT PRIMARY KEY,
+            collection VARCHAR(50) NOT NULL,
+            -- sha256 of the extracted page content and of each chunk
+            content_hash CHAR(64) NOT NULL,
+            chunk_hashes TEXT[] NOT NULL DEFAULT '{}',
+            -- Links followed when the page answers 304 Not Modified
+            links TEXT[] NOT NULL DEFAULT '{}',
+            etag TEXT,
+            last_modified TEXT,
+            -- Removed pages are kept as tombstones
+            status VARCHAR(20) NOT NULL DEFAULT 'active' CHECK (status IN ('active', 'removed')),
+            last_crawled_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+            last_changed_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+            removed_at TIMESTAMP WITH TIME ZONE
+        )
+      `, 'Creating crawled_pages table');
+
       // Verify documents table structure before creating indexes
       console.log('🔍 Verifying documents table structure...');
       const columnsResult = await client.query(`
@@ -246,7 +366,16 @@ async function runMigrations(): Promise<MigrationResult> {
         { name: 'idx_documents_collection', sql: 'CREATE INDEX IF NOT EXISTS idx_documents_collection ON documents (collection)' },
         { name: 'idx_documents_chunks', sql: 'CREATE INDEX IF NOT EXISTS idx_documents_chunks ON documents (url, chunk_index)' },
         { name: 'idx_documents_created_at', sql: 'CREATE INDEX IF NOT EXISTS idx_documents_created_at ON documents (created_at)' },
-        { name: 'idx_documents_updated_at', sql: 'CREATE INDEX IF NOT EXISTS idx_documents_updated_at ON documents (updated_at)' }
+        { name: 'idx_documents_updated_at', sql: 'CREATE INDEX IF NOT EXISTS idx_documents_updated_at ON documents (updated_at)' },
+        { name: 'idx_embedding_cache_model', sql: 'CREATE INDEX IF NOT EXISTS idx_embedding_cache_model ON embedding_cache (model)' },
+        { name: 'idx_prompt_templates_active', sql: 'CREATE INDEX IF NOT EXISTS idx_prompt_templates_active ON prompt_templates (collection, intent) WHERE active' },
+        { name: 'idx_query_stats_created_at', sql: 'CREATE INDEX IF NOT EXISTS idx_query_stats_created_at ON query_stats (created_at)' },
+        { name: 'idx_query_stats_platform', sql: 'CREATE INDEX IF NOT EXISTS idx_query_stats_platform ON query_stats (platform, created_at)' },
+        { name: 'idx_query_stats_query_hash', sql: 'CREATE INDEX IF NOT EXISTS idx_query_stats_query_hash ON query_stats (query_hash)' },
+        { name: 'idx_query_stats_response_id', sql: 'CREATE INDEX IF NOT EXISTS idx_query_stats_response_id ON query_stats (response_id) WHERE response_id IS NOT NULL' },
+        { name: 'idx_answer_feedback_rating', sql: 'CREATE INDEX IF NOT EXISTS idx_answer_feedback_rating ON answer_feedback (rating, created_at)' },
+        { name: 'idx_curated_answers_collection', sql: 'CREATE INDEX IF NOT EXISTS idx_curated_answers_collection ON curated_answers (collection)' },
+        { name: 'idx_crawled_pages_collection', sql: 'CREATE INDEX IF NOT EXISTS idx_crawled_pages_collection ON crawled_pages (collection, status)' }
       ];
 
       for (const index of indexes) {
@@ -254,11 +383,12 @@ async function runMigrations(): Promise<MigrationResult> {
       }
 
       // Create functions and triggers
+      const textSearchConfig = await resolveTextSearchConfig(client);
       await executeSqlSafely(client, `
         CREATE OR REPLACE FUNCTION update_document_search_vector()
         RETURNS TRIGGER AS $$
         BEGIN
-            NEW.search_vector := to_tsvector('english',
+            NEW.search_vector := to_tsvector('${textSearchConfig}',
                 COALESCE(NEW.title, '') || ' ' ||
                 COALESCE(NEW.content, '') || ' ' ||
                 COALESCE(NEW.section, '') || ' ' ||
@@ -379,7 +509,7 @@ async function runMigrations(): Promise<MigrationResult> {
         SELECT table_name 
         FROM information_schema.tables 
         WHERE table_schema = 'public' 
-          AND table_name IN ('documents', 'query_stats', 'processing_jobs')
+          AND table_name IN ('documents', 'query_stats', 'processing_jobs', 'embedding_cache', 'prompt_templates', 'answer_feedback', 'curated_answers', 'crawled_pages')
         ORDER BY table_name
       `);
 
@@ -500,7 +630,7 @@ async function getDatabaseStats(client: PoolClient): Promise<Record<string, unkn
         pg_total_relation_size(schemaname||'.'||tablename) as size_bytes
       FROM pg_tables 
       WHERE schemaname = 'public'
-        AND tablename IN ('documents', 'query_stats', 'processing_jobs')
+        AND tablename IN ('documents', 'query_stats', 'processing_jobs', 'embedding_cache', 'prompt_templates', 'answer_feedback', 'curated_answers', 'crawled_pages')
       ORDER BY size_bytes DESC
     `);
 
@@ -512,7 +642,7 @@ async function getDatabaseStats(client: PoolClient): Promise<Record<string, unkn
         indexdef
       FROM pg_indexes 
       WHERE schemaname = 'public'
-        AND tablename IN ('documents', 'query_stats', 'processing_jobs')
+        AND tablename IN ('documents', 'query_stats', 'processing_jobs', 'embedding_cache', 'prompt_templates', 'answer_feedback', 'curated_answers', 'crawled_pages')
       ORDER BY tablename, indexname
     `);
 
@@ -530,6 +660,149 @@ async function getDatabaseStats(client: PoolClient): Promise<Record<string, unkn
   }
 }
 
+/**
+ * Use TEXT_SEARCH_CONFIG for search_vector when it exists; the glossary command creates it
+ */
+async function resolveTextSearchConfig(client: PoolClient): Promise<string> {
+  const result = await client.query('SELECT 1 FROM pg_ts_config WHERE cfgname = $1', [config.TEXT_SEARCH_CONFIG]);
+
+  if (result.rows.length === 0) {
+    console.warn(`⚠️  Text search configuration "${config.TEXT_SEARCH_CONFIG}" not found, using "english" - run the glossary command to create it`);
+    return 'english';
+  }
+
+  return config.TEXT_SEARCH_CONFIG;
+}
+
+/**
+ * Locate the server's tsearch_data directory (--tsearch-dir=<path> or pg_config on the database host)
+ */
+function resolveTsearchDir(args: string[]): string {
+  const option = args.find(arg => arg.startsWith('--tsearch-dir='));
+  if (option) {
+    return option.substring('--tsearch-dir='.length);
+  }
+
+  const shareDir = execSync('pg_config --sharedir', { encoding: 'utf8' }).trim();
+  return path.join(shareDir, 'tsearch_data');
+}
+
+/**
+ * Generate the synonym dictionary from the query glossary, create the powerschool text
+ * search configuration that uses it, and rebuild search_vector with it. Must run where the
+ * Postgres server's share directory is writable, since dictionaries are read from files.
+ */
+async function migrateGlossary(args: string[]): Promise<MigrationResult> {
+  const thesaurus = getGlossary(config.GLOSSARY_PATH).toThesaurus();
+  const entries = thesaurus.split('\n').filter(line => line && !line.startsWith('#')).length;
+
+  let dictionaryFile: string;
+  try {
+    dictionaryFile = path.join(resolveTsearchDir(args), `${GLOSSARY_DICTIONARY}.ths`);
+    writeFileSync(dictionaryFile, thesaurus);
+    console.log(`📝 Wrote ${entries} glossary mappings to ${dictionaryFile}`);
+  } catch (error) {
+    const fallbackFile = path.resolve(`${GLOSSARY_DICTIONARY}.ths`);
+    writeFileSync(fallbackFile, thesaurus);
+
+    return {
+      success: false,
+      message: `Could not write the dictionary file into the Postgres share directory: ${error instanceof Error ? error.message : String(error)}`,
+      details: {
+        generatedFile: fallbackFile,
+        nextStep: 'Copy it to $(pg_config --sharedir)/tsearch_data/ on the database host, then rerun with --tsearch-dir=<that directory>',
+      },
+    };
+  }
+
+  const pool = new Pool({
+    connectionString: config.DATABASE_URL,
+    max: 2,
+    connectionTimeoutMillis: 10000,
+  });
+
+  try {
+    const client = await pool.connect();
+
+    try {
+      await client.query('BEGIN');
+
+      await executeSqlSafely(client, `
+        DROP TEXT SEARCH CONFIGURATION IF EXISTS ${GLOSSARY_TEXT_SEARCH_CONFIG};
+        DROP TEXT SEARCH DICTIONARY IF EXISTS ${GLOSSARY_DICTIONARY};
+        CREATE TEXT SEARCH DICTIONARY ${GLOSSARY_DICTIONARY} (
+            TEMPLATE = thesaurus,
+            DictFile = ${GLOSSARY_DICTIONARY},
+            Dictionary = english_stem
+        );
+        CREATE TEXT SEARCH CONFIGURATION ${GLOSSARY_TEXT_SEARCH_CONFIG} (COPY = english);
+        ALTER TEXT SEARCH CONFIGURATION ${GLOSSARY_TEXT_SEARCH_CONFIG}
+            ALTER MAPPING FOR asciiword, asciihword, hword_asciipart, word, hword, hword_part
+            WITH ${GLOSSARY_DICTIONARY}, english_stem
+      `, `Creating ${GLOSSARY_TEXT_SEARCH_CONFIG} text search configuration`);
+
+      await executeSqlSafely(client, `
+        CREATE OR REPLACE FUNCTION update_document_search_vector()
+        RETURNS TRIGGER AS $$
+        BEGIN
+            NEW.search_vector := to_tsvector('${GLOSSARY_TEXT_SEARCH_CONFIG}',
+                COALESCE(NEW.title, '') || ' ' ||
+                COALESCE(NEW.content, '') || ' ' ||
+                COALESCE(NEW.section, '') || ' ' ||
+                COALESCE(NEW.subsection, '')
+            );
+            NEW.updated_at := NOW();
+            RETURN NEW;
+        END;
+        $$ LANGUAGE plpgsql
+      `, 'Updating update_document_search_vector function');
+
+      // Rebuild existing vectors without the trigger so updated_at is preserved
+      await executeSqlSafely(client, `
+        ALTER TABLE documents DISABLE TRIGGER trigger_update_document_search_vector;
+        UPDATE documents SET search_vector = to_tsvector('${GLOSSARY_TEXT_SEARCH_CONFIG}',
+            COALESCE(title, '') || ' ' ||
+            COALESCE(content, '') || ' ' ||
+            COALESCE(section, '') || ' ' ||
+            COALESCE(subsection, '')
+        );
+        ALTER TABLE documents ENABLE TRIGGER trigger_update_document_search_vector
+      `, 'Rebuilding document search vectors');
+
+      await client.query('COMMIT');
+
+      if (config.TEXT_SEARCH_CONFIG !== GLOSSARY_TEXT_SEARCH_CONFIG) {
+        console.warn(`⚠️  Set TEXT_SEARCH_CONFIG=${GLOSSARY_TEXT_SEARCH_CONFIG} so keyword search queries use the same configuration`);
+      }
+
+      return {
+        success: true,
+        message: 'Glossary synonym dictionary installed',
+        details: {
+          dictionaryFile,
+          mappings: entries,
+          textSearchConfig: GLOSSARY_TEXT_SEARCH_CONFIG,
+        },
+      };
+
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+
+  } catch (error) {
+    return {
+      success: false,
+      message: error instanceof Error ? error.message : 'Glossary migration failed',
+      details: { originalError: error },
+    };
+  } finally {
+    await pool.end();
+  }
+}
+
 /**
  * Rollback migrations (drops all tables - USE WITH CAUTION)
  */
@@ -999,6 +1272,11 @@ async function main(): Promise<void> {
       result = await migrateCollectionField();
       break;
 
+    case 'glossary':
+    case 'synonyms':
+      result = await migrateGlossary(args.slice(1));
+      break;
+
     default:
       console.error(`❌ Unknown command: ${command}`);
       console.log('Available commands:');
@@ -1006,6 +1284,7 @@ async function main(): Promise<void> {
       console.log('  rollback, down        - Rollback migrations (drops all tables)');
       console.log('  migrate-dimensions    - Migrate vector dimensions (clears data)');
       console.log('  migrate-collection    - Add collection field to existing database');
+      console.log('  glossary              - Install the glossary synonym dictionary [--tsearch-dir=<path>]');
       process.exit(1);
   }
 
@@ -7,6 +7,7 @@ import { v4 as uuidv4 } from 'uuid';
 import { PowerSchoolCrawler } from '@/core/crawler/powerschool-crawler';
 import { PostgresVectorAdapter } from '@/adapters/vector-store/postgres';
 import { createEmbeddingAdapter } from '@/adapters/embedding';
+import { PostgresCrawledPageStore } from '@/core/seeding/crawledPages';
 import type { VectorDocument } from '@/types';
 import config from '@/utils/config';
 
@@ -326,6 +327,18 @@ async function seedDatabase(): Promise<SeedResult> {
   }
 }
 
+/**
+ * Forget per-page crawl state so the next crawl stores every page again
+ */
+async function clearCrawlState(): Promise<void> {
+  const pageStore = new PostgresCrawledPageStore({ connectionString: config.DATABASE_URL });
+  try {
+    await pageStore.clear();
+  } finally {
+    await pageStore.close();
+  }
+}
+
 /**
  * Clear database function
  */
@@ -349,6 +362,7 @@ async function clearDatabase(): Promise<SeedResult> {
     console.log(`📊 Documents before clearing: ${beforeCount}`);
 
     if (beforeCount === 0) {
+      await clearCrawlState();
       return {
         success: true,
         message: 'Database is already empty',
@@ -361,6 +375,7 @@ async function clearDatabase(): Promise<SeedResult> {
     await new Promise(resolve => setTimeout(resolve, 5000));
 
     await vectorStore.clear();
+    await clearCrawlState();
     
     const afterCount = await vectorStore.count();
     console.log(`✅ Database cleared successfully`);
@@ -507,6 +522,7 @@ async function seedCollection(collectionName: CollectionName): Promise<SeedResul
           pagesCrawled: result.pagesCrawled,
           chunksInserted: result.chunksInserted,
           duration_ms: result.duration_ms,
+          ...(result.changes && { changes: result.changes }),
           startTime,
           endTime,
           ...(result.errors && { errors: result.errors }),
@@ -87,17 +87,28 @@ CREATE INDEX IF NOT EXISTS idx_documents_updated_at ON documents (updated_at);
 -- Query statistics table for monitoring and analytics
 CREATE TABLE IF NOT EXISTS query_stats (
     id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
-    query_text TEXT NOT NULL,
+    -- NULL when QUERY_STATS_STORE_TEXT=false
+    query_text TEXT,
+    -- sha256 of the normalized query, for grouping repeated questions
+    query_hash CHAR(64),
+    -- Response or context id the answer was sent with, for linking feedback
+    response_id TEXT,
     user_id TEXT,
+    platform VARCHAR(20) DEFAULT 'api' CHECK (platform IN ('api', 'slack', 'teams')),
+    collection VARCHAR(50),
     
     -- Query performance metrics
     embedding_time_ms INTEGER,
     search_time_ms INTEGER,
+    llm_time_ms INTEGER,
     total_time_ms INTEGER,
     
     -- Search results metadata
     results_count INTEGER NOT NULL DEFAULT 0,
     top_score DECIMAL(5,4),
+    is_fallback BOOLEAN NOT NULL DEFAULT false,
+    fallback_reason VARCHAR(50),
+    cached BOOLEAN NOT NULL DEFAULT false,
     
     -- Query classification
     query_type VARCHAR(50) DEFAULT 'unknown' CHECK (query_type IN ('feature', 'configuration', 'troubleshooting', 'general', 'unknown')),
@@ -114,6 +125,9 @@ CREATE INDEX IF NOT EXISTS idx_query_stats_user_id ON query_stats (user_id) WHER
 CREATE INDEX IF NOT EXISTS idx_query_stats_created_at ON query_stats (created_at);
 CREATE INDEX IF NOT EXISTS idx_query_stats_query_type ON query_stats (query_type);
 CREATE INDEX IF NOT EXISTS idx_query_stats_performance ON query_stats (total_time_ms, results_count);
+CREATE INDEX IF NOT EXISTS idx_query_stats_platform ON query_stats (platform, created_at);
+CREATE INDEX IF NOT EXISTS idx_query_stats_query_hash ON query_stats (query_hash);
+CREATE INDEX IF NOT EXISTS idx_query_stats_response_id ON query_stats (response_id) WHERE response_id IS NOT NULL;
 
 -- Document processing jobs table for crawling and indexing
 CREATE TABLE IF NOT EXISTS processing_jobs (
@@ -135,6 +149,8 @@ CREATE TABLE IF NOT EXISTS processing_jobs (
     -- Timing information
     started_at TIMESTAMP WITH TIME ZONE,
     completed_at TIMESTAMP WITH TIME ZONE,
+    -- Refreshed by the worker running the job; a stale heartbeat means the worker is gone
+    heartbeat_at TIMESTAMP WITH TIME ZONE,
     created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
     
     CONSTRAINT valid_progress CHECK (progress_current >= 0 AND progress_total >= 0)
@@ -145,6 +161,91 @@ CREATE INDEX IF NOT EXISTS idx_processing_jobs_status ON processing_jobs (status
 CREATE INDEX IF NOT EXISTS idx_processing_jobs_type_status ON processing_jobs (job_type, status);
 CREATE INDEX IF NOT EXISTS idx_processing_jobs_created_at ON processing_jobs (created_at);
 
+-- Embedding cache so unchanged chunks and repeated queries are not re-embedded
+CREATE TABLE IF NOT EXISTS embedding_cache (
+    -- sha256 of model + normalized text
+    cache_key TEXT PRIMARY KEY,
+    model TEXT NOT NULL,
+    dimensions INTEGER NOT NULL,
+    embedding DOUBLE PRECISION[] NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_embedding_cache_model ON embedding_cache (model);
+
+-- Versioned system prompt templates, scoped per collection and intent
+CREATE TABLE IF NOT EXISTS prompt_templates (
+    id UUID PRIMARY KEY,
+    -- Collection and intent scope, '*' matches any
+    collection VARCHAR(50) NOT NULL DEFAULT '*',
+    intent VARCHAR(50) NOT NULL DEFAULT '*',
+    version INTEGER NOT NULL,
+    template TEXT NOT NULL,
+    description TEXT,
+    active BOOLEAN NOT NULL DEFAULT FALSE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+    CONSTRAINT unique_prompt_template_version UNIQUE (collection, intent, version)
+);
+
+CREATE INDEX IF NOT EXISTS idx_prompt_templates_active ON prompt_templates (collection, intent) WHERE active;
+
+-- Helpful / not-helpful ratings from Slack and Teams, one per response and user
+CREATE TABLE IF NOT EXISTS answer_feedback (
+    id UUID PRIMARY KEY,
+    -- Matches query_stats.response_id
+    response_id TEXT NOT NULL,
+    platform VARCHAR(20) NOT NULL CHECK (platform IN ('api', 'slack', 'teams')),
+    user_id TEXT NOT NULL,
+    rating VARCHAR(20) NOT NULL CHECK (rating IN ('helpful', 'not_helpful')),
+    reason VARCHAR(50) CHECK (reason IN ('incorrect', 'incomplete', 'outdated', 'wrong_sources', 'other')),
+    comment TEXT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+    CONSTRAINT unique_answer_feedback_user UNIQUE (response_id, user_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_answer_feedback_rating ON answer_feedback (rating, created_at);
+
+-- Admin-approved answers returned instead of a generated one when a question matches
+CREATE TABLE IF NOT EXISTS curated_answers (
+    id UUID PRIMARY KEY,
+    question TEXT NOT NULL,
+    -- Other phrasings of the question that should get the same answer
+    variants TEXT[] NOT NULL DEFAULT '{}',
+    answer TEXT NOT NULL,
+    summary TEXT NOT NULL,
+    citations JSONB NOT NULL DEFAULT '[]',
+    -- Collection scope, '*' matches any
+    collection VARCHAR(50) NOT NULL DEFAULT '*',
+    expires_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_curated_answers_collection ON curated_answers (collection);
+
+-- Per-page crawl state so re-crawls only re-embed pages that changed
+CREATE TABLE IF NOT EXISTS crawled_pages (
+    url TEXT PRIMARY KEY,
+    collection VARCHAR(50) NOT NULL,
+    -- sha256 of the extracted page content and of each chunk
+    content_hash CHAR(64) NOT NULL,
+    chunk_hashes TEXT[] NOT NULL DEFAULT '{}',
+    -- Links followed when the page answers 304 Not Modified
+    links TEXT[] NOT NULL DEFAULT '{}',
+    etag TEXT,
+    last_modified TEXT,
+    -- Removed pages are kept as tombstones
+    status VARCHAR(20) NOT NULL DEFAULT 'active' CHECK (status IN ('active', 'removed')),
+    last_crawled_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    last_changed_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    removed_at TIMESTAMP WITH TIME ZONE
+);
+
+CREATE INDEX IF NOT EXISTS idx_crawled_pages_collection ON crawled_pages (collection, status);
+
 -- Function to update search_vector automatically
 CREATE OR REPLACE FUNCTION update_document_search_vector()
 RETURNS TRIGGER AS $$
@@ -0,0 +1,271 @@
+/**
+ * Embedding cache decorator with an in-memory LRU tier and a Postgres tier
+ * Avoids re-embedding unchanged chunks on reseed and repeated queries
+ */
+
+import { createHash } from 'crypto';
+import { Pool } from 'pg';
+import type { EmbeddingAdapter } from '@/types';
+import config from '@/utils/config';
+import { metrics, MetricNames } from '@/utils/metrics';
+
+export interface EmbeddingCacheRecord {
+  key: string;
+  model: string;
+  embedding: number[];
+}
+
+/**
+ * Persistent tier for cached embeddings
+ */
+export interface EmbeddingCacheStore {
+  getMany(keys: string[]): Promise<Map<string, number[]>>;
+  setMany(records: EmbeddingCacheRecord[]): Promise<void>;
+}
+
+/**
+ * Build a cache key from the model and whitespace-normalized text
+ */
+export function createEmbeddingCacheKey(model: string, text: string): string {
+  const normalized = text.normalize('NFC').replace(/\s+/g, ' ').trim();
+  return createHash('sha256').update(`${model}\n${normalized}`).digest('hex');
+}
+
+/**
+ * Least-recently-used in-memory embedding cache
+ */
+export class EmbeddingLRUCache {
+  private entries = new Map<string, number[]>();
+
+  constructor(private readonly maxEntries: number = 10000) {}
+
+  get(key: string): number[] | undefined {
+    const embedding = this.entries.get(key);
+    if (embedding) {
+      // Re-insert to mark as most recently used
+      this.entries.delete(key);
+      this.entries.set(key, embedding);
+    }
+    return embedding;
+  }
+
+  set(key: string, embedding: number[]): void {
+    this.entries.delete(key);
+    this.entries.set(key, embedding);
+
+    while (this.entries.size > this.maxEntries) {
+      const oldestKey = this.entries.keys().next().value as string | undefined;
+      if (oldestKey === undefined) break;
+      this.entries.delete(oldestKey);
+    }
+  }
+
+  get size(): number {
+    return this.entries.size;
+  }
+
+  clear(): void {
+    this.entries.clear();
+  }
+}
+
+export interface PostgresEmbeddingCacheOptions {
+  connectionString?: string;
+  tableName?: string;
+  poolSize?: number;
+}
+
+/**
+ * Postgres-backed embedding cache tier (see the embedding_cache table in sql/schema.sql)
+ */
+export class PostgresEmbeddingCacheStore implements EmbeddingCacheStore {
+  private readonly pool: Pool;
+  private readonly tableName: string;
+  private disabled = false;
+
+  constructor(options: PostgresEmbeddingCacheOptions = {}) {
+    this.tableName = options.tableName || 'embedding_cache';
+    this.pool = new Pool({
+      connectionString: options.connectionString || config.DATABASE_URL,
+      max: options.poolSize || 2,
+      connectionTimeoutMillis: 5000,
+    });
+
+    this.pool.on('error', (err) => {
+      console.error('[EmbeddingCache] Unexpected Postgres pool error', err.message);
+    });
+  }
+
+  async getMany(keys: string[]): Promise<Map<string, number[]>> {
+    const found = new Map<string, number[]>();
+    if (this.disabled || keys.length === 0) {
+      return found;
+    }
+
+    try {
+      const result = await this.pool.query(
+        `SELECT cache_key, embedding FROM ${this.tableName} WHERE cache_key = ANY($1)`,
+        [keys]
+      );
+
+      for (const row of result.rows) {
+        found.set(row.cache_key, (row.embedding as Array<number | string>).map(Number));
+      }
+    } catch (error) {
+      this.handleError('read', error);
+    }
+
+    return found;
+  }
+
+  async setMany(records: EmbeddingCacheRecord[]): Promise<void> {
+    if (this.disabled || records.length === 0) {
+      return;
+    }
+
+    try {
+      const values: unknown[] = [];
+      const rows = records.map((record, index) => {
+        values.push(record.key, record.model, record.embedding.length, record.embedding);
+        const base = index * 4;
+        return `($${base + 1}, $${base + 2}, $${base + 3}, $${base + 4})`;
+      });
+
+      await this.pool.query(
+        `INSERT INTO ${this.tableName} (cache_key, model, dimensions, embedding)
+         VALUES ${rows.join(', ')}
+         ON CONFLICT (cache_key) DO NOTHING`,
+        values
+      );
+    } catch (error) {
+      this.handleError('write', error);
+    }
+  }
+
+  async close(): Promise<void> {
+    await this.pool.end();
+  }
+
+  /**
+   * The cache must never break embedding; stop using a missing table after the first failure
+   */
+  private handleError(operation: 'read' | 'write', error: unknown): void {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+
+    if (/relation .* does not exist/i.test(message)) {
+      this.disabled = true;
+      console.warn('[EmbeddingCache] embedding_cache table missing, Postgres tier disabled - run the migration to enable it');
+      return;
+    }
+
+    console.warn(`[EmbeddingCache] Postgres ${operation} failed`, { error: message });
+  }
+}
+
+export interface CachedEmbeddingOptions {
+  memory?: EmbeddingLRUCache;
+  store?: EmbeddingCacheStore | null;
+}
+
+/**
+ * Decorates any EmbeddingAdapter with a two-tier cache keyed by model + normalized text
+ */
+export class CachedEmbeddingAdapter implements EmbeddingAdapter {
+  private readonly memory: EmbeddingLRUCache;
+  private readonly store: EmbeddingCacheStore | null;
+
+  constructor(
+    private readonly inner: EmbeddingAdapter,
+    options: CachedEmbeddingOptions = {}
+  ) {
+    this.memory = options.memory || new EmbeddingLRUCache();
+    this.store = options.store ?? null;
+  }
+
+  async embed(text: string): Promise<number[]> {
+    const [embedding] = await this.embedBatch([text]);
+    return embedding!;
+  }
+
+  async embedBatch(texts: string[]): Promise<number[][]> {
+    const model = this.inner.getModel();
+    const keys = texts.map(text => createEmbeddingCacheKey(model, text));
+    const results: Array<number[] | undefined> = keys.map(key => this.memory.get(key));
+
+    this.recordHits('memory', results.filter(Boolean).length);
+
+    // Second tier: Postgres
+    let missingKeys = this.uniqueMissingKeys(keys, results);
+    if (this.store && missingKeys.length > 0) {
+      const stored = await this.store.getMany(missingKeys);
+      keys.forEach((key, index) => {
+        const embedding = stored.get(key);
+        if (!results[index] && embedding) {
+          results[index] = embedding;
+          this.memory.set(key, embedding);
+        }
+      });
+      this.recordHits('postgres', stored.size);
+      missingKeys = this.uniqueMissingKeys(keys, results);
+    }
+
+    if (missingKeys.length === 0) {
+      return results as number[][];
+    }
+
+    metrics.incrementCounter(MetricNames.EMBEDDING_CACHE_MISSES_TOTAL, { model }, missingKeys.length);
+
+    console.debug('[EmbeddingCache] Embedding cache misses', {
+      model,
+      requested: texts.length,
+      misses: missingKeys.length
+    });
+
+    // Embed each distinct missing text once
+    const missingTexts = missingKeys.map(key => texts[keys.indexOf(key)]!);
+    const embeddings = missingTexts.length === 1
+      ? [await this.inner.embed(missingTexts[0]!)]
+      : await this.inner.embedBatch(missingTexts);
+
+    const records: EmbeddingCacheRecord[] = missingKeys.map((key, index) => ({
+      key,
+      model,
+      embedding: embeddings[index]!,
+    }));
+
+    // Read back from the fresh embeddings: the LRU may already have evicted them (or hold none)
+    const computed = new Map(records.map(record => [record.key, record.embedding]));
+    for (const record of records) {
+      this.memory.set(record.key, record.embedding);
+    }
+    keys.forEach((key, index) => {
+      if (!results[index]) {
+        results[index] = computed.get(key);
+      }
+    });
+
+    if (this.store) {
+      await this.store.setMany(records);
+    }
+
+    return results as number[][];
+  }
+
+  getDimensions(): number {
+    return this.inner.getDimensions();
+  }
+
+  getModel(): string {
+    return this.inner.getModel();
+  }
+
+  private uniqueMissingKeys(keys: string[], results: Array<number[] | undefined>): string[] {
+    return Array.from(new Set(keys.filter((_, index) => !results[index])));
+  }
+
+  private recordHits(tier: 'memory' | 'postgres', count: number): void {
+    if (count > 0) {
+      metrics.incrementCounter(MetricNames.EMBEDDING_CACHE_HITS_TOTAL, { tier, model: this.inner.getModel() }, count);
+    }
+  }
+}
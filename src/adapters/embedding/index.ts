@@ -7,10 +7,44 @@ export { OpenAIEmbeddingAdapter, type OpenAIEmbeddingOptions } from './openai';
 export { OpenRouterEmbeddingAdapter, type OpenRouterEmbeddingOptions } from './openrouter';
 export { BedrockEmbeddingAdapter, type BedrockEmbeddingOptions } from './bedrock';
 export { LocalEmbeddingAdapter, LocalEmbeddingFactory, type LocalEmbeddingOptions } from './local';
+export {
+  CachedEmbeddingAdapter,
+  EmbeddingLRUCache,
+  PostgresEmbeddingCacheStore,
+  createEmbeddingCacheKey,
+  type CachedEmbeddingOptions,
+  type EmbeddingCacheStore,
+  type EmbeddingCacheRecord,
+  type PostgresEmbeddingCacheOptions,
+} from './cache';
 
 // Re-export types from the main types module
 export type { EmbeddingAdapter } from '@/types';
 import type { EmbeddingAdapter } from '@/types';
+import config from '@/utils/config';
+import { CachedEmbeddingAdapter, EmbeddingLRUCache, PostgresEmbeddingCacheStore } from './cache';
+
+// Shared across adapters so API, Slack, Teams and seeding reuse the same cache tiers
+let sharedMemoryCache: EmbeddingLRUCache | null = null;
+let sharedCacheStore: PostgresEmbeddingCacheStore | null = null;
+
+/**
+ * Wrap a provider adapter with the shared embedding cache when enabled.
+ * The local adapter is deterministic and cheap, so it is never cached.
+ */
+function withEmbeddingCache(adapter: EmbeddingAdapter, provider: string): EmbeddingAdapter {
+  if (!config.EMBEDDING_CACHE_ENABLED || provider === 'local') {
+    return adapter;
+  }
+
+  sharedMemoryCache ??= new EmbeddingLRUCache(config.EMBEDDING_CACHE_MAX_ENTRIES);
+  sharedCacheStore ??= new PostgresEmbeddingCacheStore({ connectionString: config.DATABASE_URL });
+
+  return new CachedEmbeddingAdapter(adapter, {
+    memory: sharedMemoryCache,
+    store: sharedCacheStore,
+  });
+}
 
 /**
  * Default embedding adapter factory function with fallback for testing
@@ -22,7 +56,8 @@ export async function createEmbeddingAdapter(
   const { EmbeddingAdapterFactory } = await import('./base');
   
   try {
-    return EmbeddingAdapterFactory.create(provider, options);
+    return EmbeddingAdapterFactory.create(provider, options)
+      .then(adapter => withEmbeddingCache(adapter, provider));
   } catch (error) {
     // If primary provider fails, fall back to local for testing
     console.warn(`Primary embedding provider '${provider}' failed, falling back to local adapter for testing:`, error instanceof Error ? error.message : 'Unknown error');
@@ -1,8 +1,10 @@
 /**
- * Anthropic LLM adapter implementation (placeholder)
+ * Anthropic LLM adapter implementation
  */
 
+import axios, { type AxiosInstance } from 'axios';
 import { BaseLLMAdapter } from './base';
+import config from '@/utils/config';
 import { RAGError } from '@/types';
 import type { ChatMessage, GenerateOptions } from '@/types';
 
@@ -10,43 +12,164 @@ export interface AnthropicLLMOptions {
   apiKey?: string;
   model?: string;
   baseUrl?: string;
+  /** Output token limit; defaults to the model's */
   maxTokens?: number;
+  /** Prompt + output window; defaults to the model's */
+  contextWindow?: number;
+  timeout?: number;
   defaultOptions?: Partial<GenerateOptions>;
 }
 
 /**
- * Anthropic Claude LLM adapter (placeholder implementation)
+ * Anthropic Claude LLM adapter using the Messages API
  */
 export class AnthropicLLMAdapter extends BaseLLMAdapter {
+  private readonly client: AxiosInstance;
+  private readonly maxOutputTokens: number;
+
+  // Output limit and context window by model name prefix; the first match wins
+  private static readonly MODEL_CONFIGS = [
+    { prefix: 'claude-3-5', maxTokens: 8192, contextWindow: 200000 },
+    { prefix: 'claude-3', maxTokens: 4096, contextWindow: 200000 },
+    { prefix: 'claude-2.1', maxTokens: 4096, contextWindow: 200000 },
+    { prefix: 'claude-2', maxTokens: 4096, contextWindow: 100000 },
+    { prefix: 'claude-instant', maxTokens: 4096, contextWindow: 100000 },
+  ] as const;
+
   constructor(options: AnthropicLLMOptions = {}) {
     const model = options.model || 'claude-3-sonnet-20240229';
-    const maxTokens = options.maxTokens || 4096;
+    const modelConfig = AnthropicLLMAdapter.MODEL_CONFIGS.find(entry => model.startsWith(entry.prefix));
+    const maxOutputTokens = options.maxTokens || modelConfig?.maxTokens || 4096;
 
-    super(model, maxTokens, {
-      max_tokens: 1500,
+    // The base class budgets prompts against the whole window, not the output limit
+    super(model, options.contextWindow || modelConfig?.contextWindow || 200000, {
+      max_tokens: Math.min(1500, maxOutputTokens),
       temperature: 0.1,
       top_p: 0.9,
       ...options.defaultOptions,
     });
+
+    this.maxOutputTokens = maxOutputTokens;
+
+    const apiKey = options.apiKey || config.ANTHROPIC_API_KEY;
+    if (!apiKey) {
+      throw new RAGError(
+        'Anthropic API key is required for LLM generation',
+        'MISSING_API_KEY'
+      );
+    }
+
+    this.client = axios.create({
+      baseURL: options.baseUrl || 'https://api.anthropic.com/v1',
+      timeout: options.timeout || 60000, // 60 seconds for LLM requests
+      headers: {
+        'x-api-key': apiKey,
+        'anthropic-version': '2023-06-01',
+        'Content-Type': 'application/json',
+      },
+    });
   }
 
   /**
-   * Generate response (placeholder implementation)
+   * Generate response from messages. Structured output requests force a single
+   * tool whose input schema is the requested format, and return its input as JSON.
    */
-  async generate(_messages: ChatMessage[], _options: GenerateOptions = {}): Promise<string> {
-    // Placeholder - would integrate with Anthropic API
-    throw new RAGError(
-      'Anthropic adapter not yet implemented',
-      'ADAPTER_NOT_IMPLEMENTED',
-      { provider: 'anthropic' }
-    );
+  async generate(messages: ChatMessage[], options: GenerateOptions = {}): Promise<string> {
+    this.validateMessages(messages);
+    const mergedOptions = this.mergeOptions(options);
+    this.validateTokenBudget(messages, mergedOptions);
+
+    const systemMessage = messages.find(m => m.role === 'system');
+    const format = mergedOptions.response_format;
+
+    try {
+      const response = await this.client.post('/messages', {
+        model: this.model,
+        messages: messages
+          .filter(m => m.role !== 'system')
+          .map(msg => ({
+            role: msg.role === 'assistant' ? 'assistant' : 'user',
+            content: msg.content,
+          })),
+        ...(systemMessage && { system: systemMessage.content }),
+        max_tokens: mergedOptions.max_tokens || 1500,
+        temperature: mergedOptions.temperature ?? 0.1,
+        ...(mergedOptions.stop && mergedOptions.stop.length > 0 && { stop_sequences: mergedOptions.stop }),
+        ...(format && {
+          tools: [{
+            name: format.name,
+            description: 'Return the complete answer in this structure',
+            input_schema: format.schema,
+          }],
+          tool_choice: { type: 'tool', name: format.name },
+        }),
+      });
+
+      const content: Array<{ type: string; text?: string; input?: unknown }> = response.data?.content || [];
+
+      if (format) {
+        const toolUse = content.find(block => block.type === 'tool_use');
+        if (!toolUse?.input) {
+          throw new RAGError(
+            'No structured output in Anthropic response',
+            'EMPTY_GENERATED_TEXT',
+            { stopReason: response.data?.stop_reason }
+          );
+        }
+        return JSON.stringify(toolUse.input);
+      }
+
+      const text = content
+        .filter(block => block.type === 'text')
+        .map(block => block.text || '')
+        .join('');
+
+      if (!text) {
+        throw new RAGError(
+          'No generated text in Anthropic response',
+          'EMPTY_GENERATED_TEXT'
+        );
+      }
+
+      return this.cleanResponse(text);
+
+    } catch (error) {
+      if (error instanceof RAGError) {
+        throw error;
+      }
+
+      if (axios.isAxiosError(error)) {
+        throw new RAGError(
+          `Anthropic API error: ${error.response?.data?.error?.message || error.message}`,
+          'ANTHROPIC_API_ERROR',
+          {
+            status: error.response?.status,
+            type: error.response?.data?.error?.type,
+          }
+        );
+      }
+
+      throw new RAGError(
+        `Failed to generate LLM response: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        'LLM_GENERATION_FAILED',
+        { originalError: error }
+      );
+    }
   }
 
   /**
    * Test connection
    */
   async testConnection(): Promise<boolean> {
-    return false; // Not implemented
+    try {
+      const response = await this.generate(
+        [{ role: 'user', content: 'Hello, can you respond with just "OK"?' }],
+        { max_tokens: 10 }
+      );
+      return response.trim().toLowerCase().includes('ok');
+    } catch {
+      return false;
+    }
   }
 
   /**
@@ -55,11 +178,12 @@ export class AnthropicLLMAdapter extends BaseLLMAdapter {
   getModelInfo() {
     return {
       model: this.model,
-      maxTokens: this.maxTokens,
+      maxTokens: this.maxOutputTokens,
       contextWindow: this.maxTokens,
       provider: 'anthropic',
-      supportsStreaming: true,
+      supportsStreaming: false,
       supportsSystemMessages: true,
+      supportsStructuredOutput: true,
     };
   }
-}
\ No newline at end of file
+}
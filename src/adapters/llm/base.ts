@@ -4,6 +4,7 @@
 
 import type { LLMAdapter, ChatMessage, GenerateOptions } from '@/types';
 import { RAGError } from '@/types';
+import { tokenCounter } from '@/utils/tokenizer';
 
 /**
  * Base abstract class for LLM adapters
@@ -95,15 +96,10 @@ export abstract class BaseLLMAdapter implements LLMAdapter {
   }
 
   /**
-   * Estimate token count for messages (rough approximation)
+   * Count prompt tokens for messages with this model's tokenizer
    */
   protected estimateTokenCount(messages: ChatMessage[]): number {
-    // Rough estimation: ~4 characters per token for English text
-    const totalChars = messages.reduce((sum, msg) => {
-      return sum + msg.content.length + msg.role.length + 10; // +10 for formatting
-    }, 0);
-
-    return Math.ceil(totalChars / 4);
+    return tokenCounter.countMessageTokens(messages, this.model);
   }
 
   /**
@@ -140,17 +136,17 @@ export abstract class BaseLLMAdapter implements LLMAdapter {
   }
 
   /**
-   * Handle streaming response (to be implemented by subclasses if needed)
+   * Generate response and report text deltas as they arrive.
+   * Adapters without native streaming emit the full response as a single chunk.
    */
-  protected async handleStream(
-    _messages: ChatMessage[],
-    _options: GenerateOptions,
-    _onChunk?: (chunk: string) => void
+  async generateStream(
+    messages: ChatMessage[],
+    options: GenerateOptions = {},
+    onChunk?: (chunk: string) => void
   ): Promise<string> {
-    throw new RAGError(
-      'Streaming not implemented for this LLM adapter',
-      'STREAMING_NOT_IMPLEMENTED'
-    );
+    const response = await this.generate(messages, options);
+    onChunk?.(response);
+    return response;
   }
 }
 
@@ -249,17 +245,10 @@ Remember: Base your response only on the provided context and always maintain a
   }
 
   /**
-   * Count tokens more accurately (simplified version)
+   * Count tokens with the tokenizer registered for a model
    */
-  static countTokens(text: string): number {
-    // More sophisticated token counting - still approximation
-    // In production, use tiktoken or similar library
-    // More sophisticated token counting - still approximation
-    // In production, use tiktoken or similar library
-    const avgCharsPerToken = 4;
-    const punctuationCount = (text.match(/[.,!?;:]/g) || []).length;
-    
-    return Math.ceil((text.length + punctuationCount) / avgCharsPerToken);
+  static countTokens(text: string, model?: string): number {
+    return tokenCounter.countTokens(text, model);
   }
 
   /**
@@ -268,7 +257,8 @@ Remember: Base your response only on the provided context and always maintain a
   static truncateMessages(
     messages: ChatMessage[],
     maxTokens: number,
-    reserveTokensForResponse: number = 1500
+    reserveTokensForResponse: number = 1500,
+    model?: string
   ): ChatMessage[] {
     const budget = maxTokens - reserveTokensForResponse;
     const truncatedMessages: ChatMessage[] = [];
@@ -276,7 +266,7 @@ Remember: Base your response only on the provided context and always maintain a
 
     // Always keep system message if present
     if (messages.length > 0 && messages[0]?.role === 'system') {
-      const systemTokens = LLMUtils.countTokens(messages[0].content);
+      const systemTokens = LLMUtils.countTokens(messages[0].content, model);
       truncatedMessages.push(messages[0]);
       currentTokens += systemTokens;
     }
@@ -286,7 +276,7 @@ Remember: Base your response only on the provided context and always maintain a
       const message = messages[i];
       if (!message) continue;
       
-      const messageTokens = LLMUtils.countTokens(message.content);
+      const messageTokens = LLMUtils.countTokens(message.content, model);
       
       if (currentTokens + messageTokens <= budget) {
         truncatedMessages.splice(messages[0]?.role === 'system' ? 1 : 0, 0, message);
@@ -4,14 +4,17 @@
 
 import {
   BedrockRuntimeClient,
+  ConverseCommand,
   InvokeModelCommand,
   InvokeModelCommandInput,
+  InvokeModelWithResponseStreamCommand,
+  type ToolInputSchema,
 } from '@aws-sdk/client-bedrock-runtime';
 import { fromEnv, fromIni, fromInstanceMetadata } from '@aws-sdk/credential-providers';
 import { BaseLLMAdapter } from './base';
 import config from '@/utils/config';
 import { RAGError } from '@/types';
-import type { ChatMessage, GenerateOptions } from '@/types';
+import type { ChatMessage, GenerateOptions, StructuredOutputFormat } from '@/types';
 
 export interface BedrockLLMOptions {
   accessKeyId?: string;
@@ -142,22 +145,12 @@ export class BedrockLLMAdapter extends BaseLLMAdapter {
     this.validateTokenBudget(messages, mergedOptions);
 
     try {
-      let requestBody: any;
-      
-      // Different models have different request formats
-      if (this.model.startsWith('anthropic.claude')) {
-        requestBody = this.buildAnthropicRequest(messages, mergedOptions);
-      } else if (this.model.startsWith('amazon.titan')) {
-        requestBody = this.buildTitanRequest(messages, mergedOptions);
-      } else if (this.model.startsWith('cohere.command')) {
-        requestBody = this.buildCohereRequest(messages, mergedOptions);
-      } else {
-        throw new RAGError(
-          `Unsupported model format: ${this.model}`,
-          'UNSUPPORTED_MODEL_FORMAT'
-        );
+      if (mergedOptions.response_format && this.supportsToolUse()) {
+        return await this.generateWithTool(messages, mergedOptions, mergedOptions.response_format);
       }
 
+      const requestBody = this.buildRequestBody(messages, mergedOptions);
+
       const input: InvokeModelCommandInput = {
         modelId: this.model,
         contentType: 'application/json',
@@ -253,6 +246,177 @@ export class BedrockLLMAdapter extends BaseLLMAdapter {
     }
   }
 
+  /**
+   * Generate streaming response using Bedrock's InvokeModelWithResponseStream API
+   */
+  override async generateStream(
+    messages: ChatMessage[],
+    options: GenerateOptions = {},
+    onChunk?: (chunk: string) => void
+  ): Promise<string> {
+    this.validateMessages(messages);
+    const mergedOptions = this.mergeOptions({ ...options, stream: true });
+    this.validateTokenBudget(messages, mergedOptions);
+
+    try {
+      const requestBody = this.buildRequestBody(messages, mergedOptions);
+
+      const command = new InvokeModelWithResponseStreamCommand({
+        modelId: this.model,
+        contentType: 'application/json',
+        accept: 'application/json',
+        body: JSON.stringify(requestBody),
+      });
+      const response = await this.client.send(command, {
+        ...(mergedOptions.signal && { abortSignal: mergedOptions.signal }),
+      });
+
+      if (!response.body) {
+        throw new RAGError(
+          'No response stream returned from Bedrock',
+          'EMPTY_LLM_RESPONSE'
+        );
+      }
+
+      const decoder = new TextDecoder();
+      let fullResponse = '';
+
+      for await (const event of response.body) {
+        if (!event.chunk?.bytes) continue;
+
+        const chunkJson = JSON.parse(decoder.decode(event.chunk.bytes));
+        const delta = this.extractStreamDelta(chunkJson);
+        if (delta) {
+          fullResponse += delta;
+          onChunk?.(delta);
+        }
+      }
+
+      if (!fullResponse) {
+        throw new RAGError(
+          'No generated text in Bedrock response stream',
+          'EMPTY_GENERATED_TEXT'
+        );
+      }
+
+      return this.cleanResponse(fullResponse);
+
+    } catch (error) {
+      if (error instanceof RAGError) {
+        throw error;
+      }
+
+      throw new RAGError(
+        `Failed to generate streaming LLM response: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        'LLM_STREAM_FAILED',
+        { originalError: error }
+      );
+    }
+  }
+
+  /**
+   * Claude 3 models support forced tool use through the Converse API
+   */
+  private supportsToolUse(): boolean {
+    return this.model.includes('claude-3');
+  }
+
+  /**
+   * Generate a JSON document by forcing a single tool whose input schema is the
+   * requested format; the tool input is returned as the JSON response text
+   */
+  private async generateWithTool(
+    messages: ChatMessage[],
+    options: GenerateOptions,
+    format: StructuredOutputFormat
+  ): Promise<string> {
+    const systemMessage = messages.find(m => m.role === 'system');
+    // JSON Schema objects are plain JSON documents
+    const inputSchema: ToolInputSchema = { json: format.schema as ToolInputSchema.JsonMember['json'] };
+
+    const command = new ConverseCommand({
+      modelId: this.model,
+      messages: messages
+        .filter(m => m.role !== 'system')
+        .map(msg => ({
+          role: msg.role === 'assistant' ? 'assistant' : 'user',
+          content: [{ text: msg.content }],
+        })),
+      ...(systemMessage && { system: [{ text: systemMessage.content }] }),
+      inferenceConfig: {
+        maxTokens: options.max_tokens ?? 1500,
+        temperature: options.temperature ?? 0.1,
+        topP: options.top_p ?? 0.9,
+        ...(options.stop && options.stop.length > 0 && { stopSequences: options.stop }),
+      },
+      toolConfig: {
+        tools: [{
+          toolSpec: {
+            name: format.name,
+            description: 'Return the complete answer in this structure',
+            inputSchema,
+          },
+        }],
+        toolChoice: { tool: { name: format.name } },
+      },
+    });
+
+    const response = await this.client.send(command);
+    const toolUse = response.output?.message?.content?.find(block => block.toolUse)?.toolUse;
+
+    if (!toolUse?.input) {
+      throw new RAGError(
+        'No structured output in Bedrock response',
+        'EMPTY_GENERATED_TEXT',
+        { stopReason: response.stopReason }
+      );
+    }
+
+    return JSON.stringify(toolUse.input);
+  }
+
+  /**
+   * Build the model-specific request body
+   */
+  private buildRequestBody(messages: ChatMessage[], options: GenerateOptions): any {
+    // Different models have different request formats
+    if (this.model.startsWith('anthropic.claude')) {
+      return this.buildAnthropicRequest(messages, options);
+    } else if (this.model.startsWith('amazon.titan')) {
+      return this.buildTitanRequest(messages, options);
+    } else if (this.model.startsWith('cohere.command')) {
+      return this.buildCohereRequest(messages, options);
+    }
+
+    throw new RAGError(
+      `Unsupported model format: ${this.model}`,
+      'UNSUPPORTED_MODEL_FORMAT'
+    );
+  }
+
+  /**
+   * Extract the text delta from a single streamed chunk
+   */
+  private extractStreamDelta(chunkJson: any): string {
+    if (this.model.startsWith('anthropic.claude')) {
+      // Claude 3 emits content_block_delta events, Claude 2 emits completion fragments
+      if (chunkJson.type === 'content_block_delta') {
+        return chunkJson.delta?.text || '';
+      }
+      return chunkJson.completion || '';
+    }
+
+    if (this.model.startsWith('amazon.titan')) {
+      return chunkJson.outputText || '';
+    }
+
+    if (this.model.startsWith('cohere.command')) {
+      return chunkJson.text || chunkJson.generations?.[0]?.text || '';
+    }
+
+    return '';
+  }
+
   /**
    * Build request body for Anthropic Claude models
    */
@@ -376,6 +540,7 @@ export class BedrockLLMAdapter extends BaseLLMAdapter {
     provider: string;
     supportsStreaming: boolean;
     supportsSystemMessages: boolean;
+    supportsStructuredOutput: boolean;
   } {
     const modelConfig = BedrockLLMAdapter.MODEL_CONFIGS[this.model as keyof typeof BedrockLLMAdapter.MODEL_CONFIGS];
     
@@ -384,8 +549,9 @@ export class BedrockLLMAdapter extends BaseLLMAdapter {
       maxTokens: modelConfig.maxTokens,
       contextWindow: modelConfig.contextWindow,
       provider: 'aws-bedrock',
-      supportsStreaming: false, // Bedrock streaming would require additional implementation
+      supportsStreaming: true,
       supportsSystemMessages: true,
+      supportsStructuredOutput: this.supportsToolUse(),
     };
   }
 
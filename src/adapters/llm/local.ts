@@ -53,6 +53,24 @@ export class LocalLLMAdapter extends BaseLLMAdapter {
     return this.cleanResponse(mockResponse);
   }
 
+  /**
+   * Stream the mock response word by word to simulate token delivery
+   */
+  override async generateStream(
+    messages: ChatMessage[],
+    options: GenerateOptions = {},
+    onChunk?: (chunk: string) => void
+  ): Promise<string> {
+    const response = await this.generate(messages, options);
+
+    for (const chunk of response.match(/\S+\s*/g) || []) {
+      onChunk?.(chunk);
+      await new Promise(resolve => setTimeout(resolve, 10));
+    }
+
+    return response;
+  }
+
   /**
    * Generate mock response based on patterns in the query
    */
@@ -186,7 +204,7 @@ For more specific information about your particular use case, please refer to th
       maxTokens: this.maxTokens,
       contextWindow: this.maxTokens,
       provider: 'local',
-      supportsStreaming: false,
+      supportsStreaming: true,
       supportsSystemMessages: true,
     };
   }
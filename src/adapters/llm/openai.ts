@@ -24,14 +24,16 @@ export class OpenAILLMAdapter extends BaseLLMAdapter {
   private readonly client: OpenAI;
   private readonly maxRetries: number;
   private readonly timeout: number;
+  private readonly jsonMode: boolean;
 
   // Model configurations
+  // jsonMode: supports response_format { type: 'json_object' }
   private static readonly MODEL_CONFIGS = {
-    'gpt-4': { maxTokens: 8192, contextWindow: 8192 },
-    'gpt-4-0125-preview': { maxTokens: 4096, contextWindow: 128000 },
-    'gpt-4-turbo-preview': { maxTokens: 4096, contextWindow: 128000 },
-    'gpt-3.5-turbo': { maxTokens: 4096, contextWindow: 16384 },
-    'gpt-3.5-turbo-0125': { maxTokens: 4096, contextWindow: 16384 },
+    'gpt-4': { maxTokens: 8192, contextWindow: 8192, jsonMode: false },
+    'gpt-4-0125-preview': { maxTokens: 4096, contextWindow: 128000, jsonMode: true },
+    'gpt-4-turbo-preview': { maxTokens: 4096, contextWindow: 128000, jsonMode: true },
+    'gpt-3.5-turbo': { maxTokens: 4096, contextWindow: 16384, jsonMode: true },
+    'gpt-3.5-turbo-0125': { maxTokens: 4096, contextWindow: 16384, jsonMode: true },
   } as const;
 
   constructor(options: OpenAILLMOptions = {}) {
@@ -55,6 +57,7 @@ export class OpenAILLMAdapter extends BaseLLMAdapter {
 
     this.maxRetries = options.maxRetries || 3;
     this.timeout = options.timeout || 30000; // 30 seconds
+    this.jsonMode = modelConfig.jsonMode;
 
     // Initialize OpenAI client
     this.client = new OpenAI({
@@ -97,6 +100,8 @@ export class OpenAILLMAdapter extends BaseLLMAdapter {
       if (mergedOptions.temperature !== undefined) createParams.temperature = mergedOptions.temperature;
       if (mergedOptions.top_p !== undefined) createParams.top_p = mergedOptions.top_p;
       if (mergedOptions.stop && mergedOptions.stop.length > 0) createParams.stop = mergedOptions.stop;
+      // Models without JSON mode rely on the prompt's format instructions
+      if (mergedOptions.response_format && this.jsonMode) createParams.response_format = { type: 'json_object' };
       
       const response = await this.client.chat.completions.create(createParams);
 
@@ -168,9 +173,9 @@ export class OpenAILLMAdapter extends BaseLLMAdapter {
   }
 
   /**
-   * Generate streaming response (future implementation)
+   * Generate streaming response, forwarding each content delta to onChunk
    */
-  async generateStream(
+  override async generateStream(
     messages: ChatMessage[],
     options: GenerateOptions = {},
     onChunk?: (chunk: string) => void
@@ -196,7 +201,9 @@ export class OpenAILLMAdapter extends BaseLLMAdapter {
       if (mergedOptions.top_p !== undefined) createParams.top_p = mergedOptions.top_p;
       if (mergedOptions.stop && mergedOptions.stop.length > 0) createParams.stop = mergedOptions.stop;
       
-      const stream = await this.client.chat.completions.create(createParams) as any;
+      const stream = await this.client.chat.completions.create(createParams, {
+        ...(mergedOptions.signal && { signal: mergedOptions.signal }),
+      }) as any;
 
       let fullResponse = '';
 
@@ -249,6 +256,7 @@ export class OpenAILLMAdapter extends BaseLLMAdapter {
     provider: string;
     supportsStreaming: boolean;
     supportsSystemMessages: boolean;
+    supportsStructuredOutput: boolean;
   } {
     const modelConfig = OpenAILLMAdapter.MODEL_CONFIGS[this.model as keyof typeof OpenAILLMAdapter.MODEL_CONFIGS];
     
@@ -259,6 +267,7 @@ export class OpenAILLMAdapter extends BaseLLMAdapter {
       provider: 'openai',
       supportsStreaming: true,
       supportsSystemMessages: true,
+      supportsStructuredOutput: modelConfig.jsonMode,
     };
   }
 
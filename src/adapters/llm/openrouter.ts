@@ -12,6 +12,8 @@ export interface OpenRouterLLMOptions {
   apiKey?: string;
   model?: string;
   baseUrl?: string;
+  /** Prompt + output window; defaults to the model's, or 8192 for unknown models */
+  contextWindow?: number;
   maxRetries?: number;
   timeout?: number;
   defaultOptions?: Partial<GenerateOptions>;
@@ -23,19 +25,35 @@ export interface OpenRouterLLMOptions {
 export class OpenRouterLLMAdapter extends BaseLLMAdapter {
   private readonly client: AxiosInstance;
   private readonly maxRetries: number;
+  private readonly maxOutputTokens: number;
+
+  // Output limit and context window by model id prefix; the first match wins
+  private static readonly MODEL_CONFIGS = [
+    { prefix: 'openai/gpt-4o', maxTokens: 16384, contextWindow: 128000 },
+    { prefix: 'openai/gpt-4-turbo', maxTokens: 4096, contextWindow: 128000 },
+    { prefix: 'openai/gpt-4', maxTokens: 8192, contextWindow: 8192 },
+    { prefix: 'openai/gpt-3.5-turbo', maxTokens: 4096, contextWindow: 16385 },
+    { prefix: 'anthropic/claude-3.5', maxTokens: 8192, contextWindow: 200000 },
+    { prefix: 'anthropic/claude-3', maxTokens: 4096, contextWindow: 200000 },
+    { prefix: 'google/gemini-pro-1.5', maxTokens: 8192, contextWindow: 1000000 },
+    { prefix: 'meta-llama/llama-3', maxTokens: 4096, contextWindow: 8192 },
+    { prefix: 'mistralai/', maxTokens: 4096, contextWindow: 32000 },
+  ] as const;
 
   constructor(options: OpenRouterLLMOptions = {}) {
     const model = options.model || 'openai/gpt-4';
-    const maxTokens = 8192; // Default context window
+    const modelConfig = OpenRouterLLMAdapter.MODEL_CONFIGS.find(entry => model.startsWith(entry.prefix));
+    const maxOutputTokens = modelConfig?.maxTokens ?? 4096;
 
-    super(model, maxTokens, {
-      max_tokens: config.MAX_TOKENS || 1500,
+    super(model, options.contextWindow || modelConfig?.contextWindow || 8192, {
+      max_tokens: Math.min(config.MAX_TOKENS || 1500, maxOutputTokens),
       temperature: 0.1,
       top_p: 0.9,
       ...options.defaultOptions,
     });
 
     this.maxRetries = options.maxRetries || 3;
+    this.maxOutputTokens = maxOutputTokens;
 
     // Initialize HTTP client for OpenRouter API
     this.client = axios.create({
@@ -136,6 +154,80 @@ export class OpenRouterLLMAdapter extends BaseLLMAdapter {
     );
   }
 
+  /**
+   * Generate streaming response using OpenRouter's server-sent events API
+   */
+  override async generateStream(
+    messages: ChatMessage[],
+    options: GenerateOptions = {},
+    onChunk?: (chunk: string) => void
+  ): Promise<string> {
+    this.validateMessages(messages);
+    const mergedOptions = this.mergeOptions({ ...options, stream: true });
+    this.validateTokenBudget(messages, mergedOptions);
+
+    try {
+      const response = await this.client.post('/chat/completions', {
+        model: this.model,
+        messages: messages.map(msg => ({
+          role: msg.role,
+          content: msg.content,
+        })),
+        max_tokens: mergedOptions.max_tokens,
+        temperature: mergedOptions.temperature,
+        top_p: mergedOptions.top_p,
+        stop: mergedOptions.stop && mergedOptions.stop.length > 0 ? mergedOptions.stop : undefined,
+        stream: true,
+      }, {
+        responseType: 'stream',
+        ...(mergedOptions.signal && { signal: mergedOptions.signal }),
+      });
+
+      let fullResponse = '';
+      let buffer = '';
+
+      for await (const data of response.data as AsyncIterable<Buffer>) {
+        buffer += data.toString('utf8');
+
+        // SSE frames are newline-delimited; keep the trailing partial line for the next read
+        const lines = buffer.split('\n');
+        buffer = lines.pop() || '';
+
+        for (const line of lines) {
+          const trimmed = line.trim();
+          if (!trimmed.startsWith('data:')) continue;
+
+          const payload = trimmed.slice(5).trim();
+          if (payload === '[DONE]') continue;
+
+          try {
+            const parsed = JSON.parse(payload);
+            const delta: string = parsed.choices?.[0]?.delta?.content || '';
+            if (delta) {
+              fullResponse += delta;
+              onChunk?.(delta);
+            }
+          } catch {
+            // Ignore keep-alive comments and malformed frames
+          }
+        }
+      }
+
+      return this.cleanResponse(fullResponse);
+
+    } catch (error) {
+      if (error instanceof RAGError) {
+        throw error;
+      }
+
+      throw new RAGError(
+        `Failed to generate streaming LLM response: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        'LLM_STREAM_FAILED',
+        { originalError: error }
+      );
+    }
+  }
+
   /**
    * Test connection
    */
@@ -165,10 +257,10 @@ export class OpenRouterLLMAdapter extends BaseLLMAdapter {
   } {
     return {
       model: this.model,
-      maxTokens: this.maxTokens,
+      maxTokens: this.maxOutputTokens,
       contextWindow: this.maxTokens,
       provider: 'openrouter',
-      supportsStreaming: false, // Could be implemented
+      supportsStreaming: true,
       supportsSystemMessages: true,
     };
   }
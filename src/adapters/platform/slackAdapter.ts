@@ -8,10 +8,14 @@ import type {
   SlackEventPayload,
   SlackCommandPayload,
   SlackActionPayload,
+  SlackViewSubmissionPayload,
   SlackBlock
 } from '@/types';
 import type { PlatformQueryContext, OrchestratorResult } from '@/core/orchestrator/unifiedOrchestrator';
 import { extractQueryFromSlackText } from '@/utils/slackValidation';
+import { linkCitationMarkers } from '@/utils/citations';
+import { createFeedbackButtons } from '@/core/slack/messageBuilder';
+import { FEEDBACK_REASONS, type FeedbackReason } from '@/core/analytics/answerFeedback';
 
 /**
  * Transform Slack event to platform query context
@@ -109,6 +113,9 @@ export function formatResponseForSlack(
     displayText = displayText.substring(0, maxTextLength - 100) + '\n\n_Response truncated due to length..._';
   }
 
+  // Render inline [n] citation markers as links to their sources
+  displayText = linkCitationMarkers(displayText, result.sources, (marker, url) => `<${url}|[${marker}]>`);
+
   const blocks: SlackBlock[] = [];
 
   // Main response section
@@ -137,7 +144,8 @@ export function formatResponseForSlack(
       .slice(0, 3) // Limit to top 3 sources
       .map((source, index) => {
         const scoreText = source.retrieval_score > 0 ? ` (${Math.round(source.retrieval_score * 100)}%)` : '';
-        return `${index + 1}. <${source.url}|${source.title}>${scoreText}`;
+        const label = source.marker !== undefined ? `[${source.marker}]` : `${index + 1}.`;
+        return `${label} <${source.url}|${source.title}>${scoreText}`;
       })
       .join('\n');
 
@@ -180,7 +188,8 @@ export function formatResponseForSlack(
           },
           value: JSON.stringify(buttonData),
           action_id: 'ask_followup'
-        }
+        },
+        ...createFeedbackButtons(buttonData)
       ]
     });
   }
@@ -195,7 +204,9 @@ export function formatResponseForSlack(
     contextElements.push(`*Source:* ${collectionLabel}`);
   }
 
-  if (result.intent === 'instructions') {
+  if (result.source === 'curated') {
+    contextElements.push('*Type:* ✅ Approved answer');
+  } else if (result.intent === 'instructions') {
     contextElements.push('*Type:* Step-by-step guide');
   } else if (result.intent === 'details') {
     contextElements.push('*Type:* Detailed explanation');
@@ -441,6 +452,51 @@ export function extractFollowupData(payload: any): {
   }
 }
 
+/**
+ * Check that an interaction payload is a modal submission with a view to read
+ */
+function isViewSubmission(payload: unknown): payload is SlackViewSubmissionPayload {
+  if (!payload || typeof payload !== 'object') {
+    return false;
+  }
+
+  const { type, view } = payload as Record<string, unknown>;
+  return type === 'view_submission' && typeof view === 'object' && view !== null;
+}
+
+/**
+ * Extract "what was wrong" modal submission data
+ */
+export function extractFeedbackData(payload: unknown): {
+  feedbackId: string;
+  reason?: FeedbackReason;
+  comment?: string;
+} | null {
+  try {
+    if (!isViewSubmission(payload) || payload.view.callback_id !== 'feedback_modal') {
+      return null;
+    }
+
+    const values = payload.view.state?.values;
+    const reason = values?.['feedback_reason']?.['reason']?.selected_option?.value;
+    const comment = values?.['feedback_comment']?.['comment']?.value;
+    const metadata: { feedbackId?: unknown } = JSON.parse(payload.view.private_metadata || '{}');
+
+    if (typeof metadata.feedbackId !== 'string' || !metadata.feedbackId) {
+      return null;
+    }
+
+    return {
+      feedbackId: metadata.feedbackId,
+      ...(FEEDBACK_REASONS.includes(reason as FeedbackReason) && { reason: reason as FeedbackReason }),
+      ...(comment && { comment })
+    };
+  } catch (error) {
+    console.error('[SlackAdapter] Failed to extract feedback data:', error);
+    return null;
+  }
+}
+
 /**
  * Validate Slack payload structure
  */
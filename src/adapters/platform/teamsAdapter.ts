@@ -5,6 +5,8 @@
  */
 
 import type { PlatformQueryContext, OrchestratorResult } from '@/core/orchestrator/unifiedOrchestrator';
+import { linkCitationMarkers } from '@/utils/citations';
+import { FEEDBACK_REASONS, FEEDBACK_REASON_LABELS, type FeedbackReason } from '@/core/analytics/answerFeedback';
 
 // Teams Bot Framework activity types
 export interface TeamsActivity {
@@ -116,6 +118,13 @@ function cleanTeamsText(text: string): string {
     .trim();
 }
 
+/**
+ * Render an inline citation marker as a markdown link
+ */
+function renderTeamsCitation(marker: number, url: string): string {
+  return `[[${marker}]](${url})`;
+}
+
 /**
  * Format orchestrator result for Teams message format
  */
@@ -143,6 +152,9 @@ export function formatResponseForTeams(
     displayText = displayText.substring(0, maxTextLength - 100) + '\n\n*Response truncated due to length...*';
   }
 
+  // Render inline [n] citation markers as links to their sources
+  displayText = linkCitationMarkers(displayText, result.sources, renderTeamsCitation);
+
   const response: {
     text: string;
     adaptiveCard?: TeamsAdaptiveCard;
@@ -174,7 +186,7 @@ function createResponseAdaptiveCard(
   // Main response text
   body.push({
     type: 'TextBlock',
-    text: result.text,
+    text: linkCitationMarkers(result.text, result.sources, renderTeamsCitation),
     wrap: true,
     size: 'Default',
     spacing: 'Medium'
@@ -201,7 +213,7 @@ function createResponseAdaptiveCard(
     const sourceFacts = result.sources.slice(0, 3).map((source, index) => {
       const scoreText = source.retrieval_score > 0 ? ` (${Math.round(source.retrieval_score * 100)}%)` : '';
       return {
-        title: `Source ${index + 1}`,
+        title: source.marker !== undefined ? `[${source.marker}]` : `Source ${index + 1}`,
         value: `[${source.title}](${source.url})${scoreText}`
       };
     });
@@ -226,7 +238,12 @@ function createResponseAdaptiveCard(
     });
   }
 
-  if (result.intent === 'instructions') {
+  if (result.source === 'curated') {
+    metadataFacts.push({
+      title: 'Type',
+      value: '✅ Approved answer'
+    });
+  } else if (result.intent === 'instructions') {
     metadataFacts.push({
       title: 'Type',
       value: 'Step-by-step guide'
@@ -278,6 +295,24 @@ function createResponseAdaptiveCard(
         ...actionData
       }
     });
+
+    actions.push({
+      type: 'Action.Submit',
+      title: '👍 Helpful',
+      data: {
+        action: 'feedback_helpful',
+        ...actionData
+      }
+    });
+
+    actions.push({
+      type: 'Action.Submit',
+      title: '👎 Not helpful',
+      data: {
+        action: 'feedback_not_helpful',
+        ...actionData
+      }
+    });
   }
 
   return {
@@ -393,6 +428,58 @@ export function createFollowupAdaptiveCard(
   };
 }
 
+/**
+ * Create the optional "what was wrong" Adaptive Card shown after a not-helpful rating
+ */
+export function createFeedbackAdaptiveCard(feedbackId: string, contextId: string): TeamsAdaptiveCard {
+  const body: AdaptiveCardElement[] = [
+    {
+      type: 'TextBlock',
+      text: '👎 **Thanks for the rating. What was wrong with the answer?**',
+      weight: 'Bolder',
+      size: 'Medium',
+      wrap: true
+    },
+    {
+      type: 'Input.ChoiceSet',
+      id: 'feedbackReason',
+      style: 'compact',
+      placeholder: 'Choose a reason (optional)',
+      choices: FEEDBACK_REASONS.map(reason => ({
+        title: FEEDBACK_REASON_LABELS[reason],
+        value: reason
+      }))
+    },
+    {
+      type: 'Input.Text',
+      id: 'feedbackComment',
+      placeholder: 'What should the answer have said? (optional)',
+      isMultiline: true,
+      maxLength: 1000
+    }
+  ];
+
+  const actions: AdaptiveCardAction[] = [
+    {
+      type: 'Action.Submit',
+      title: 'Send',
+      data: {
+        action: 'submit_feedback',
+        feedbackId,
+        contextId
+      }
+    }
+  ];
+
+  return {
+    type: 'AdaptiveCard',
+    version: '1.4',
+    body,
+    actions,
+    $schema: 'http://adaptivecards.io/schemas/adaptive-card.json'
+  };
+}
+
 /**
  * Create error response for Teams
  */
@@ -499,6 +586,26 @@ export function extractTeamsFollowupData(activity: TeamsActivity): {
   }
 }
 
+/**
+ * Extract "what was wrong" data from Teams submit action
+ */
+export function extractTeamsFeedbackData(activity: TeamsActivity): {
+  feedbackId: string;
+  reason?: FeedbackReason;
+  comment?: string;
+} | null {
+  if (activity.type !== 'invoke' || activity.value?.action !== 'submit_feedback' || !activity.value.feedbackId) {
+    return null;
+  }
+
+  const { feedbackId, feedbackReason, feedbackComment } = activity.value;
+  return {
+    feedbackId,
+    ...(FEEDBACK_REASONS.includes(feedbackReason) && { reason: feedbackReason }),
+    ...(typeof feedbackComment === 'string' && feedbackComment.trim() && { comment: feedbackComment })
+  };
+}
+
 /**
  * Validate Teams activity structure
  */
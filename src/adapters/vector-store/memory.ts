@@ -2,14 +2,22 @@
  * In-memory vector store implementation for development and testing
  */
 
-import type { VectorStoreAdapter, VectorDocument, SearchResult } from '@/types';
+import { createHash } from 'crypto';
+import type { ChunkSampleOptions, VectorStoreAdapter, VectorDocument, SearchResult, TextSearchFilters, VectorSearchFilters } from '@/types';
 import { RAGError } from '@/types';
 import { EmbeddingUtils } from '@/adapters/embedding/base';
+import { reciprocalRankFusion } from '@/utils/rankFusion';
+import { tokenizeText } from '@/utils/text';
+import { getPageUrl } from '@/utils/chunks';
 
 export interface InMemoryVectorOptions {
   maxDocuments?: number;
   persistToFile?: string;
   loadFromFile?: string;
+  bm25?: {
+    k1?: number;
+    b?: number;
+  };
 }
 
 /**
@@ -21,9 +29,18 @@ export class InMemoryVectorAdapter implements VectorStoreAdapter {
   private readonly maxDocuments: number;
   private readonly persistToFile: string | undefined;
 
+  // BM25 inverted index: term -> (document ID -> term frequency)
+  private postings: Map<string, Map<string, number>> = new Map();
+  private indexedDocuments: Map<string, { length: number; terms: string[] }> = new Map();
+  private totalDocumentLength = 0;
+  private readonly bm25K1: number;
+  private readonly bm25B: number;
+
   constructor(options: InMemoryVectorOptions = {}) {
     this.maxDocuments = options.maxDocuments || 10000;
     this.persistToFile = options.persistToFile;
+    this.bm25K1 = options.bm25?.k1 ?? 1.2;
+    this.bm25B = options.bm25?.b ?? 0.75;
 
     // Load data from file if specified
     if (options.loadFromFile) {
@@ -64,11 +81,14 @@ export class InMemoryVectorAdapter implements VectorStoreAdapter {
         const existingId = this.urlToIdMap.get(doc.metadata.url);
         if (existingId) {
           this.documents.delete(existingId);
+          this.removeFromIndex(existingId);
         }
+        this.removeFromIndex(doc.id);
 
         // Add new document
         this.documents.set(doc.id, doc);
         this.urlToIdMap.set(doc.metadata.url, doc.id);
+        this.addToIndex(doc);
       }
 
       // Optionally persist to file
@@ -147,12 +167,7 @@ export class InMemoryVectorAdapter implements VectorStoreAdapter {
   async searchWithFilters(
     queryEmbedding: number[],
     topK: number,
-    filters: {
-      contentTypes?: string[];
-      sections?: string[];
-      similarityThreshold?: number;
-      dateRange?: { start?: Date; end?: Date };
-    } = {}
+    filters: VectorSearchFilters = {}
   ): Promise<SearchResult[]> {
     try {
       const results: Array<{
@@ -166,18 +181,9 @@ export class InMemoryVectorAdapter implements VectorStoreAdapter {
           continue;
         }
 
-        // Apply content type filter
-        if (filters.contentTypes && filters.contentTypes.length > 0) {
-          if (!filters.contentTypes.includes(doc.metadata.content_type)) {
-            continue;
-          }
-        }
-
-        // Apply section filter
-        if (filters.sections && filters.sections.length > 0) {
-          if (!doc.metadata.section || !filters.sections.includes(doc.metadata.section)) {
-            continue;
-          }
+        // Apply content type, section, collection, URL prefix and updated-after filters
+        if (!this.matchesFilters(doc, filters)) {
+          continue;
         }
 
         // Apply date range filter
@@ -223,6 +229,177 @@ export class InMemoryVectorAdapter implements VectorStoreAdapter {
     }
   }
 
+  /**
+   * Keyword search over the inverted index, ranked by BM25.
+   * Matches the PostgresVectorAdapter.textSearch signature.
+   */
+  async textSearch(
+    queryText: string,
+    topK: number,
+    filters: TextSearchFilters = {}
+  ): Promise<SearchResult[]> {
+    if (topK <= 0) {
+      throw new RAGError('topK must be greater than 0', 'INVALID_TOP_K');
+    }
+
+    try {
+      const queryTerms = new Set(tokenizeText(queryText));
+      const documentCount = this.documents.size;
+
+      if (queryTerms.size === 0 || documentCount === 0) {
+        return [];
+      }
+
+      const averageLength = this.totalDocumentLength / documentCount;
+      const scores = new Map<string, number>();
+
+      for (const term of queryTerms) {
+        const termPostings = this.postings.get(term);
+        if (!termPostings) {
+          continue;
+        }
+
+        // BM25 IDF with the +1 smoothing that keeps very common terms non-negative
+        const documentFrequency = termPostings.size;
+        const idf = Math.log(1 + (documentCount - documentFrequency + 0.5) / (documentFrequency + 0.5));
+
+        for (const [id, termFrequency] of termPostings) {
+          const length = this.indexedDocuments.get(id)?.length || 0;
+          const normalization = this.bm25K1 * (1 - this.bm25B + this.bm25B * (length / averageLength));
+          const termScore = idf * (termFrequency * (this.bm25K1 + 1)) / (termFrequency + normalization);
+          scores.set(id, (scores.get(id) || 0) + termScore);
+        }
+      }
+
+      const results: SearchResult[] = [];
+      for (const [id, score] of scores) {
+        const doc = this.documents.get(id);
+        if (!doc || !this.matchesFilters(doc, filters)) {
+          continue;
+        }
+
+        results.push({
+          id: doc.id,
+          content: doc.content,
+          metadata: doc.metadata,
+          score,
+        });
+      }
+
+      return results.sort((a, b) => b.score - a.score).slice(0, topK);
+
+    } catch (error) {
+      throw new RAGError(
+        `Memory text search failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        'MEMORY_TEXT_SEARCH_FAILED',
+        {
+          topK,
+          queryText: queryText.substring(0, 100),
+          filters,
+          originalError: error,
+        }
+      );
+    }
+  }
+
+  /**
+   * Hybrid search fusing vector similarity and BM25 rankings with Reciprocal Rank Fusion.
+   * Matches the PostgresVectorAdapter.hybridSearch signature.
+   */
+  async hybridSearch(
+    queryEmbedding: number[],
+    queryText: string,
+    topK: number,
+    weights: { vector: number; text: number } = { vector: 0.5, text: 0.5 },
+    collections?: string[]
+  ): Promise<SearchResult[]> {
+    const candidateK = Math.max(topK * 2, 20);
+    const filters = collections && collections.length > 0 ? { collections } : {};
+
+    const [vectorResults, textResults] = await Promise.all([
+      this.searchWithFilters(queryEmbedding, candidateK, filters),
+      this.textSearch(queryText, candidateK, filters),
+    ]);
+
+    return reciprocalRankFusion(
+      [
+        { results: vectorResults, weight: weights.vector },
+        { results: textResults, weight: weights.text },
+      ],
+      { topK }
+    );
+  }
+
+  /**
+   * Fetch stored embeddings by document ID
+   */
+  async getEmbeddings(ids: string[]): Promise<Map<string, number[]>> {
+    const embeddings = new Map<string, number[]>();
+
+    for (const id of ids) {
+      const doc = this.documents.get(id);
+      if (doc) {
+        embeddings.set(id, doc.embedding);
+      }
+    }
+
+    return embeddings;
+  }
+
+  /**
+   * Fetch the chunks of a page within an inclusive chunk_index range, in page order.
+   * Matches the PostgresVectorAdapter.getPageChunks signature.
+   */
+  async getPageChunks(
+    pageUrl: string,
+    fromIndex: number = 0,
+    toIndex: number = Number.MAX_SAFE_INTEGER
+  ): Promise<SearchResult[]> {
+    const chunks: SearchResult[] = [];
+
+    for (const doc of this.documents.values()) {
+      const { url, chunk_index } = doc.metadata;
+      if (getPageUrl(url) === pageUrl && chunk_index >= fromIndex && chunk_index <= toIndex) {
+        chunks.push({
+          id: doc.id,
+          content: doc.content,
+          metadata: doc.metadata,
+          score: 0,
+        });
+      }
+    }
+
+    return chunks.sort((a, b) => a.metadata.chunk_index - b.metadata.chunk_index);
+  }
+
+  /**
+   * Sample chunks from every collection/section pair, ordered by md5(id || seed) like
+   * PostgresVectorAdapter.sampleChunks so both stores pick the same chunks
+   */
+  async sampleChunks(options: ChunkSampleOptions): Promise<SearchResult[]> {
+    const { perSection, collections, minLength = 0, seed = '' } = options;
+    const groups = new Map<string, Array<{ doc: VectorDocument; rank: string }>>();
+
+    for (const doc of this.documents.values()) {
+      const collection = doc.metadata.collection ?? '';
+      if (doc.content.length < minLength || (collections?.length && !collections.includes(collection))) {
+        continue;
+      }
+
+      const key = `${collection}\u0000${doc.metadata.section ?? ''}`;
+      const group = groups.get(key) ?? [];
+      group.push({ doc, rank: createHash('md5').update(doc.id + seed).digest('hex') });
+      groups.set(key, group);
+    }
+
+    return [...groups.keys()].sort().flatMap(key =>
+      groups.get(key)!
+        .sort((a, b) => a.rank.localeCompare(b.rank))
+        .slice(0, perSection)
+        .map(({ doc }) => ({ id: doc.id, content: doc.content, metadata: doc.metadata, score: 0 }))
+    );
+  }
+
   /**
    * Delete documents by IDs
    */
@@ -239,6 +416,7 @@ export class InMemoryVectorAdapter implements VectorStoreAdapter {
         if (doc) {
           this.documents.delete(id);
           this.urlToIdMap.delete(doc.metadata.url);
+          this.removeFromIndex(id);
           deletedCount++;
         }
       }
@@ -336,6 +514,9 @@ export class InMemoryVectorAdapter implements VectorStoreAdapter {
   async clear(): Promise<void> {
     this.documents.clear();
     this.urlToIdMap.clear();
+    this.postings.clear();
+    this.indexedDocuments.clear();
+    this.totalDocumentLength = 0;
 
     if (this.persistToFile) {
       await this.saveToFile(this.persistToFile);
@@ -364,6 +545,78 @@ export class InMemoryVectorAdapter implements VectorStoreAdapter {
     return id ? this.documents.get(id) : undefined;
   }
 
+  /**
+   * Add a document's terms to the BM25 index
+   */
+  private addToIndex(doc: VectorDocument): void {
+    const { title, section, subsection } = doc.metadata;
+    const terms = tokenizeText(`${title} ${section || ''} ${subsection || ''} ${doc.content}`);
+
+    const termFrequencies = new Map<string, number>();
+    for (const term of terms) {
+      termFrequencies.set(term, (termFrequencies.get(term) || 0) + 1);
+    }
+
+    for (const [term, frequency] of termFrequencies) {
+      let termPostings = this.postings.get(term);
+      if (!termPostings) {
+        termPostings = new Map();
+        this.postings.set(term, termPostings);
+      }
+      termPostings.set(doc.id, frequency);
+    }
+
+    this.indexedDocuments.set(doc.id, { length: terms.length, terms: Array.from(termFrequencies.keys()) });
+    this.totalDocumentLength += terms.length;
+  }
+
+  /**
+   * Remove a document's terms from the BM25 index
+   */
+  private removeFromIndex(id: string): void {
+    const indexed = this.indexedDocuments.get(id);
+    if (!indexed) {
+      return;
+    }
+
+    for (const term of indexed.terms) {
+      const termPostings = this.postings.get(term);
+      if (termPostings?.delete(id) && termPostings.size === 0) {
+        this.postings.delete(term);
+      }
+    }
+
+    this.indexedDocuments.delete(id);
+    this.totalDocumentLength -= indexed.length;
+  }
+
+  /**
+   * Check a document against content type, section and collection filters
+   */
+  private matchesFilters(doc: VectorDocument, filters: TextSearchFilters): boolean {
+    if (filters.contentTypes?.length && !filters.contentTypes.includes(doc.metadata.content_type)) {
+      return false;
+    }
+
+    if (filters.sections?.length && (!doc.metadata.section || !filters.sections.includes(doc.metadata.section))) {
+      return false;
+    }
+
+    if (filters.collections?.length && (!doc.metadata.collection || !filters.collections.includes(doc.metadata.collection))) {
+      return false;
+    }
+
+    if (filters.urlPrefixes?.length && !filters.urlPrefixes.some(prefix => doc.metadata.url.startsWith(prefix))) {
+      return false;
+    }
+
+    if (filters.updatedAfter && new Date(doc.metadata.updated_at) < filters.updatedAfter) {
+      return false;
+    }
+
+    return true;
+  }
+
   /**
    * Validate document structure
    */
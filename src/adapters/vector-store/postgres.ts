@@ -3,9 +3,11 @@
  */
 
 import { Pool, type PoolClient } from 'pg';
-import type { VectorStoreAdapter, VectorDocument, SearchResult, DocumentMetadata } from '@/types';
+import type { ChunkSampleOptions, VectorStoreAdapter, VectorDocument, SearchResult, DocumentMetadata, TextSearchFilters, VectorSearchFilters } from '@/types';
 import { RAGError } from '@/types';
 import config from '@/utils/config';
+import { reciprocalRankFusion } from '@/utils/rankFusion';
+import { tokenizeText } from '@/utils/text';
 
 export interface PostgresVectorOptions {
   connectionString?: string;
@@ -13,6 +15,8 @@ export interface PostgresVectorOptions {
   poolSize?: number;
   connectionTimeout?: number;
   queryTimeout?: number;
+  /** Postgres text search configuration; must match the one used to build search_vector */
+  textSearchConfig?: string;
 }
 
 /**
@@ -22,9 +26,11 @@ export class PostgresVectorAdapter implements VectorStoreAdapter {
   private readonly pool: Pool;
   private readonly tableName: string;
   private readonly queryTimeout: number;
+  private readonly textSearchConfig: string;
 
   constructor(options: PostgresVectorOptions = {}) {
     this.tableName = options.tableName || config.VECTOR_TABLE_NAME || 'documents';
+    this.textSearchConfig = options.textSearchConfig || config.TEXT_SEARCH_CONFIG || 'english';
     this.queryTimeout = options.queryTimeout || 30000; // 30 seconds
 
     const connectionString = options.connectionString || config.DATABASE_URL;
@@ -195,13 +201,7 @@ export class PostgresVectorAdapter implements VectorStoreAdapter {
   async searchWithFilters(
     queryEmbedding: number[],
     topK: number,
-    filters: {
-      contentTypes?: string[];
-      sections?: string[];
-      collections?: string[];
-      similarityThreshold?: number;
-      dateRange?: { start?: Date; end?: Date };
-    } = {}
+    filters: VectorSearchFilters = {}
   ): Promise<SearchResult[]> {
     const client = await this.getClient();
 
@@ -239,6 +239,8 @@ export class PostgresVectorAdapter implements VectorStoreAdapter {
         paramIndex++;
       }
 
+      paramIndex = this.addPageFilters(conditions, values, paramIndex, filters);
+
       // Add date range filter
       if (filters.dateRange?.start) {
         conditions.push(`created_at >= $${paramIndex}`);
@@ -307,33 +309,46 @@ export class PostgresVectorAdapter implements VectorStoreAdapter {
   }
 
   /**
-   * Hybrid search combining vector similarity and full-text search
+   * Full-text search over the search_vector column, ranked by ts_rank_cd.
+   * Query terms are OR-ed so long natural-language questions still match exact field names.
    */
-  async hybridSearch(
-    queryEmbedding: number[],
+  async textSearch(
     queryText: string,
     topK: number,
-    weights: { vector: number; text: number } = { vector: 0.7, text: 0.3 },
-    collections?: string[]
+    filters: TextSearchFilters = {}
   ): Promise<SearchResult[]> {
+    const terms = tokenizeText(queryText);
+    if (terms.length === 0) {
+      return [];
+    }
+
     const client = await this.getClient();
 
     try {
-      const embeddingStr = JSON.stringify(queryEmbedding);
-      
-      const conditions = [
-        'embedding IS NOT NULL',
-        '(search_vector @@ plainto_tsquery(\'english\', $2) OR (embedding <=> $1::vector) < 0.5)'
-      ];
-      const values: any[] = [embeddingStr, queryText, weights.vector, weights.text];
-      let paramIndex = 6;
-
-      if (collections && collections.length > 0) {
+      const conditions: string[] = ['search_vector @@ ts_query'];
+      const values: any[] = [terms.join(' | '), topK, this.textSearchConfig];
+      let paramIndex = 4;
+
+      if (filters.contentTypes && filters.contentTypes.length > 0) {
+        conditions.push(`content_type = ANY($${paramIndex})`);
+        values.push(filters.contentTypes);
+        paramIndex++;
+      }
+
+      if (filters.sections && filters.sections.length > 0) {
+        conditions.push(`section = ANY($${paramIndex})`);
+        values.push(filters.sections);
+        paramIndex++;
+      }
+
+      if (filters.collections && filters.collections.length > 0) {
         conditions.push(`collection = ANY($${paramIndex})`);
-        values.push(collections);
+        values.push(filters.collections);
         paramIndex++;
       }
 
+      this.addPageFilters(conditions, values, paramIndex, filters);
+
       const query = `
         SELECT
           id,
@@ -345,19 +360,15 @@ export class PostgresVectorAdapter implements VectorStoreAdapter {
           section,
           subsection,
           collection,
-          (
-            $3 * (1 - (embedding <=> $1::vector)) +
-            $4 * ts_rank(search_vector, plainto_tsquery('english', $2))
-          ) as combined_score
-        FROM ${this.tableName}
+          ts_rank_cd(search_vector, ts_query) as text_score
+        FROM ${this.tableName}, to_tsquery($3::regconfig, $1) ts_query
         WHERE ${conditions.join(' AND ')}
-        ORDER BY combined_score DESC
-        LIMIT $5
+        ORDER BY text_score DESC
+        LIMIT $2
       `;
 
-      values.splice(4, 0, topK); // Insert topK at position 4
       const result = await client.query(query, values);
-      
+
       return result.rows.map((row: any) => ({
         id: row.id,
         content: row.content,
@@ -374,9 +385,249 @@ export class PostgresVectorAdapter implements VectorStoreAdapter {
           updated_at: new Date(row.metadata?.updated_at || Date.now()),
           ...row.metadata,
         } as DocumentMetadata,
-        score: parseFloat(row.combined_score),
+        score: parseFloat(row.text_score),
+      }));
+
+    } catch (error) {
+      throw new RAGError(
+        `Text search failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        'TEXT_SEARCH_FAILED',
+        {
+          topK,
+          queryText: queryText.substring(0, 100),
+          filters,
+          originalError: error,
+        }
+      );
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * Append URL prefix and updated-after conditions; returns the next parameter index
+   */
+  private addPageFilters(
+    conditions: string[],
+    values: unknown[],
+    paramIndex: number,
+    filters: Pick<TextSearchFilters, 'urlPrefixes' | 'updatedAfter'>
+  ): number {
+    let index = paramIndex;
+
+    if (filters.urlPrefixes && filters.urlPrefixes.length > 0) {
+      conditions.push(`url LIKE ANY($${index})`);
+      values.push(filters.urlPrefixes.map(prefix => `${prefix.replace(/[\\%_]/g, '\\$&')}%`));
+      index++;
+    }
+
+    if (filters.updatedAfter) {
+      conditions.push(`updated_at >= $${index}`);
+      values.push(filters.updatedAfter);
+      index++;
+    }
+
+    return index;
+  }
+
+  /**
+   * Fetch stored embeddings by document ID
+   */
+  async getEmbeddings(ids: string[]): Promise<Map<string, number[]>> {
+    const embeddings = new Map<string, number[]>();
+    if (ids.length === 0) {
+      return embeddings;
+    }
+
+    const client = await this.getClient();
+
+    try {
+      const result = await client.query(
+        `SELECT id, embedding::text AS embedding FROM ${this.tableName} WHERE id = ANY($1) AND embedding IS NOT NULL`,
+        [ids]
+      );
+
+      for (const row of result.rows) {
+        embeddings.set(row.id, JSON.parse(row.embedding));
+      }
+
+      return embeddings;
+
+    } catch (error) {
+      throw new RAGError(
+        `Embedding lookup failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        'EMBEDDING_LOOKUP_FAILED',
+        {
+          idsCount: ids.length,
+          originalError: error,
+        }
+      );
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * Fetch the chunks of a page within an inclusive chunk_index range, in page order
+   */
+  async getPageChunks(
+    pageUrl: string,
+    fromIndex: number = 0,
+    toIndex: number = Number.MAX_SAFE_INTEGER
+  ): Promise<SearchResult[]> {
+    const client = await this.getClient();
+
+    try {
+      // Chunk URLs are `${pageUrl}#chunk-N`; escape LIKE wildcards in the page URL
+      const chunkUrlPattern = `${pageUrl.replace(/[\\%_]/g, '\\$&')}#chunk-%`;
+
+      const query = `
+        SELECT
+          id,
+          url,
+          title,
+          content,
+          metadata,
+          content_type,
+          section,
+          subsection,
+          collection,
+          chunk_index,
+          total_chunks
+        FROM ${this.tableName}
+        WHERE (url = $1 OR url LIKE $2)
+          AND chunk_index BETWEEN $3 AND $4
+        ORDER BY chunk_index
+      `;
+
+      const result = await client.query(query, [pageUrl, chunkUrlPattern, fromIndex, toIndex]);
+
+      return result.rows.map((row: any) => ({
+        id: row.id,
+        content: row.content,
+        metadata: {
+          url: row.url,
+          title: row.title,
+          content_type: row.content_type,
+          section: row.section,
+          subsection: row.subsection,
+          collection: row.collection,
+          created_at: new Date(row.metadata?.created_at || Date.now()),
+          updated_at: new Date(row.metadata?.updated_at || Date.now()),
+          ...row.metadata,
+          chunk_index: row.chunk_index,
+          total_chunks: row.total_chunks,
+        } as DocumentMetadata,
+        score: 0,
       }));
 
+    } catch (error) {
+      throw new RAGError(
+        `Page chunk lookup failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        'PAGE_CHUNKS_FAILED',
+        {
+          pageUrl,
+          fromIndex,
+          toIndex,
+          originalError: error,
+        }
+      );
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * Sample chunks from every collection/section pair; ordering by md5(id || seed) makes
+   * the sample random across sections but repeatable for a given seed
+   */
+  async sampleChunks(options: ChunkSampleOptions): Promise<SearchResult[]> {
+    const { perSection, collections, minLength = 0, seed = '' } = options;
+    const client = await this.getClient();
+
+    try {
+      const values: unknown[] = [seed, minLength, perSection];
+      const collectionFilter = collections?.length
+        ? `AND collection = ANY($${values.push(collections)})`
+        : '';
+
+      const query = `
+        SELECT id, url, title, content, metadata, content_type, section, subsection, collection, chunk_index, total_chunks
+        FROM (
+          SELECT *, ROW_NUMBER() OVER (
+            PARTITION BY collection, COALESCE(section, '')
+            ORDER BY md5(id::text || $1)
+          ) AS sample_rank
+          FROM ${this.tableName}
+          WHERE length(content) >= $2 ${collectionFilter}
+        ) sampled
+        WHERE sample_rank <= $3
+        ORDER BY collection, section, sample_rank
+      `;
+
+      const result = await client.query(query, values);
+
+      return result.rows.map((row: any) => ({
+        id: row.id,
+        content: row.content,
+        metadata: {
+          url: row.url,
+          title: row.title,
+          content_type: row.content_type,
+          section: row.section,
+          subsection: row.subsection,
+          collection: row.collection,
+          created_at: new Date(row.metadata?.created_at || Date.now()),
+          updated_at: new Date(row.metadata?.updated_at || Date.now()),
+          ...row.metadata,
+          chunk_index: row.chunk_index,
+          total_chunks: row.total_chunks,
+        } as DocumentMetadata,
+        score: 0,
+      }));
+
+    } catch (error) {
+      throw new RAGError(
+        `Chunk sampling failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        'CHUNK_SAMPLING_FAILED',
+        {
+          perSection,
+          collections,
+          originalError: error,
+        }
+      );
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * Hybrid search fusing vector similarity and full-text rankings with Reciprocal Rank Fusion
+   */
+  async hybridSearch(
+    queryEmbedding: number[],
+    queryText: string,
+    topK: number,
+    weights: { vector: number; text: number } = { vector: 0.5, text: 0.5 },
+    collections?: string[]
+  ): Promise<SearchResult[]> {
+    try {
+      const candidateK = Math.max(topK * 2, 20);
+      const filters = collections && collections.length > 0 ? { collections } : {};
+
+      const [vectorResults, textResults] = await Promise.all([
+        this.searchWithFilters(queryEmbedding, candidateK, filters),
+        this.textSearch(queryText, candidateK, filters),
+      ]);
+
+      return reciprocalRankFusion(
+        [
+          { results: vectorResults, weight: weights.vector },
+          { results: textResults, weight: weights.text },
+        ],
+        { topK }
+      );
+
     } catch (error) {
       throw new RAGError(
         `Hybrid search failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
@@ -387,8 +638,6 @@ export class PostgresVectorAdapter implements VectorStoreAdapter {
           originalError: error,
         }
       );
-    } finally {
-      client.release();
     }
   }
 
@@ -433,14 +682,178 @@ export class PostgresVectorAdapter implements VectorStoreAdapter {
   }
 
   /**
-   * Get total document count
+   * Delete a collection's chunks, optionally only those not refreshed since a given time
+   */
+  async deleteCollection(collection: string, options: { updatedBefore?: Date } = {}): Promise<number> {
+    const client = await this.getClient();
+
+    try {
+      const values: unknown[] = [collection];
+      const updatedFilter = options.updatedBefore
+        ? `AND updated_at < $${values.push(options.updatedBefore)}`
+        : '';
+
+      const result = await client.query(
+        `DELETE FROM ${this.tableName} WHERE collection = $1 ${updatedFilter}`,
+        values
+      );
+      return result.rowCount ?? 0;
+
+    } catch (error) {
+      throw new RAGError(
+        `Failed to delete collection documents: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        'VECTOR_DELETE_FAILED',
+        {
+          collection,
+          originalError: error,
+        }
+      );
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * Delete a page's chunks (the page URL and its `#chunk-N` URLs), except those in keepUrls
+   */
+  async deletePageChunks(pageUrl: string, keepUrls: string[] = []): Promise<number> {
+    const client = await this.getClient();
+
+    try {
+      const chunkUrlPattern = `${pageUrl.replace(/[\\%_]/g, '\\$&')}#chunk-%`;
+      const result = await client.query(
+        `DELETE FROM ${this.tableName}
+         WHERE (url = $1 OR url LIKE $2) AND NOT (url = ANY($3))`,
+        [pageUrl, chunkUrlPattern, keepUrls]
+      );
+      return result.rowCount ?? 0;
+
+    } catch (error) {
+      throw new RAGError(
+        `Failed to delete page chunks: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        'VECTOR_DELETE_FAILED',
+        {
+          pageUrl,
+          originalError: error,
+        }
+      );
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * Mark the chunks of pages a crawl found unchanged as refreshed
+   */
+  async touchPages(collection: string, pageUrls: string[]): Promise<void> {
+    if (pageUrls.length === 0) {
+      return;
+    }
+
+    const client = await this.getClient();
+
+    try {
+      await client.query(
+        `UPDATE ${this.tableName} SET updated_at = NOW()
+         WHERE collection = $1 AND regexp_replace(url, '#chunk-[0-9]+$', '') = ANY($2)`,
+        [collection, pageUrls]
+      );
+
+    } catch (error) {
+      throw new RAGError(
+        `Failed to refresh page chunks: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        'VECTOR_UPSERT_FAILED',
+        {
+          collection,
+          pageCount: pageUrls.length,
+          originalError: error,
+        }
+      );
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * Page through a collection's chunks in id order, for re-embedding
+   */
+  async listChunks(
+    collection: string,
+    options: { afterId?: string; limit: number }
+  ): Promise<Array<{ id: string; content: string }>> {
+    const client = await this.getClient();
+
+    try {
+      const result = await client.query(
+        `SELECT id, content FROM ${this.tableName}
+         WHERE collection = $1 AND ($2::uuid IS NULL OR id > $2::uuid)
+         ORDER BY id
+         LIMIT $3`,
+        [collection, options.afterId ?? null, options.limit]
+      );
+      return result.rows.map((row: any) => ({ id: row.id, content: row.content }));
+
+    } catch (error) {
+      throw new RAGError(
+        `Failed to list collection chunks: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        'VECTOR_LIST_FAILED',
+        {
+          collection,
+          originalError: error,
+        }
+      );
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * Replace the embeddings of existing chunks, leaving their content untouched
+   */
+  async updateEmbeddings(updates: Array<{ id: string; embedding: number[] }>): Promise<void> {
+    if (updates.length === 0) {
+      return;
+    }
+
+    const client = await this.getClient();
+
+    try {
+      await client.query('BEGIN');
+      for (const update of updates) {
+        await client.query(
+          `UPDATE ${this.tableName} SET embedding = $2, updated_at = NOW() WHERE id = $1`,
+          [update.id, JSON.stringify(update.embedding)]
+        );
+      }
+      await client.query('COMMIT');
+
+    } catch (error) {
+      await client.query('ROLLBACK');
+
+      throw new RAGError(
+        `Failed to update embeddings: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        'VECTOR_UPSERT_FAILED',
+        {
+          documentCount: updates.length,
+          originalError: error,
+        }
+      );
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * Get total document count, or the count for one collection
    */
-  async count(): Promise<number> {
+  async count(collection?: string): Promise<number> {
     const client = await this.getClient();
 
     try {
-      const query = `SELECT COUNT(*) as count FROM ${this.tableName}`;
-      const result = await client.query(query);
+      const query = collection
+        ? `SELECT COUNT(*) as count FROM ${this.tableName} WHERE collection = $1`
+        : `SELECT COUNT(*) as count FROM ${this.tableName}`;
+      const result = await client.query(query, collection ? [collection] : []);
       return parseInt(result.rows[0]?.count || '0', 10);
       
     } catch (error) {
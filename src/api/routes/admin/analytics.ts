@@ -0,0 +1,311 @@
+/**
+ * Admin query analytics reports: content gaps, top queries, volume and latency
+ */
+
+import type { FastifyInstance, FastifyPluginOptions, FastifyReply, FastifyRequest } from 'fastify';
+import { RAGError } from '@/types';
+import config from '@/utils/config';
+import { createEmbeddingAdapter } from '@/adapters/embedding';
+import type { QueryPlatform } from '@/core/analytics/queryAnalytics';
+import { QueryInsights, PostgresQueryInsightsStore } from '@/core/analytics/queryInsights';
+import { adminHeadersSchema, errorResponseSchema, verifyAdminKey } from './shared';
+
+// Global analytics reader instance (initialized on first admin analytics request)
+let queryInsights: QueryInsights | null = null;
+
+/**
+ * Get the shared analytics reader; gap clustering needs the embedding adapter
+ */
+async function getQueryInsights(): Promise<QueryInsights> {
+  if (queryInsights) {
+    return queryInsights;
+  }
+
+  const embeddingAdapter = await createEmbeddingAdapter(
+    config.EMBEDDING_PROVIDER,
+    { model: config.EMBEDDING_MODEL }
+  );
+
+  queryInsights = new QueryInsights(
+    new PostgresQueryInsightsStore({ connectionString: config.DATABASE_URL }),
+    embeddingAdapter
+  );
+  return queryInsights;
+}
+
+async function adminAnalyticsRoute(
+  fastify: FastifyInstance,
+  _opts: FastifyPluginOptions
+): Promise<void> {
+  const analyticsQuerySchema = {
+    type: 'object',
+    properties: {
+      days: { type: 'integer', minimum: 1, maximum: 365, default: 7 },
+      platform: { type: 'string', enum: ['api', 'slack', 'teams'] },
+      collection: { type: 'string', enum: ['pssis-admin', 'schoology'] },
+    },
+  };
+
+  const percentilesSchema = {
+    type: 'object',
+    properties: {
+      p50: { type: ['number', 'null'] },
+      p90: { type: ['number', 'null'] },
+      p95: { type: ['number', 'null'] },
+      p99: { type: ['number', 'null'] },
+    },
+  };
+
+  /**
+   * Shared error handling for the analytics reports
+   */
+  const sendAnalyticsError = (request: FastifyRequest, reply: FastifyReply, error: unknown, report: string) => {
+    request.log.error({
+      error: error instanceof Error ? error.message : 'Unknown error',
+      report,
+    }, 'Failed to build analytics report');
+
+    return reply.status(500).send({
+      error: 'INTERNAL_ERROR',
+      message: `Failed to build ${report} report`,
+      code: error instanceof RAGError ? error.code : 'UNKNOWN_ERROR',
+    });
+  };
+
+  // Admin endpoint for content gaps: clusters of unanswered, low-confidence and badly rated questions
+  fastify.get<{
+    Querystring: {
+      days?: number;
+      platform?: QueryPlatform;
+      collection?: string;
+      min_score?: number;
+      similarity?: number;
+      limit?: number;
+    };
+  }>(
+    '/admin/analytics/gaps',
+    {
+      preHandler: verifyAdminKey,
+      schema: {
+        headers: adminHeadersSchema,
+        querystring: {
+          ...analyticsQuerySchema,
+          properties: {
+            ...analyticsQuerySchema.properties,
+            min_score: { type: 'number', minimum: 0, maximum: 1, default: 0.5 },
+            similarity: { type: 'number', minimum: 0.5, maximum: 1, default: 0.85 },
+            limit: { type: 'integer', minimum: 1, maximum: 100, default: 20 },
+          },
+        },
+        response: {
+          200: {
+            type: 'object',
+            properties: {
+              since: { type: 'string' },
+              questions_analyzed: { type: 'number' },
+              clusters: {
+                type: 'array',
+                items: {
+                  type: 'object',
+                  properties: {
+                    id: { type: 'string' },
+                    representative_question: { type: 'string' },
+                    occurrences: { type: 'number' },
+                    unique_questions: { type: 'number' },
+                    fallback_count: { type: 'number' },
+                    low_confidence_count: { type: 'number' },
+                    not_helpful_count: { type: 'number' },
+                    collections: { type: 'array', items: { type: 'string' } },
+                    last_seen: { type: 'string' },
+                    examples: {
+                      type: 'array',
+                      items: {
+                        type: 'object',
+                        properties: {
+                          question: { type: 'string' },
+                          occurrences: { type: 'number' },
+                        },
+                      },
+                    },
+                  },
+                },
+              },
+            },
+          },
+          401: errorResponseSchema,
+          500: errorResponseSchema,
+        },
+      },
+    },
+    async (request, reply) => {
+      const { days, platform, collection, min_score, similarity, limit } = request.query;
+
+      try {
+        const insights = await getQueryInsights();
+        return reply.send(await insights.findGaps({
+          ...(days && { days }),
+          ...(platform && { platform }),
+          ...(collection && { collection }),
+          ...(min_score !== undefined && { lowConfidenceThreshold: min_score }),
+          ...(similarity !== undefined && { similarityThreshold: similarity }),
+          ...(limit && { limit }),
+        }));
+      } catch (error) {
+        return sendAnalyticsError(request, reply, error, 'content gaps');
+      }
+    }
+  );
+
+  // Admin endpoint for the most frequently asked questions
+  fastify.get<{ Querystring: { days?: number; platform?: QueryPlatform; collection?: string; limit?: number } }>(
+    '/admin/analytics/top-queries',
+    {
+      preHandler: verifyAdminKey,
+      schema: {
+        headers: adminHeadersSchema,
+        querystring: {
+          ...analyticsQuerySchema,
+          properties: {
+            ...analyticsQuerySchema.properties,
+            limit: { type: 'integer', minimum: 1, maximum: 100, default: 20 },
+          },
+        },
+        response: {
+          200: {
+            type: 'object',
+            properties: {
+              queries: {
+                type: 'array',
+                items: {
+                  type: 'object',
+                  properties: {
+                    query_hash: { type: 'string' },
+                    query_text: { type: ['string', 'null'] },
+                    count: { type: 'number' },
+                    avg_top_score: { type: ['number', 'null'] },
+                    fallback_rate: { type: 'number' },
+                    last_seen: { type: 'string' },
+                  },
+                },
+              },
+            },
+          },
+          401: errorResponseSchema,
+          500: errorResponseSchema,
+        },
+      },
+    },
+    async (request, reply) => {
+      const { days, platform, collection, limit } = request.query;
+
+      try {
+        const insights = await getQueryInsights();
+        const queries = await insights.topQueries({
+          ...(days && { days }),
+          ...(platform && { platform }),
+          ...(collection && { collection }),
+          ...(limit && { limit }),
+        });
+        return reply.send({ queries });
+      } catch (error) {
+        return sendAnalyticsError(request, reply, error, 'top queries');
+      }
+    }
+  );
+
+  // Admin endpoint for query volume per collection
+  fastify.get<{ Querystring: { days?: number; platform?: QueryPlatform } }>(
+    '/admin/analytics/volume',
+    {
+      preHandler: verifyAdminKey,
+      schema: {
+        headers: adminHeadersSchema,
+        querystring: {
+          type: 'object',
+          properties: {
+            days: analyticsQuerySchema.properties.days,
+            platform: analyticsQuerySchema.properties.platform,
+          },
+        },
+        response: {
+          200: {
+            type: 'object',
+            properties: {
+              collections: {
+                type: 'array',
+                items: {
+                  type: 'object',
+                  properties: {
+                    collection: { type: 'string' },
+                    queries: { type: 'number' },
+                    fallback_count: { type: 'number' },
+                    cached_count: { type: 'number' },
+                    avg_total_time_ms: { type: ['number', 'null'] },
+                  },
+                },
+              },
+            },
+          },
+          401: errorResponseSchema,
+          500: errorResponseSchema,
+        },
+      },
+    },
+    async (request, reply) => {
+      const { days, platform } = request.query;
+
+      try {
+        const insights = await getQueryInsights();
+        const collections = await insights.collectionVolume({
+          ...(days && { days }),
+          ...(platform && { platform }),
+        });
+        return reply.send({ collections });
+      } catch (error) {
+        return sendAnalyticsError(request, reply, error, 'collection volume');
+      }
+    }
+  );
+
+  // Admin endpoint for latency percentiles, overall and per pipeline stage
+  fastify.get<{ Querystring: { days?: number; platform?: QueryPlatform; collection?: string } }>(
+    '/admin/analytics/latency',
+    {
+      preHandler: verifyAdminKey,
+      schema: {
+        headers: adminHeadersSchema,
+        querystring: analyticsQuerySchema,
+        response: {
+          200: {
+            type: 'object',
+            properties: {
+              count: { type: 'number' },
+              total: percentilesSchema,
+              embedding: percentilesSchema,
+              search: percentilesSchema,
+              llm: percentilesSchema,
+            },
+          },
+          401: errorResponseSchema,
+          500: errorResponseSchema,
+        },
+      },
+    },
+    async (request, reply) => {
+      const { days, platform, collection } = request.query;
+
+      try {
+        const insights = await getQueryInsights();
+        return reply.send(await insights.latency({
+          ...(days && { days }),
+          ...(platform && { platform }),
+          ...(collection && { collection }),
+        }));
+      } catch (error) {
+        return sendAnalyticsError(request, reply, error, 'latency');
+      }
+    }
+  );
+}
+
+export default adminAnalyticsRoute;
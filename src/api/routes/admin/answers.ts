@@ -0,0 +1,230 @@
+/**
+ * Admin endpoints for curated answers returned instead of generated ones
+ */
+
+import type { FastifyInstance, FastifyPluginOptions, FastifyReply, FastifyRequest } from 'fastify';
+import { RAGError } from '@/types';
+import { curatedAnswers, type CuratedAnswerInput } from '@/core/rag/curatedAnswers';
+import { adminHeadersSchema, errorResponseSchema, verifyAdminKey } from './shared';
+
+async function adminAnswersRoute(
+  fastify: FastifyInstance,
+  _opts: FastifyPluginOptions
+): Promise<void> {
+  const curatedAnswerSchema = {
+    type: 'object',
+    properties: {
+      id: { type: 'string' },
+      question: { type: 'string' },
+      variants: { type: 'array', items: { type: 'string' } },
+      answer: { type: 'string' },
+      summary: { type: 'string' },
+      citations: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: {
+            title: { type: 'string' },
+            url: { type: 'string' },
+          },
+          required: ['title', 'url'],
+        },
+      },
+      collection: { type: 'string' },
+      expiresAt: { type: 'string' },
+      createdAt: { type: 'string' },
+      updatedAt: { type: 'string' },
+    },
+  };
+
+  const curatedAnswerBodyProperties = {
+    question: { type: 'string', minLength: 1, maxLength: 1000 },
+    variants: { type: 'array', items: { type: 'string', minLength: 1, maxLength: 1000 }, maxItems: 50 },
+    answer: { type: 'string', minLength: 1, maxLength: 20000 },
+    summary: { type: 'string', maxLength: 1000 },
+    citations: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          title: { type: 'string', minLength: 1 },
+          url: { type: 'string', minLength: 1 },
+        },
+        required: ['title', 'url'],
+        additionalProperties: false,
+      },
+    },
+    collection: { type: 'string', enum: ['*', 'pssis-admin', 'schoology'] },
+    expiresAt: { type: ['string', 'null'], format: 'date-time' },
+  };
+
+  const curatedAnswerParamsSchema = {
+    type: 'object',
+    properties: {
+      id: { type: 'string' },
+    },
+    required: ['id'],
+  };
+
+  /**
+   * Map curated answer errors to admin responses
+   */
+  const sendCuratedAnswerError = (request: FastifyRequest, reply: FastifyReply, error: unknown, action: string) => {
+    if (error instanceof RAGError && error.code === 'CURATED_ANSWER_NOT_FOUND') {
+      return reply.status(404).send({
+        error: 'NOT_FOUND',
+        message: error.message,
+      });
+    }
+
+    if (error instanceof RAGError && error.code === 'INVALID_CURATED_ANSWER') {
+      return reply.status(400).send({
+        error: 'INVALID_ANSWER',
+        message: error.message,
+        code: error.code,
+      });
+    }
+
+    request.log.error({
+      error: error instanceof Error ? error.message : 'Unknown error',
+    }, `Failed to ${action} curated answer`);
+
+    return reply.status(500).send({
+      error: 'INTERNAL_ERROR',
+      message: `Failed to ${action} curated answer`,
+      code: error instanceof RAGError ? error.code : 'UNKNOWN_ERROR',
+    });
+  };
+
+  // Admin endpoint for listing curated answers
+  fastify.get(
+    '/admin/answers',
+    {
+      preHandler: verifyAdminKey,
+      schema: {
+        headers: adminHeadersSchema,
+        response: {
+          200: {
+            type: 'object',
+            properties: {
+              answers: { type: 'array', items: curatedAnswerSchema },
+            },
+          },
+          401: errorResponseSchema,
+        },
+      },
+    },
+    async (_request, reply) => {
+      await curatedAnswers.refresh();
+
+      return reply.send({
+        answers: curatedAnswers.list(),
+      });
+    }
+  );
+
+  // Admin endpoint for adding a curated answer
+  fastify.post<{ Body: CuratedAnswerInput }>(
+    '/admin/answers',
+    {
+      preHandler: verifyAdminKey,
+      schema: {
+        headers: adminHeadersSchema,
+        body: {
+          type: 'object',
+          properties: curatedAnswerBodyProperties,
+          required: ['question', 'answer'],
+          additionalProperties: false,
+        },
+        response: {
+          201: curatedAnswerSchema,
+          400: errorResponseSchema,
+          401: errorResponseSchema,
+          500: errorResponseSchema,
+        },
+      },
+    },
+    async (request, reply) => {
+      try {
+        const answer = await curatedAnswers.create(request.body);
+
+        request.log.info({
+          id: answer.id,
+          collection: answer.collection,
+          variants: answer.variants.length,
+        }, 'Admin curated answer created');
+
+        return reply.status(201).send(answer);
+      } catch (error) {
+        return sendCuratedAnswerError(request, reply, error, 'create');
+      }
+    }
+  );
+
+  // Admin endpoint for editing a curated answer; omitted fields are kept
+  fastify.patch<{ Params: { id: string }; Body: Partial<CuratedAnswerInput> }>(
+    '/admin/answers/:id',
+    {
+      preHandler: verifyAdminKey,
+      schema: {
+        headers: adminHeadersSchema,
+        params: curatedAnswerParamsSchema,
+        body: {
+          type: 'object',
+          properties: curatedAnswerBodyProperties,
+          minProperties: 1,
+          additionalProperties: false,
+        },
+        response: {
+          200: curatedAnswerSchema,
+          400: errorResponseSchema,
+          401: errorResponseSchema,
+          404: errorResponseSchema,
+          500: errorResponseSchema,
+        },
+      },
+    },
+    async (request, reply) => {
+      try {
+        const answer = await curatedAnswers.update(request.params.id, request.body);
+
+        request.log.info({ id: answer.id }, 'Admin curated answer updated');
+
+        return reply.send(answer);
+      } catch (error) {
+        return sendCuratedAnswerError(request, reply, error, 'update');
+      }
+    }
+  );
+
+  // Admin endpoint for removing a curated answer
+  fastify.delete<{ Params: { id: string } }>(
+    '/admin/answers/:id',
+    {
+      preHandler: verifyAdminKey,
+      schema: {
+        headers: adminHeadersSchema,
+        params: curatedAnswerParamsSchema,
+        response: {
+          204: { type: 'null' },
+          401: errorResponseSchema,
+          404: errorResponseSchema,
+          500: errorResponseSchema,
+        },
+      },
+    },
+    async (request, reply) => {
+      try {
+        await curatedAnswers.delete(request.params.id);
+
+        request.log.info({ id: request.params.id }, 'Admin curated answer deleted');
+
+        return reply.status(204).send();
+      } catch (error) {
+        return sendCuratedAnswerError(request, reply, error, 'delete');
+      }
+    }
+  );
+}
+
+export default adminAnswersRoute;
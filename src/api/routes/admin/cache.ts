@@ -0,0 +1,150 @@
+/**
+ * Admin endpoints for inspecting and flushing the semantic answer cache
+ */
+
+import type { FastifyInstance, FastifyPluginOptions } from 'fastify';
+import { answerCache } from '@/core/rag/answerCache';
+import { adminHeadersSchema, errorResponseSchema, verifyAdminKey } from './shared';
+
+async function adminCacheRoute(
+  fastify: FastifyInstance,
+  _opts: FastifyPluginOptions
+): Promise<void> {
+  // Admin endpoint for inspecting the semantic answer cache
+  fastify.get(
+    '/admin/cache',
+    {
+      preHandler: verifyAdminKey,
+      schema: {
+        headers: adminHeadersSchema,
+        response: {
+          200: {
+            type: 'object',
+            properties: {
+              stats: {
+                type: 'object',
+                properties: {
+                  entries: { type: 'number' },
+                  hits: { type: 'number' },
+                  misses: { type: 'number' },
+                  invalidations: { type: 'number' },
+                  hitRate: { type: 'number' },
+                  similarityThreshold: { type: 'number' },
+                  ttlMs: { type: 'number' },
+                  maxEntries: { type: 'number' },
+                },
+              },
+              entries: {
+                type: 'array',
+                items: {
+                  type: 'object',
+                  properties: {
+                    id: { type: 'string' },
+                    query: { type: 'string' },
+                    summary: { type: 'string' },
+                    collections: { type: 'array', items: { type: 'string' } },
+                    configKey: { type: 'string' },
+                    createdAt: { type: 'number' },
+                    hits: { type: 'number' },
+                    lastHitAt: { type: 'number' },
+                  },
+                },
+              },
+            },
+          },
+          401: errorResponseSchema,
+        },
+      },
+    },
+    async (_request, reply) => {
+      return reply.send({
+        stats: answerCache.getStats(),
+        entries: answerCache.list(),
+      });
+    }
+  );
+
+  // Admin endpoint for flushing the semantic answer cache (optionally one collection)
+  fastify.delete<{ Querystring: { collection?: string } }>(
+    '/admin/cache',
+    {
+      preHandler: verifyAdminKey,
+      schema: {
+        headers: adminHeadersSchema,
+        querystring: {
+          type: 'object',
+          properties: {
+            collection: { type: 'string', enum: ['pssis-admin', 'schoology'] },
+          },
+        },
+        response: {
+          200: {
+            type: 'object',
+            properties: {
+              removed: { type: 'number' },
+              collection: { type: 'string' },
+              timestamp: { type: 'string' },
+            },
+          },
+          401: errorResponseSchema,
+        },
+      },
+    },
+    async (request, reply) => {
+      const { collection } = request.query;
+      const removed = answerCache.invalidate(collection);
+
+      request.log.info({ collection: collection || 'all', removed }, 'Admin answer cache flush');
+
+      return reply.send({
+        removed,
+        collection: collection || 'all',
+        timestamp: new Date().toISOString(),
+      });
+    }
+  );
+
+  // Admin endpoint for removing a single cached answer
+  fastify.delete<{ Params: { id: string } }>(
+    '/admin/cache/:id',
+    {
+      preHandler: verifyAdminKey,
+      schema: {
+        headers: adminHeadersSchema,
+        params: {
+          type: 'object',
+          properties: {
+            id: { type: 'string' },
+          },
+          required: ['id'],
+        },
+        response: {
+          200: {
+            type: 'object',
+            properties: {
+              removed: { type: 'number' },
+              timestamp: { type: 'string' },
+            },
+          },
+          401: errorResponseSchema,
+          404: errorResponseSchema,
+        },
+      },
+    },
+    async (request, reply) => {
+      if (!answerCache.delete(request.params.id)) {
+        return reply.status(404).send({
+          error: 'NOT_FOUND',
+          message: `No cached answer with id ${request.params.id}`,
+        });
+      }
+
+      return reply.send({
+        removed: 1,
+        timestamp: new Date().toISOString(),
+      });
+    }
+  );
+}
+
+export default adminCacheRoute;
@@ -0,0 +1,121 @@
+/**
+ * Admin endpoint for helpful / not-helpful ratings from Slack and Teams
+ */
+
+import type { FastifyInstance, FastifyPluginOptions } from 'fastify';
+import { RAGError } from '@/types';
+import type { QueryPlatform } from '@/core/analytics/queryAnalytics';
+import {
+  answerFeedback,
+  FEEDBACK_REASONS,
+  type FeedbackRating,
+  type FeedbackReason,
+} from '@/core/analytics/answerFeedback';
+import { adminHeadersSchema, errorResponseSchema, verifyAdminKey } from './shared';
+
+async function adminFeedbackRoute(
+  fastify: FastifyInstance,
+  _opts: FastifyPluginOptions
+): Promise<void> {
+  // Admin endpoint for reviewing helpful / not-helpful ratings from Slack and Teams
+  fastify.get<{
+    Querystring: {
+      rating?: FeedbackRating;
+      platform?: QueryPlatform;
+      reason?: FeedbackReason;
+      since?: string;
+      limit?: number;
+      offset?: number;
+    };
+  }>(
+    '/admin/feedback',
+    {
+      preHandler: verifyAdminKey,
+      schema: {
+        headers: adminHeadersSchema,
+        querystring: {
+          type: 'object',
+          properties: {
+            rating: { type: 'string', enum: ['helpful', 'not_helpful'] },
+            platform: { type: 'string', enum: ['api', 'slack', 'teams'] },
+            reason: { type: 'string', enum: [...FEEDBACK_REASONS] },
+            since: { type: 'string', format: 'date-time' },
+            limit: { type: 'integer', minimum: 1, maximum: 200, default: 50 },
+            offset: { type: 'integer', minimum: 0, default: 0 },
+          },
+          additionalProperties: false,
+        },
+        response: {
+          200: {
+            type: 'object',
+            properties: {
+              summary: {
+                type: 'object',
+                properties: {
+                  total: { type: 'number' },
+                  helpful: { type: 'number' },
+                  not_helpful: { type: 'number' },
+                  by_reason: {
+                    type: 'object',
+                    additionalProperties: { type: 'number' },
+                  },
+                },
+              },
+              items: {
+                type: 'array',
+                items: {
+                  type: 'object',
+                  properties: {
+                    id: { type: 'string' },
+                    response_id: { type: 'string' },
+                    platform: { type: 'string' },
+                    user_id: { type: 'string' },
+                    rating: { type: 'string' },
+                    reason: { type: 'string' },
+                    comment: { type: 'string' },
+                    query_text: { type: 'string' },
+                    collection: { type: 'string' },
+                    created_at: { type: 'string' },
+                    updated_at: { type: 'string' },
+                  },
+                },
+              },
+              limit: { type: 'number' },
+              offset: { type: 'number' },
+            },
+          },
+          401: errorResponseSchema,
+          500: errorResponseSchema,
+        },
+      },
+    },
+    async (request, reply) => {
+      const { rating, platform, reason, since, limit = 50, offset = 0 } = request.query;
+
+      try {
+        const { items, summary } = await answerFeedback.list({
+          ...(rating && { rating }),
+          ...(platform && { platform }),
+          ...(reason && { reason }),
+          ...(since && { since: new Date(since) }),
+          limit,
+          offset,
+        });
+
+        return reply.send({ summary, items, limit, offset });
+      } catch (error) {
+        request.log.error({
+          error: error instanceof Error ? error.message : 'Unknown error',
+        }, 'Failed to list answer feedback');
+
+        return reply.status(500).send({
+          error: 'INTERNAL_ERROR',
+          message: 'Failed to list answer feedback',
+          code: error instanceof RAGError ? error.code : 'UNKNOWN_ERROR',
+        });
+      }
+    }
+  );
+}
+
+export default adminFeedbackRoute;
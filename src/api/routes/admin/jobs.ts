@@ -0,0 +1,331 @@
+/**
+ * Admin endpoints for background crawl and indexing jobs
+ */
+
+import type { FastifyInstance, FastifyPluginOptions, FastifyReply, FastifyRequest } from 'fastify';
+import { RAGError } from '@/types';
+import {
+  JOB_STATUSES,
+  JOB_TYPES,
+  processingJobs,
+  type JobConfig,
+  type JobStatus,
+  type JobType,
+} from '@/core/jobs/processingJobs';
+import { COLLECTION_SOURCES } from '@/core/jobs/jobHandlers';
+import { adminHeadersSchema, errorResponseSchema, verifyAdminKey } from './shared';
+
+async function adminJobsRoute(
+  fastify: FastifyInstance,
+  _opts: FastifyPluginOptions
+): Promise<void> {
+  const jobSchema = {
+    type: 'object',
+    properties: {
+      id: { type: 'string' },
+      job_type: { type: 'string' },
+      status: { type: 'string' },
+      config: {
+        type: 'object',
+        properties: {
+          collection: { type: 'string' },
+          max_pages: { type: 'number' },
+          older_than_days: { type: 'number' },
+        },
+      },
+      progress_current: { type: 'number' },
+      progress_total: { type: 'number' },
+      result: { type: 'object', additionalProperties: true },
+      error_message: { type: 'string' },
+      started_at: { type: 'string' },
+      completed_at: { type: 'string' },
+      heartbeat_at: { type: 'string' },
+      created_at: { type: 'string' },
+    },
+  };
+
+  /**
+   * Map job errors to admin responses
+   */
+  const sendJobError = (request: FastifyRequest, reply: FastifyReply, error: unknown, action: string) => {
+    if (error instanceof RAGError && error.code === 'JOB_NOT_FOUND') {
+      return reply.status(404).send({
+        error: 'NOT_FOUND',
+        message: error.message,
+      });
+    }
+
+    if (error instanceof RAGError && error.code === 'JOB_NOT_CANCELLABLE') {
+      return reply.status(409).send({
+        error: 'CONFLICT',
+        message: error.message,
+        code: error.code,
+      });
+    }
+
+    if (error instanceof RAGError && error.code === 'INVALID_JOB') {
+      return reply.status(400).send({
+        error: 'INVALID_JOB',
+        message: error.message,
+        code: error.code,
+      });
+    }
+
+    request.log.error({
+      error: error instanceof Error ? error.message : 'Unknown error',
+    }, `Failed to ${action} job`);
+
+    return reply.status(500).send({
+      error: 'INTERNAL_ERROR',
+      message: `Failed to ${action} job`,
+      code: error instanceof RAGError ? error.code : 'UNKNOWN_ERROR',
+    });
+  };
+
+  // Admin endpoint for reindexing documents; queues a reindex job per collection
+  fastify.post<{ Body: { collection?: string } | undefined }>(
+    '/admin/reindex',
+    {
+      preHandler: verifyAdminKey,
+      schema: {
+        headers: adminHeadersSchema,
+        body: {
+          type: 'object',
+          properties: {
+            collection: { type: 'string', enum: Object.keys(COLLECTION_SOURCES) },
+          },
+          additionalProperties: false,
+        },
+        response: {
+          202: {
+            type: 'object',
+            properties: {
+              message: { type: 'string' },
+              status: { type: 'string' },
+              timestamp: { type: 'string' },
+              job_ids: { type: 'array', items: { type: 'string' } },
+            },
+          },
+          401: errorResponseSchema,
+          500: errorResponseSchema,
+        },
+      },
+    },
+    async (request, reply) => {
+      const collections = request.body?.collection ? [request.body.collection] : Object.keys(COLLECTION_SOURCES);
+
+      request.log.info({ collections }, 'Admin reindex triggered');
+
+      try {
+        const jobs = [];
+        for (const collection of collections) {
+          jobs.push(await processingJobs.enqueue('reindex', { collection }));
+        }
+
+        return reply.status(202).send({
+          message: `Queued reindexing of ${collections.join(', ')}; follow progress at /api/admin/jobs`,
+          status: 'queued',
+          timestamp: new Date().toISOString(),
+          job_ids: jobs.map(job => job.id),
+        });
+      } catch (error) {
+        return sendJobError(request, reply, error, 'queue reindex');
+      }
+    }
+  );
+
+  // Admin endpoint for seeding Schoology documentation; queues a crawl job
+  fastify.post(
+    '/admin/seed/schoology',
+    {
+      preHandler: verifyAdminKey,
+      schema: {
+        headers: adminHeadersSchema,
+        response: {
+          202: {
+            type: 'object',
+            properties: {
+              status: { type: 'string' },
+              message: { type: 'string' },
+              job_id: { type: 'string' },
+            },
+            required: ['status', 'message', 'job_id'],
+          },
+          401: errorResponseSchema,
+          500: errorResponseSchema,
+        },
+      },
+    },
+    async (request, reply) => {
+      request.log.info('Admin Schoology seeding triggered');
+
+      try {
+        const job = await processingJobs.enqueue('crawl', { collection: 'schoology' });
+
+        return reply.status(202).send({
+          status: 'queued',
+          message: `Schoology crawl queued; follow progress at /api/admin/jobs/${job.id}`,
+          job_id: job.id,
+        });
+      } catch (error) {
+        return sendJobError(request, reply, error, 'queue seeding');
+      }
+    }
+  );
+
+  const jobParamsSchema = {
+    type: 'object',
+    properties: {
+      id: { type: 'string', format: 'uuid' },
+    },
+    required: ['id'],
+  };
+
+  // Admin endpoint for queueing a crawl, index, reindex or cleanup job
+  fastify.post<{ Body: { job_type: JobType } & JobConfig }>(
+    '/admin/jobs',
+    {
+      preHandler: verifyAdminKey,
+      schema: {
+        headers: adminHeadersSchema,
+        body: {
+          type: 'object',
+          properties: {
+            job_type: { type: 'string', enum: [...JOB_TYPES] },
+            collection: { type: 'string', enum: Object.keys(COLLECTION_SOURCES) },
+            max_pages: { type: 'integer', minimum: 1, maximum: 10000 },
+            older_than_days: { type: 'integer', minimum: 0, maximum: 3650 },
+          },
+          required: ['job_type', 'collection'],
+          additionalProperties: false,
+        },
+        response: {
+          202: jobSchema,
+          400: errorResponseSchema,
+          401: errorResponseSchema,
+          500: errorResponseSchema,
+        },
+      },
+    },
+    async (request, reply) => {
+      const { job_type, ...jobConfig } = request.body;
+
+      try {
+        const job = await processingJobs.enqueue(job_type, jobConfig);
+
+        request.log.info({ id: job.id, job_type, collection: jobConfig.collection }, 'Admin job queued');
+
+        return reply.status(202).send(job);
+      } catch (error) {
+        return sendJobError(request, reply, error, 'queue');
+      }
+    }
+  );
+
+  // Admin endpoint for listing jobs, newest first
+  fastify.get<{ Querystring: { status?: JobStatus; job_type?: JobType; collection?: string; limit?: number; offset?: number } }>(
+    '/admin/jobs',
+    {
+      preHandler: verifyAdminKey,
+      schema: {
+        headers: adminHeadersSchema,
+        querystring: {
+          type: 'object',
+          properties: {
+            status: { type: 'string', enum: [...JOB_STATUSES] },
+            job_type: { type: 'string', enum: [...JOB_TYPES] },
+            collection: { type: 'string' },
+            limit: { type: 'integer', minimum: 1, maximum: 200, default: 50 },
+            offset: { type: 'integer', minimum: 0, default: 0 },
+          },
+        },
+        response: {
+          200: {
+            type: 'object',
+            properties: {
+              jobs: { type: 'array', items: jobSchema },
+              limit: { type: 'number' },
+              offset: { type: 'number' },
+            },
+          },
+          401: errorResponseSchema,
+          500: errorResponseSchema,
+        },
+      },
+    },
+    async (request, reply) => {
+      const { status, job_type, collection, limit = 50, offset = 0 } = request.query;
+
+      try {
+        const jobs = await processingJobs.list({
+          ...(status && { status }),
+          ...(job_type && { jobType: job_type }),
+          ...(collection && { collection }),
+          limit,
+          offset,
+        });
+
+        return reply.send({ jobs, limit, offset });
+      } catch (error) {
+        return sendJobError(request, reply, error, 'list');
+      }
+    }
+  );
+
+  // Admin endpoint for a job's status and progress
+  fastify.get<{ Params: { id: string } }>(
+    '/admin/jobs/:id',
+    {
+      preHandler: verifyAdminKey,
+      schema: {
+        headers: adminHeadersSchema,
+        params: jobParamsSchema,
+        response: {
+          200: jobSchema,
+          401: errorResponseSchema,
+          404: errorResponseSchema,
+          500: errorResponseSchema,
+        },
+      },
+    },
+    async (request, reply) => {
+      try {
+        return reply.send(await processingJobs.get(request.params.id));
+      } catch (error) {
+        return sendJobError(request, reply, error, 'load');
+      }
+    }
+  );
+
+  // Admin endpoint for cancelling a pending or running job
+  fastify.post<{ Params: { id: string } }>(
+    '/admin/jobs/:id/cancel',
+    {
+      preHandler: verifyAdminKey,
+      schema: {
+        headers: adminHeadersSchema,
+        params: jobParamsSchema,
+        response: {
+          200: jobSchema,
+          401: errorResponseSchema,
+          404: errorResponseSchema,
+          409: errorResponseSchema,
+          500: errorResponseSchema,
+        },
+      },
+    },
+    async (request, reply) => {
+      try {
+        const job = await processingJobs.cancel(request.params.id);
+
+        request.log.info({ id: job.id, status: job.status }, 'Admin job cancelled');
+
+        return reply.send(job);
+      } catch (error) {
+        return sendJobError(request, reply, error, 'cancel');
+      }
+    }
+  );
+}
+
+export default adminJobsRoute;
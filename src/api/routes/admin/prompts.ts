@@ -0,0 +1,174 @@
+/**
+ * Admin endpoints for versioned prompt templates
+ */
+
+import type { FastifyInstance, FastifyPluginOptions } from 'fastify';
+import { RAGError } from '@/types';
+import { promptTemplates, type PromptTemplateInput } from '@/core/rag/promptTemplates';
+import { adminHeadersSchema, errorResponseSchema, verifyAdminKey } from './shared';
+
+async function adminPromptsRoute(
+  fastify: FastifyInstance,
+  _opts: FastifyPluginOptions
+): Promise<void> {
+  const promptTemplateSchema = {
+    type: 'object',
+    properties: {
+      id: { type: 'string' },
+      collection: { type: 'string' },
+      intent: { type: 'string' },
+      version: { type: 'number' },
+      template: { type: 'string' },
+      description: { type: 'string' },
+      active: { type: 'boolean' },
+      createdAt: { type: 'string' },
+    },
+  };
+
+  // Admin endpoint for listing prompt template versions
+  fastify.get(
+    '/admin/prompts',
+    {
+      preHandler: verifyAdminKey,
+      schema: {
+        headers: adminHeadersSchema,
+        response: {
+          200: {
+            type: 'object',
+            properties: {
+              templates: { type: 'array', items: promptTemplateSchema },
+            },
+          },
+          401: errorResponseSchema,
+        },
+      },
+    },
+    async (_request, reply) => {
+      await promptTemplates.refresh();
+
+      return reply.send({
+        templates: promptTemplates.list(),
+      });
+    }
+  );
+
+  // Admin endpoint for creating a new prompt template version
+  fastify.post<{ Body: PromptTemplateInput }>(
+    '/admin/prompts',
+    {
+      preHandler: verifyAdminKey,
+      schema: {
+        headers: adminHeadersSchema,
+        body: {
+          type: 'object',
+          properties: {
+            collection: { type: 'string', enum: ['*', 'pssis-admin', 'schoology'] },
+            intent: { type: 'string', enum: ['*', 'instructions', 'details'] },
+            template: { type: 'string', minLength: 1, maxLength: 20000 },
+            description: { type: 'string', maxLength: 500 },
+            activate: { type: 'boolean' },
+          },
+          required: ['template'],
+          additionalProperties: false,
+        },
+        response: {
+          201: promptTemplateSchema,
+          400: errorResponseSchema,
+          401: errorResponseSchema,
+          500: errorResponseSchema,
+        },
+      },
+    },
+    async (request, reply) => {
+      try {
+        const template = await promptTemplates.create(request.body);
+
+        request.log.info({
+          id: template.id,
+          collection: template.collection,
+          intent: template.intent,
+          version: template.version,
+          active: template.active,
+        }, 'Admin prompt template created');
+
+        return reply.status(201).send(template);
+      } catch (error) {
+        if (error instanceof RAGError && error.code === 'INVALID_PROMPT_TEMPLATE') {
+          return reply.status(400).send({
+            error: 'INVALID_TEMPLATE',
+            message: error.message,
+            code: error.code,
+            details: error.details,
+          });
+        }
+
+        request.log.error({
+          error: error instanceof Error ? error.message : 'Unknown error',
+        }, 'Failed to create prompt template');
+
+        return reply.status(500).send({
+          error: 'INTERNAL_ERROR',
+          message: 'Failed to create prompt template',
+          code: error instanceof RAGError ? error.code : 'UNKNOWN_ERROR',
+        });
+      }
+    }
+  );
+
+  // Admin endpoint for activating a prompt template version
+  fastify.post<{ Params: { id: string } }>(
+    '/admin/prompts/:id/activate',
+    {
+      preHandler: verifyAdminKey,
+      schema: {
+        headers: adminHeadersSchema,
+        params: {
+          type: 'object',
+          properties: {
+            id: { type: 'string' },
+          },
+          required: ['id'],
+        },
+        response: {
+          200: promptTemplateSchema,
+          401: errorResponseSchema,
+          404: errorResponseSchema,
+          500: errorResponseSchema,
+        },
+      },
+    },
+    async (request, reply) => {
+      try {
+        const template = await promptTemplates.activate(request.params.id);
+
+        request.log.info({
+          id: template.id,
+          collection: template.collection,
+          intent: template.intent,
+          version: template.version,
+        }, 'Admin prompt template activated');
+
+        return reply.send(template);
+      } catch (error) {
+        if (error instanceof RAGError && error.code === 'PROMPT_TEMPLATE_NOT_FOUND') {
+          return reply.status(404).send({
+            error: 'NOT_FOUND',
+            message: error.message,
+          });
+        }
+
+        request.log.error({
+          error: error instanceof Error ? error.message : 'Unknown error',
+        }, 'Failed to activate prompt template');
+
+        return reply.status(500).send({
+          error: 'INTERNAL_ERROR',
+          message: 'Failed to activate prompt template',
+          code: error instanceof RAGError ? error.code : 'UNKNOWN_ERROR',
+        });
+      }
+    }
+  );
+}
+
+export default adminPromptsRoute;
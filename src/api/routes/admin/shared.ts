@@ -0,0 +1,39 @@
+/**
+ * Authentication and schemas shared by the admin route modules
+ */
+
+import type { FastifyReply, FastifyRequest } from 'fastify';
+import config from '@/utils/config';
+
+/**
+ * Simple API key authentication for admin endpoints
+ */
+export async function verifyAdminKey(request: FastifyRequest, reply: FastifyReply): Promise<void> {
+  const apiKey = request.headers['x-api-key'] as string;
+
+  if (!apiKey || apiKey !== config.ADMIN_API_KEY) {
+    return reply.status(401).send({
+      error: 'UNAUTHORIZED',
+      message: 'Invalid or missing admin API key',
+    });
+  }
+}
+
+export const adminHeadersSchema = {
+  type: 'object',
+  properties: {
+    'x-api-key': { type: 'string' },
+  },
+  required: ['x-api-key'],
+};
+
+export const errorResponseSchema = {
+  type: 'object',
+  properties: {
+    error: { type: 'string' },
+    message: { type: 'string' },
+    code: { type: 'string' },
+    details: { type: 'object' },
+  },
+  required: ['error', 'message'],
+};
@@ -2,19 +2,95 @@
  * Main RAG endpoint for answering PowerSchool PSSIS-Admin questions
  */
 
-import type { FastifyInstance, FastifyPluginOptions } from 'fastify';
-import type { AskRequest, AskResponse } from '@/types';
+import type { FastifyInstance, FastifyPluginOptions, FastifyRequest } from 'fastify';
+import type { AskRequest, AskResponse, AskStreamEvent, RAGOptions } from '@/types';
 import { RAGError } from '@/types';
 import config from '@/utils/config';
-import { RAGPipeline } from '@/core/rag/ragPipeline';
+import { RAGPipeline, type RAGPipelineOptions } from '@/core/rag/ragPipeline';
 import { createEmbeddingAdapter } from '@/adapters/embedding';
 import { createLLMAdapter } from '@/adapters/llm';
 import { PostgresVectorAdapter } from '@/adapters/vector-store/postgres';
-import { crawlAndSeed } from '@/core/seeding/crawlAndSeed';
+import { queryAnalytics } from '@/core/analytics/queryAnalytics';
+import { parseRetrievalFilters, retrievalFiltersSchema } from '@/utils/validation/retrievalFilters';
 
 // Global RAG pipeline instance (initialized on first request)
 let ragPipeline: RAGPipeline | null = null;
 
+/**
+ * Get the shared RAG pipeline, initializing adapters on first use
+ */
+async function getRAGPipeline(request: FastifyRequest): Promise<RAGPipeline> {
+  if (ragPipeline) {
+    return ragPipeline;
+  }
+
+  request.log.info('Initializing RAG pipeline...');
+
+  try {
+    // Initialize adapters
+    const embeddingAdapter = await createEmbeddingAdapter(
+      config.EMBEDDING_PROVIDER,
+      { model: config.EMBEDDING_MODEL }
+    );
+
+    const llmAdapter = await createLLMAdapter(
+      config.LLM_PROVIDER,
+      { model: config.LLM_MODEL }
+    );
+
+    const vectorStore = new PostgresVectorAdapter({
+      connectionString: config.DATABASE_URL,
+      tableName: config.VECTOR_TABLE_NAME,
+    });
+
+    // Test vector store connectivity
+    const isHealthy = await vectorStore.health();
+    if (!isHealthy) {
+      throw new RAGError(
+        'Vector database is not available or not properly configured',
+        'VECTOR_DB_UNHEALTHY'
+      );
+    }
+
+    ragPipeline = new RAGPipeline(embeddingAdapter, vectorStore, llmAdapter);
+
+    request.log.info('RAG pipeline initialized successfully');
+    return ragPipeline;
+  } catch (error) {
+    request.log.error({
+      error: error instanceof Error ? error.message : 'Unknown initialization error',
+      stack: error instanceof Error ? error.stack : undefined,
+    }, 'Failed to initialize RAG pipeline');
+
+    if (error instanceof RAGError) {
+      throw error;
+    }
+
+    throw new RAGError(
+      'RAG pipeline initialization failed',
+      'INITIALIZATION_FAILED',
+      { originalError: error instanceof Error ? error.message : 'Unknown error' }
+    );
+  }
+}
+
+/**
+ * Map the request's collection, metadata filters and retrieval settings to pipeline options
+ */
+function buildRetrievalOptions(body: AskRequest): Partial<RAGOptions & RAGPipelineOptions> {
+  const { collection, filters, retrieval = {} } = body;
+
+  return {
+    top_k: retrieval.top_k ?? 10,
+    ...(collection && { collections: [collection] }),
+    ...parseRetrievalFilters(filters),
+    ...(retrieval.similarity_threshold !== undefined && { similarityThreshold: retrieval.similarity_threshold }),
+    ...(retrieval.hybrid !== undefined && { useHybridSearch: retrieval.hybrid }),
+    ...(retrieval.vector_weight !== undefined && { vectorWeight: retrieval.vector_weight }),
+    ...(retrieval.text_weight !== undefined && { textWeight: retrieval.text_weight }),
+  };
+}
+
 async function askRoute(
   fastify: FastifyInstance,
   _opts: FastifyPluginOptions
@@ -52,6 +128,25 @@ async function askRoute(
         enum: ['pssis-admin', 'schoology'],
         description: 'Filter results to a specific knowledge base collection',
       },
+      filters: retrievalFiltersSchema,
+      retrieval: {
+        type: 'object',
+        properties: {
+          top_k: { type: 'integer', minimum: 1, maximum: 50 },
+          similarity_threshold: { type: 'number', minimum: 0, maximum: 1 },
+          hybrid: { type: 'boolean', description: 'Fuse vector and keyword search' },
+          vector_weight: { type: 'number', minimum: 0, maximum: 1 },
+          text_weight: { type: 'number', minimum: 0, maximum: 1 },
+        },
+        additionalProperties: false,
+        description: 'Retrieval tuning',
+      },
+      grounding_action: {
+        type: 'string',
+        enum: ['flag', 'strip', 'refuse'],
+        default: 'flag',
+        description: 'Report unsupported claims, remove them, or refuse poorly grounded answers',
+      },
     },
     required: ['query'],
     additionalProperties: false,
@@ -81,10 +176,14 @@ async function askRoute(
           properties: {
             title: { type: 'string' },
             url: { type: 'string' },
+            marker: { type: 'number' },
+            chunk_id: { type: 'string' },
+            section: { type: 'string' },
+            excerpt: { type: 'string' },
           },
           required: ['title', 'url'],
         },
-        description: 'Source citations from PowerSchool documentation',
+        description: 'Source citations from PowerSchool documentation; marker matches the inline [n] in the answer',
       },
       retrieved_docs: {
         type: 'array',
@@ -93,12 +192,21 @@ async function askRoute(
           properties: {
             id: { type: 'string' },
             score: { type: 'number' },
+            url: { type: 'string' },
+            title: { type: 'string' },
             excerpt: { type: 'string' },
+            pre_rerank_score: { type: 'number' },
+            rerank_score: { type: 'number' },
           },
           required: ['id', 'score', 'excerpt'],
         },
         description: 'Documents retrieved from the vector store',
       },
+      source: {
+        type: 'string',
+        enum: ['curated'],
+        description: 'Present when an admin-approved answer was returned verbatim',
+      },
       debug_info: {
         type: 'object',
         properties: {
@@ -108,6 +216,71 @@ async function askRoute(
           processing_time_ms: { type: 'number' },
           documents_found: { type: 'number' },
           used_mock_embedding: { type: 'boolean' },
+          reranker: { type: 'string' },
+          rewritten_query: { type: 'string' },
+          history_turns: { type: 'number' },
+          cached: { type: 'boolean' },
+          cache_similarity: { type: 'number' },
+          curated_answer_id: { type: 'string' },
+          curated_similarity: { type: 'number' },
+          expanded_chunks: { type: 'number' },
+          diversification: { type: 'string' },
+          tokenizer: { type: 'string' },
+          context_budget_tokens: { type: 'number' },
+          context_tokens: { type: 'number' },
+          prompt_tokens: { type: 'number' },
+          response_tokens: { type: 'number' },
+          invalid_citation_markers: { type: 'number' },
+          output_mode: { type: 'string', enum: ['markdown', 'json', 'json_fallback'] },
+          model_confidence: { type: 'number' },
+          prompt_template: { type: 'string' },
+          glossary_hits: {
+            type: 'array',
+            items: {
+              type: 'object',
+              properties: {
+                matched: { type: 'string' },
+                added: { type: 'array', items: { type: 'string' } },
+                collection: { type: 'string' },
+              },
+            },
+          },
+          removed_urls: { type: 'number' },
+          top_score: { type: 'number' },
+          timings: {
+            type: 'object',
+            properties: {
+              query_embedding_time_ms: { type: 'number' },
+              search_time_ms: { type: 'number' },
+              llm_generation_time_ms: { type: 'number' },
+              total_time_ms: { type: 'number' },
+              context_tokens_used: { type: 'number' },
+              response_tokens: { type: 'number' },
+            },
+          },
+          grounding: {
+            type: 'object',
+            properties: {
+              verdict: { type: 'string', enum: ['grounded', 'partially_grounded', 'ungrounded'] },
+              verifier: { type: 'string' },
+              supported_ratio: { type: 'number' },
+              action: { type: 'string', enum: ['flag', 'strip', 'refuse'] },
+              removed_claims: { type: 'number' },
+              claims: {
+                type: 'array',
+                items: {
+                  type: 'object',
+                  properties: {
+                    claim: { type: 'string' },
+                    supported: { type: 'boolean' },
+                    score: { type: 'number' },
+                    source_id: { type: 'string' },
+                  },
+                  required: ['claim', 'supported', 'score'],
+                },
+              },
+            },
+          },
         },
         description: 'Debug information about the RAG pipeline execution',
       },
@@ -160,66 +333,18 @@ async function askRoute(
 
         sanitizedQuery = query.trim();
 
-        // Initialize RAG pipeline on first request
-        if (!ragPipeline) {
-          request.log.info('Initializing RAG pipeline...');
-          
-          try {
-            // Initialize adapters
-            const embeddingAdapter = await createEmbeddingAdapter(
-              config.EMBEDDING_PROVIDER,
-              { model: config.EMBEDDING_MODEL }
-            );
-            
-            const llmAdapter = await createLLMAdapter(
-              config.LLM_PROVIDER,
-              { model: config.LLM_MODEL }
-            );
-            
-            const vectorStore = new PostgresVectorAdapter({
-              connectionString: config.DATABASE_URL,
-              tableName: config.VECTOR_TABLE_NAME,
-            });
-
-            // Test vector store connectivity
-            const isHealthy = await vectorStore.health();
-            if (!isHealthy) {
-              throw new RAGError(
-                'Vector database is not available or not properly configured',
-                'VECTOR_DB_UNHEALTHY'
-              );
-            }
-
-            ragPipeline = new RAGPipeline(embeddingAdapter, vectorStore, llmAdapter);
-            
-            request.log.info('RAG pipeline initialized successfully');
-          } catch (error) {
-            request.log.error({
-              error: error instanceof Error ? error.message : 'Unknown initialization error',
-              stack: error instanceof Error ? error.stack : undefined,
-            }, 'Failed to initialize RAG pipeline');
-            
-            if (error instanceof RAGError) {
-              throw error;
-            }
-            
-            throw new RAGError(
-              'RAG pipeline initialization failed',
-              'INITIALIZATION_FAILED',
-              { originalError: error instanceof Error ? error.message : 'Unknown error' }
-            );
-          }
-        }
+        const pipeline = await getRAGPipeline(request);
 
         // Process query through RAG pipeline
         const ragOptions = {
+          ...buildRetrievalOptions(request.body),
           prefer_steps,
           max_tokens,
-          top_k: 10,
           context_window_tokens: 3000,
+          ...(request.body.grounding_action && { groundingAction: request.body.grounding_action }),
         };
 
-        const response = await ragPipeline.process(sanitizedQuery, ragOptions);
+        const response = await pipeline.process(sanitizedQuery, ragOptions);
         
         const processingTime = Date.now() - startTime;
         
@@ -232,13 +357,14 @@ async function askRoute(
         }, 'RAG query completed successfully');
 
         // Track query statistics
-        if (userId) {
-          request.log.debug({
-            userId,
-            query: sanitizedQuery.substring(0, 100),
-            docsRetrieved: response.retrieved_docs.length,
-          }, 'User query tracked');
-        }
+        queryAnalytics.record({
+          query: sanitizedQuery,
+          response,
+          platform: 'api',
+          userId,
+          collection: request.body.collection,
+          preferSteps: prefer_steps,
+        });
 
         return reply.send(response);
 
@@ -255,6 +381,14 @@ async function askRoute(
           }, 'RAG error occurred');
 
           // Handle specific error types with appropriate status codes
+          if (error.code === 'INVALID_FILTERS') {
+            return reply.status(400).send({
+              error: 'Invalid filters',
+              message: error.message,
+              code: error.code,
+            } as any);
+          }
+
           if (error.code === 'VECTOR_DB_UNHEALTHY' || error.code === 'DATABASE_CONNECTION_FAILED') {
             return reply.status(503).send({
               error: 'Vector DB not available',
@@ -295,152 +429,151 @@ async function askRoute(
     }
   );
 
-  // Admin endpoint for reindexing documents
-  fastify.post(
-    '/admin/reindex',
-    {
-      preHandler: async (request, reply) => {
-        // Simple API key authentication for admin endpoints
-        const apiKey = request.headers['x-api-key'] as string;
-        
-        if (!apiKey || apiKey !== config.ADMIN_API_KEY) {
-          return reply.status(401).send({
-            error: 'UNAUTHORIZED',
-            message: 'Invalid or missing admin API key',
-          });
-        }
-      },
-      schema: {
-        headers: {
-          type: 'object',
-          properties: {
-            'x-api-key': { type: 'string' },
-          },
-          required: ['x-api-key'],
-        },
-        response: {
-          200: {
-            type: 'object',
-            properties: {
-              message: { type: 'string' },
-              status: { type: 'string' },
-              timestamp: { type: 'string' },
-            },
-          },
-          401: errorResponseSchema,
-        },
-      },
-    },
-    async (request, reply) => {
-      request.log.info('Admin reindex triggered');
-
-      // TODO: Implement actual reindexing when crawler is ready
-      
-      return reply.send({
-        message: 'Reindexing initiated successfully',
-        status: 'started',
-        timestamp: new Date().toISOString(),
-      });
-    }
-  );
-
-  // Admin endpoint for seeding Schoology documentation
-  fastify.post(
-    '/admin/seed/schoology',
+  // Streaming variant of /ask using Server-Sent Events
+  fastify.post<{ Body: AskRequest }>(
+    '/ask/stream',
     {
-      preHandler: async (request, reply) => {
-        // API key authentication for admin endpoints
-        const apiKey = request.headers['x-api-key'] as string;
-        
-        if (!apiKey || apiKey !== config.ADMIN_API_KEY) {
-          return reply.status(401).send({
-            error: 'UNAUTHORIZED',
-            message: 'Invalid or missing admin API key',
-          });
-        }
-      },
       schema: {
-        headers: {
-          type: 'object',
-          properties: {
-            'x-api-key': { type: 'string' },
-          },
-          required: ['x-api-key'],
-        },
+        body: askRequestSchema,
         response: {
-          200: {
-            type: 'object',
-            properties: {
-              status: { type: 'string' },
-              message: { type: 'string' },
-              pagesCrawled: { type: 'number' },
-              chunksInserted: { type: 'number' },
-              duration_ms: { type: 'number' },
-              errors: {
-                type: 'array',
-                items: { type: 'string' },
-              },
-            },
-            required: ['status', 'message', 'pagesCrawled', 'chunksInserted', 'duration_ms'],
-          },
-          401: errorResponseSchema,
+          400: errorResponseSchema,
           500: errorResponseSchema,
+          503: errorResponseSchema,
         },
       },
     },
     async (request, reply) => {
       const startTime = Date.now();
-      
-      request.log.info('Admin Schoology seeding triggered');
+      const { query, userId, prefer_steps = false, max_tokens = config.MAX_TOKENS } = request.body;
+      const sanitizedQuery = query.trim();
+
+      if (!sanitizedQuery) {
+        return reply.status(400).send({
+          error: 'Invalid query',
+          message: 'Query cannot be empty',
+          code: 'EMPTY_QUERY',
+        });
+      }
+
+      let retrievalOptions: ReturnType<typeof buildRetrievalOptions>;
+      try {
+        retrievalOptions = buildRetrievalOptions(request.body);
+      } catch (error) {
+        return reply.status(400).send({
+          error: 'Invalid filters',
+          message: error instanceof Error ? error.message : 'Invalid filters',
+          code: 'INVALID_FILTERS',
+        });
+      }
 
+      // Initialize before switching to SSE so setup failures still get a proper status code
+      let pipeline: RAGPipeline;
       try {
-        const result = await crawlAndSeed({
-          baseUrl: 'https://uc.powerschool-docs.com/en/schoology/latest/',
-          collection: 'schoology',
-          maxPages: config.MAX_PAGES,
-          delayMs: config.CRAWL_DELAY_MS,
-          chunkSize: 4000,
+        pipeline = await getRAGPipeline(request);
+      } catch (error) {
+        const code = error instanceof RAGError ? error.code : 'INITIALIZATION_FAILED';
+        const unavailable = code === 'VECTOR_DB_UNHEALTHY' || code === 'DATABASE_CONNECTION_FAILED';
+
+        return reply.status(unavailable ? 503 : 500).send({
+          error: unavailable ? 'Vector DB not available' : 'Processing failed',
+          message: error instanceof Error ? error.message : 'RAG pipeline initialization failed',
+          code,
+        });
+      }
+
+      request.log.info({
+        query: sanitizedQuery.substring(0, 100) + (sanitizedQuery.length > 100 ? '...' : ''),
+        userId,
+        prefer_steps,
+        max_tokens,
+      }, 'Processing streaming RAG query');
+
+      reply.hijack();
+      reply.raw.writeHead(200, {
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache',
+        Connection: 'keep-alive',
+        'X-Accel-Buffering': 'no',
+      });
+
+      // Stop generating once the client goes away; a close after end() is a normal finish.
+      // The request stream has already closed by now (its body was read), so watch the response.
+      let clientClosed = false;
+      const generation = new AbortController();
+      reply.raw.on('close', () => {
+        if (reply.raw.writableEnded) return;
+        clientClosed = true;
+        generation.abort();
+      });
+
+      // Late events (e.g. tokens from a timed-out generation) must not write after end()
+      const sendEvent = (event: string, data: unknown): void => {
+        if (clientClosed || reply.raw.writableEnded) return;
+        reply.raw.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+      };
+
+      try {
+        const response = await pipeline.processStream(
+          sanitizedQuery,
+          {
+            ...retrievalOptions,
+            prefer_steps,
+            max_tokens,
+            context_window_tokens: 3000,
+            // Tokens already sent cannot be retracted; strip/refuse only change the done event
+            ...(request.body.grounding_action && { groundingAction: request.body.grounding_action }),
+            signal: generation.signal,
+          },
+          (event: AskStreamEvent) => {
+            switch (event.type) {
+              case 'retrieval':
+                sendEvent('retrieval', {
+                  retrieved_docs: event.retrieved_docs,
+                  citations: event.citations,
+                });
+                break;
+              case 'token':
+                sendEvent('token', { delta: event.delta });
+                break;
+              case 'done':
+                sendEvent('done', event.response);
+                break;
+            }
+          }
+        );
+
+        queryAnalytics.record({
+          query: sanitizedQuery,
+          response,
+          platform: 'api',
+          userId,
+          collection: request.body.collection,
+          preferSteps: prefer_steps,
         });
 
-        const processingTime = Date.now() - startTime;
-        
         request.log.info({
-          success: result.success,
-          pagesCrawled: result.pagesCrawled,
-          chunksInserted: result.chunksInserted,
-          processingTime,
-        }, 'Schoology seeding completed');
-
-        if (result.success) {
-          return reply.send({
-            status: 'success',
-            message: result.message,
-            pagesCrawled: result.pagesCrawled,
-            chunksInserted: result.chunksInserted,
-            duration_ms: result.duration_ms,
-            ...(result.errors && { errors: result.errors }),
-          });
-        } else {
-          return reply.status(500).send({
-            error: 'SEEDING_FAILED',
-            message: result.message,
-            code: 'CRAWL_AND_SEED_ERROR',
-          });
-        }
+          userId,
+          processingTime: Date.now() - startTime,
+          clientClosed,
+        }, 'Streaming RAG query completed');
 
       } catch (error) {
-        const processingTime = Date.now() - startTime;
-        
-        request.log.error({
+        request.log.warn({
           error: error instanceof Error ? error.message : 'Unknown error',
-          processingTime,
-        }, 'Schoology seeding failed with unexpected error');
+          code: error instanceof RAGError ? error.code : undefined,
+          processingTime: Date.now() - startTime,
+          userId,
+        }, 'Streaming RAG query failed');
 
-        return reply.status(500).send({
-          error: 'INTERNAL_ERROR',
-          message: 'An unexpected error occurred during seeding',
-          code: 'UNEXPECTED_SEEDING_ERROR',
+        sendEvent('error', {
+          error: 'Processing failed',
+          message: error instanceof RAGError
+            ? error.message
+            : 'An unexpected error occurred while processing your query.',
+          code: error instanceof RAGError ? error.code : 'INTERNAL_ERROR',
         });
+      } finally {
+        reply.raw.end();
       }
     }
   );
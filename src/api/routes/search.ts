@@ -0,0 +1,288 @@
+/**
+ * Retrieval-only search endpoint: returns ranked chunks without generating an answer
+ */
+
+import type { FastifyInstance, FastifyPluginOptions, FastifyRequest } from 'fastify';
+import type { SearchHit, SearchRequest, SearchResponse, SearchResult } from '@/types';
+import { RAGError } from '@/types';
+import config from '@/utils/config';
+import { Retriever } from '@/core/rag/retriever';
+import { getGlossary } from '@/core/rag/glossary';
+import { createEmbeddingAdapter } from '@/adapters/embedding';
+import { PostgresVectorAdapter } from '@/adapters/vector-store/postgres';
+import { highlightSnippet } from '@/utils/text';
+import { parseRetrievalFilters, retrievalFiltersSchema } from '@/utils/validation/retrievalFilters';
+
+const DEFAULT_PAGE_SIZE = 10;
+
+// Global retriever instance (initialized on first request); search never needs an LLM
+let retriever: Retriever | null = null;
+
+/**
+ * Get the shared retriever, initializing the embedding adapter and vector store on first use
+ */
+async function getRetriever(request: FastifyRequest): Promise<Retriever> {
+  if (retriever) {
+    return retriever;
+  }
+
+  request.log.info('Initializing search retriever...');
+
+  const embeddingAdapter = await createEmbeddingAdapter(
+    config.EMBEDDING_PROVIDER,
+    { model: config.EMBEDDING_MODEL }
+  );
+
+  const vectorStore = new PostgresVectorAdapter({
+    connectionString: config.DATABASE_URL,
+    tableName: config.VECTOR_TABLE_NAME,
+  });
+
+  const isHealthy = await vectorStore.health();
+  if (!isHealthy) {
+    throw new RAGError(
+      'Vector database is not available or not properly configured',
+      'VECTOR_DB_UNHEALTHY'
+    );
+  }
+
+  retriever = new Retriever(embeddingAdapter, vectorStore, undefined, getGlossary(config.GLOSSARY_PATH));
+  return retriever;
+}
+
+function toSearchHit(result: SearchResult, highlightQuery: string): SearchHit {
+  const { metadata } = result;
+
+  return {
+    id: result.id,
+    score: result.score,
+    title: metadata.title,
+    url: metadata.url,
+    ...(metadata.section && { section: metadata.section }),
+    ...(metadata.subsection && { subsection: metadata.subsection }),
+    ...(metadata.collection && { collection: metadata.collection }),
+    content_type: metadata.content_type,
+    chunk_index: metadata.chunk_index,
+    snippet: highlightSnippet(result.content, highlightQuery),
+    updated_at: new Date(metadata.updated_at).toISOString(),
+  };
+}
+
+async function searchRoute(
+  fastify: FastifyInstance,
+  _opts: FastifyPluginOptions
+): Promise<void> {
+  const searchRequestSchema = {
+    type: 'object',
+    properties: {
+      query: {
+        type: 'string',
+        minLength: 1,
+        maxLength: config.MAX_QUERY_LENGTH,
+        description: 'Search text',
+      },
+      collection: {
+        type: 'string',
+        enum: ['pssis-admin', 'schoology'],
+        description: 'Only search this knowledge base collection',
+      },
+      mode: {
+        type: 'string',
+        enum: ['vector', 'hybrid', 'keyword'],
+        default: 'hybrid',
+        description: 'Vector similarity, keyword (full-text) or both fused',
+      },
+      filters: retrievalFiltersSchema,
+      similarity_threshold: {
+        type: 'number',
+        minimum: 0,
+        maximum: 1,
+        description: 'Minimum vector similarity; ignored in keyword mode',
+      },
+      page: {
+        type: 'integer',
+        minimum: 1,
+        maximum: 20,
+        default: 1,
+      },
+      page_size: {
+        type: 'integer',
+        minimum: 1,
+        maximum: 50,
+        default: DEFAULT_PAGE_SIZE,
+      },
+    },
+    required: ['query'],
+    additionalProperties: false,
+  };
+
+  const searchResponseSchema = {
+    type: 'object',
+    properties: {
+      query: { type: 'string' },
+      mode: { type: 'string' },
+      results: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: {
+            id: { type: 'string' },
+            score: { type: 'number' },
+            title: { type: 'string' },
+            url: { type: 'string' },
+            section: { type: 'string' },
+            subsection: { type: 'string' },
+            collection: { type: 'string' },
+            content_type: { type: 'string' },
+            chunk_index: { type: 'number' },
+            snippet: { type: 'string' },
+            updated_at: { type: 'string' },
+          },
+          required: ['id', 'score', 'title', 'url', 'snippet'],
+        },
+      },
+      page: { type: 'number' },
+      page_size: { type: 'number' },
+      has_more: { type: 'boolean' },
+      took_ms: { type: 'number' },
+      glossary_hits: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: {
+            matched: { type: 'string' },
+            added: { type: 'array', items: { type: 'string' } },
+            collection: { type: 'string' },
+          },
+        },
+      },
+    },
+    required: ['query', 'mode', 'results', 'page', 'page_size', 'has_more', 'took_ms'],
+  };
+
+  const errorResponseSchema = {
+    type: 'object',
+    properties: {
+      error: { type: 'string' },
+      message: { type: 'string' },
+      code: { type: 'string' },
+    },
+    required: ['error', 'message'],
+  };
+
+  fastify.post<{ Body: SearchRequest; Reply: SearchResponse }>(
+    '/search',
+    {
+      schema: {
+        body: searchRequestSchema,
+        response: {
+          200: searchResponseSchema,
+          400: errorResponseSchema,
+          500: errorResponseSchema,
+          503: errorResponseSchema,
+        },
+      },
+    },
+    async (request, reply) => {
+      const startTime = Date.now();
+      const {
+        collection,
+        filters,
+        similarity_threshold,
+        mode = 'hybrid',
+        page = 1,
+        page_size = DEFAULT_PAGE_SIZE,
+      } = request.body;
+      const query = request.body.query.trim();
+
+      try {
+        if (!query) {
+          throw new RAGError('Query cannot be empty', 'EMPTY_QUERY');
+        }
+
+        // Fetch through the end of the requested page plus one to know whether more follow
+        const offset = (page - 1) * page_size;
+        const options = {
+          topK: offset + page_size + 1,
+          ...(collection && { collections: [collection] }),
+          ...parseRetrievalFilters(filters),
+        };
+        const vectorOptions = {
+          ...options,
+          ...(similarity_threshold !== undefined && { similarityThreshold: similarity_threshold }),
+        };
+
+        const searchRetriever = await getRetriever(request);
+        const retrieval = mode === 'keyword'
+          ? await searchRetriever.keywordRetrieve(query, options)
+          : mode === 'vector'
+            ? await searchRetriever.retrieve(query, vectorOptions)
+            : await searchRetriever.hybridRetrieve(query, vectorOptions);
+
+        // Highlight the glossary terms that were searched for, not just the typed query
+        const highlightQuery = [query, ...(retrieval.glossaryHits ?? []).flatMap(hit => hit.added)].join(' ');
+        const results = retrieval.results
+          .slice(offset, offset + page_size)
+          .map(result => toSearchHit(result, highlightQuery));
+
+        request.log.info({
+          mode,
+          page,
+          results: results.length,
+          retrievalTimeMs: retrieval.retrievalTimeMs,
+        }, 'Search completed');
+
+        return reply.send({
+          query,
+          mode,
+          results,
+          page,
+          page_size,
+          has_more: retrieval.results.length > offset + page_size,
+          took_ms: Date.now() - startTime,
+          ...(retrieval.glossaryHits && { glossary_hits: retrieval.glossaryHits }),
+        });
+
+      } catch (error) {
+        if (error instanceof RAGError) {
+          request.log.warn({ error: error.message, code: error.code, mode }, 'Search failed');
+
+          if (['EMPTY_QUERY', 'INVALID_FILTERS', 'KEYWORD_SEARCH_UNSUPPORTED'].includes(error.code)) {
+            return reply.status(400).send({
+              error: 'Invalid search',
+              message: error.message,
+              code: error.code,
+            } as any);
+          }
+
+          if (error.code === 'VECTOR_DB_UNHEALTHY' || error.code === 'DATABASE_CONNECTION_FAILED') {
+            return reply.status(503).send({
+              error: 'Vector DB not available',
+              message: 'The knowledge base is temporarily unavailable. Please try again later.',
+              code: 'SERVICE_UNAVAILABLE',
+            } as any);
+          }
+
+          return reply.status(500).send({
+            error: 'Search failed',
+            message: error.message,
+            code: error.code,
+          } as any);
+        }
+
+        request.log.error({
+          error: error instanceof Error ? error.message : 'Unknown error',
+          stack: error instanceof Error ? error.stack : undefined,
+        }, 'Unexpected error in search');
+
+        return reply.status(500).send({
+          error: 'Internal server error',
+          message: 'An unexpected error occurred while searching.',
+          code: 'INTERNAL_ERROR',
+        } as any);
+      }
+    }
+  );
+}
+
+export default searchRoute;
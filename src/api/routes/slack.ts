@@ -19,6 +19,8 @@ import { createLLMAdapter } from '@/adapters/llm';
 import { createEmbeddingAdapter } from '@/adapters/embedding';
 import { PostgresVectorAdapter } from '@/adapters/vector-store/postgres';
 import { SlackDelivery } from '@/services/delivery/slackDelivery';
+import { answerFeedback, type FeedbackRating } from '@/core/analytics/answerFeedback';
+import { createFeedbackModal } from '@/core/slack/messageBuilder';
 import {
   toPlatformContext,
   formatResponseForSlack,
@@ -26,7 +28,8 @@ import {
   createSourcesModal,
   createFollowupModal,
   extractButtonActionData,
-  extractFollowupData
+  extractFollowupData,
+  extractFeedbackData
 } from '@/adapters/platform/slackAdapter';
 import {
   validateSlackRequest,
@@ -239,13 +242,15 @@ async function processSlackMessage(
     });
 
     // Send response using delivery service
+    // Reply in a thread rooted at the user's message so follow-ups share conversation memory
     const responseUrl = platformContext.metadata?.responseUrl as string | undefined;
+    const threadTs = platformContext.threadId || platformContext.metadata?.messageTs as string | undefined;
     const deliveryResult = await delivery.sendWithFallback(
       {
         channel: platformContext.channelId,
         text: slackResponse.text,
         blocks: slackResponse.blocks,
-        ...(platformContext.threadId && { thread_ts: platformContext.threadId })
+        ...(threadTs && { thread_ts: threadTs })
       },
       responseUrl
     );
@@ -470,6 +475,15 @@ async function processSlackAction(
         case 'ask_followup':
           await handleAskFollowup(actionData, delivery, payload);
           break;
+        case 'feedback_helpful':
+        case 'feedback_not_helpful':
+          await handleFeedback(
+            actionData,
+            actionData.actionId === 'feedback_helpful' ? 'helpful' : 'not_helpful',
+            delivery,
+            payload as SlackActionPayload
+          );
+          break;
         default:
           console.warn('[Slack Unified] Unknown action', { actionId: actionData.actionId });
       }
@@ -478,6 +492,11 @@ async function processSlackAction(
       if (followupData) {
         await handleSubmitFollowup(followupData, orchestrator, delivery, payload as SlackViewSubmissionPayload, request);
       }
+
+      const feedbackData = extractFeedbackData(payload);
+      if (feedbackData) {
+        await answerFeedback.addDetails(feedbackData.feedbackId, feedbackData);
+      }
     }
   } catch (error) {
     console.error('[Slack Unified] Action processing failed', {
@@ -543,6 +562,42 @@ async function handleAskFollowup(
   metrics.incrementCounter(MetricNames.FOLLOWUP_MODAL_OPENS_TOTAL, { platform: 'slack' });
 }
 
+/**
+ * Handle helpful / not-helpful buttons; bad answers get the optional "what was wrong" modal
+ */
+async function handleFeedback(
+  actionData: any,
+  rating: FeedbackRating,
+  delivery: SlackDelivery,
+  payload: SlackActionPayload
+): Promise<void> {
+  const responseId = actionData.buttonData?.responseId;
+  if (!responseId) {
+    console.warn('[Slack Unified] Feedback without response id');
+    return;
+  }
+
+  const feedback = await answerFeedback.submit({
+    responseId,
+    platform: 'slack',
+    userId: payload.user.id,
+    rating
+  });
+
+  if (rating === 'not_helpful' && payload.trigger_id) {
+    await delivery.openModal(payload.trigger_id, createFeedbackModal({ feedbackId: feedback.id, responseId }));
+    return;
+  }
+
+  if (payload.channel?.id) {
+    await delivery.postEphemeral({
+      channel: payload.channel.id,
+      user: payload.user.id,
+      text: 'Thanks for the feedback!'
+    });
+  }
+}
+
 /**
  * Handle submit followup action
  */
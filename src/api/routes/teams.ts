@@ -14,6 +14,7 @@ import { createLLMAdapter } from '@/adapters/llm';
 import { createEmbeddingAdapter } from '@/adapters/embedding';
 import { PostgresVectorAdapter } from '@/adapters/vector-store/postgres';
 import { TeamsDelivery } from '@/services/delivery/teamsDelivery';
+import { answerFeedback, type FeedbackRating } from '@/core/analytics/answerFeedback';
 import { 
   toPlatformContext,
   formatResponseForTeams,
@@ -21,8 +22,10 @@ import {
   validateTeamsActivity,
   extractTeamsActionData,
   extractTeamsFollowupData,
+  extractTeamsFeedbackData,
   createSourcesAdaptiveCard,
-  createFollowupAdaptiveCard
+  createFollowupAdaptiveCard,
+  createFeedbackAdaptiveCard
 } from '@/adapters/platform/teamsAdapter';
 import { 
   validateTeamsRequest,
@@ -366,6 +369,19 @@ async function processTeamsInvoke(
         
       case 'submit_followup':
         return await handleSubmitFollowup(activity, orchestrator, delivery, request);
+
+      case 'feedback_helpful':
+      case 'feedback_not_helpful':
+        return await handleFeedback(
+          actionData.data,
+          actionData.action === 'feedback_helpful' ? 'helpful' : 'not_helpful',
+          delivery,
+          activity,
+          request
+        );
+
+      case 'submit_feedback':
+        return await handleSubmitFeedback(activity, request);
         
       default:
         request.log.warn({
@@ -562,6 +578,65 @@ async function handleSubmitFollowup(
   }
 }
 
+/**
+ * Handle helpful / not-helpful invoke actions; bad answers get the "what was wrong" card
+ */
+async function handleFeedback(
+  data: any,
+  rating: FeedbackRating,
+  delivery: TeamsDelivery,
+  activity: TeamsActivity,
+  request: FastifyRequest
+): Promise<any> {
+  if (!data?.contextId) {
+    request.log.warn({
+      activityId: activity.id
+    }, '[Teams] Feedback called without valid contextId');
+    return { status: 400 };
+  }
+
+  const feedback = await answerFeedback.submit({
+    responseId: data.contextId,
+    platform: 'teams',
+    userId: activity.from.id,
+    rating
+  });
+
+  request.log.info({
+    activityId: activity.id,
+    contextId: data.contextId,
+    rating
+  }, '[Teams] Feedback recorded');
+
+  const result = rating === 'not_helpful'
+    ? await delivery.replyToActivity(activity, {
+        text: 'Sorry that answer missed. What was wrong?',
+        adaptiveCard: createFeedbackAdaptiveCard(feedback.id, data.contextId)
+      })
+    : await delivery.replyToActivity(activity, { text: 'Thanks for the feedback!' });
+
+  return result.success ? { status: 200 } : { status: 500 };
+}
+
+/**
+ * Handle submit feedback invoke action
+ */
+async function handleSubmitFeedback(
+  activity: TeamsActivity,
+  request: FastifyRequest
+): Promise<any> {
+  const feedbackData = extractTeamsFeedbackData(activity);
+  if (!feedbackData) {
+    request.log.warn({
+      activityId: activity.id
+    }, '[Teams] No valid feedback data in submit activity');
+    return { status: 400 };
+  }
+
+  await answerFeedback.addDetails(feedbackData.feedbackId, feedbackData);
+  return { status: 200 };
+}
+
 async function teamsRoute(
   fastify: FastifyInstance,
   _opts: FastifyPluginOptions
@@ -0,0 +1,435 @@
+/**
+ * Helpful / not-helpful ratings on Slack and Teams answers
+ * Stored per response and user, with an optional reason and comment for bad answers
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import { Pool, type QueryResultRow } from 'pg';
+import { RAGError } from '@/types';
+import type { QueryPlatform } from './queryAnalytics';
+
+export type FeedbackRating = 'helpful' | 'not_helpful';
+
+export const FEEDBACK_REASONS = ['incorrect', 'incomplete', 'outdated', 'wrong_sources', 'other'] as const;
+export type FeedbackReason = typeof FEEDBACK_REASONS[number];
+
+// Shown in the Slack modal and Teams card that ask what was wrong
+export const FEEDBACK_REASON_LABELS: Record<FeedbackReason, string> = {
+  incorrect: 'The answer is wrong',
+  incomplete: 'The answer is missing steps or details',
+  outdated: 'The answer is out of date',
+  wrong_sources: 'The sources do not match the question',
+  other: 'Something else',
+};
+
+export interface AnswerFeedback {
+  id: string;
+  /** Slack response id or orchestrator context id, matching query_stats.response_id */
+  response_id: string;
+  platform: QueryPlatform;
+  user_id: string;
+  rating: FeedbackRating;
+  reason?: FeedbackReason;
+  comment?: string;
+  created_at: string;
+  updated_at: string;
+  /** The question, when query analytics recorded it */
+  query_text?: string;
+  collection?: string;
+}
+
+export interface FeedbackInput {
+  responseId: string;
+  platform: QueryPlatform;
+  userId: string;
+  rating: FeedbackRating;
+}
+
+export interface FeedbackDetails {
+  reason?: FeedbackReason | undefined;
+  comment?: string | undefined;
+}
+
+export interface FeedbackListOptions {
+  rating?: FeedbackRating;
+  platform?: QueryPlatform;
+  reason?: FeedbackReason;
+  since?: Date;
+  limit?: number;
+  offset?: number;
+}
+
+export interface FeedbackSummary {
+  total: number;
+  helpful: number;
+  not_helpful: number;
+  by_reason: Partial<Record<FeedbackReason, number>>;
+}
+
+/**
+ * Persistent storage for feedback; one entry per response and user
+ */
+export interface AnswerFeedbackStore {
+  /** Insert, or replace the rating of this user's earlier entry for the response */
+  upsert(feedback: AnswerFeedback): Promise<AnswerFeedback>;
+  get(id: string): Promise<AnswerFeedback | null>;
+  update(id: string, details: FeedbackDetails): Promise<AnswerFeedback | null>;
+  list(options: FeedbackListOptions): Promise<AnswerFeedback[]>;
+  summarize(options: Omit<FeedbackListOptions, 'limit' | 'offset'>): Promise<FeedbackSummary>;
+}
+
+// Comments end up in admin listings; keep them to a readable length
+const MAX_COMMENT_LENGTH = 1000;
+
+function matchesOptions(feedback: AnswerFeedback, options: FeedbackListOptions): boolean {
+  return (!options.rating || feedback.rating === options.rating) &&
+    (!options.platform || feedback.platform === options.platform) &&
+    (!options.reason || feedback.reason === options.reason) &&
+    (!options.since || new Date(feedback.created_at) >= options.since);
+}
+
+function summarizeFeedback(entries: AnswerFeedback[]): FeedbackSummary {
+  const summary: FeedbackSummary = { total: entries.length, helpful: 0, not_helpful: 0, by_reason: {} };
+  for (const entry of entries) {
+    summary[entry.rating]++;
+    if (entry.reason) {
+      summary.by_reason[entry.reason] = (summary.by_reason[entry.reason] ?? 0) + 1;
+    }
+  }
+  return summary;
+}
+
+/**
+ * Process-local storage, used until Postgres is connected and in tests
+ */
+export class InMemoryAnswerFeedbackStore implements AnswerFeedbackStore {
+  private entries = new Map<string, AnswerFeedback>();
+
+  async upsert(feedback: AnswerFeedback): Promise<AnswerFeedback> {
+    const existing = [...this.entries.values()].find(entry =>
+      entry.response_id === feedback.response_id && entry.user_id === feedback.user_id
+    );
+
+    // A changed rating drops the reason given for the previous one
+    const stored: AnswerFeedback = existing
+      ? { ...feedback, id: existing.id, created_at: existing.created_at }
+      : feedback;
+    this.entries.set(stored.id, stored);
+    return { ...stored };
+  }
+
+  async get(id: string): Promise<AnswerFeedback | null> {
+    const entry = this.entries.get(id);
+    return entry ? { ...entry } : null;
+  }
+
+  async update(id: string, details: FeedbackDetails): Promise<AnswerFeedback | null> {
+    const entry = this.entries.get(id);
+    if (!entry) {
+      return null;
+    }
+
+    const updated: AnswerFeedback = {
+      ...entry,
+      ...(details.reason && { reason: details.reason }),
+      ...(details.comment && { comment: details.comment }),
+      updated_at: new Date().toISOString(),
+    };
+    this.entries.set(id, updated);
+    return { ...updated };
+  }
+
+  async list(options: FeedbackListOptions): Promise<AnswerFeedback[]> {
+    const offset = options.offset ?? 0;
+    return [...this.entries.values()]
+      .filter(entry => matchesOptions(entry, options))
+      .sort((a, b) => b.created_at.localeCompare(a.created_at))
+      .slice(offset, offset + (options.limit ?? 50))
+      .map(entry => ({ ...entry }));
+  }
+
+  async summarize(options: Omit<FeedbackListOptions, 'limit' | 'offset'>): Promise<FeedbackSummary> {
+    return summarizeFeedback([...this.entries.values()].filter(entry => matchesOptions(entry, options)));
+  }
+}
+
+/**
+ * An answer_feedback row as returned by pg, with the question joined in by list()
+ */
+interface AnswerFeedbackRow extends QueryResultRow {
+  id: string;
+  response_id: string;
+  platform: QueryPlatform;
+  user_id: string;
+  rating: FeedbackRating;
+  reason: FeedbackReason | null;
+  comment: string | null;
+  created_at: Date;
+  updated_at: Date;
+  query_text?: string | null;
+  collection?: string | null;
+}
+
+/**
+ * One rating / reason bucket returned by summarize()
+ */
+interface FeedbackCountRow extends QueryResultRow {
+  rating: FeedbackRating;
+  reason: FeedbackReason | null;
+  count: number;
+}
+
+export interface PostgresAnswerFeedbackOptions {
+  connectionString: string;
+  tableName?: string;
+}
+
+/**
+ * Postgres-backed feedback storage (see the answer_feedback table in sql/schema.sql)
+ * Ratings are also copied to query_stats.user_feedback (helpful = 5, not helpful = 1)
+ */
+export class PostgresAnswerFeedbackStore implements AnswerFeedbackStore {
+  private readonly pool: Pool;
+  private readonly tableName: string;
+
+  constructor(options: PostgresAnswerFeedbackOptions) {
+    this.tableName = options.tableName || 'answer_feedback';
+    this.pool = new Pool({
+      connectionString: options.connectionString,
+      max: 2,
+      connectionTimeoutMillis: 5000,
+    });
+
+    this.pool.on('error', (err) => {
+      console.error('[AnswerFeedback] Unexpected Postgres pool error', err.message);
+    });
+  }
+
+  async upsert(feedback: AnswerFeedback): Promise<AnswerFeedback> {
+    const result = await this.query<AnswerFeedbackRow>(
+      `INSERT INTO ${this.tableName} (id, response_id, platform, user_id, rating, created_at, updated_at)
+       VALUES ($1, $2, $3, $4, $5, $6, $7)
+       ON CONFLICT (response_id, user_id) DO UPDATE
+       SET rating = EXCLUDED.rating,
+           reason = CASE WHEN ${this.tableName}.rating = EXCLUDED.rating THEN ${this.tableName}.reason END,
+           comment = CASE WHEN ${this.tableName}.rating = EXCLUDED.rating THEN ${this.tableName}.comment END,
+           updated_at = EXCLUDED.updated_at
+       RETURNING *`,
+      [
+        feedback.id,
+        feedback.response_id,
+        feedback.platform,
+        feedback.user_id,
+        feedback.rating,
+        feedback.created_at,
+        feedback.updated_at,
+      ]
+    );
+
+    try {
+      await this.pool.query(
+        'UPDATE query_stats SET user_feedback = $2 WHERE response_id = $1',
+        [feedback.response_id, feedback.rating === 'helpful' ? 5 : 1]
+      );
+    } catch (error) {
+      // The rating itself is stored; query_stats may simply predate the response_id column
+      console.warn('[AnswerFeedback] Failed to copy rating to query_stats', {
+        responseId: feedback.response_id,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+
+    const [row] = result.rows;
+    if (!row) {
+      throw new RAGError('Feedback storage failed: the upsert returned no row', 'FEEDBACK_STORE_FAILED');
+    }
+    return this.toFeedback(row);
+  }
+
+  async get(id: string): Promise<AnswerFeedback | null> {
+    const result = await this.query<AnswerFeedbackRow>(`SELECT * FROM ${this.tableName} WHERE id = $1`, [id]);
+    return result.rows[0] ? this.toFeedback(result.rows[0]) : null;
+  }
+
+  async update(id: string, details: FeedbackDetails): Promise<AnswerFeedback | null> {
+    const result = await this.query<AnswerFeedbackRow>(
+      `UPDATE ${this.tableName}
+       SET reason = COALESCE($2, reason), comment = COALESCE($3, comment), updated_at = NOW()
+       WHERE id = $1
+       RETURNING *`,
+      [id, details.reason ?? null, details.comment ?? null]
+    );
+    return result.rows[0] ? this.toFeedback(result.rows[0]) : null;
+  }
+
+  async list(options: FeedbackListOptions): Promise<AnswerFeedback[]> {
+    const { conditions, values } = this.buildConditions(options);
+    values.push(options.limit ?? 50, options.offset ?? 0);
+
+    // query_stats may hold several rows for one response when a follow-up reuses it; take the first
+    const result = await this.query<AnswerFeedbackRow>(
+      `SELECT f.*, q.query_text, q.collection
+       FROM ${this.tableName} f
+       LEFT JOIN LATERAL (
+         SELECT query_text, collection FROM query_stats
+         WHERE response_id = f.response_id
+         ORDER BY created_at
+         LIMIT 1
+       ) q ON true
+       ${conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : ''}
+       ORDER BY f.created_at DESC
+       LIMIT $${values.length - 1} OFFSET $${values.length}`,
+      values
+    );
+    return result.rows.map(row => this.toFeedback(row));
+  }
+
+  async summarize(options: Omit<FeedbackListOptions, 'limit' | 'offset'>): Promise<FeedbackSummary> {
+    const { conditions, values } = this.buildConditions(options);
+    const result = await this.query<FeedbackCountRow>(
+      `SELECT f.rating, f.reason, COUNT(*)::int AS count
+       FROM ${this.tableName} f
+       ${conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : ''}
+       GROUP BY f.rating, f.reason`,
+      values
+    );
+
+    const summary: FeedbackSummary = { total: 0, helpful: 0, not_helpful: 0, by_reason: {} };
+    for (const { rating, reason, count } of result.rows) {
+      summary.total += count;
+      summary[rating] += count;
+      if (reason) {
+        summary.by_reason[reason] = (summary.by_reason[reason] ?? 0) + count;
+      }
+    }
+    return summary;
+  }
+
+  async close(): Promise<void> {
+    await this.pool.end();
+  }
+
+  private buildConditions(options: FeedbackListOptions): { conditions: string[]; values: unknown[] } {
+    const conditions: string[] = [];
+    const values: unknown[] = [];
+    const add = (sql: string, value: unknown): void => {
+      values.push(value);
+      conditions.push(sql.replace('?', `$${values.length}`));
+    };
+
+    if (options.rating) add('f.rating = ?', options.rating);
+    if (options.platform) add('f.platform = ?', options.platform);
+    if (options.reason) add('f.reason = ?', options.reason);
+    if (options.since) add('f.created_at >= ?', options.since);
+
+    return { conditions, values };
+  }
+
+  private async query<R extends QueryResultRow = QueryResultRow>(sql: string, values: unknown[]): Promise<{ rows: R[] }> {
+    try {
+      return await this.pool.query<R>(sql, values);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      throw new RAGError(
+        /relation .* does not exist/i.test(message)
+          ? 'answer_feedback table missing - run the migration to store feedback'
+          : `Feedback storage failed: ${message}`,
+        'FEEDBACK_STORE_FAILED'
+      );
+    }
+  }
+
+  private toFeedback(row: AnswerFeedbackRow): AnswerFeedback {
+    return {
+      id: row.id,
+      response_id: row.response_id,
+      platform: row.platform,
+      user_id: row.user_id,
+      rating: row.rating,
+      ...(row.reason && { reason: row.reason }),
+      ...(row.comment && { comment: row.comment }),
+      created_at: new Date(row.created_at).toISOString(),
+      updated_at: new Date(row.updated_at).toISOString(),
+      ...(row.query_text && { query_text: row.query_text }),
+      ...(row.collection && { collection: row.collection }),
+    };
+  }
+}
+
+/**
+ * Records ratings from platform buttons and serves them to the admin API
+ */
+export class AnswerFeedbackService {
+  constructor(private store: AnswerFeedbackStore = new InMemoryAnswerFeedbackStore()) {}
+
+  connect(store: AnswerFeedbackStore): void {
+    this.store = store;
+  }
+
+  /**
+   * Record a rating; rating the same answer again replaces the earlier rating
+   */
+  async submit(input: FeedbackInput): Promise<AnswerFeedback> {
+    if (!input.responseId || !input.userId) {
+      throw new RAGError('Feedback needs a response id and user id', 'INVALID_FEEDBACK');
+    }
+
+    const now = new Date().toISOString();
+    const feedback = await this.store.upsert({
+      id: uuidv4(),
+      response_id: input.responseId,
+      platform: input.platform,
+      user_id: input.userId,
+      rating: input.rating,
+      created_at: now,
+      updated_at: now,
+    });
+
+    console.debug('[AnswerFeedback] Feedback recorded', {
+      id: feedback.id,
+      responseId: feedback.response_id,
+      platform: feedback.platform,
+      rating: feedback.rating,
+    });
+
+    return feedback;
+  }
+
+  /**
+   * Attach the "what was wrong" answers to an existing rating
+   */
+  async addDetails(id: string, details: FeedbackDetails): Promise<AnswerFeedback> {
+    if (details.reason && !FEEDBACK_REASONS.includes(details.reason)) {
+      throw new RAGError(`Unknown feedback reason: ${details.reason}`, 'INVALID_FEEDBACK');
+    }
+
+    const comment = details.comment?.trim().slice(0, MAX_COMMENT_LENGTH);
+    const feedback = await this.store.update(id, {
+      ...(details.reason && { reason: details.reason }),
+      ...(comment && { comment }),
+    });
+    if (!feedback) {
+      throw new RAGError(`Feedback ${id} not found`, 'FEEDBACK_NOT_FOUND');
+    }
+
+    console.debug('[AnswerFeedback] Feedback details added', {
+      id,
+      reason: feedback.reason,
+      hasComment: Boolean(feedback.comment),
+    });
+
+    return feedback;
+  }
+
+  async list(options: FeedbackListOptions = {}): Promise<{ items: AnswerFeedback[]; summary: FeedbackSummary }> {
+    const { limit: _limit, offset: _offset, ...filters } = options;
+    const [items, summary] = await Promise.all([
+      this.store.list(options),
+      this.store.summarize(filters),
+    ]);
+    return { items, summary };
+  }
+}
+
+// Shared so Slack, Teams and the admin API see the same feedback
+export const answerFeedback = new AnswerFeedbackService();
@@ -0,0 +1,374 @@
+/**
+ * Query analytics: every answered ask is written to the query_stats table
+ * Records are queued and inserted in batches off the request path
+ * (no config import, so the orchestrator and Slack handler stay usable without an environment)
+ */
+
+import { createHash } from 'crypto';
+import { v4 as uuidv4 } from 'uuid';
+import { Pool } from 'pg';
+import type { AskResponse } from '@/types';
+
+export type QueryPlatform = 'api' | 'slack' | 'teams';
+
+// Matches the query_type CHECK constraint on query_stats
+export type QueryType = 'feature' | 'configuration' | 'troubleshooting' | 'general' | 'unknown';
+
+export interface QueryStatsRecord {
+  id: string;
+  /** Null when raw query text storage is turned off */
+  query_text: string | null;
+  /** sha256 of the normalized query, so repeated questions can be grouped without their text */
+  query_hash: string;
+  /** Response or context id the answer was sent with; feedback is stored against it */
+  response_id?: string;
+  user_id?: string;
+  platform: QueryPlatform;
+  collection?: string;
+  embedding_time_ms?: number;
+  search_time_ms?: number;
+  llm_time_ms?: number;
+  total_time_ms: number;
+  results_count: number;
+  top_score?: number;
+  query_type: QueryType;
+  prefer_steps: boolean;
+  is_fallback: boolean;
+  fallback_reason?: string;
+  cached: boolean;
+  created_at: Date;
+}
+
+/**
+ * An answered ask, as seen by the API route or platform handler
+ */
+export interface QueryEvent {
+  query: string;
+  response: AskResponse;
+  platform: QueryPlatform;
+  responseId?: string | undefined;
+  userId?: string | undefined;
+  collection?: string | undefined;
+  preferSteps?: boolean | undefined;
+}
+
+/**
+ * Persistent storage for query records
+ */
+export interface QueryStatsStore {
+  insertMany(records: QueryStatsRecord[]): Promise<void>;
+  /** Delete records older than the given number of days, returning how many were removed */
+  deleteOlderThan(days: number): Promise<number>;
+}
+
+export interface QueryAnalyticsOptions {
+  /** 0 keeps records forever */
+  retentionDays?: number;
+  storeQueryText?: boolean;
+  flushIntervalMs?: number;
+  maxBatchSize?: number;
+  /** Records beyond this are dropped while the database is unreachable */
+  maxQueueSize?: number;
+}
+
+const TROUBLESHOOTING_PATTERN = /\b(error|errors|fail(s|ed|ing|ure)?|not working|doesn'?t work|isn'?t|won'?t|can'?t|cannot|unable|missing|broken|issue|problem|wrong|stuck|fix|troubleshoot\w*)\b/i;
+const CONFIGURATION_PATTERN = /\b(configure|configuration|config|set ?up|setting|settings|enable|disable|install|permission|permissions|preference|preferences|customi[sz]e)\b/i;
+const FEATURE_PATTERN = /\b(what is|what are|what does|does .+ support|can i|is it possible|feature|features|difference between|explain|overview)\b/i;
+
+/**
+ * Keyword classification into the query_stats query types
+ */
+export function classifyQueryType(query: string): QueryType {
+  const text = query.trim();
+  if (!text) {
+    return 'unknown';
+  }
+  if (TROUBLESHOOTING_PATTERN.test(text)) {
+    return 'troubleshooting';
+  }
+  if (CONFIGURATION_PATTERN.test(text)) {
+    return 'configuration';
+  }
+  if (FEATURE_PATTERN.test(text)) {
+    return 'feature';
+  }
+  return 'general';
+}
+
+/**
+ * Hash of the case- and whitespace-normalized query
+ */
+export function hashQuery(query: string): string {
+  const normalized = query.normalize('NFC').toLowerCase().replace(/\s+/g, ' ').trim();
+  return createHash('sha256').update(normalized).digest('hex');
+}
+
+export interface PostgresQueryStatsOptions {
+  connectionString: string;
+  tableName?: string;
+}
+
+const QUERY_STATS_COLUMNS = [
+  'id', 'query_text', 'query_hash', 'response_id', 'user_id', 'platform', 'collection',
+  'embedding_time_ms', 'search_time_ms', 'llm_time_ms', 'total_time_ms',
+  'results_count', 'top_score', 'query_type', 'prefer_steps',
+  'is_fallback', 'fallback_reason', 'cached', 'created_at',
+] as const;
+
+/**
+ * Postgres-backed query_stats storage (see sql/schema.sql)
+ */
+export class PostgresQueryStatsStore implements QueryStatsStore {
+  private readonly pool: Pool;
+  private readonly tableName: string;
+  private disabled = false;
+
+  constructor(options: PostgresQueryStatsOptions) {
+    this.tableName = options.tableName || 'query_stats';
+    this.pool = new Pool({
+      connectionString: options.connectionString,
+      max: 2,
+      connectionTimeoutMillis: 5000,
+    });
+
+    this.pool.on('error', (err) => {
+      console.error('[QueryAnalytics] Unexpected Postgres pool error', err.message);
+    });
+  }
+
+  async insertMany(records: QueryStatsRecord[]): Promise<void> {
+    if (this.disabled || records.length === 0) {
+      return;
+    }
+
+    const values: unknown[] = [];
+    const rows = records.map((record, index) => {
+      values.push(...QUERY_STATS_COLUMNS.map(column => record[column] ?? null));
+      const base = index * QUERY_STATS_COLUMNS.length;
+      return `(${QUERY_STATS_COLUMNS.map((_, offset) => `$${base + offset + 1}`).join(', ')})`;
+    });
+
+    try {
+      await this.pool.query(
+        `INSERT INTO ${this.tableName} (${QUERY_STATS_COLUMNS.join(', ')})
+         VALUES ${rows.join(', ')}`,
+        values
+      );
+    } catch (error) {
+      this.handleError(error);
+    }
+  }
+
+  async deleteOlderThan(days: number): Promise<number> {
+    if (this.disabled) {
+      return 0;
+    }
+
+    try {
+      const result = await this.pool.query(
+        `DELETE FROM ${this.tableName} WHERE created_at < NOW() - make_interval(days => $1)`,
+        [days]
+      );
+      return result.rowCount ?? 0;
+    } catch (error) {
+      this.handleError(error);
+      return 0;
+    }
+  }
+
+  async close(): Promise<void> {
+    await this.pool.end();
+  }
+
+  /**
+   * Analytics must never fail an ask; stop writing to a table that has not been migrated
+   */
+  private handleError(error: unknown): void {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+
+    if (/relation .* does not exist|column .* does not exist/i.test(message)) {
+      this.disabled = true;
+      console.warn('[QueryAnalytics] query_stats table missing or outdated, analytics disabled - run the migration to enable it');
+      return;
+    }
+
+    throw error;
+  }
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Queues query records and writes them to the store in the background
+ */
+export class QueryAnalytics {
+  private store: QueryStatsStore | null = null;
+  private queue: QueryStatsRecord[] = [];
+  private flushTimer: NodeJS.Timeout | null = null;
+  private pruneTimer: NodeJS.Timeout | null = null;
+  private flushing: Promise<void> | null = null;
+  private retentionDays: number;
+  private storeQueryText: boolean;
+  private readonly flushIntervalMs: number;
+  private readonly maxBatchSize: number;
+  private readonly maxQueueSize: number;
+
+  constructor(options: QueryAnalyticsOptions = {}) {
+    this.retentionDays = options.retentionDays ?? 90;
+    this.storeQueryText = options.storeQueryText ?? true;
+    this.flushIntervalMs = options.flushIntervalMs ?? 2000;
+    this.maxBatchSize = options.maxBatchSize ?? 50;
+    this.maxQueueSize = options.maxQueueSize ?? 1000;
+  }
+
+  /**
+   * Start recording to the store and schedule the daily retention cleanup
+   */
+  async connect(
+    store: QueryStatsStore,
+    options: Pick<QueryAnalyticsOptions, 'retentionDays' | 'storeQueryText'> = {}
+  ): Promise<void> {
+    this.store = store;
+    this.retentionDays = options.retentionDays ?? this.retentionDays;
+    this.storeQueryText = options.storeQueryText ?? this.storeQueryText;
+
+    if (this.retentionDays > 0) {
+      await this.pruneExpired();
+      this.pruneTimer = setInterval(() => void this.pruneExpired(), DAY_MS);
+      this.pruneTimer.unref();
+    }
+
+    console.debug('[QueryAnalytics] Recording queries', {
+      retentionDays: this.retentionDays,
+      storeQueryText: this.storeQueryText,
+    });
+  }
+
+  get enabled(): boolean {
+    return this.store !== null;
+  }
+
+  /**
+   * Queue an answered ask; returns the record id, or null when analytics is not connected
+   */
+  record(event: QueryEvent): string | null {
+    if (!this.store) {
+      return null;
+    }
+
+    const record = this.buildRecord(event);
+    this.queue.push(record);
+    if (this.queue.length > this.maxQueueSize) {
+      this.queue.splice(0, this.queue.length - this.maxQueueSize);
+    }
+
+    if (this.queue.length >= this.maxBatchSize) {
+      void this.flush();
+    } else if (!this.flushTimer) {
+      this.flushTimer = setTimeout(() => void this.flush(), this.flushIntervalMs);
+      this.flushTimer.unref();
+    }
+
+    return record.id;
+  }
+
+  /**
+   * Write all queued records; failed batches are logged and dropped
+   */
+  async flush(): Promise<void> {
+    if (this.flushTimer) {
+      clearTimeout(this.flushTimer);
+      this.flushTimer = null;
+    }
+
+    // One batch at a time keeps inserts ordered and the pool small
+    while (this.flushing) {
+      await this.flushing;
+    }
+
+    const store = this.store;
+    if (!store || this.queue.length === 0) {
+      return;
+    }
+
+    const batch = this.queue.splice(0, this.maxBatchSize);
+    this.flushing = store.insertMany(batch).catch(error => {
+      console.warn('[QueryAnalytics] Failed to write query stats', {
+        records: batch.length,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }).finally(() => {
+      this.flushing = null;
+    });
+    await this.flushing;
+
+    if (this.queue.length > 0) {
+      await this.flush();
+    }
+  }
+
+  /**
+   * Delete records past the retention period
+   */
+  async pruneExpired(): Promise<number> {
+    if (!this.store || this.retentionDays <= 0) {
+      return 0;
+    }
+
+    try {
+      const removed = await this.store.deleteOlderThan(this.retentionDays);
+      if (removed > 0) {
+        console.debug('[QueryAnalytics] Removed expired query stats', { removed, retentionDays: this.retentionDays });
+      }
+      return removed;
+    } catch (error) {
+      console.warn('[QueryAnalytics] Retention cleanup failed', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      return 0;
+    }
+  }
+
+  /**
+   * Stop timers and write what is still queued
+   */
+  async close(): Promise<void> {
+    if (this.pruneTimer) {
+      clearInterval(this.pruneTimer);
+      this.pruneTimer = null;
+    }
+    await this.flush();
+    this.store = null;
+  }
+
+  private buildRecord(event: QueryEvent): QueryStatsRecord {
+    const { query, response, platform, responseId, userId, collection, preferSteps = false } = event;
+    const debugInfo = response.debug_info;
+    const timings = debugInfo?.timings ?? {};
+
+    return {
+      id: uuidv4(),
+      query_text: this.storeQueryText ? query : null,
+      query_hash: hashQuery(query),
+      ...(responseId && { response_id: responseId }),
+      ...(userId && { user_id: userId }),
+      platform,
+      ...(collection && { collection }),
+      ...(timings.query_embedding_time_ms !== undefined && { embedding_time_ms: timings.query_embedding_time_ms }),
+      ...(timings.search_time_ms !== undefined && { search_time_ms: timings.search_time_ms }),
+      ...(timings.llm_generation_time_ms !== undefined && { llm_time_ms: timings.llm_generation_time_ms }),
+      total_time_ms: timings.total_time_ms ?? debugInfo?.processing_time_ms ?? 0,
+      results_count: debugInfo?.documents_found ?? response.retrieved_docs.length,
+      ...(debugInfo?.top_score !== undefined && { top_score: Math.min(Math.max(debugInfo.top_score, 0), 1) }),
+      query_type: classifyQueryType(query),
+      prefer_steps: preferSteps,
+      is_fallback: debugInfo?.is_fallback ?? false,
+      ...(debugInfo?.fallback_reason && { fallback_reason: debugInfo.fallback_reason }),
+      cached: debugInfo?.cached ?? false,
+      created_at: new Date(),
+    };
+  }
+}
+
+// Shared so the API, Slack and Teams handlers write through one queue
+export const queryAnalytics = new QueryAnalytics();
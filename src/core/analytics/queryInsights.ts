@@ -0,0 +1,458 @@
+/**
+ * Read side of query analytics: content gaps, top queries, collection volume and latency
+ * Gaps are fallback, low-confidence and badly rated questions clustered by embedding similarity
+ */
+
+import { Pool, type QueryResultRow } from 'pg';
+import type { EmbeddingAdapter } from '@/types';
+import { RAGError } from '@/types';
+import { EmbeddingUtils } from '@/adapters/embedding/base';
+import type { QueryPlatform } from './queryAnalytics';
+
+export interface InsightsWindow {
+  since: Date;
+  platform?: QueryPlatform;
+  collection?: string;
+}
+
+/**
+ * One distinct question (by query hash) that went unanswered or was answered badly
+ */
+export interface GapCandidate {
+  query_hash: string;
+  query_text: string;
+  occurrences: number;
+  fallback_count: number;
+  low_confidence_count: number;
+  not_helpful_count: number;
+  collections: string[];
+  last_seen: string;
+}
+
+export interface GapCluster {
+  id: string;
+  /** Most frequent question in the cluster */
+  representative_question: string;
+  occurrences: number;
+  unique_questions: number;
+  fallback_count: number;
+  low_confidence_count: number;
+  not_helpful_count: number;
+  collections: string[];
+  last_seen: string;
+  examples: Array<{ question: string; occurrences: number }>;
+}
+
+export interface TopQuery {
+  query_hash: string;
+  /** Null when raw query text storage is turned off */
+  query_text: string | null;
+  count: number;
+  avg_top_score: number | null;
+  fallback_rate: number;
+  last_seen: string;
+}
+
+export interface CollectionVolume {
+  /** '*' for asks that were not scoped to a single collection */
+  collection: string;
+  queries: number;
+  fallback_count: number;
+  cached_count: number;
+  avg_total_time_ms: number | null;
+}
+
+export interface Percentiles {
+  p50: number | null;
+  p90: number | null;
+  p95: number | null;
+  p99: number | null;
+}
+
+export interface LatencyPercentiles {
+  count: number;
+  total: Percentiles;
+  embedding: Percentiles;
+  search: Percentiles;
+  llm: Percentiles;
+}
+
+/**
+ * Aggregations over stored query records
+ */
+export interface QueryInsightsStore {
+  findGapCandidates(window: InsightsWindow, lowConfidenceThreshold: number, limit: number): Promise<GapCandidate[]>;
+  topQueries(window: InsightsWindow, limit: number): Promise<TopQuery[]>;
+  collectionVolume(window: InsightsWindow): Promise<CollectionVolume[]>;
+  latencyPercentiles(window: InsightsWindow): Promise<LatencyPercentiles>;
+}
+
+const MAX_CLUSTER_EXAMPLES = 5;
+
+/**
+ * Greedy clustering: questions are taken most frequent first and join the cluster whose
+ * centroid is most similar, or start a new one below the threshold
+ */
+export function clusterQuestions(
+  candidates: Array<GapCandidate & { embedding: number[] }>,
+  similarityThreshold: number
+): GapCluster[] {
+  const clusters: Array<{ centroid: number[]; members: Array<GapCandidate & { embedding: number[] }> }> = [];
+  const ordered = [...candidates].sort((a, b) => b.occurrences - a.occurrences);
+
+  for (const candidate of ordered) {
+    let best: typeof clusters[number] | null = null;
+    let bestSimilarity = similarityThreshold;
+
+    for (const cluster of clusters) {
+      const similarity = EmbeddingUtils.cosineSimilarity(candidate.embedding, cluster.centroid);
+      if (similarity >= bestSimilarity) {
+        best = cluster;
+        bestSimilarity = similarity;
+      }
+    }
+
+    if (!best) {
+      clusters.push({ centroid: [...candidate.embedding], members: [candidate] });
+      continue;
+    }
+
+    best.members.push(candidate);
+    const size = best.members.length;
+    best.centroid = best.centroid.map((value, index) => value + ((candidate.embedding[index] ?? 0) - value) / size);
+  }
+
+  return clusters
+    .map(({ members }) => {
+      const representative = members[0]!;
+      const sum = (field: 'occurrences' | 'fallback_count' | 'low_confidence_count' | 'not_helpful_count'): number =>
+        members.reduce((total, member) => total + member[field], 0);
+
+      return {
+        id: representative.query_hash.substring(0, 12),
+        representative_question: representative.query_text,
+        occurrences: sum('occurrences'),
+        unique_questions: members.length,
+        fallback_count: sum('fallback_count'),
+        low_confidence_count: sum('low_confidence_count'),
+        not_helpful_count: sum('not_helpful_count'),
+        collections: [...new Set(members.flatMap(member => member.collections))].sort(),
+        last_seen: members.map(member => member.last_seen).sort().pop()!,
+        examples: members.slice(0, MAX_CLUSTER_EXAMPLES).map(member => ({
+          question: member.query_text,
+          occurrences: member.occurrences,
+        })),
+      };
+    })
+    .sort((a, b) => b.occurrences - a.occurrences || b.last_seen.localeCompare(a.last_seen));
+}
+
+// Aggregate rows as returned by pg; counts are cast to int and averages to float in SQL
+
+interface GapCandidateRow extends QueryResultRow {
+  query_hash: string;
+  query_text: string;
+  occurrences: number;
+  fallback_count: number;
+  low_confidence_count: number;
+  not_helpful_count: number;
+  collections: string[] | null;
+  last_seen: Date;
+}
+
+interface TopQueryRow extends QueryResultRow {
+  query_hash: string;
+  query_text: string | null;
+  count: number;
+  avg_top_score: number | null;
+  fallback_rate: number;
+  last_seen: Date;
+}
+
+interface CollectionVolumeRow extends QueryResultRow {
+  collection: string;
+  queries: number;
+  fallback_count: number;
+  cached_count: number;
+  avg_total_time_ms: number | null;
+}
+
+interface LatencyRow extends QueryResultRow {
+  count: number;
+  total_time_ms: Array<number | null> | null;
+  embedding_time_ms: Array<number | null> | null;
+  search_time_ms: Array<number | null> | null;
+  llm_time_ms: Array<number | null> | null;
+}
+
+export interface PostgresQueryInsightsOptions {
+  connectionString: string;
+  tableName?: string;
+}
+
+/**
+ * Postgres aggregations over the query_stats table
+ */
+export class PostgresQueryInsightsStore implements QueryInsightsStore {
+  private readonly pool: Pool;
+  private readonly tableName: string;
+
+  constructor(options: PostgresQueryInsightsOptions) {
+    this.tableName = options.tableName || 'query_stats';
+    this.pool = new Pool({
+      connectionString: options.connectionString,
+      max: 2,
+      connectionTimeoutMillis: 5000,
+    });
+
+    this.pool.on('error', (err) => {
+      console.error('[QueryInsights] Unexpected Postgres pool error', err.message);
+    });
+  }
+
+  async findGapCandidates(window: InsightsWindow, lowConfidenceThreshold: number, limit: number): Promise<GapCandidate[]> {
+    const { conditions, values } = this.buildConditions(window);
+    values.push(lowConfidenceThreshold, limit);
+    const threshold = `$${values.length - 1}`;
+
+    // user_feedback is 1 for not-helpful ratings (see answer_feedback)
+    const result = await this.query<GapCandidateRow>(
+      `SELECT query_hash,
+              MIN(query_text) AS query_text,
+              COUNT(*)::int AS occurrences,
+              COUNT(*) FILTER (WHERE is_fallback)::int AS fallback_count,
+              COUNT(*) FILTER (WHERE top_score < ${threshold})::int AS low_confidence_count,
+              COUNT(*) FILTER (WHERE user_feedback <= 2)::int AS not_helpful_count,
+              ARRAY_REMOVE(ARRAY_AGG(DISTINCT collection), NULL) AS collections,
+              MAX(created_at) AS last_seen
+       FROM ${this.tableName}
+       WHERE ${conditions.join(' AND ')}
+         AND query_text IS NOT NULL
+         AND (is_fallback OR top_score < ${threshold} OR user_feedback <= 2)
+       GROUP BY query_hash
+       ORDER BY occurrences DESC, last_seen DESC
+       LIMIT $${values.length}`,
+      values
+    );
+
+    return result.rows.map(row => ({
+      query_hash: row.query_hash,
+      query_text: row.query_text,
+      occurrences: row.occurrences,
+      fallback_count: row.fallback_count,
+      low_confidence_count: row.low_confidence_count,
+      not_helpful_count: row.not_helpful_count,
+      collections: row.collections ?? [],
+      last_seen: new Date(row.last_seen).toISOString(),
+    }));
+  }
+
+  async topQueries(window: InsightsWindow, limit: number): Promise<TopQuery[]> {
+    const { conditions, values } = this.buildConditions(window);
+    values.push(limit);
+
+    const result = await this.query<TopQueryRow>(
+      `SELECT query_hash,
+              MIN(query_text) AS query_text,
+              COUNT(*)::int AS count,
+              AVG(top_score)::float AS avg_top_score,
+              AVG(CASE WHEN is_fallback THEN 1 ELSE 0 END)::float AS fallback_rate,
+              MAX(created_at) AS last_seen
+       FROM ${this.tableName}
+       WHERE ${conditions.join(' AND ')}
+       GROUP BY query_hash
+       ORDER BY count DESC, last_seen DESC
+       LIMIT $${values.length}`,
+      values
+    );
+
+    return result.rows.map(row => ({
+      query_hash: row.query_hash,
+      query_text: row.query_text ?? null,
+      count: row.count,
+      avg_top_score: row.avg_top_score ?? null,
+      fallback_rate: row.fallback_rate,
+      last_seen: new Date(row.last_seen).toISOString(),
+    }));
+  }
+
+  async collectionVolume(window: InsightsWindow): Promise<CollectionVolume[]> {
+    const { conditions, values } = this.buildConditions(window);
+
+    const result = await this.query<CollectionVolumeRow>(
+      `SELECT COALESCE(collection, '*') AS collection,
+              COUNT(*)::int AS queries,
+              COUNT(*) FILTER (WHERE is_fallback)::int AS fallback_count,
+              COUNT(*) FILTER (WHERE cached)::int AS cached_count,
+              AVG(total_time_ms)::float AS avg_total_time_ms
+       FROM ${this.tableName}
+       WHERE ${conditions.join(' AND ')}
+       GROUP BY 1
+       ORDER BY queries DESC`,
+      values
+    );
+
+    return result.rows.map(row => ({
+      collection: row.collection,
+      queries: row.queries,
+      fallback_count: row.fallback_count,
+      cached_count: row.cached_count,
+      avg_total_time_ms: row.avg_total_time_ms ?? null,
+    }));
+  }
+
+  async latencyPercentiles(window: InsightsWindow): Promise<LatencyPercentiles> {
+    const { conditions, values } = this.buildConditions(window);
+    const percentiles = (column: string): string =>
+      `percentile_cont(ARRAY[0.5, 0.9, 0.95, 0.99]) WITHIN GROUP (ORDER BY ${column}) AS ${column}`;
+
+    // Ordered-set aggregates skip NULLs, so cached answers only count towards the total
+    const result = await this.query<LatencyRow>(
+      `SELECT COUNT(*)::int AS count,
+              ${percentiles('total_time_ms')},
+              ${percentiles('embedding_time_ms')},
+              ${percentiles('search_time_ms')},
+              ${percentiles('llm_time_ms')}
+       FROM ${this.tableName}
+       WHERE ${conditions.join(' AND ')}`,
+      values
+    );
+
+    const row = result.rows[0];
+    return {
+      count: row?.count ?? 0,
+      total: this.toPercentiles(row?.total_time_ms),
+      embedding: this.toPercentiles(row?.embedding_time_ms),
+      search: this.toPercentiles(row?.search_time_ms),
+      llm: this.toPercentiles(row?.llm_time_ms),
+    };
+  }
+
+  async close(): Promise<void> {
+    await this.pool.end();
+  }
+
+  private buildConditions(window: InsightsWindow): { conditions: string[]; values: unknown[] } {
+    const conditions = ['created_at >= $1'];
+    const values: unknown[] = [window.since];
+
+    if (window.platform) {
+      values.push(window.platform);
+      conditions.push(`platform = $${values.length}`);
+    }
+    if (window.collection) {
+      values.push(window.collection);
+      conditions.push(`collection = $${values.length}`);
+    }
+
+    return { conditions, values };
+  }
+
+  private toPercentiles(values: Array<number | null> | null | undefined): Percentiles {
+    const [p50 = null, p90 = null, p95 = null, p99 = null] = values ?? [];
+    const round = (value: number | null): number | null => value === null ? null : Math.round(value);
+    return { p50: round(p50), p90: round(p90), p95: round(p95), p99: round(p99) };
+  }
+
+  private async query<R extends QueryResultRow = QueryResultRow>(sql: string, values: unknown[]): Promise<{ rows: R[] }> {
+    try {
+      return await this.pool.query<R>(sql, values);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      throw new RAGError(
+        /(relation|column) .* does not exist/i.test(message)
+          ? 'query_stats table missing or outdated - run the migration to enable analytics'
+          : `Query analytics lookup failed: ${message}`,
+        'QUERY_INSIGHTS_FAILED'
+      );
+    }
+  }
+}
+
+export interface GapAnalysisOptions {
+  days?: number;
+  platform?: QueryPlatform;
+  collection?: string;
+  /** Answers whose best retrieval score is below this count as low confidence */
+  lowConfidenceThreshold?: number;
+  /** Cosine similarity needed to join a cluster */
+  similarityThreshold?: number;
+  limit?: number;
+}
+
+export interface GapAnalysis {
+  since: string;
+  questions_analyzed: number;
+  clusters: GapCluster[];
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Distinct questions embedded per analysis; the long tail rarely forms a cluster worth writing for
+const MAX_GAP_CANDIDATES = 500;
+const EMBED_BATCH_SIZE = 100;
+
+/**
+ * Content-gap and usage reports for the documentation team
+ */
+export class QueryInsights {
+  constructor(
+    private readonly store: QueryInsightsStore,
+    private readonly embeddingAdapter: EmbeddingAdapter
+  ) {}
+
+  /**
+   * Cluster unanswered, low-confidence and badly rated questions, largest clusters first
+   */
+  async findGaps(options: GapAnalysisOptions = {}): Promise<GapAnalysis> {
+    const window = this.toWindow(options.days, options);
+    const candidates = await this.store.findGapCandidates(
+      window,
+      options.lowConfidenceThreshold ?? 0.5,
+      MAX_GAP_CANDIDATES
+    );
+
+    const embeddings: number[][] = [];
+    for (let start = 0; start < candidates.length; start += EMBED_BATCH_SIZE) {
+      const batch = candidates.slice(start, start + EMBED_BATCH_SIZE);
+      embeddings.push(...await this.embeddingAdapter.embedBatch(batch.map(candidate => candidate.query_text)));
+    }
+
+    const clusters = clusterQuestions(
+      candidates.map((candidate, index) => ({ ...candidate, embedding: embeddings[index] ?? [] })),
+      options.similarityThreshold ?? 0.85
+    );
+
+    console.debug('[QueryInsights] Content gaps analysed', {
+      since: window.since.toISOString(),
+      questions: candidates.length,
+      clusters: clusters.length,
+    });
+
+    return {
+      since: window.since.toISOString(),
+      questions_analyzed: candidates.length,
+      clusters: clusters.slice(0, options.limit ?? 20),
+    };
+  }
+
+  async topQueries(options: { days?: number; platform?: QueryPlatform; collection?: string; limit?: number } = {}): Promise<TopQuery[]> {
+    return this.store.topQueries(this.toWindow(options.days, options), options.limit ?? 20);
+  }
+
+  async collectionVolume(options: { days?: number; platform?: QueryPlatform } = {}): Promise<CollectionVolume[]> {
+    return this.store.collectionVolume(this.toWindow(options.days, options));
+  }
+
+  async latency(options: { days?: number; platform?: QueryPlatform; collection?: string } = {}): Promise<LatencyPercentiles> {
+    return this.store.latencyPercentiles(this.toWindow(options.days, options));
+  }
+
+  private toWindow(days: number = 7, filters: { platform?: QueryPlatform; collection?: string }): InsightsWindow {
+    return {
+      since: new Date(Date.now() - days * DAY_MS),
+      ...(filters.platform && { platform: filters.platform }),
+      ...(filters.collection && { collection: filters.collection }),
+    };
+  }
+}
@@ -11,6 +11,16 @@ import { RAGError } from '@/types';
 import type { CrawledDocument, CrawlResult, CrawlError, CrawlStats, DocumentMetadata } from '@/types';
 import config from '@/utils/config';
 
+/**
+ * What is known about a page from an earlier crawl
+ */
+export interface KnownPage {
+  etag?: string;
+  last_modified?: string;
+  /** Links to follow when the page is not modified */
+  links: string[];
+}
+
 export interface CrawlerOptions {
   baseUrl?: string;
   maxPages?: number;
@@ -21,6 +31,12 @@ export interface CrawlerOptions {
   includePatterns?: string[];
   excludePatterns?: string[];
   userAgent?: string;
+  /** Stops the crawl after the current page; pages crawled so far are returned */
+  signal?: AbortSignal;
+  /** Called after each page with the pages crawled so far and the page limit */
+  onPage?: (crawled: number, maxPages: number) => void | Promise<void>;
+  /** Pages from an earlier crawl, requested with If-None-Match / If-Modified-Since */
+  knownPages?: Map<string, KnownPage>;
 }
 
 /**
@@ -36,15 +52,23 @@ export class PowerSchoolCrawler {
   // private readonly maxDepth: number;
   private readonly includePatterns: RegExp[];
   private readonly excludePatterns: RegExp[];
+  private readonly signal: AbortSignal | undefined;
+  private readonly onPage: CrawlerOptions['onPage'];
+  private readonly knownPages: Map<string, KnownPage>;
 
   // Track crawled URLs to avoid duplicates
   private crawledUrls: Set<string> = new Set();
   private queuedUrls: Set<string> = new Set();
+  private notModifiedUrls: string[] = [];
+  private goneUrls: string[] = [];
 
   constructor(options: CrawlerOptions = {}) {
     this.baseUrl = options.baseUrl || config.CRAWL_BASE_URL;
     this.maxPages = options.maxPages || config.MAX_PAGES;
     this.delayMs = options.delayMs || config.CRAWL_DELAY_MS;
+    this.signal = options.signal;
+    this.onPage = options.onPage;
+    this.knownPages = options.knownPages ?? new Map();
     // this.maxDepth = options.maxDepth || 5;
 
     // Convert patterns to regex
@@ -117,13 +141,15 @@ export class PowerSchoolCrawler {
       // Reset state
       this.crawledUrls.clear();
       this.queuedUrls.clear();
+      this.notModifiedUrls = [];
+      this.goneUrls = [];
 
       // Add initial URL to queue
       this.queuedUrls.add(initialUrl);
 
       let crawledCount = 0;
 
-      while (this.queuedUrls.size > 0 && crawledCount < this.maxPages) {
+      while (this.queuedUrls.size > 0 && crawledCount < this.maxPages && !this.signal?.aborted) {
         const url = Array.from(this.queuedUrls)[0];
         if (!url) break;
 
@@ -138,6 +164,7 @@ export class PowerSchoolCrawler {
           }
 
           crawledCount++;
+          await this.onPage?.(crawledCount, this.maxPages);
           
           // Respect rate limiting
           if (this.delayMs > 0) {
@@ -173,6 +200,8 @@ export class PowerSchoolCrawler {
         documents,
         errors,
         stats,
+        not_modified: this.notModifiedUrls,
+        gone: this.goneUrls,
       };
 
     } catch (error) {
@@ -198,8 +227,24 @@ export class PowerSchoolCrawler {
 
     this.crawledUrls.add(url);
 
+    const known = this.knownPages.get(url);
+
     try {
-      const response = await this.client.get(url);
+      const response = await this.client.get(url, {
+        headers: {
+          ...(known?.etag && { 'If-None-Match': known.etag }),
+          ...(known?.last_modified && { 'If-Modified-Since': known.last_modified }),
+        },
+        validateStatus: status => (status >= 200 && status < 300) || status === 304,
+      });
+
+      // Unchanged since the last crawl; follow the links it had then
+      if (response.status === 304 && known) {
+        this.notModifiedUrls.push(url);
+        this.queueUrls(known.links, url);
+        return null;
+      }
+
       const html = response.data as string;
 
       // Parse HTML with Cheerio
@@ -214,7 +259,9 @@ export class PowerSchoolCrawler {
       const { content, rawHtml } = this.extractContent($);
 
       // Find additional URLs to crawl
-      this.discoverUrls($, url);
+      const links = this.discoverUrls($, url);
+      const etag = response.headers['etag'];
+      const lastModified = response.headers['last-modified'];
 
       // Create document metadata
       const metadata: Partial<DocumentMetadata> = {
@@ -236,9 +283,17 @@ export class PowerSchoolCrawler {
         content: content.trim(),
         raw_html: rawHtml,
         metadata,
+        links,
+        ...(typeof etag === 'string' && { etag }),
+        ...(typeof lastModified === 'string' && { last_modified: lastModified }),
       };
 
     } catch (error) {
+      if (axios.isAxiosError(error) && (error.response?.status === 404 || error.response?.status === 410)) {
+        this.goneUrls.push(url);
+        return null;
+      }
+
       if (axios.isAxiosError(error)) {
         throw new RAGError(
           `HTTP error ${error.response?.status}: ${error.message}`,
@@ -400,31 +455,58 @@ export class PowerSchoolCrawler {
   }
 
   /**
-   * Discover additional URLs to crawl
+   * Discover additional URLs to crawl; returns the page's crawlable links
    */
-  private discoverUrls($: cheerio.CheerioAPI, currentUrl: string): void {
-    const currentUrlObj = new URL(currentUrl);
-    
+  private discoverUrls($: cheerio.CheerioAPI, currentUrl: string): string[] {
+    const links = new Set<string>();
+
     $('a[href]').each((_, element) => {
       const href = $(element).attr('href');
       if (!href) return;
 
       try {
         // Resolve relative URLs
-        const absoluteUrl = new URL(href, currentUrl).href;
-        
-        // Check if URL should be crawled
-        if (this.shouldCrawlUrl(absoluteUrl) && 
-            !this.crawledUrls.has(absoluteUrl) && 
-            !this.queuedUrls.has(absoluteUrl) &&
-            new URL(absoluteUrl).hostname === currentUrlObj.hostname) {
-          
-          this.queuedUrls.add(absoluteUrl);
-        }
+        links.add(new URL(href, currentUrl).href);
       } catch (error) {
         // Invalid URL, skip
       }
     });
+
+    return this.queueUrls([...links], currentUrl);
+  }
+
+  /**
+   * Queue same-host crawlable URLs that have not been seen yet; returns the crawlable ones
+   */
+  private queueUrls(urls: string[], currentUrl: string): string[] {
+    const hostname = new URL(currentUrl).hostname;
+    const crawlable = urls.filter(url => {
+      try {
+        return this.shouldCrawlUrl(url) && new URL(url).hostname === hostname;
+      } catch (error) {
+        return false;
+      }
+    });
+
+    for (const url of crawlable) {
+      if (!this.crawledUrls.has(url)) {
+        this.queuedUrls.add(url);
+      }
+    }
+
+    return crawlable;
+  }
+
+  /**
+   * Whether a page now answers 404 or 410; other failures count as still present
+   */
+  async isGone(url: string): Promise<boolean> {
+    try {
+      const response = await this.client.head(url, { validateStatus: () => true });
+      return response.status === 404 || response.status === 410;
+    } catch (error) {
+      return false;
+    }
   }
 
   /**
@@ -0,0 +1,193 @@
+/**
+ * Offline evaluation: runs golden examples through the RAG pipeline and scores the results
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import type { AskResponse, AskStreamEvent, RAGOptions, RetrievedDoc } from '@/types';
+import type { RAGPipelineOptions } from '@/core/rag/ragPipeline';
+import type { GoldenExample } from './goldenSet';
+import {
+  citationPrecision,
+  factCoverage,
+  isFactCovered,
+  mean,
+  percentile,
+  recallAtK,
+  reciprocalRank,
+} from './metrics';
+
+export interface EvaluationOptions {
+  /** Cutoff for recall@k */
+  k?: number;
+  /** Free-form name for the run, e.g. "chunk-size-2000" */
+  label?: string;
+  goldenSet?: string;
+  /** Extra pipeline options applied to every example */
+  pipelineOptions?: Partial<RAGOptions & RAGPipelineOptions>;
+  /** Settings recorded in the report so runs can be compared, e.g. models and thresholds */
+  settings?: Record<string, unknown>;
+  onProgress?: (result: ExampleResult, index: number, total: number) => void;
+}
+
+export interface ExampleResult {
+  id: string;
+  question: string;
+  recall_at_k: number;
+  reciprocal_rank: number;
+  citation_precision: number | null;
+  fact_coverage: number | null;
+  missing_facts: string[];
+  retrieved_urls: string[];
+  cited_urls: string[];
+  latency_ms: number;
+  is_fallback?: boolean;
+  error?: string;
+}
+
+export interface EvaluationSummary {
+  examples: number;
+  errors: number;
+  recall_at_k: number;
+  mrr: number;
+  citation_precision: number | null;
+  fact_coverage: number | null;
+  latency_ms: { mean: number; p50: number; p95: number };
+}
+
+export interface EvaluationReport {
+  run_id: string;
+  label?: string;
+  created_at: string;
+  golden_set?: string;
+  k: number;
+  settings: Record<string, unknown>;
+  summary: EvaluationSummary;
+  examples: ExampleResult[];
+}
+
+type Answerer = {
+  processStream(
+    query: string,
+    options: Partial<RAGOptions & RAGPipelineOptions>,
+    onEvent: (event: AskStreamEvent) => void
+  ): Promise<AskResponse>;
+};
+
+/**
+ * Score one pipeline response against its golden example. Retrieval is scored on the
+ * documents sent to the LLM, which refused answers do not carry in their response.
+ */
+export function scoreExample(
+  example: GoldenExample,
+  response: AskResponse,
+  k: number,
+  latencyMs: number,
+  retrievedDocs: RetrievedDoc[] = response.retrieved_docs
+): ExampleResult {
+  const retrievedUrls = retrievedDocs
+    .map(doc => doc.url)
+    .filter((url): url is string => Boolean(url));
+  const citedUrls = response.citations.map(citation => citation.url);
+  const facts = example.expected_facts ?? [];
+
+  return {
+    id: example.id,
+    question: example.question,
+    recall_at_k: recallAtK(retrievedUrls, example.expected_urls, k),
+    reciprocal_rank: reciprocalRank(retrievedUrls, example.expected_urls),
+    citation_precision: citationPrecision(citedUrls, example.expected_urls),
+    fact_coverage: factCoverage(response.answer, facts),
+    missing_facts: facts.filter(fact => !isFactCovered(response.answer, fact)),
+    retrieved_urls: retrievedUrls,
+    cited_urls: citedUrls,
+    latency_ms: latencyMs,
+    ...(response.debug_info?.is_fallback && { is_fallback: true }),
+  };
+}
+
+/**
+ * Aggregate example scores; failed examples count as zero recall and MRR
+ */
+export function summarize(results: ExampleResult[]): EvaluationSummary {
+  const latencies = results.map(result => result.latency_ms);
+
+  return {
+    examples: results.length,
+    errors: results.filter(result => result.error).length,
+    recall_at_k: mean(results.map(result => result.recall_at_k)) ?? 0,
+    mrr: mean(results.map(result => result.reciprocal_rank)) ?? 0,
+    citation_precision: mean(results.map(result => result.citation_precision)),
+    fact_coverage: mean(results.map(result => result.fact_coverage)),
+    latency_ms: {
+      mean: Math.round(mean(latencies) ?? 0),
+      p50: percentile(latencies, 50),
+      p95: percentile(latencies, 95),
+    },
+  };
+}
+
+/**
+ * Run every example through the pipeline, one at a time so latencies are comparable.
+ * The streaming entry point is used to observe retrieval, so answers are always markdown.
+ */
+export async function runEvaluation(
+  pipeline: Answerer,
+  examples: GoldenExample[],
+  options: EvaluationOptions = {}
+): Promise<EvaluationReport> {
+  const { k = 5, label, goldenSet, pipelineOptions = {}, settings = {}, onProgress } = options;
+  const results: ExampleResult[] = [];
+
+  for (const [index, example] of examples.entries()) {
+    const startTime = Date.now();
+    let result: ExampleResult;
+
+    try {
+      let retrievedDocs: RetrievedDoc[] | undefined;
+      const response = await pipeline.processStream(example.question, {
+        top_k: k,
+        ...pipelineOptions,
+        ...(example.prefer_steps !== undefined && { prefer_steps: example.prefer_steps }),
+        ...(example.collection && { collections: [example.collection] }),
+      }, event => {
+        if (event.type === 'retrieval') {
+          retrievedDocs = event.retrieved_docs;
+        }
+      });
+      result = scoreExample(example, response, k, Date.now() - startTime, retrievedDocs);
+    } catch (error) {
+      result = {
+        id: example.id,
+        question: example.question,
+        recall_at_k: 0,
+        reciprocal_rank: 0,
+        citation_precision: null,
+        fact_coverage: null,
+        missing_facts: example.expected_facts ?? [],
+        retrieved_urls: [],
+        cited_urls: [],
+        latency_ms: Date.now() - startTime,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      };
+    }
+
+    results.push(result);
+    onProgress?.(result, index, examples.length);
+  }
+
+  console.debug('[Evaluator] Evaluation completed', {
+    examples: results.length,
+    errors: results.filter(result => result.error).length,
+  });
+
+  return {
+    run_id: uuidv4(),
+    ...(label && { label }),
+    created_at: new Date().toISOString(),
+    ...(goldenSet && { golden_set: goldenSet }),
+    k,
+    settings,
+    summary: summarize(results),
+    examples: results,
+  };
+}
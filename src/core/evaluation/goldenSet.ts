@@ -0,0 +1,156 @@
+/**
+ * Golden datasets for offline evaluation
+ * One JSON object per line: a question with the pages and facts a good answer should use
+ */
+
+import { readFileSync, writeFileSync } from 'fs';
+import { v4 as uuidv4 } from 'uuid';
+import type { VectorDocument } from '@/types';
+import { RAGError } from '@/types';
+
+export interface GoldenExample {
+  id: string;
+  question: string;
+  /** Pages that should be retrieved and cited */
+  expected_urls: string[];
+  /** Short facts the answer should state */
+  expected_facts?: string[];
+  collection?: string;
+  section?: string;
+  prefer_steps?: boolean;
+  /** Set on generated examples: the chunk the question was written from */
+  source_chunk_id?: string;
+  synthetic?: boolean;
+}
+
+/**
+ * A page loaded into the in-memory store when evaluating without a database
+ */
+export interface CorpusDocument {
+  url: string;
+  title: string;
+  content: string;
+  section?: string;
+  collection?: string;
+  content_type?: VectorDocument['metadata']['content_type'];
+}
+
+/**
+ * Parse JSONL lines, reporting the file and line of the first invalid entry
+ */
+function parseJsonLines<T>(
+  filePath: string,
+  validate: (value: any) => string | null
+): T[] {
+  let text: string;
+  try {
+    text = readFileSync(filePath, 'utf8');
+  } catch (error) {
+    throw new RAGError(
+      `Failed to read ${filePath}: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      'GOLDEN_SET_INVALID',
+      { filePath }
+    );
+  }
+
+  const entries: T[] = [];
+  const lines = text.split('\n');
+  for (let index = 0; index < lines.length; index++) {
+    const line = lines[index]!.trim();
+    if (!line || line.startsWith('//')) {
+      continue;
+    }
+
+    let value: unknown;
+    try {
+      value = JSON.parse(line);
+    } catch {
+      throw new RAGError(`${filePath}:${index + 1} is not valid JSON`, 'GOLDEN_SET_INVALID', { filePath, line: index + 1 });
+    }
+
+    const problem = typeof value === 'object' && value !== null ? validate(value) : 'expected an object';
+    if (problem) {
+      throw new RAGError(`${filePath}:${index + 1} ${problem}`, 'GOLDEN_SET_INVALID', { filePath, line: index + 1 });
+    }
+    entries.push(value as T);
+  }
+
+  return entries;
+}
+
+const isStringArray = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every(item => typeof item === 'string');
+
+/**
+ * Load a golden set; examples without an id get one from their line order
+ */
+export function loadGoldenSet(filePath: string): GoldenExample[] {
+  const examples = parseJsonLines<GoldenExample>(filePath, example => {
+    if (typeof example.question !== 'string' || !example.question.trim()) {
+      return 'needs a non-empty "question"';
+    }
+    if (!isStringArray(example.expected_urls)) {
+      return 'needs "expected_urls" as an array of strings';
+    }
+    if (example.expected_facts !== undefined && !isStringArray(example.expected_facts)) {
+      return '"expected_facts" must be an array of strings';
+    }
+    return null;
+  });
+
+  const seen = new Set<string>();
+  return examples.map((example, index) => {
+    const id = example.id ? String(example.id) : `q${index + 1}`;
+    if (seen.has(id)) {
+      throw new RAGError(`Duplicate golden example id "${id}" in ${filePath}`, 'GOLDEN_SET_INVALID', { filePath });
+    }
+    seen.add(id);
+    return { ...example, id };
+  });
+}
+
+/**
+ * Write examples as JSONL, one per line
+ */
+export function writeGoldenSet(filePath: string, examples: GoldenExample[]): void {
+  writeFileSync(filePath, examples.map(example => JSON.stringify(example)).join('\n') + '\n');
+}
+
+/**
+ * Load corpus pages for the in-memory store
+ */
+export function loadCorpus(filePath: string): CorpusDocument[] {
+  return parseJsonLines<CorpusDocument>(filePath, doc =>
+    ['url', 'title', 'content'].every(field => typeof doc[field] === 'string')
+      ? null
+      : 'needs string "url", "title" and "content"'
+  );
+}
+
+/**
+ * Embed corpus pages as single-chunk documents
+ */
+export async function buildCorpusDocuments(
+  corpus: CorpusDocument[],
+  embed: (texts: string[]) => Promise<number[][]>
+): Promise<VectorDocument[]> {
+  const embeddings = await embed(corpus.map(doc => `${doc.title}\n\n${doc.content}`));
+  const now = new Date();
+
+  return corpus.map((doc, index) => ({
+    id: uuidv4(),
+    content: doc.content,
+    embedding: embeddings[index]!,
+    metadata: {
+      url: doc.url,
+      title: doc.title,
+      ...(doc.section && { section: doc.section }),
+      ...(doc.collection && { collection: doc.collection }),
+      content_type: doc.content_type ?? 'text',
+      chunk_index: 0,
+      total_chunks: 1,
+      created_at: now,
+      updated_at: now,
+    },
+  }));
+}
@@ -0,0 +1,97 @@
+/**
+ * Retrieval and answer quality metrics for offline evaluation
+ */
+
+import { getPageUrl } from '@/utils/chunks';
+import { tokenizeText } from '@/utils/text';
+
+/**
+ * Compare URLs by page: ignore chunk suffixes, fragments, query strings, trailing slashes and case
+ */
+export function normalizeUrl(url: string): string {
+  return getPageUrl(url)
+    .replace(/[?#].*$/, '')
+    .replace(/\/+$/, '')
+    .toLowerCase();
+}
+
+/**
+ * Distinct page URLs in rank order
+ */
+function uniquePages(urls: string[]): string[] {
+  return [...new Set(urls.map(normalizeUrl))];
+}
+
+/**
+ * Share of expected pages found among the first k retrieved pages
+ */
+export function recallAtK(retrievedUrls: string[], expectedUrls: string[], k: number): number {
+  const expected = new Set(expectedUrls.map(normalizeUrl));
+  if (expected.size === 0) {
+    return 1;
+  }
+  const topK = uniquePages(retrievedUrls).slice(0, k);
+  return topK.filter(url => expected.has(url)).length / expected.size;
+}
+
+/**
+ * 1 / rank of the first retrieved page that is expected, 0 if none is
+ */
+export function reciprocalRank(retrievedUrls: string[], expectedUrls: string[]): number {
+  const expected = new Set(expectedUrls.map(normalizeUrl));
+  const rank = uniquePages(retrievedUrls).findIndex(url => expected.has(url));
+  return rank === -1 ? 0 : 1 / (rank + 1);
+}
+
+/**
+ * Share of cited pages that are expected; null when nothing was cited
+ */
+export function citationPrecision(citedUrls: string[], expectedUrls: string[]): number | null {
+  const cited = uniquePages(citedUrls);
+  if (cited.length === 0) {
+    return null;
+  }
+  const expected = new Set(expectedUrls.map(normalizeUrl));
+  return cited.filter(url => expected.has(url)).length / cited.length;
+}
+
+/**
+ * A fact is covered when every one of its terms appears in the answer, in any order
+ */
+export function isFactCovered(answer: string, fact: string): boolean {
+  const answerTerms = new Set(tokenizeText(answer));
+  const factTerms = tokenizeText(fact);
+  return factTerms.length > 0 && factTerms.every(term => answerTerms.has(term));
+}
+
+/**
+ * Share of expected facts covered by the answer; null when the example lists none
+ */
+export function factCoverage(answer: string, facts: string[] = []): number | null {
+  if (facts.length === 0) {
+    return null;
+  }
+  return facts.filter(fact => isFactCovered(answer, fact)).length / facts.length;
+}
+
+/**
+ * Mean of the values that apply; null when none do
+ */
+export function mean(values: Array<number | null>): number | null {
+  const applicable = values.filter((value): value is number => value !== null);
+  return applicable.length > 0
+    ? applicable.reduce((sum, value) => sum + value, 0) / applicable.length
+    : null;
+}
+
+/**
+ * Nearest-rank percentile
+ */
+export function percentile(values: number[], p: number): number {
+  if (values.length === 0) {
+    return 0;
+  }
+  const sorted = [...values].sort((a, b) => a - b);
+  const rank = Math.ceil((p / 100) * sorted.length);
+  return sorted[Math.min(sorted.length, Math.max(1, rank)) - 1]!;
+}
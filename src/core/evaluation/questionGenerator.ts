@@ -0,0 +1,200 @@
+/**
+ * Synthetic golden examples: the LLM writes questions that a sampled chunk answers,
+ * and that chunk's page becomes the expected retrieval result
+ */
+
+import { z } from 'zod';
+import type { LLMAdapter, SearchResult, StructuredOutputFormat } from '@/types';
+import { getPageUrl } from '@/utils/chunks';
+import { tokenizeText } from '@/utils/text';
+import { repairJson } from '@/core/rag/structuredOutput';
+import type { GoldenExample } from './goldenSet';
+import { isFactCovered } from './metrics';
+
+export interface QuestionGeneratorOptions {
+  questionsPerChunk?: number;
+  /** Token-set similarity at or above which a question counts as a duplicate */
+  duplicateThreshold?: number;
+  /** Longer chunks are truncated in the prompt */
+  maxExcerptChars?: number;
+}
+
+export interface GeneratedQuestion {
+  question: string;
+  facts: string[];
+}
+
+export interface QuestionGenerationResult {
+  examples: GoldenExample[];
+  stats: {
+    chunks: number;
+    generated: number;
+    duplicates: number;
+    failedChunks: number;
+  };
+}
+
+const generatedQuestionsSchema = z.object({
+  questions: z.array(z.object({
+    question: z.string().min(5),
+    facts: z.array(z.string()).optional(),
+  })),
+});
+
+const SYNTHETIC_QUESTIONS_FORMAT: StructuredOutputFormat = {
+  name: 'synthetic_questions',
+  schema: {
+    type: 'object',
+    properties: {
+      questions: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: {
+            question: { type: 'string', description: 'A question a PowerSchool user would ask' },
+            facts: {
+              type: 'array',
+              items: { type: 'string' },
+              description: 'Short phrases copied from the excerpt that a correct answer must contain',
+            },
+          },
+          required: ['question'],
+        },
+      },
+    },
+    required: ['questions'],
+  },
+};
+
+/**
+ * Jaccard similarity of the questions' search terms
+ */
+export function questionSimilarity(a: string, b: string): number {
+  const termsA = new Set(tokenizeText(a));
+  const termsB = new Set(tokenizeText(b));
+  if (termsA.size === 0 && termsB.size === 0) {
+    return 1;
+  }
+  const shared = [...termsA].filter(term => termsB.has(term)).length;
+  return shared / (termsA.size + termsB.size - shared);
+}
+
+function slugify(text: string): string {
+  return text.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '').slice(0, 40) || 'general';
+}
+
+export class QuestionGenerator {
+  private readonly questionsPerChunk: number;
+  private readonly duplicateThreshold: number;
+  private readonly maxExcerptChars: number;
+
+  constructor(
+    private llmAdapter: LLMAdapter,
+    options: QuestionGeneratorOptions = {}
+  ) {
+    this.questionsPerChunk = options.questionsPerChunk ?? 2;
+    this.duplicateThreshold = options.duplicateThreshold ?? 0.8;
+    this.maxExcerptChars = options.maxExcerptChars ?? 3000;
+  }
+
+  /**
+   * Ask the LLM for questions the chunk answers; facts not found in the chunk are dropped
+   */
+  async generateForChunk(chunk: SearchResult): Promise<GeneratedQuestion[]> {
+    const { title, section, collection } = chunk.metadata;
+    const product = collection === 'schoology' ? 'Schoology' : 'PowerSchool SIS';
+
+    const response = await this.llmAdapter.generate(
+      [
+        {
+          role: 'system',
+          content: `You write evaluation questions for a ${product} documentation assistant. ` +
+            'Write questions the way administrators and teachers actually ask them: short, task-focused, ' +
+            'without quoting the page title or saying "according to the documentation". ' +
+            'Every question must be fully answerable from the excerpt alone. ' +
+            'Respond with JSON: {"questions": [{"question": "...", "facts": ["..."]}]}',
+        },
+        {
+          role: 'user',
+          content: `Page: ${title}${section ? `\nSection: ${section}` : ''}\n\n` +
+            `Excerpt:\n${chunk.content.slice(0, this.maxExcerptChars)}\n\n` +
+            `Write ${this.questionsPerChunk} different questions, each with 1-3 short facts copied from the excerpt.`,
+        },
+      ],
+      { max_tokens: 600, temperature: 0.7, response_format: SYNTHETIC_QUESTIONS_FORMAT }
+    );
+
+    const parsed = generatedQuestionsSchema.parse(JSON.parse(repairJson(response)));
+
+    return parsed.questions.slice(0, this.questionsPerChunk).map(item => ({
+      question: item.question.trim(),
+      facts: (item.facts ?? []).map(fact => fact.trim()).filter(fact => fact && isFactCovered(chunk.content, fact)),
+    }));
+  }
+
+  /**
+   * Generate examples for every chunk, dropping near-duplicates of earlier questions
+   * (including those in `existing`, so a golden set can be extended)
+   */
+  async generate(
+    chunks: SearchResult[],
+    existing: GoldenExample[] = [],
+    onProgress?: (chunk: SearchResult, kept: number, index: number) => void
+  ): Promise<QuestionGenerationResult> {
+    const examples: GoldenExample[] = [];
+    const seenQuestions = existing.map(example => example.question);
+    const usedIds = new Set(existing.map(example => example.id));
+    const stats = { chunks: chunks.length, generated: 0, duplicates: 0, failedChunks: 0 };
+
+    for (const [index, chunk] of chunks.entries()) {
+      let questions: GeneratedQuestion[] = [];
+      try {
+        questions = await this.generateForChunk(chunk);
+      } catch (error) {
+        stats.failedChunks++;
+        console.warn('[QuestionGenerator] Question generation failed for chunk', {
+          chunkId: chunk.id,
+          url: chunk.metadata.url,
+          error: error instanceof Error ? error.message : 'Unknown error',
+        });
+      }
+
+      let kept = 0;
+      for (const { question, facts } of questions) {
+        stats.generated++;
+        if (seenQuestions.some(seen => questionSimilarity(seen, question) >= this.duplicateThreshold)) {
+          stats.duplicates++;
+          continue;
+        }
+        seenQuestions.push(question);
+
+        const { collection, section, title } = chunk.metadata;
+        const prefix = `${collection ?? 'docs'}-${slugify(section || title)}`;
+        let counter = 1;
+        while (usedIds.has(`${prefix}-${counter}`)) {
+          counter++;
+        }
+        const id = `${prefix}-${counter}`;
+        usedIds.add(id);
+
+        examples.push({
+          id,
+          question,
+          expected_urls: [getPageUrl(chunk.metadata.url)],
+          ...(facts.length > 0 && { expected_facts: facts }),
+          ...(collection && { collection }),
+          ...(section && { section }),
+          source_chunk_id: chunk.id,
+          synthetic: true,
+        });
+        kept++;
+      }
+
+      onProgress?.(chunk, kept, index);
+    }
+
+    console.debug('[QuestionGenerator] Generated synthetic questions', stats);
+
+    return { examples, stats };
+  }
+}
@@ -0,0 +1,182 @@
+/**
+ * Evaluation report comparison and Markdown rendering
+ */
+
+import type { EvaluationReport, ExampleResult } from './evaluator';
+
+type SummaryMetric = 'recall_at_k' | 'mrr' | 'citation_precision' | 'fact_coverage' | 'latency_p50' | 'latency_p95';
+
+export interface MetricChange {
+  metric: SummaryMetric;
+  baseline: number | null;
+  current: number | null;
+  delta: number | null;
+  /** Latency regresses when it grows; quality metrics when they drop */
+  regressed: boolean;
+}
+
+export interface ExampleChange {
+  id: string;
+  metric: 'recall_at_k' | 'fact_coverage';
+  baseline: number;
+  current: number;
+}
+
+export interface ReportDiff {
+  baseline_run_id: string;
+  baseline_label?: string;
+  metrics: MetricChange[];
+  regressed_examples: ExampleChange[];
+  improved_examples: ExampleChange[];
+  added_examples: string[];
+  removed_examples: string[];
+}
+
+// Changes smaller than this are reported but not flagged
+const QUALITY_TOLERANCE = 0.01;
+const LATENCY_TOLERANCE = 0.1;
+
+function summaryValue(report: EvaluationReport, metric: SummaryMetric): number | null {
+  switch (metric) {
+    case 'latency_p50':
+      return report.summary.latency_ms.p50;
+    case 'latency_p95':
+      return report.summary.latency_ms.p95;
+    default:
+      return report.summary[metric];
+  }
+}
+
+/**
+ * Compare a run against a previous one, metric by metric and example by example
+ */
+export function diffReports(current: EvaluationReport, baseline: EvaluationReport): ReportDiff {
+  const metricNames: SummaryMetric[] = ['recall_at_k', 'mrr', 'citation_precision', 'fact_coverage', 'latency_p50', 'latency_p95'];
+
+  const metrics = metricNames.map((metric): MetricChange => {
+    const before = summaryValue(baseline, metric);
+    const after = summaryValue(current, metric);
+    const delta = before !== null && after !== null ? after - before : null;
+    const isLatency = metric.startsWith('latency');
+    const regressed = delta !== null && (isLatency
+      ? delta > Math.max(before! * LATENCY_TOLERANCE, 1)
+      : delta < -QUALITY_TOLERANCE);
+
+    return { metric, baseline: before, current: after, delta, regressed };
+  });
+
+  const baselineExamples = new Map(baseline.examples.map(example => [example.id, example]));
+  const currentIds = new Set(current.examples.map(example => example.id));
+  const regressed: ExampleChange[] = [];
+  const improved: ExampleChange[] = [];
+
+  for (const example of current.examples) {
+    const previous = baselineExamples.get(example.id);
+    if (!previous) {
+      continue;
+    }
+
+    for (const metric of ['recall_at_k', 'fact_coverage'] as const) {
+      const before = previous[metric];
+      const after = example[metric];
+      if (before === null || after === null || Math.abs(after - before) <= QUALITY_TOLERANCE) {
+        continue;
+      }
+      (after < before ? regressed : improved).push({ id: example.id, metric, baseline: before, current: after });
+    }
+  }
+
+  return {
+    baseline_run_id: baseline.run_id,
+    ...(baseline.label && { baseline_label: baseline.label }),
+    metrics,
+    regressed_examples: regressed,
+    improved_examples: improved,
+    added_examples: current.examples.filter(example => !baselineExamples.has(example.id)).map(example => example.id),
+    removed_examples: baseline.examples.filter(example => !currentIds.has(example.id)).map(example => example.id),
+  };
+}
+
+function formatValue(value: number | null, metric: string): string {
+  if (value === null) {
+    return 'n/a';
+  }
+  return metric.startsWith('latency') ? `${Math.round(value)} ms` : value.toFixed(3);
+}
+
+function formatDelta(change: MetricChange): string {
+  if (change.delta === null) {
+    return '';
+  }
+  const sign = change.delta > 0 ? '+' : '';
+  const value = change.metric.startsWith('latency') ? `${Math.round(change.delta)} ms` : change.delta.toFixed(3);
+  return `${sign}${value}${change.regressed ? ' ⚠️' : ''}`;
+}
+
+function describeExample(result: ExampleResult): string {
+  if (result.error) {
+    return `error: ${result.error}`;
+  }
+  const problems = [
+    result.recall_at_k < 1 && `recall ${result.recall_at_k.toFixed(2)}`,
+    result.missing_facts.length > 0 && `missing facts: ${result.missing_facts.map(fact => `"${fact}"`).join(', ')}`,
+    result.is_fallback && 'fallback answer',
+  ].filter(Boolean);
+  return problems.join('; ');
+}
+
+/**
+ * Render a report (and optional diff) as Markdown for PR comments and CI logs
+ */
+export function formatMarkdownReport(report: EvaluationReport, diff?: ReportDiff): string {
+  const title = report.label ? `RAG Evaluation: ${report.label}` : 'RAG Evaluation';
+  const lines = [
+    `# ${title}`,
+    '',
+    `Run \`${report.run_id}\` at ${report.created_at}` +
+      (report.golden_set ? ` on \`${report.golden_set}\`` : '') +
+      ` (${report.summary.examples} examples, ${report.summary.errors} errors, k=${report.k})`,
+    '',
+  ];
+
+  const baselineLabel = diff ? diff.baseline_label ?? diff.baseline_run_id.slice(0, 8) : '';
+  lines.push(diff ? `| Metric | Current | Baseline (${baselineLabel}) | Change |` : '| Metric | Value |');
+  lines.push(diff ? '| --- | --- | --- | --- |' : '| --- | --- |');
+
+  const metricLabels: Record<SummaryMetric, string> = {
+    recall_at_k: `Recall@${report.k}`,
+    mrr: 'MRR',
+    citation_precision: 'Citation precision',
+    fact_coverage: 'Fact coverage',
+    latency_p50: 'Latency p50',
+    latency_p95: 'Latency p95',
+  };
+  for (const metric of Object.keys(metricLabels) as SummaryMetric[]) {
+    const value = formatValue(summaryValue(report, metric), metric);
+    const change = diff?.metrics.find(item => item.metric === metric);
+    lines.push(change
+      ? `| ${metricLabels[metric]} | ${value} | ${formatValue(change.baseline, metric)} | ${formatDelta(change)} |`
+      : `| ${metricLabels[metric]} | ${value} |`);
+  }
+
+  if (diff && (diff.regressed_examples.length > 0 || diff.improved_examples.length > 0)) {
+    lines.push('', '## Changed Examples', '');
+    for (const change of [...diff.regressed_examples, ...diff.improved_examples]) {
+      const arrow = change.current < change.baseline ? '⬇️' : '⬆️';
+      lines.push(`- ${arrow} \`${change.id}\` ${change.metric}: ${change.baseline.toFixed(2)} → ${change.current.toFixed(2)}`);
+    }
+  }
+  if (diff && (diff.added_examples.length > 0 || diff.removed_examples.length > 0)) {
+    lines.push('', `Added examples: ${diff.added_examples.join(', ') || 'none'}; removed: ${diff.removed_examples.join(', ') || 'none'}`);
+  }
+
+  const weak = report.examples.filter(result => describeExample(result));
+  if (weak.length > 0) {
+    lines.push('', '## Examples Needing Attention', '');
+    for (const result of weak) {
+      lines.push(`- \`${result.id}\` ${result.question} (${describeExample(result)})`);
+    }
+  }
+
+  return `${lines.join('\n')}\n`;
+}
@@ -0,0 +1,182 @@
+/**
+ * Handlers for crawl, index, reindex and cleanup jobs, run by the processing job queue
+ */
+
+import { crawlAndSeed } from '@/core/seeding/crawlAndSeed';
+import { PostgresVectorAdapter } from '@/adapters/vector-store/postgres';
+import { createEmbeddingAdapter } from '@/adapters/embedding';
+import { answerCache } from '@/core/rag/answerCache';
+import { PostgresCrawledPageStore } from '@/core/seeding/crawledPages';
+import { RAGError } from '@/types';
+import config from '@/utils/config';
+import type { JobContext, JobHandler, JobType, ProcessingJobQueue } from './processingJobs';
+
+// Chunks re-embedded per batch by index jobs
+const INDEX_BATCH_SIZE = 50;
+
+/**
+ * Documentation source crawled for each collection
+ */
+export const COLLECTION_SOURCES: Record<string, { baseUrl: string; maxPages: number; delayMs: number }> = {
+  'pssis-admin': {
+    baseUrl: config.PSSIS_CRAWL_BASE_URL,
+    maxPages: config.PSSIS_MAX_PAGES,
+    delayMs: config.PSSIS_CRAWL_DELAY_MS,
+  },
+  'schoology': {
+    baseUrl: config.SCHOOLOGY_CRAWL_BASE_URL,
+    maxPages: config.SCHOOLOGY_MAX_PAGES,
+    delayMs: config.SCHOOLOGY_CRAWL_DELAY_MS,
+  },
+};
+
+/**
+ * Crawl the collection's documentation and store the changed pages
+ */
+function crawlCollection(context: JobContext): Promise<Record<string, unknown>> {
+  return crawlSource(context, true);
+}
+
+async function crawlSource(
+  { job, signal, reportProgress }: JobContext,
+  incremental: boolean
+): Promise<Record<string, unknown>> {
+  const { collection } = job.config;
+  const source = COLLECTION_SOURCES[collection];
+  if (!source) {
+    throw new RAGError(`No crawl source configured for collection '${collection}'`, 'INVALID_JOB');
+  }
+
+  const result = await crawlAndSeed({
+    baseUrl: source.baseUrl,
+    collection,
+    maxPages: job.config.max_pages ?? source.maxPages,
+    delayMs: source.delayMs,
+    chunkSize: 4000,
+    incremental,
+    signal,
+    onProgress: (_stage, current, total) => reportProgress(current, total),
+  });
+
+  if (!result.success && !signal.aborted) {
+    throw new RAGError(result.message, 'CRAWL_AND_SEED_ERROR');
+  }
+
+  return {
+    pages_crawled: result.pagesCrawled,
+    chunks_inserted: result.chunksInserted,
+    duration_ms: result.duration_ms,
+    exhaustive: result.exhaustive ?? false,
+    ...(result.changes && { changes: result.changes }),
+    ...(result.errors && { errors: result.errors.slice(0, 20) }),
+  };
+}
+
+/**
+ * Re-fetch and re-embed every page, then remove chunks of pages the crawl no longer found
+ */
+async function reindexCollection(context: JobContext): Promise<Record<string, unknown>> {
+  const startedAt = new Date();
+  const result = await crawlSource(context, false);
+  // A page that failed to load is not gone, and after hitting max_pages the rest of the
+  // site was simply not reached; keep everything rather than drop their chunks
+  if (context.signal.aborted || result.errors || !result.exhaustive) {
+    return result;
+  }
+
+  // Every chunk stored by this crawl was updated after startedAt
+  const { collection } = context.job.config;
+  const vectorStore = new PostgresVectorAdapter();
+  const pageStore = new PostgresCrawledPageStore({ connectionString: config.DATABASE_URL });
+  try {
+    const removed = await vectorStore.deleteCollection(collection, { updatedBefore: startedAt });
+    await pageStore.deleteCollection(collection, { crawledBefore: startedAt });
+    answerCache.invalidate(collection);
+    return { ...result, chunks_removed: removed };
+  } finally {
+    await Promise.all([vectorStore.close(), pageStore.close()]);
+  }
+}
+
+/**
+ * Re-embed the collection's stored chunks with the current embedding model, without crawling
+ */
+async function indexCollection({ job, signal, reportProgress }: JobContext): Promise<Record<string, unknown>> {
+  const { collection } = job.config;
+  const embeddingAdapter = await createEmbeddingAdapter(config.EMBEDDING_PROVIDER, { model: config.EMBEDDING_MODEL });
+  const vectorStore = new PostgresVectorAdapter();
+
+  try {
+    const total = await vectorStore.count(collection);
+    let indexed = 0;
+    let afterId: string | undefined;
+    await reportProgress(0, total);
+
+    while (!signal.aborted) {
+      const chunks = await vectorStore.listChunks(collection, {
+        ...(afterId && { afterId }),
+        limit: INDEX_BATCH_SIZE,
+      });
+      if (chunks.length === 0) {
+        break;
+      }
+
+      const embeddings = await embeddingAdapter.embedBatch(chunks.map(chunk => chunk.content));
+      await vectorStore.updateEmbeddings(chunks.map((chunk, index) => ({ id: chunk.id, embedding: embeddings[index]! })));
+
+      indexed += chunks.length;
+      afterId = chunks[chunks.length - 1]!.id;
+      await reportProgress(indexed, Math.max(total, indexed));
+    }
+
+    if (indexed > 0) {
+      answerCache.invalidate(collection);
+    }
+
+    return {
+      chunks_indexed: indexed,
+      embedding_model: embeddingAdapter.getModel(),
+    };
+  } finally {
+    await vectorStore.close();
+  }
+}
+
+/**
+ * Remove the collection's chunks, or only those not refreshed for older_than_days
+ */
+async function cleanupCollection({ job }: JobContext): Promise<Record<string, unknown>> {
+  const { collection, older_than_days } = job.config;
+  const vectorStore = new PostgresVectorAdapter();
+  const pageStore = new PostgresCrawledPageStore({ connectionString: config.DATABASE_URL });
+
+  try {
+    const updatedBefore = older_than_days !== undefined
+      ? new Date(Date.now() - older_than_days * 24 * 60 * 60 * 1000)
+      : undefined;
+    const removed = await vectorStore.deleteCollection(collection, { ...(updatedBefore && { updatedBefore }) });
+    // Forget the pages too, so the next crawl stores them again instead of skipping them as unchanged
+    await pageStore.deleteCollection(collection, { ...(updatedBefore && { crawledBefore: updatedBefore }) });
+    answerCache.invalidate(collection);
+
+    return {
+      chunks_removed: removed,
+      ...(updatedBefore && { updated_before: updatedBefore.toISOString() }),
+    };
+  } finally {
+    await Promise.all([vectorStore.close(), pageStore.close()]);
+  }
+}
+
+export const JOB_HANDLERS: Record<JobType, JobHandler> = {
+  crawl: crawlCollection,
+  index: indexCollection,
+  reindex: reindexCollection,
+  cleanup: cleanupCollection,
+};
+
+export function registerJobHandlers(queue: ProcessingJobQueue): void {
+  for (const [jobType, handler] of Object.entries(JOB_HANDLERS)) {
+    queue.register(jobType as JobType, handler);
+  }
+}
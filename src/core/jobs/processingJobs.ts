@@ -0,0 +1,673 @@
+/**
+ * Background crawl and indexing jobs backed by the processing_jobs table
+ * Admin requests enqueue a job and return; a worker loop claims pending jobs one at a time
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import { Pool, type QueryResultRow } from 'pg';
+import { RAGError } from '@/types';
+
+export const JOB_TYPES = ['crawl', 'index', 'reindex', 'cleanup'] as const;
+export type JobType = typeof JOB_TYPES[number];
+
+export const JOB_STATUSES = ['pending', 'running', 'completed', 'failed', 'cancelled'] as const;
+export type JobStatus = typeof JOB_STATUSES[number];
+
+export interface JobConfig {
+  collection: string;
+  /** Page limit for crawl and reindex jobs; defaults to the collection's configured limit */
+  max_pages?: number;
+  /** Cleanup only removes chunks not refreshed for this many days */
+  older_than_days?: number;
+}
+
+export interface ProcessingJob {
+  id: string;
+  job_type: JobType;
+  status: JobStatus;
+  config: JobConfig;
+  progress_current: number;
+  progress_total: number;
+  result?: Record<string, unknown>;
+  error_message?: string;
+  started_at?: string;
+  completed_at?: string;
+  /** Last sign of life from the worker running the job */
+  heartbeat_at?: string;
+  created_at: string;
+}
+
+export interface JobListOptions {
+  status?: JobStatus;
+  jobType?: JobType;
+  collection?: string;
+  limit?: number;
+  offset?: number;
+}
+
+export interface JobContext {
+  job: ProcessingJob;
+  /** Aborted when the job is cancelled */
+  signal: AbortSignal;
+  reportProgress(current: number, total: number): Promise<void>;
+}
+
+/**
+ * Runs one job type; the returned object is stored as the job result
+ */
+export type JobHandler = (context: JobContext) => Promise<Record<string, unknown>>;
+
+export interface JobOutcome {
+  result?: Record<string, unknown>;
+  error_message?: string;
+}
+
+/**
+ * Persistent storage for jobs
+ */
+export interface ProcessingJobStore {
+  insert(job: ProcessingJob): Promise<ProcessingJob>;
+  get(id: string): Promise<ProcessingJob | null>;
+  list(options: JobListOptions): Promise<ProcessingJob[]>;
+  /** Mark the oldest pending job running and return it */
+  claimNext(): Promise<ProcessingJob | null>;
+  /** Record progress, refresh the heartbeat and return the job's current status */
+  updateProgress(id: string, current: number, total: number): Promise<JobStatus | null>;
+  /** Refresh a running job's heartbeat and return its current status */
+  heartbeat(id: string): Promise<JobStatus | null>;
+  /** Only a running job takes the status; a cancelled one keeps it, and a job already failed as interrupted is left alone */
+  finish(id: string, status: 'completed' | 'failed' | 'cancelled', outcome: JobOutcome): Promise<void>;
+  /** Cancel a pending or running job; returns null when there is no such job */
+  cancel(id: string): Promise<ProcessingJob | null>;
+  /** Return a running job to pending so a worker runs it again; false when it was no longer running */
+  release(id: string): Promise<boolean>;
+  /** Fail running jobs whose worker has not sent a heartbeat since staleBefore */
+  failInterrupted(staleBefore: Date): Promise<number>;
+}
+
+const INTERRUPTED_MESSAGE = 'Interrupted: the worker running it stopped sending heartbeats';
+
+const FINISHED_STATUSES: JobStatus[] = ['completed', 'failed', 'cancelled'];
+
+/**
+ * Process-local storage, used until Postgres is connected and in tests
+ */
+export class InMemoryProcessingJobStore implements ProcessingJobStore {
+  private jobs = new Map<string, ProcessingJob>();
+
+  async insert(job: ProcessingJob): Promise<ProcessingJob> {
+    this.jobs.set(job.id, job);
+    return { ...job };
+  }
+
+  async get(id: string): Promise<ProcessingJob | null> {
+    const job = this.jobs.get(id);
+    return job ? { ...job } : null;
+  }
+
+  async list(options: JobListOptions): Promise<ProcessingJob[]> {
+    const offset = options.offset ?? 0;
+    return [...this.jobs.values()]
+      .filter(job =>
+        (!options.status || job.status === options.status) &&
+        (!options.jobType || job.job_type === options.jobType) &&
+        (!options.collection || job.config.collection === options.collection)
+      )
+      .sort((a, b) => b.created_at.localeCompare(a.created_at))
+      .slice(offset, offset + (options.limit ?? 50))
+      .map(job => ({ ...job }));
+  }
+
+  async claimNext(): Promise<ProcessingJob | null> {
+    const next = [...this.jobs.values()]
+      .filter(job => job.status === 'pending')
+      .sort((a, b) => a.created_at.localeCompare(b.created_at))[0];
+    if (!next) {
+      return null;
+    }
+
+    next.status = 'running';
+    next.started_at = new Date().toISOString();
+    next.heartbeat_at = next.started_at;
+    return { ...next };
+  }
+
+  async updateProgress(id: string, current: number, total: number): Promise<JobStatus | null> {
+    const job = this.jobs.get(id);
+    if (!job) {
+      return null;
+    }
+
+    if (job.status === 'running') {
+      job.progress_current = current;
+      job.progress_total = total;
+      job.heartbeat_at = new Date().toISOString();
+    }
+    return job.status;
+  }
+
+  async heartbeat(id: string): Promise<JobStatus | null> {
+    const job = this.jobs.get(id);
+    if (!job) {
+      return null;
+    }
+
+    if (job.status === 'running') {
+      job.heartbeat_at = new Date().toISOString();
+    }
+    return job.status;
+  }
+
+  async finish(id: string, status: 'completed' | 'failed' | 'cancelled', outcome: JobOutcome): Promise<void> {
+    const job = this.jobs.get(id);
+    if (!job || (job.status !== 'running' && job.status !== 'cancelled')) {
+      return;
+    }
+
+    this.jobs.set(id, {
+      ...job,
+      status: job.status === 'cancelled' ? 'cancelled' : status,
+      ...(outcome.result && { result: outcome.result }),
+      ...(outcome.error_message && { error_message: outcome.error_message }),
+      completed_at: new Date().toISOString(),
+    });
+  }
+
+  async cancel(id: string): Promise<ProcessingJob | null> {
+    const job = this.jobs.get(id);
+    if (!job) {
+      return null;
+    }
+
+    if (!FINISHED_STATUSES.includes(job.status)) {
+      job.status = 'cancelled';
+      // A running job gets its completion time when the worker stops it
+      if (!job.started_at) {
+        job.completed_at = new Date().toISOString();
+      }
+    }
+    return { ...job };
+  }
+
+  async release(id: string): Promise<boolean> {
+    const job = this.jobs.get(id);
+    if (!job || job.status !== 'running') {
+      return false;
+    }
+
+    job.status = 'pending';
+    job.progress_current = 0;
+    job.progress_total = 0;
+    delete job.started_at;
+    delete job.heartbeat_at;
+    return true;
+  }
+
+  async failInterrupted(staleBefore: Date): Promise<number> {
+    let count = 0;
+    for (const job of this.jobs.values()) {
+      const lastSeen = job.heartbeat_at ?? job.started_at;
+      if (job.status === 'running' && (!lastSeen || new Date(lastSeen) < staleBefore)) {
+        job.status = 'failed';
+        job.error_message = INTERRUPTED_MESSAGE;
+        job.completed_at = new Date().toISOString();
+        count++;
+      }
+    }
+    return count;
+  }
+}
+
+/**
+ * A processing_jobs row as returned by pg; timestamps arrive as Dates
+ */
+interface ProcessingJobRow extends QueryResultRow {
+  id: string;
+  job_type: JobType;
+  status: JobStatus;
+  config: JobConfig;
+  progress_current: number | null;
+  progress_total: number | null;
+  result: Record<string, unknown> | null;
+  error_message: string | null;
+  started_at: Date | null;
+  completed_at: Date | null;
+  heartbeat_at: Date | null;
+  created_at: Date;
+}
+
+export interface PostgresProcessingJobOptions {
+  connectionString: string;
+  tableName?: string;
+}
+
+/**
+ * Postgres-backed job storage (see the processing_jobs table in sql/schema.sql)
+ */
+export class PostgresProcessingJobStore implements ProcessingJobStore {
+  private readonly pool: Pool;
+  private readonly tableName: string;
+
+  constructor(options: PostgresProcessingJobOptions) {
+    this.tableName = options.tableName || 'processing_jobs';
+    this.pool = new Pool({
+      connectionString: options.connectionString,
+      max: 2,
+      connectionTimeoutMillis: 5000,
+    });
+
+    this.pool.on('error', (err) => {
+      console.error('[ProcessingJobs] Unexpected Postgres pool error', err.message);
+    });
+  }
+
+  async insert(job: ProcessingJob): Promise<ProcessingJob> {
+    const result = await this.query<ProcessingJobRow>(
+      `INSERT INTO ${this.tableName} (id, job_type, status, config, created_at)
+       VALUES ($1, $2, $3, $4, $5)
+       RETURNING *`,
+      [job.id, job.job_type, job.status, JSON.stringify(job.config), job.created_at]
+    );
+
+    const [row] = result.rows;
+    if (!row) {
+      throw new RAGError('Job storage failed: the insert returned no row', 'JOB_STORE_FAILED');
+    }
+    return this.toJob(row);
+  }
+
+  async get(id: string): Promise<ProcessingJob | null> {
+    const result = await this.query<ProcessingJobRow>(`SELECT * FROM ${this.tableName} WHERE id = $1`, [id]);
+    return result.rows[0] ? this.toJob(result.rows[0]) : null;
+  }
+
+  async list(options: JobListOptions): Promise<ProcessingJob[]> {
+    const conditions: string[] = [];
+    const values: unknown[] = [];
+    const add = (sql: string, value: unknown): void => {
+      values.push(value);
+      conditions.push(sql.replace('?', `$${values.length}`));
+    };
+
+    if (options.status) add('status = ?', options.status);
+    if (options.jobType) add('job_type = ?', options.jobType);
+    if (options.collection) add(`config->>'collection' = ?`, options.collection);
+    values.push(options.limit ?? 50, options.offset ?? 0);
+
+    const result = await this.query<ProcessingJobRow>(
+      `SELECT * FROM ${this.tableName}
+       ${conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : ''}
+       ORDER BY created_at DESC
+       LIMIT $${values.length - 1} OFFSET $${values.length}`,
+      values
+    );
+    return result.rows.map(row => this.toJob(row));
+  }
+
+  async claimNext(): Promise<ProcessingJob | null> {
+    // SKIP LOCKED lets several API instances poll the same table without running a job twice
+    const result = await this.query<ProcessingJobRow>(
+      `UPDATE ${this.tableName}
+       SET status = 'running', started_at = NOW(), heartbeat_at = NOW()
+       WHERE id = (
+         SELECT id FROM ${this.tableName}
+         WHERE status = 'pending'
+         ORDER BY created_at
+         LIMIT 1
+         FOR UPDATE SKIP LOCKED
+       )
+       RETURNING *`,
+      []
+    );
+    return result.rows[0] ? this.toJob(result.rows[0]) : null;
+  }
+
+  async updateProgress(id: string, current: number, total: number): Promise<JobStatus | null> {
+    const result = await this.query<Pick<ProcessingJobRow, 'status'>>(
+      `UPDATE ${this.tableName}
+       SET progress_current = CASE WHEN status = 'running' THEN $2 ELSE progress_current END,
+           progress_total = CASE WHEN status = 'running' THEN $3 ELSE progress_total END,
+           heartbeat_at = CASE WHEN status = 'running' THEN NOW() ELSE heartbeat_at END
+       WHERE id = $1
+       RETURNING status`,
+      [id, current, total]
+    );
+    return result.rows[0]?.status ?? null;
+  }
+
+  async heartbeat(id: string): Promise<JobStatus | null> {
+    const result = await this.query<Pick<ProcessingJobRow, 'status'>>(
+      `UPDATE ${this.tableName}
+       SET heartbeat_at = CASE WHEN status = 'running' THEN NOW() ELSE heartbeat_at END
+       WHERE id = $1
+       RETURNING status`,
+      [id]
+    );
+    return result.rows[0]?.status ?? null;
+  }
+
+  async finish(id: string, status: 'completed' | 'failed' | 'cancelled', outcome: JobOutcome): Promise<void> {
+    await this.query(
+      `UPDATE ${this.tableName}
+       SET status = CASE WHEN status = 'cancelled' THEN 'cancelled' ELSE $2 END,
+           result = $3, error_message = $4, completed_at = NOW()
+       WHERE id = $1 AND status IN ('running', 'cancelled')`,
+      [id, status, outcome.result ? JSON.stringify(outcome.result) : null, outcome.error_message ?? null]
+    );
+  }
+
+  async cancel(id: string): Promise<ProcessingJob | null> {
+    const result = await this.query<ProcessingJobRow>(
+      `UPDATE ${this.tableName}
+       SET status = CASE WHEN status IN ('pending', 'running') THEN 'cancelled' ELSE status END,
+           completed_at = CASE WHEN status = 'pending' THEN NOW() ELSE completed_at END
+       WHERE id = $1
+       RETURNING *`,
+      [id]
+    );
+    return result.rows[0] ? this.toJob(result.rows[0]) : null;
+  }
+
+  async release(id: string): Promise<boolean> {
+    const result = await this.query(
+      `UPDATE ${this.tableName}
+       SET status = 'pending', started_at = NULL, heartbeat_at = NULL, progress_current = 0, progress_total = 0
+       WHERE id = $1 AND status = 'running'`,
+      [id]
+    );
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  async failInterrupted(staleBefore: Date): Promise<number> {
+    const result = await this.query(
+      `UPDATE ${this.tableName}
+       SET status = 'failed', error_message = $2, completed_at = NOW()
+       WHERE status = 'running' AND COALESCE(heartbeat_at, started_at, created_at) < $1`,
+      [staleBefore, INTERRUPTED_MESSAGE]
+    );
+    return result.rowCount ?? 0;
+  }
+
+  async close(): Promise<void> {
+    await this.pool.end();
+  }
+
+  private async query<R extends QueryResultRow = QueryResultRow>(
+    sql: string,
+    values: unknown[]
+  ): Promise<{ rows: R[]; rowCount?: number | null }> {
+    try {
+      return await this.pool.query<R>(sql, values);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      throw new RAGError(
+        /relation .* does not exist/i.test(message)
+          ? 'processing_jobs table missing - run the migration to use background jobs'
+          : `Job storage failed: ${message}`,
+        'JOB_STORE_FAILED'
+      );
+    }
+  }
+
+  private toJob(row: ProcessingJobRow): ProcessingJob {
+    return {
+      id: row.id,
+      job_type: row.job_type,
+      status: row.status,
+      config: row.config,
+      progress_current: row.progress_current ?? 0,
+      progress_total: row.progress_total ?? 0,
+      ...(row.result && { result: row.result }),
+      ...(row.error_message && { error_message: row.error_message }),
+      ...(row.started_at && { started_at: new Date(row.started_at).toISOString() }),
+      ...(row.completed_at && { completed_at: new Date(row.completed_at).toISOString() }),
+      ...(row.heartbeat_at && { heartbeat_at: new Date(row.heartbeat_at).toISOString() }),
+      created_at: new Date(row.created_at).toISOString(),
+    };
+  }
+}
+
+export interface JobQueueOptions {
+  /** How often the worker looks for pending jobs enqueued by other instances */
+  pollIntervalMs?: number;
+  /** A running job without a heartbeat for this long is failed as interrupted by any instance */
+  leaseMs?: number;
+}
+
+/**
+ * Enqueues jobs and runs them one at a time with the registered handlers
+ */
+export class ProcessingJobQueue {
+  private handlers = new Map<JobType, JobHandler>();
+  private readonly pollIntervalMs: number;
+  private readonly leaseMs: number;
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private draining: Promise<void> | null = null;
+  // Running job in this process, so a cancel request can stop it without waiting for a progress update
+  private current: { id: string; controller: AbortController } | null = null;
+
+  constructor(
+    private store: ProcessingJobStore = new InMemoryProcessingJobStore(),
+    options: JobQueueOptions = {}
+  ) {
+    this.pollIntervalMs = options.pollIntervalMs ?? 5000;
+    this.leaseMs = options.leaseMs ?? 60000;
+  }
+
+  connect(store: ProcessingJobStore): void {
+    this.store = store;
+  }
+
+  register(jobType: JobType, handler: JobHandler): void {
+    this.handlers.set(jobType, handler);
+  }
+
+  /**
+   * Start the worker loop; each poll fails jobs whose worker stopped sending heartbeats
+   */
+  async start(): Promise<void> {
+    if (this.timer) {
+      return;
+    }
+
+    await this.failInterrupted();
+
+    this.timer = setInterval(() => this.wake(), this.pollIntervalMs);
+    this.timer.unref?.();
+    this.wake();
+  }
+
+  /**
+   * Stop polling and hand the running job back to the queue, so the next worker
+   * to start runs it again; cancelling is left to the admin cancel route
+   */
+  async stop(): Promise<void> {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+
+    if (this.current) {
+      await this.store.release(this.current.id);
+      this.current.controller.abort();
+    }
+    await this.draining;
+  }
+
+  async enqueue(jobType: JobType, config: JobConfig): Promise<ProcessingJob> {
+    if (!this.handlers.has(jobType)) {
+      throw new RAGError(`Unknown job type: ${jobType}`, 'INVALID_JOB');
+    }
+    if (!config.collection) {
+      throw new RAGError('A job needs a collection', 'INVALID_JOB');
+    }
+
+    const job = await this.store.insert({
+      id: uuidv4(),
+      job_type: jobType,
+      status: 'pending',
+      config,
+      progress_current: 0,
+      progress_total: 0,
+      created_at: new Date().toISOString(),
+    });
+
+    console.debug('[ProcessingJobs] Job enqueued', {
+      id: job.id,
+      jobType,
+      collection: config.collection,
+    });
+
+    if (this.timer) {
+      this.wake();
+    }
+    return job;
+  }
+
+  async get(id: string): Promise<ProcessingJob> {
+    const job = await this.store.get(id);
+    if (!job) {
+      throw new RAGError(`Job ${id} not found`, 'JOB_NOT_FOUND');
+    }
+    return job;
+  }
+
+  list(options: JobListOptions = {}): Promise<ProcessingJob[]> {
+    return this.store.list(options);
+  }
+
+  /**
+   * Cancel a pending job, or ask a running one to stop at its next progress update
+   */
+  async cancel(id: string): Promise<ProcessingJob> {
+    const existing = await this.get(id);
+    if (FINISHED_STATUSES.includes(existing.status)) {
+      throw new RAGError(`Job ${id} has already ${existing.status === 'cancelled' ? 'been cancelled' : existing.status}`, 'JOB_NOT_CANCELLABLE');
+    }
+
+    const job = await this.store.cancel(id);
+    if (!job) {
+      throw new RAGError(`Job ${id} not found`, 'JOB_NOT_FOUND');
+    }
+
+    if (this.current?.id === id) {
+      this.current.controller.abort();
+    }
+
+    console.debug('[ProcessingJobs] Job cancelled', { id, wasRunning: existing.status === 'running' });
+    return job;
+  }
+
+  /**
+   * Fail running jobs whose lease expired, e.g. after their instance was restarted
+   */
+  async failInterrupted(): Promise<number> {
+    const interrupted = await this.store.failInterrupted(new Date(Date.now() - this.leaseMs));
+    if (interrupted > 0) {
+      console.warn('[ProcessingJobs] Marked interrupted jobs as failed', { count: interrupted });
+    }
+    return interrupted;
+  }
+
+  /**
+   * Claim and run the oldest pending job; false when there was none
+   */
+  async runNext(): Promise<boolean> {
+    const job = await this.store.claimNext();
+    if (!job) {
+      return false;
+    }
+
+    const controller = new AbortController();
+    this.current = { id: job.id, controller };
+    const startTime = Date.now();
+    // Stop when the job is cancelled or failed as interrupted by another instance
+    const checkStatus = (status: JobStatus | null): void => {
+      if (status !== 'running') {
+        controller.abort();
+      }
+    };
+    // Keeps the lease while handlers work between progress updates
+    const heartbeat = setInterval(() => {
+      this.store.heartbeat(job.id).then(checkStatus, error => {
+        console.warn('[ProcessingJobs] Heartbeat failed', {
+          id: job.id,
+          error: error instanceof Error ? error.message : 'Unknown error',
+        });
+      });
+    }, this.leaseMs / 4);
+    heartbeat.unref?.();
+
+    console.debug('[ProcessingJobs] Job started', {
+      id: job.id,
+      jobType: job.job_type,
+      collection: job.config.collection,
+    });
+
+    try {
+      const handler = this.handlers.get(job.job_type);
+      if (!handler) {
+        throw new RAGError(`No handler registered for ${job.job_type} jobs`, 'INVALID_JOB');
+      }
+
+      const result = await handler({
+        job,
+        signal: controller.signal,
+        reportProgress: async (current, total) => {
+          checkStatus(await this.store.updateProgress(job.id, current, total));
+        },
+      });
+
+      await this.store.finish(job.id, controller.signal.aborted ? 'cancelled' : 'completed', { result });
+
+      console.debug('[ProcessingJobs] Job finished', {
+        id: job.id,
+        cancelled: controller.signal.aborted,
+        durationMs: Date.now() - startTime,
+      });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      await this.store.finish(job.id, controller.signal.aborted ? 'cancelled' : 'failed', { error_message: message });
+
+      console.warn('[ProcessingJobs] Job failed', {
+        id: job.id,
+        jobType: job.job_type,
+        error: message,
+      });
+    } finally {
+      clearInterval(heartbeat);
+      this.current = null;
+    }
+
+    return true;
+  }
+
+  /**
+   * Run pending jobs until none are left; a no-op while a drain is in progress
+   */
+  private wake(): void {
+    if (this.draining) {
+      return;
+    }
+
+    this.draining = (async () => {
+      try {
+        await this.failInterrupted();
+        // Stops between jobs once the queue is stopped
+        while (this.timer && await this.runNext()) {
+          // Keep going while jobs are queued
+        }
+      } catch (error) {
+        // Storage errors; the next poll tries again
+        console.warn('[ProcessingJobs] Worker loop failed', {
+          error: error instanceof Error ? error.message : 'Unknown error',
+        });
+      } finally {
+        this.draining = null;
+      }
+    })();
+  }
+}
+
+// Shared so admin routes and the worker started at boot use one queue
+export const processingJobs = new ProcessingJobQueue();
@@ -0,0 +1,134 @@
+/**
+ * Conversation memory for multi-turn platform threads
+ * Records question/answer turns keyed by Slack thread or Teams conversation
+ */
+
+import type { ConversationTurn } from '@/types';
+
+export interface ConversationStore {
+  getHistory(conversationKey: string, limit?: number): Promise<ConversationTurn[]>;
+  appendTurn(conversationKey: string, turn: ConversationTurn): Promise<void>;
+  findConversationKey(contextId: string): Promise<string | null>;
+  clear(conversationKey: string): Promise<void>;
+}
+
+export interface InMemoryConversationStoreOptions {
+  maxTurns?: number;
+  ttlMs?: number;
+  maxConversations?: number;
+}
+
+interface StoredConversation {
+  turns: ConversationTurn[];
+  updatedAt: number;
+}
+
+/**
+ * Process-local store: history is lost on restart and not shared between instances,
+ * so multi-instance deployments need sticky routing per thread for follow-ups to keep context
+ */
+export class InMemoryConversationStore implements ConversationStore {
+  private conversations = new Map<string, StoredConversation>();
+  private contextIndex = new Map<string, string>();
+  private readonly maxTurns: number;
+  private readonly ttlMs: number;
+  private readonly maxConversations: number;
+
+  constructor(options: InMemoryConversationStoreOptions = {}) {
+    this.maxTurns = options.maxTurns ?? 10;
+    this.ttlMs = options.ttlMs ?? 1000 * 60 * 60 * 24; // 24 hours
+    this.maxConversations = options.maxConversations ?? 5000;
+  }
+
+  /**
+   * Get the most recent turns of a conversation, oldest first
+   */
+  async getHistory(conversationKey: string, limit: number = this.maxTurns): Promise<ConversationTurn[]> {
+    const conversation = this.getActiveConversation(conversationKey);
+    if (!conversation || limit <= 0) {
+      return [];
+    }
+
+    return conversation.turns.slice(-limit);
+  }
+
+  /**
+   * Record a completed turn, keeping only the newest maxTurns
+   */
+  async appendTurn(conversationKey: string, turn: ConversationTurn): Promise<void> {
+    const conversation = this.getActiveConversation(conversationKey) || { turns: [], updatedAt: 0 };
+
+    conversation.turns.push(turn);
+    conversation.updatedAt = Date.now();
+
+    while (conversation.turns.length > this.maxTurns) {
+      const dropped = conversation.turns.shift();
+      if (dropped) {
+        this.contextIndex.delete(dropped.contextId);
+      }
+    }
+
+    // Re-insert so Map iteration order tracks recency for eviction
+    this.conversations.delete(conversationKey);
+    this.conversations.set(conversationKey, conversation);
+    this.contextIndex.set(turn.contextId, conversationKey);
+
+    this.evictOldest();
+  }
+
+  /**
+   * Resolve the conversation a previous response belonged to (e.g. from a follow-up modal)
+   */
+  async findConversationKey(contextId: string): Promise<string | null> {
+    const conversationKey = this.contextIndex.get(contextId);
+    if (!conversationKey || !this.getActiveConversation(conversationKey)) {
+      return null;
+    }
+    return conversationKey;
+  }
+
+  /**
+   * Forget a conversation
+   */
+  async clear(conversationKey: string): Promise<void> {
+    const conversation = this.conversations.get(conversationKey);
+    if (!conversation) {
+      return;
+    }
+
+    for (const turn of conversation.turns) {
+      this.contextIndex.delete(turn.contextId);
+    }
+    this.conversations.delete(conversationKey);
+  }
+
+  /**
+   * Get conversation if it exists and has not expired
+   */
+  private getActiveConversation(conversationKey: string): StoredConversation | null {
+    const conversation = this.conversations.get(conversationKey);
+    if (!conversation) {
+      return null;
+    }
+
+    if (Date.now() - conversation.updatedAt > this.ttlMs) {
+      void this.clear(conversationKey);
+      return null;
+    }
+
+    return conversation;
+  }
+
+  /**
+   * Drop the least recently updated conversations above capacity
+   */
+  private evictOldest(): void {
+    while (this.conversations.size > this.maxConversations) {
+      const oldestKey = this.conversations.keys().next().value as string | undefined;
+      if (oldestKey === undefined) {
+        return;
+      }
+      void this.clear(oldestKey);
+    }
+  }
+}
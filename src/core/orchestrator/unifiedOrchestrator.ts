@@ -6,10 +6,13 @@
 
 import type {
   AskResponse,
+  ConversationTurn,
   RetrievedDoc
 } from '@/types';
 import { RAGError } from '@/types';
 import { RAGPipeline, type RAGPipelineOptions } from '@/core/rag/ragPipeline';
+import { queryAnalytics } from '@/core/analytics/queryAnalytics';
+import { InMemoryConversationStore, type ConversationStore } from './conversationStore';
 
 // Platform-agnostic query context
 export interface PlatformQueryContext {
@@ -31,9 +34,13 @@ export interface OrchestratorResult {
     url: string;
     snippet: string;
     retrieval_score: number;
+    /** Inline [n] marker in the answer text that cites this source */
+    marker?: number;
   }>;
   confidence: number;
   intent: 'details' | 'instructions' | 'other';
+  /** 'curated' when an admin-approved answer was returned instead of a generated one */
+  source?: 'curated';
   platformHints: {
     preferSteps?: boolean;
     collection?: string;
@@ -46,6 +53,9 @@ export interface OrchestratorResult {
     platform: string;
     userId: string;
     channelId: string;
+    conversationKey?: string;
+    historyTurns?: number;
+    rewrittenQuery?: string;
   };
 }
 
@@ -64,13 +74,16 @@ class NoOpMetrics implements OrchestratorMetrics {
 export class UnifiedOrchestrator {
   private ragPipeline: RAGPipeline;
   private metrics: OrchestratorMetrics;
+  private conversationStore: ConversationStore;
 
   constructor(
     ragPipeline: RAGPipeline,
-    metrics?: OrchestratorMetrics
+    metrics?: OrchestratorMetrics,
+    conversationStore?: ConversationStore
   ) {
     this.ragPipeline = ragPipeline;
     this.metrics = metrics || new NoOpMetrics();
+    this.conversationStore = conversationStore || new InMemoryConversationStore();
   }
 
   /**
@@ -104,9 +117,13 @@ export class UnifiedOrchestrator {
 
       // Step 2: Extract platform hints and collection preferences
       const platformHints = this.extractPlatformHints(context);
+
+      // Step 3: Load earlier turns of this thread or conversation
+      const conversationKey = await this.resolveConversationKey(context);
+      const history = conversationKey ? await this.loadHistory(conversationKey) : [];
       
-      // Step 3: Prepare RAG options based on platform and context
-      const ragOptions = this.buildRAGOptions(context, platformHints);
+      // Step 4: Prepare RAG options based on platform and context
+      const ragOptions = this.buildRAGOptions(context, platformHints, history);
 
       console.log('[UnifiedOrchestrator] Prepared RAG options', {
         contextId,
@@ -115,12 +132,16 @@ export class UnifiedOrchestrator {
           topK: ragOptions.topK,
           contextWindowTokens: ragOptions.contextWindowTokens,
           collections: ragOptions.collections,
-          similarityThreshold: ragOptions.similarityThreshold
+          similarityThreshold: ragOptions.similarityThreshold,
+          diversification: ragOptions.diversification,
+          maxChunksPerUrl: ragOptions.maxChunksPerUrl
         },
-        platformHints
+        platformHints,
+        conversationKey,
+        historyTurns: history.length
       });
 
-      // Step 4: Process through RAG pipeline
+      // Step 5: Process through RAG pipeline
       const ragStartTime = Date.now();
       const ragResponse = await this.ragPipeline.process(normalizedQuery, ragOptions);
       const ragDuration = Date.now() - ragStartTime;
@@ -138,7 +159,7 @@ export class UnifiedOrchestrator {
         hasSteps: !!ragResponse.steps
       });
 
-      // Step 5: Transform to unified result format
+      // Step 6: Transform to unified result format
       const result = this.transformToOrchestratorResult(
         ragResponse,
         context,
@@ -147,6 +168,26 @@ export class UnifiedOrchestrator {
         Date.now() - startTime
       );
 
+      queryAnalytics.record({
+        query: normalizedQuery,
+        response: ragResponse,
+        platform: context.platform,
+        responseId: contextId,
+        userId: context.userId,
+        collection: ragOptions.collections?.length === 1 ? ragOptions.collections[0] : undefined,
+        preferSteps: result.intent === 'instructions',
+      });
+
+      // Step 7: Remember this turn for follow-ups in the same thread
+      if (conversationKey) {
+        result.metadata.conversationKey = conversationKey;
+        result.metadata.historyTurns = history.length;
+        if (ragResponse.debug_info?.rewritten_query) {
+          result.metadata.rewrittenQuery = ragResponse.debug_info.rewritten_query;
+        }
+        await this.recordTurn(conversationKey, normalizedQuery, ragResponse, contextId);
+      }
+
       console.log('[UnifiedOrchestrator] Query processed successfully', {
         contextId,
         platform: context.platform,
@@ -240,17 +281,95 @@ export class UnifiedOrchestrator {
     return hints;
   }
 
+  /**
+   * Resolve the conversation a query belongs to.
+   * Slack threads are keyed by thread root (or the message itself, since replies are threaded on it),
+   * Teams by conversation ID. Follow-up modals resolve through the parent response's context ID.
+   */
+  private async resolveConversationKey(context: PlatformQueryContext): Promise<string | undefined> {
+    const parentContextId = context.metadata?.parentContextId as string | undefined;
+    if (parentContextId) {
+      const parentKey = await this.conversationStore.findConversationKey(parentContextId);
+      if (parentKey) {
+        return parentKey;
+      }
+    }
+
+    if (context.platform === 'teams') {
+      return `teams:${context.channelId}`;
+    }
+
+    const threadRoot = context.threadId || (context.metadata?.messageTs as string | undefined);
+    if (threadRoot) {
+      return `slack:${context.channelId}:${threadRoot}`;
+    }
+
+    // Slash commands have no thread; chain follow-ups to the parent response if we have one
+    return parentContextId ? `slack:${context.channelId}:${parentContextId}` : undefined;
+  }
+
+  /**
+   * Load conversation history without letting store failures block the query
+   */
+  private async loadHistory(conversationKey: string): Promise<ConversationTurn[]> {
+    try {
+      return await this.conversationStore.getHistory(conversationKey);
+    } catch (error) {
+      console.warn('[UnifiedOrchestrator] Failed to load conversation history', {
+        conversationKey,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+      return [];
+    }
+  }
+
+  /**
+   * Record a completed turn in the conversation store
+   */
+  private async recordTurn(
+    conversationKey: string,
+    query: string,
+    ragResponse: AskResponse,
+    contextId: string
+  ): Promise<void> {
+    const turn: ConversationTurn = {
+      query,
+      answer: ragResponse.answer,
+      summary: ragResponse.summary,
+      citations: ragResponse.citations,
+      contextId,
+      createdAt: Date.now(),
+    };
+    if (ragResponse.debug_info?.rewritten_query) {
+      turn.rewrittenQuery = ragResponse.debug_info.rewritten_query;
+    }
+
+    try {
+      await this.conversationStore.appendTurn(conversationKey, turn);
+    } catch (error) {
+      console.warn('[UnifiedOrchestrator] Failed to record conversation turn', {
+        conversationKey,
+        contextId,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  }
+
   /**
    * Build RAG options based on platform context and hints
    */
   private buildRAGOptions(
     context: PlatformQueryContext,
-    hints: OrchestratorResult['platformHints']
+    hints: OrchestratorResult['platformHints'],
+    history: ConversationTurn[] = []
   ): Partial<RAGPipelineOptions> {
     const options: Partial<RAGPipelineOptions> = {
       topK: 8,
       contextWindowTokens: 3000,
-      similarityThreshold: 0.3
+      similarityThreshold: 0.3,
+      // Cross-cutting questions should cite more than one page
+      diversification: 'mmr',
+      maxChunksPerUrl: 3
     };
 
     // Set collection filter if specified
@@ -259,11 +378,15 @@ export class UnifiedOrchestrator {
     }
 
     // Adjust parameters for follow-up queries
-    if (context.metadata?.parentContextId) {
+    if (context.metadata?.parentContextId || history.length > 0) {
       options.contextWindowTokens = 4000; // More context for follow-ups
       options.topK = 10;
     }
 
+    if (history.length > 0) {
+      options.conversationHistory = history;
+    }
+
     return options;
   }
 
@@ -292,6 +415,7 @@ export class UnifiedOrchestrator {
       sources,
       confidence,
       intent,
+      ...(ragResponse.source && { source: ragResponse.source }),
       platformHints,
       metadata: {
         processingTimeMs: processingTime,
@@ -331,6 +455,11 @@ export class UnifiedOrchestrator {
    * Calculate confidence score based on RAG response quality
    */
   private calculateConfidence(ragResponse: AskResponse): number {
+    // Approved by an admin, so no retrieval signals to weigh
+    if (ragResponse.source === 'curated') {
+      return 1;
+    }
+
     let confidence = 0.5; // Base confidence
 
     // Factor in number and quality of sources
@@ -352,6 +481,15 @@ export class UnifiedOrchestrator {
       confidence += 0.1;
     }
 
+    // Penalize answers whose claims the retrieved chunks did not support
+    const grounding = ragResponse.debug_info?.grounding;
+    if (grounding) {
+      confidence -= (1 - grounding.supported_ratio) * 0.4;
+      if (grounding.verdict === 'ungrounded') {
+        confidence = Math.min(confidence, 0.3);
+      }
+    }
+
     // Check debug info for fallback indicators
     if (ragResponse.debug_info?.is_fallback) {
       confidence = Math.max(0.2, confidence - 0.3);
@@ -368,18 +506,20 @@ export class UnifiedOrchestrator {
 
     // Add retrieved docs as sources
     ragResponse.retrieved_docs.forEach((doc: RetrievedDoc, index: number) => {
-      // Try to find matching citation for URL
-      const matchingCitation = ragResponse.citations.find(citation => 
-        citation.title.toLowerCase().includes(doc.id.toLowerCase()) ||
-        doc.excerpt.includes(citation.title.substring(0, 20))
-      );
+      // Match the citation for this chunk, falling back to title matching for older responses
+      const matchingCitation = ragResponse.citations.find(citation => citation.chunk_id === doc.id) ||
+        ragResponse.citations.find(citation =>
+          citation.title.toLowerCase().includes(doc.id.toLowerCase()) ||
+          doc.excerpt.includes(citation.title.substring(0, 20))
+        );
 
       sources.push({
         id: doc.id,
         title: matchingCitation?.title || `Source ${index + 1}`,
         url: matchingCitation?.url || '#',
         snippet: doc.excerpt,
-        retrieval_score: doc.score
+        retrieval_score: doc.score,
+        ...(matchingCitation?.marker !== undefined && { marker: matchingCitation.marker })
       });
     });
 
@@ -388,11 +528,12 @@ export class UnifiedOrchestrator {
       const alreadyIncluded = sources.some(source => source.url === citation.url);
       if (!alreadyIncluded) {
         sources.push({
-          id: `citation_${sources.length}`,
+          id: citation.chunk_id || `citation_${sources.length}`,
           title: citation.title,
           url: citation.url,
-          snippet: citation.title,
-          retrieval_score: 0.5 // Default score for citations without retrieval scores
+          snippet: citation.excerpt || citation.title,
+          retrieval_score: 0.5, // Default score for citations without retrieval scores
+          ...(citation.marker !== undefined && { marker: citation.marker })
         });
       }
     });
@@ -0,0 +1,210 @@
+/**
+ * Semantic answer cache for the RAG pipeline
+ * Reuses previous answers for near-identical questions by comparing query embeddings
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import type { AskResponse } from '@/types';
+import { EmbeddingUtils } from '@/adapters/embedding/base';
+
+export interface AnswerCacheOptions {
+  similarityThreshold?: number;
+  ttlMs?: number;
+  maxEntries?: number;
+}
+
+export interface AnswerCacheEntry {
+  id: string;
+  query: string;
+  embedding: number[];
+  collections: string[];
+  configKey: string;
+  response: AskResponse;
+  createdAt: number;
+  hits: number;
+  lastHitAt?: number;
+}
+
+export interface AnswerCacheHit {
+  entry: AnswerCacheEntry;
+  similarity: number;
+}
+
+export interface AnswerCacheStats {
+  entries: number;
+  hits: number;
+  misses: number;
+  invalidations: number;
+  hitRate: number;
+  similarityThreshold: number;
+  ttlMs: number;
+  maxEntries: number;
+}
+
+// Unfiltered queries can draw on every collection
+const ALL_COLLECTIONS = '*';
+
+export class SemanticAnswerCache {
+  private entries = new Map<string, AnswerCacheEntry>();
+  private readonly similarityThreshold: number;
+  private readonly ttlMs: number;
+  private readonly maxEntries: number;
+  private hits = 0;
+  private misses = 0;
+  private invalidations = 0;
+
+  constructor(options: AnswerCacheOptions = {}) {
+    this.similarityThreshold = options.similarityThreshold ?? 0.95;
+    this.ttlMs = options.ttlMs ?? 1000 * 60 * 60 * 24; // 24 hours
+    this.maxEntries = options.maxEntries ?? 1000;
+  }
+
+  /**
+   * Find the most similar cached answer for the same collections and pipeline config
+   */
+  lookup(embedding: number[], collections: string[] | undefined, configKey: string): AnswerCacheHit | null {
+    const collectionKey = this.normalizeCollections(collections);
+    const now = Date.now();
+    let best: AnswerCacheHit | null = null;
+
+    for (const entry of this.entries.values()) {
+      if (now - entry.createdAt > this.ttlMs) {
+        this.entries.delete(entry.id);
+        continue;
+      }
+
+      if (entry.configKey !== configKey || entry.collections.join(',') !== collectionKey.join(',')) {
+        continue;
+      }
+
+      if (entry.embedding.length !== embedding.length) {
+        continue;
+      }
+
+      const similarity = EmbeddingUtils.cosineSimilarity(embedding, entry.embedding);
+      if (similarity >= this.similarityThreshold && (!best || similarity > best.similarity)) {
+        best = { entry, similarity };
+      }
+    }
+
+    if (!best) {
+      this.misses++;
+      return null;
+    }
+
+    this.hits++;
+    best.entry.hits++;
+    best.entry.lastHitAt = now;
+
+    // Re-insert so Map iteration order tracks recency for eviction
+    this.entries.delete(best.entry.id);
+    this.entries.set(best.entry.id, best.entry);
+
+    return best;
+  }
+
+  /**
+   * Store an answer for later reuse
+   */
+  store(
+    query: string,
+    embedding: number[],
+    collections: string[] | undefined,
+    configKey: string,
+    response: AskResponse
+  ): AnswerCacheEntry {
+    const entry: AnswerCacheEntry = {
+      id: uuidv4(),
+      query,
+      embedding,
+      collections: this.normalizeCollections(collections),
+      configKey,
+      response,
+      createdAt: Date.now(),
+      hits: 0,
+    };
+
+    this.entries.set(entry.id, entry);
+
+    while (this.entries.size > this.maxEntries) {
+      const oldestId = this.entries.keys().next().value as string | undefined;
+      if (oldestId === undefined) break;
+      this.entries.delete(oldestId);
+    }
+
+    return entry;
+  }
+
+  /**
+   * Drop cached answers that may draw on a collection, or everything when no collection is given.
+   * Returns the number of entries removed.
+   */
+  invalidate(collection?: string): number {
+    let removed = 0;
+
+    for (const entry of this.entries.values()) {
+      if (
+        !collection ||
+        entry.collections.includes(ALL_COLLECTIONS) ||
+        entry.collections.includes(collection)
+      ) {
+        this.entries.delete(entry.id);
+        removed++;
+      }
+    }
+
+    this.invalidations++;
+
+    console.debug('[AnswerCache] Cache invalidated', {
+      collection: collection || 'all',
+      removed,
+      remaining: this.entries.size
+    });
+
+    return removed;
+  }
+
+  /**
+   * Remove a single entry
+   */
+  delete(id: string): boolean {
+    return this.entries.delete(id);
+  }
+
+  /**
+   * List cached entries without their embeddings, most recently used first
+   */
+  list(): Array<Omit<AnswerCacheEntry, 'embedding' | 'response'> & { summary: string }> {
+    return Array.from(this.entries.values())
+      .reverse()
+      .map(({ embedding: _embedding, response, ...entry }) => ({
+        ...entry,
+        summary: response.summary,
+      }));
+  }
+
+  /**
+   * Get cache statistics
+   */
+  getStats(): AnswerCacheStats {
+    const lookups = this.hits + this.misses;
+
+    return {
+      entries: this.entries.size,
+      hits: this.hits,
+      misses: this.misses,
+      invalidations: this.invalidations,
+      hitRate: lookups > 0 ? this.hits / lookups : 0,
+      similarityThreshold: this.similarityThreshold,
+      ttlMs: this.ttlMs,
+      maxEntries: this.maxEntries,
+    };
+  }
+
+  private normalizeCollections(collections: string[] | undefined): string[] {
+    return collections && collections.length > 0 ? [...collections].sort() : [ALL_COLLECTIONS];
+  }
+}
+
+// Shared cache so every pipeline instance (ask, Slack, Teams) sees the same answers and invalidations
+export const answerCache = new SemanticAnswerCache();
@@ -0,0 +1,412 @@
+/**
+ * Admin-curated canonical answers
+ * Approved answers returned verbatim, instead of generating one, for questions that
+ * closely match one of their question variants
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import { Pool } from 'pg';
+import type { Citation, EmbeddingAdapter } from '@/types';
+import { RAGError } from '@/types';
+import { EmbeddingUtils } from '@/adapters/embedding/base';
+import config from '@/utils/config';
+
+// Collection value that matches questions in any collection
+export const ANY_COLLECTION = '*';
+
+export interface CuratedAnswer {
+  id: string;
+  question: string;
+  /** Other phrasings that should return this answer */
+  variants: string[];
+  /** Markdown returned verbatim */
+  answer: string;
+  summary: string;
+  citations: Citation[];
+  /** Collection name or '*' */
+  collection: string;
+  /** No longer served after this time */
+  expiresAt?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface CuratedAnswerInput {
+  question: string;
+  variants?: string[];
+  answer: string;
+  summary?: string;
+  citations?: Citation[];
+  collection?: string;
+  expiresAt?: string | null;
+}
+
+export interface CuratedAnswerMatch {
+  answer: CuratedAnswer;
+  /** Cosine similarity to the closest question variant (1 for an exact match) */
+  similarity: number;
+  matchedQuestion: string;
+}
+
+/**
+ * Persistent storage for curated answers
+ */
+export interface CuratedAnswerStore {
+  loadAll(): Promise<CuratedAnswer[]>;
+  save(answer: CuratedAnswer): Promise<void>;
+  delete(id: string): Promise<void>;
+}
+
+export interface CuratedAnswerOptions {
+  similarityThreshold?: number;
+}
+
+function normalizeQuestion(question: string): string {
+  return question.normalize('NFC').toLowerCase().replace(/[^\p{L}\p{N}\s]/gu, '').replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * First sentence of the answer without markdown, used when no summary is given
+ */
+function summarizeAnswer(answer: string): string {
+  const text = answer
+    .split('\n')
+    .map(line => line.replace(/^\s*(#+|[-*]|\d+\.)\s*/, '').replace(/[*_`]/g, '').trim())
+    .filter(Boolean)
+    .join(' ');
+  const sentence = text.match(/^.*?[.!?](\s|$)/)?.[0] ?? text;
+  return sentence.trim().substring(0, 300);
+}
+
+export class CuratedAnswerRegistry {
+  private answers = new Map<string, CuratedAnswer>();
+  private store: CuratedAnswerStore | null = null;
+  // Variant embeddings per answer, computed on first match with the embedding model in use
+  private embeddings = new Map<string, { model: string; vectors: number[][] }>();
+  private readonly similarityThreshold: number;
+
+  constructor(options: CuratedAnswerOptions = {}) {
+    this.similarityThreshold = options.similarityThreshold ?? 0.9;
+  }
+
+  /**
+   * Attach persistent storage and load the stored answers
+   */
+  async connect(store: CuratedAnswerStore): Promise<void> {
+    this.store = store;
+    await this.refresh();
+  }
+
+  /**
+   * Reload stored answers, picking up changes made by other instances
+   */
+  async refresh(): Promise<void> {
+    if (!this.store) {
+      return;
+    }
+
+    const stored = await this.store.loadAll();
+    this.answers = new Map(stored.map(answer => [answer.id, answer]));
+    this.embeddings.clear();
+
+    console.debug('[CuratedAnswers] Loaded curated answers', { count: stored.length });
+  }
+
+  get size(): number {
+    return this.answers.size;
+  }
+
+  /**
+   * Best unexpired answer for the query above the similarity threshold, or null
+   */
+  async match(
+    query: string,
+    queryEmbedding: number[] | undefined,
+    collections: string[] | undefined,
+    embeddingAdapter: EmbeddingAdapter
+  ): Promise<CuratedAnswerMatch | null> {
+    const now = Date.now();
+    const candidates = [...this.answers.values()].filter(answer =>
+      (!answer.expiresAt || new Date(answer.expiresAt).getTime() > now) &&
+      (answer.collection === ANY_COLLECTION || !collections?.length || collections.includes(answer.collection))
+    );
+    if (candidates.length === 0) {
+      return null;
+    }
+
+    const normalizedQuery = normalizeQuestion(query);
+    for (const answer of candidates) {
+      const exact = [answer.question, ...answer.variants].find(question => normalizeQuestion(question) === normalizedQuery);
+      if (exact) {
+        return { answer, similarity: 1, matchedQuestion: exact };
+      }
+    }
+
+    if (!queryEmbedding) {
+      return null;
+    }
+
+    let best: CuratedAnswerMatch | null = null;
+    for (const answer of candidates) {
+      const questions = [answer.question, ...answer.variants];
+      const vectors = await this.getEmbeddings(answer, embeddingAdapter);
+
+      vectors.forEach((vector, index) => {
+        const similarity = EmbeddingUtils.cosineSimilarity(queryEmbedding, vector);
+        if (similarity >= this.similarityThreshold && (!best || similarity > best.similarity)) {
+          best = { answer, similarity, matchedQuestion: questions[index]! };
+        }
+      });
+    }
+
+    return best;
+  }
+
+  /**
+   * All answers, most recently updated first
+   */
+  list(): CuratedAnswer[] {
+    return [...this.answers.values()].sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+  }
+
+  get(id: string): CuratedAnswer | undefined {
+    return this.answers.get(id);
+  }
+
+  async create(input: CuratedAnswerInput): Promise<CuratedAnswer> {
+    const now = new Date().toISOString();
+    const answer = this.build(input, { id: uuidv4(), createdAt: now, updatedAt: now });
+
+    await this.store?.save(answer);
+    this.answers.set(answer.id, answer);
+
+    console.debug('[CuratedAnswers] Created curated answer', {
+      id: answer.id,
+      collection: answer.collection,
+      variants: answer.variants.length,
+    });
+
+    return answer;
+  }
+
+  /**
+   * Replace an answer's content; fields left out keep their current values
+   */
+  async update(id: string, input: Partial<CuratedAnswerInput>): Promise<CuratedAnswer> {
+    const existing = this.answers.get(id);
+    if (!existing) {
+      throw new RAGError(`No curated answer with id ${id}`, 'CURATED_ANSWER_NOT_FOUND');
+    }
+
+    // A new answer text gets a newly derived summary unless one is given
+    const summary = input.summary ?? (input.answer === undefined ? existing.summary : undefined);
+    const answer = this.build(
+      {
+        question: input.question ?? existing.question,
+        variants: input.variants ?? existing.variants,
+        answer: input.answer ?? existing.answer,
+        ...(summary && { summary }),
+        citations: input.citations ?? existing.citations,
+        collection: input.collection ?? existing.collection,
+        expiresAt: input.expiresAt === undefined ? existing.expiresAt ?? null : input.expiresAt,
+      },
+      { id, createdAt: existing.createdAt, updatedAt: new Date().toISOString() }
+    );
+
+    await this.store?.save(answer);
+    this.answers.set(id, answer);
+    this.embeddings.delete(id);
+
+    console.debug('[CuratedAnswers] Updated curated answer', { id });
+
+    return answer;
+  }
+
+  async delete(id: string): Promise<void> {
+    if (!this.answers.has(id)) {
+      throw new RAGError(`No curated answer with id ${id}`, 'CURATED_ANSWER_NOT_FOUND');
+    }
+
+    await this.store?.delete(id);
+    this.answers.delete(id);
+    this.embeddings.delete(id);
+
+    console.debug('[CuratedAnswers] Deleted curated answer', { id });
+  }
+
+  private build(
+    input: CuratedAnswerInput,
+    fields: Pick<CuratedAnswer, 'id' | 'createdAt' | 'updatedAt'>
+  ): CuratedAnswer {
+    const question = input.question.trim();
+    const answer = input.answer.trim();
+    if (!question || !answer) {
+      throw new RAGError('A curated answer needs a question and an answer', 'INVALID_CURATED_ANSWER');
+    }
+
+    if (input.expiresAt && Number.isNaN(new Date(input.expiresAt).getTime())) {
+      throw new RAGError(`Invalid expiry time: ${input.expiresAt}`, 'INVALID_CURATED_ANSWER');
+    }
+
+    const variants = [...new Set((input.variants ?? []).map(variant => variant.trim()).filter(Boolean))]
+      .filter(variant => normalizeQuestion(variant) !== normalizeQuestion(question));
+
+    return {
+      ...fields,
+      question,
+      variants,
+      answer,
+      summary: input.summary?.trim() || summarizeAnswer(answer),
+      citations: input.citations ?? [],
+      collection: input.collection || ANY_COLLECTION,
+      ...(input.expiresAt && { expiresAt: new Date(input.expiresAt).toISOString() }),
+    };
+  }
+
+  private async getEmbeddings(answer: CuratedAnswer, embeddingAdapter: EmbeddingAdapter): Promise<number[][]> {
+    const model = embeddingAdapter.getModel();
+    const cached = this.embeddings.get(answer.id);
+    if (cached && cached.model === model) {
+      return cached.vectors;
+    }
+
+    const vectors = await embeddingAdapter.embedBatch([answer.question, ...answer.variants]);
+    this.embeddings.set(answer.id, { model, vectors });
+    return vectors;
+  }
+}
+
+export interface PostgresCuratedAnswerOptions {
+  connectionString?: string;
+  tableName?: string;
+}
+
+/**
+ * Postgres-backed curated answer storage
+ */
+export class PostgresCuratedAnswerStore implements CuratedAnswerStore {
+  private readonly pool: Pool;
+  private readonly tableName: string;
+  private disabled = false;
+
+  constructor(options: PostgresCuratedAnswerOptions = {}) {
+    this.tableName = options.tableName || 'curated_answers';
+    this.pool = new Pool({
+      connectionString: options.connectionString || config.DATABASE_URL,
+      max: 2,
+      connectionTimeoutMillis: 5000,
+    });
+
+    this.pool.on('error', (err) => {
+      console.error('[CuratedAnswers] Unexpected Postgres pool error', err.message);
+    });
+  }
+
+  async loadAll(): Promise<CuratedAnswer[]> {
+    if (this.disabled) {
+      return [];
+    }
+
+    try {
+      const result = await this.pool.query(
+        `SELECT id, question, variants, answer, summary, citations, collection, expires_at, created_at, updated_at
+         FROM ${this.tableName}`
+      );
+
+      return result.rows.map(row => ({
+        id: row.id,
+        question: row.question,
+        variants: row.variants ?? [],
+        answer: row.answer,
+        summary: row.summary,
+        citations: row.citations ?? [],
+        collection: row.collection,
+        ...(row.expires_at && { expiresAt: new Date(row.expires_at).toISOString() }),
+        createdAt: new Date(row.created_at).toISOString(),
+        updatedAt: new Date(row.updated_at).toISOString(),
+      }));
+    } catch (error) {
+      // Curated answers must never stop the API from starting; questions then go through RAG
+      this.handleError('read', error);
+      return [];
+    }
+  }
+
+  async save(answer: CuratedAnswer): Promise<void> {
+    if (this.disabled) {
+      return;
+    }
+
+    try {
+      await this.pool.query(
+        `INSERT INTO ${this.tableName} (id, question, variants, answer, summary, citations, collection, expires_at, created_at, updated_at)
+         VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)
+         ON CONFLICT (id) DO UPDATE
+         SET question = EXCLUDED.question,
+             variants = EXCLUDED.variants,
+             answer = EXCLUDED.answer,
+             summary = EXCLUDED.summary,
+             citations = EXCLUDED.citations,
+             collection = EXCLUDED.collection,
+             expires_at = EXCLUDED.expires_at,
+             updated_at = EXCLUDED.updated_at`,
+        [
+          answer.id,
+          answer.question,
+          answer.variants,
+          answer.answer,
+          answer.summary,
+          JSON.stringify(answer.citations),
+          answer.collection,
+          answer.expiresAt ?? null,
+          answer.createdAt,
+          answer.updatedAt,
+        ]
+      );
+    } catch (error) {
+      this.handleError('write', error);
+    }
+  }
+
+  async delete(id: string): Promise<void> {
+    if (this.disabled) {
+      return;
+    }
+
+    try {
+      await this.pool.query(`DELETE FROM ${this.tableName} WHERE id = $1`, [id]);
+    } catch (error) {
+      this.handleError('write', error);
+    }
+  }
+
+  async close(): Promise<void> {
+    await this.pool.end();
+  }
+
+  /**
+   * A missing table leaves answers in memory only; other write failures reach the admin caller
+   */
+  private handleError(operation: 'read' | 'write', error: unknown): void {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+
+    if (/relation .* does not exist/i.test(message)) {
+      this.disabled = true;
+      console.warn('[CuratedAnswers] curated_answers table missing, answers are kept in memory only - run the migration to persist them');
+      return;
+    }
+
+    if (operation === 'read') {
+      console.warn('[CuratedAnswers] Postgres read failed', { error: message });
+      return;
+    }
+
+    throw new RAGError(
+      `Failed to store curated answer: ${message}`,
+      'CURATED_ANSWER_STORE_FAILED'
+    );
+  }
+}
+
+// Shared so the API, Slack and Teams pipelines serve the same answers
+export const curatedAnswers = new CuratedAnswerRegistry();
@@ -0,0 +1,176 @@
+/**
+ * Domain glossary of PowerSchool acronyms and synonyms
+ * Expands queries so "FTE" also finds docs that spell out "Full-Time Equivalent" (and back),
+ * and generates the Postgres text search dictionary from the same entries
+ */
+
+import { existsSync, readFileSync } from 'fs';
+import path from 'path';
+import { RAGError } from '@/types';
+import type { GlossaryHitInfo } from '@/types';
+import { ENGLISH_STOPWORDS } from '@/utils/text';
+
+export interface GlossaryEntry {
+  term: string;
+  expansions: string[];
+}
+
+/** Entries keyed by collection; '*' entries apply to every collection */
+export type GlossaryData = Record<string, GlossaryEntry[]>;
+
+export type GlossaryHit = GlossaryHitInfo;
+
+export interface QueryExpansion {
+  query: string;
+  hits: GlossaryHit[];
+}
+
+const ALL_COLLECTIONS = '*';
+
+/**
+ * Case-insensitive whole-phrase pattern; words may be separated by spaces or hyphens
+ */
+function phrasePattern(phrase: string): RegExp | null {
+  const words = phrase.match(/[A-Za-z0-9]+/g);
+  if (!words) {
+    return null;
+  }
+  return new RegExp(`\\b${words.join('[\\s-]+')}\\b`, 'i');
+}
+
+export class Glossary {
+  constructor(private readonly data: GlossaryData = {}) {}
+
+  /**
+   * Load a glossary JSON file ({ "<collection>|*": [{ term, expansions }] })
+   */
+  static fromFile(filePath: string): Glossary {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(readFileSync(filePath, 'utf8'));
+    } catch (error) {
+      throw new RAGError(
+        `Failed to read glossary: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        'GLOSSARY_INVALID',
+        { filePath }
+      );
+    }
+
+    const isValid = typeof parsed === 'object' && parsed !== null && Object.values(parsed).every(entries =>
+      Array.isArray(entries) && entries.every(entry =>
+        typeof entry?.term === 'string' &&
+        Array.isArray(entry.expansions) &&
+        entry.expansions.every((expansion: unknown) => typeof expansion === 'string')
+      )
+    );
+    if (!isValid) {
+      throw new RAGError(
+        'Glossary must map collections to arrays of { term, expansions } entries',
+        'GLOSSARY_INVALID',
+        { filePath }
+      );
+    }
+
+    return new Glossary(parsed as GlossaryData);
+  }
+
+  /**
+   * Entries that apply to the given collections; every collection's entries when unfiltered
+   */
+  entries(collections?: string[]): Array<GlossaryEntry & { collection: string }> {
+    return Object.entries(this.data)
+      .filter(([collection]) =>
+        collection === ALL_COLLECTIONS || !collections?.length || collections.includes(collection)
+      )
+      .flatMap(([collection, entries]) => entries.map(entry => ({ ...entry, collection })));
+  }
+
+  /**
+   * Add expansions after acronyms in the query, and acronyms after spelled-out forms,
+   * e.g. "How is FTE calculated?" -> "How is FTE (Full-Time Equivalent) calculated?"
+   */
+  expand(query: string, collections?: string[]): QueryExpansion {
+    let expanded = query;
+    const hits: GlossaryHit[] = [];
+
+    const annotate = (match: RegExpExecArray, added: string[], collection: string) => {
+      const end = match.index + match[0].length;
+      expanded = `${expanded.slice(0, end)} (${added.join(', ')})${expanded.slice(end)}`;
+      hits.push({ matched: match[0], added, collection });
+    };
+
+    for (const entry of this.entries(collections)) {
+      const termMatch = phrasePattern(entry.term)?.exec(expanded);
+      if (termMatch) {
+        const missing = entry.expansions.filter(expansion => !phrasePattern(expansion)?.test(expanded));
+        if (missing.length > 0) {
+          annotate(termMatch, missing, entry.collection);
+        }
+        continue;
+      }
+
+      // Only spelled-out phrases get their acronym added; single words like "PowerSchool" are too common
+      for (const expansion of entry.expansions.filter(expansion => /[\s-]/.test(expansion.trim()))) {
+        const expansionMatch = phrasePattern(expansion)?.exec(expanded);
+        if (expansionMatch) {
+          annotate(expansionMatch, [entry.term], entry.collection);
+          break;
+        }
+      }
+    }
+
+    return { query: expanded, hits };
+  }
+
+  /**
+   * Postgres thesaurus file mapping each spelled-out form to its term. The thesaurus
+   * template is used because the plain synonym template cannot match multi-word phrases.
+   */
+  toThesaurus(): string {
+    const lines = new Map<string, string>();
+
+    for (const entry of this.entries()) {
+      const term = entry.term.toLowerCase().match(/[a-z0-9]+/g)?.join(' ');
+      if (!term) {
+        continue;
+      }
+
+      for (const expansion of entry.expansions) {
+        // Stop words in a sample phrase must be written as '?'
+        const sample = (expansion.toLowerCase().match(/[a-z0-9]+/g) || [])
+          .map(word => ENGLISH_STOPWORDS.has(word) ? '?' : word)
+          .join(' ');
+        if (sample && sample !== term && !lines.has(sample)) {
+          lines.set(sample, term);
+        }
+      }
+    }
+
+    return [
+      '# Generated from the query glossary by `npm run db:glossary` - edit the glossary, not this file',
+      ...[...lines].map(([sample, term]) => `${sample} : ${term}`),
+      '',
+    ].join('\n');
+  }
+}
+
+let sharedGlossary: Glossary | null = null;
+
+/**
+ * Shared glossary loaded once from GLOSSARY_PATH (default data/glossary.json); empty if the file is missing
+ */
+export function getGlossary(glossaryPath: string = 'data/glossary.json'): Glossary {
+  if (sharedGlossary) {
+    return sharedGlossary;
+  }
+
+  const filePath = path.resolve(glossaryPath);
+  if (existsSync(filePath)) {
+    sharedGlossary = Glossary.fromFile(filePath);
+  } else {
+    console.warn('[Glossary] Glossary file not found, query expansion disabled', { filePath });
+    sharedGlossary = new Glossary();
+  }
+
+  return sharedGlossary;
+}
@@ -0,0 +1,222 @@
+/**
+ * Post-generation grounding verification
+ * Checks each claim of an answer against the retrieved chunks it was generated from
+ */
+
+import type { LLMAdapter, SearchResult } from '@/types';
+import { tokenizeText } from '@/utils/text';
+
+export interface ClaimSupport {
+  claim: string;
+  supported: boolean;
+  /** Support strength between 0 and 1 */
+  score: number;
+  /** Best supporting chunk, when one was found */
+  sourceId?: string;
+}
+
+export interface GroundingVerifier {
+  readonly name: string;
+  verify(claims: string[], sources: SearchResult[]): Promise<ClaimSupport[]>;
+}
+
+export type GroundingVerifierType = 'none' | 'lexical' | 'llm';
+
+// Claims with fewer content terms (e.g. "Click Submit.") carry too little signal to judge
+const MIN_CLAIM_TERMS = 3;
+
+const LIST_MARKER = /^\s*([-*•]|\d+[.)])\s+/;
+const SENTENCE_BOUNDARY = /(?<=[.!?])\s+(?=[A-Z0-9"'])/;
+
+/**
+ * Split a line into its list marker and plain-text sentences
+ */
+function splitLine(line: string): { marker: string; sentences: string[] } {
+  const marker = line.match(LIST_MARKER)?.[0] ?? '';
+  const text = line.slice(marker.length).replace(/\*\*|__|`/g, '').trim();
+  return { marker, sentences: text ? text.split(SENTENCE_BOUNDARY).map(sentence => sentence.trim()) : [] };
+}
+
+/**
+ * Split an answer into checkable claims: sentences and list items outside headings
+ * and the Sources/References section
+ */
+export function extractClaims(answer: string): string[] {
+  const claims: string[] = [];
+  let inReferences = false;
+
+  for (const rawLine of answer.split('\n')) {
+    const line = rawLine.trim();
+    if (!line) continue;
+
+    if (/^#{1,6}\s/.test(line)) {
+      inReferences = /\b(sources?|references?|citations?)\b/i.test(line);
+      continue;
+    }
+
+    if (inReferences || /^\*\*(sources?|references?)\*\*/i.test(line)) {
+      continue;
+    }
+
+    for (const sentence of splitLine(line).sentences) {
+      if (tokenizeText(sentence).length >= MIN_CLAIM_TERMS) {
+        claims.push(sentence);
+      }
+    }
+  }
+
+  return claims;
+}
+
+/**
+ * Remove unsupported claims from an answer, dropping list items and lines left empty
+ */
+export function removeClaims(answer: string, claims: string[]): string {
+  const unsupported = new Set(claims);
+
+  return answer
+    .split('\n')
+    .flatMap(line => {
+      const { marker, sentences } = splitLine(line);
+      if (!sentences.some(sentence => unsupported.has(sentence))) {
+        return [line];
+      }
+
+      const kept = sentences.filter(sentence => !unsupported.has(sentence));
+      return kept.length > 0 ? [`${marker}${kept.join(' ')}`] : [];
+    })
+    .join('\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
+/**
+ * Reduce simple English inflections so "codes" supports "code"
+ */
+function normalizeTerm(term: string): string {
+  if (term.length > 4 && term.endsWith('ies')) return `${term.slice(0, -3)}y`;
+  if (term.length > 4 && term.endsWith('s') && !term.endsWith('ss')) return term.slice(0, -1);
+  return term;
+}
+
+export interface LexicalGroundingVerifierOptions {
+  /** Fraction of claim terms that must appear in one chunk */
+  supportThreshold?: number;
+}
+
+/**
+ * Offline verifier based on term overlap between each claim and its best matching chunk
+ */
+export class LexicalGroundingVerifier implements GroundingVerifier {
+  readonly name = 'lexical';
+  private readonly supportThreshold: number;
+
+  constructor(options: LexicalGroundingVerifierOptions = {}) {
+    this.supportThreshold = options.supportThreshold ?? 0.6;
+  }
+
+  async verify(claims: string[], sources: SearchResult[]): Promise<ClaimSupport[]> {
+    const sourceTerms = sources.map(source => ({
+      id: source.id,
+      terms: new Set(
+        tokenizeText(`${source.metadata.title} ${source.metadata.section || ''} ${source.content}`).map(normalizeTerm)
+      ),
+    }));
+
+    return claims.map(claim => {
+      const claimTerms = Array.from(new Set(tokenizeText(claim).map(normalizeTerm)));
+      let bestScore = 0;
+      let bestSourceId: string | undefined;
+
+      for (const source of sourceTerms) {
+        const matched = claimTerms.filter(term => source.terms.has(term)).length;
+        const score = claimTerms.length > 0 ? matched / claimTerms.length : 0;
+        if (score > bestScore) {
+          bestScore = score;
+          bestSourceId = source.id;
+        }
+      }
+
+      return {
+        claim,
+        supported: bestScore >= this.supportThreshold,
+        score: bestScore,
+        ...(bestSourceId && { sourceId: bestSourceId }),
+      };
+    });
+  }
+}
+
+export interface LLMGroundingVerifierOptions {
+  maxExcerptLength?: number;
+  maxTokens?: number;
+}
+
+/**
+ * Judge verifier that asks the configured LLM which claims the chunks do not support.
+ * Falls back to the lexical verifier when the judge call fails.
+ */
+export class LLMGroundingVerifier implements GroundingVerifier {
+  readonly name = 'llm';
+  private readonly maxExcerptLength: number;
+  private readonly maxTokens: number;
+  private readonly fallback = new LexicalGroundingVerifier();
+
+  constructor(
+    private llmAdapter: LLMAdapter,
+    options: LLMGroundingVerifierOptions = {}
+  ) {
+    this.maxExcerptLength = options.maxExcerptLength ?? 1200;
+    this.maxTokens = options.maxTokens ?? 200;
+  }
+
+  async verify(claims: string[], sources: SearchResult[]): Promise<ClaimSupport[]> {
+    if (claims.length === 0) {
+      return [];
+    }
+
+    const passages = sources
+      .map((source, index) => {
+        const excerpt = source.content.replace(/\s+/g, ' ').trim().substring(0, this.maxExcerptLength);
+        return `[S${index + 1}] ${source.metadata.title}\n${excerpt}`;
+      })
+      .join('\n\n');
+    const numberedClaims = claims.map((claim, index) => `${index + 1}. ${claim}`).join('\n');
+
+    try {
+      const response = await this.llmAdapter.generate(
+        [
+          {
+            role: 'system',
+            content: 'You verify answers about PowerSchool against documentation excerpts. A claim is supported only if the excerpts state or directly imply it. Respond with only a JSON array of the numbers of unsupported claims, or [] if all are supported.',
+          },
+          {
+            role: 'user',
+            content: `Documentation excerpts:\n\n${passages}\n\nClaims:\n${numberedClaims}\n\nWhich claim numbers are NOT supported by the excerpts?`,
+          },
+        ],
+        { max_tokens: this.maxTokens, temperature: 0 }
+      );
+
+      const arrayMatch = response.match(/\[[\d\s,]*\]/);
+      if (!arrayMatch) {
+        throw new Error('No JSON array in verifier response');
+      }
+
+      const unsupported = new Set((JSON.parse(arrayMatch[0]) as number[]).map(value => value - 1));
+
+      return claims.map((claim, index) => ({
+        claim,
+        supported: !unsupported.has(index),
+        score: unsupported.has(index) ? 0 : 1,
+      }));
+
+    } catch (error) {
+      console.warn('[LLMGroundingVerifier] Judge verification failed, using lexical verification', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        claims: claims.length
+      });
+      return this.fallback.verify(claims, sources);
+    }
+  }
+}
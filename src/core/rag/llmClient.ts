@@ -3,8 +3,12 @@
  * Handles LLM interactions with structured prompts and response parsing
  */
 
-import type { LLMAdapter, ChatMessage, GenerateOptions } from '@/types';
+import type { LLMAdapter, ChatMessage, Citation, GenerateOptions } from '@/types';
 import { RAGError } from '@/types';
+import { tokenCounter } from '@/utils/tokenizer';
+import { CITATION_MARKER } from '@/utils/citations';
+import { getPageUrl } from '@/utils/chunks';
+import { parseStructuredAnswer, STRUCTURED_ANSWER_FORMAT, type StructuredAnswer } from './structuredOutput';
 
 export interface LLMGenerationOptions extends GenerateOptions {
   retries?: number;
@@ -18,12 +22,27 @@ export interface LLMResult {
   model: string;
 }
 
+export interface StructuredLLMResult extends LLMResult {
+  /** Validated answer document; undefined when the output could not be repaired */
+  structured?: StructuredAnswer;
+  repairAttempts: number;
+}
+
 export interface ParsedResponse {
   summary: string;
   steps?: string[];
   fullAnswer: string;
 }
 
+export interface ResolvedCitations {
+  /** Answer with invalid markers and URLs outside the context removed */
+  answer: string;
+  /** Citations referenced by markers, or all context citations when the answer has none */
+  citations: Citation[];
+  invalidMarkers: number[];
+  removedUrls: string[];
+}
+
 export class LLMClient {
   constructor(
     private llmAdapter: LLMAdapter
@@ -36,6 +55,83 @@ export class LLMClient {
     systemPrompt: string,
     userPrompt: string,
     options: LLMGenerationOptions = {}
+  ): Promise<LLMResult> {
+    return this.generateMessages(
+      [
+        {
+          role: 'system',
+          content: systemPrompt,
+        },
+        {
+          role: 'user',
+          content: userPrompt,
+        },
+      ],
+      options
+    );
+  }
+
+  /**
+   * Generate a structured JSON answer. Invalid output is repaired locally, then the
+   * model is asked to correct it; structured is undefined when both fail so callers
+   * can fall back to the markdown parser.
+   */
+  async generateStructured(
+    systemPrompt: string,
+    userPrompt: string,
+    options: LLMGenerationOptions & { repairAttempts?: number } = {}
+  ): Promise<StructuredLLMResult> {
+    const { repairAttempts = 1, ...generationOptions } = options;
+    const messages: ChatMessage[] = [
+      { role: 'system', content: systemPrompt },
+      { role: 'user', content: userPrompt },
+    ];
+    const structuredOptions = { ...generationOptions, response_format: STRUCTURED_ANSWER_FORMAT };
+
+    let result = await this.generateMessages(messages, structuredOptions);
+    let parsed = parseStructuredAnswer(result.response);
+    let attempts = 0;
+
+    while (!parsed.valid && attempts < repairAttempts) {
+      attempts++;
+      console.warn('[LLM Client] Structured output failed validation, asking the model to repair it', {
+        attempt: attempts,
+        errors: parsed.errors.slice(0, 5),
+        responsePreview: result.response.substring(0, 200)
+      });
+
+      const invalidResponse = result.response;
+      result = await this.generateMessages(
+        [
+          ...messages,
+          { role: 'assistant', content: invalidResponse },
+          {
+            role: 'user',
+            content: `Your reply did not match the required JSON schema:\n${parsed.errors.join('\n')}\n\nReply with only the corrected JSON object.`,
+          },
+        ],
+        structuredOptions
+      );
+      parsed = parseStructuredAnswer(result.response);
+    }
+
+    if (!parsed.valid) {
+      console.warn('[LLM Client] Structured output still invalid, falling back to markdown parsing', {
+        errors: parsed.errors.slice(0, 5),
+        repairAttempts: attempts
+      });
+      return { ...result, repairAttempts: attempts };
+    }
+
+    return { ...result, structured: parsed.value, repairAttempts: attempts };
+  }
+
+  /**
+   * Run a chat completion with timeout and retries
+   */
+  private async generateMessages(
+    messages: ChatMessage[],
+    options: LLMGenerationOptions
   ): Promise<LLMResult> {
     const startTime = Date.now();
 
@@ -46,19 +142,9 @@ export class LLMClient {
         top_p = 0.9,
         retries = 2,
         timeoutMs = 30000,
+        response_format,
       } = options;
 
-      const messages: ChatMessage[] = [
-        {
-          role: 'system',
-          content: systemPrompt,
-        },
-        {
-          role: 'user',
-          content: userPrompt,
-        },
-      ];
-
       let lastError: Error | null = null;
       let response: string | null = null;
 
@@ -68,8 +154,8 @@ export class LLMClient {
         temperature,
         retries,
         timeoutMs,
-        systemPromptLength: systemPrompt.length,
-        userPromptLength: userPrompt.length
+        structuredOutput: Boolean(response_format),
+        promptLength: messages.reduce((sum, message) => sum + message.content.length, 0)
       });
 
       // Retry logic for robustness
@@ -90,6 +176,7 @@ export class LLMClient {
             max_tokens,
             temperature,
             top_p,
+            ...(response_format && { response_format }),
           });
 
           response = await Promise.race([generationPromise, timeoutPromise]);
@@ -141,13 +228,12 @@ export class LLMClient {
 
       const generationTime = Date.now() - startTime;
 
-      // Estimate token count (rough approximation: 4 chars = 1 token)
-      const tokenCount = Math.ceil(response.length / 4);
+      const tokenCount = tokenCounter.countTokens(response, this.llmAdapter.getModel());
 
       console.debug('[LLM Client] Generation completed successfully', {
         generationTimeMs: generationTime,
         responseLength: response.length,
-        estimatedTokens: tokenCount,
+        tokenCount,
         model: this.llmAdapter.getModel(),
         responseStartsWith: response.substring(0, 50) + '...'
       });
@@ -204,6 +290,112 @@ export class LLMClient {
     }
   }
 
+  /**
+   * Generate response while forwarding text deltas to onToken.
+   * No retries: once tokens reach the caller a retry would duplicate output.
+   * On timeout or options.signal the adapter stream is aborted and no further tokens are forwarded.
+   */
+  async generateStream(
+    systemPrompt: string,
+    userPrompt: string,
+    onToken: (delta: string) => void,
+    options: LLMGenerationOptions = {}
+  ): Promise<LLMResult> {
+    const startTime = Date.now();
+    const {
+      max_tokens = 1500,
+      temperature = 0.1,
+      top_p = 0.9,
+      timeoutMs = 60000,
+      signal,
+    } = options;
+
+    const messages: ChatMessage[] = [
+      { role: 'system', content: systemPrompt },
+      { role: 'user', content: userPrompt },
+    ];
+
+    const controller = new AbortController();
+    const abort = (): void => controller.abort();
+    signal?.addEventListener('abort', abort);
+
+    console.debug('[LLM Client] Starting streaming LLM generation', {
+      model: this.llmAdapter.getModel(),
+      maxTokens: max_tokens,
+      nativeStreaming: Boolean(this.llmAdapter.generateStream),
+      timeoutMs
+    });
+
+    let timeoutHandle: NodeJS.Timeout | undefined;
+
+    try {
+      const timeoutPromise = new Promise<never>((_, reject) => {
+        timeoutHandle = setTimeout(() => reject(new Error('LLM request timeout')), timeoutMs);
+        controller.signal.addEventListener('abort', () => reject(new Error('LLM request aborted')));
+      });
+      if (signal?.aborted) {
+        abort();
+      }
+
+      // Tokens arriving after the race settled would reach a caller that already moved on
+      const forwardToken = (delta: string): void => {
+        if (!controller.signal.aborted) {
+          onToken(delta);
+        }
+      };
+
+      const generationOptions = { max_tokens, temperature, top_p, stream: true, signal: controller.signal };
+      const generationPromise = this.llmAdapter.generateStream
+        ? this.llmAdapter.generateStream(messages, generationOptions, forwardToken)
+        : this.llmAdapter.generate(messages, generationOptions).then(response => {
+            forwardToken(response);
+            return response;
+          });
+
+      const response = await Promise.race([generationPromise, timeoutPromise]);
+      const generationTime = Date.now() - startTime;
+
+      console.debug('[LLM Client] Streaming generation completed', {
+        generationTimeMs: generationTime,
+        responseLength: response.length,
+        model: this.llmAdapter.getModel()
+      });
+
+      return {
+        response: response.trim(),
+        generationTimeMs: generationTime,
+        tokenCount: tokenCounter.countTokens(response, this.llmAdapter.getModel()),
+        model: this.llmAdapter.getModel(),
+      };
+
+    } catch (error) {
+      console.error('[LLM Client] Streaming generation failed', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        generationTimeMs: Date.now() - startTime,
+        model: this.llmAdapter.getModel()
+      });
+
+      if (error instanceof RAGError) {
+        throw error;
+      }
+
+      throw new RAGError(
+        `LLM streaming failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        'LLM_GENERATION_FAILED',
+        {
+          model: this.llmAdapter.getModel(),
+          originalError: error,
+        }
+      );
+    } finally {
+      if (timeoutHandle) {
+        clearTimeout(timeoutHandle);
+      }
+      signal?.removeEventListener('abort', abort);
+      controller.abort();
+    }
+  }
+
   /**
    * Parse steps from LLM response
    */
@@ -274,6 +466,77 @@ export class LLMClient {
     return result;
   }
 
+  /**
+   * Resolve inline [n] markers against the context citations. Markers that do not
+   * refer to a chunk in context are dropped, and links or bare URLs that do not
+   * appear in the context are removed as hallucinated. listedMarkers (from a
+   * structured answer) are used when the text itself has no valid markers.
+   */
+  resolveCitations(response: string, contextCitations: Citation[], listedMarkers: number[] = []): ResolvedCitations {
+    const byMarker = new Map(
+      contextCitations
+        .filter(citation => citation.marker !== undefined)
+        .map(citation => [citation.marker!, citation])
+    );
+    const knownUrls = new Set(contextCitations.flatMap(citation => [citation.url, getPageUrl(citation.url)]));
+    const isKnownUrl = (url: string): boolean => knownUrls.has(url) || knownUrls.has(url.replace(/\/$/, ''));
+
+    const invalidMarkers: number[] = [];
+    const removedUrls: string[] = [];
+    const citedMarkers = new Set<number>();
+
+    const answer = response
+      // Markdown links keep their text when the target is not in context
+      .replace(/\[([^\]]+)\]\((https?:\/\/[^\s)]+)\)/g, (match, text: string, url: string) => {
+        if (isKnownUrl(url)) return match;
+        removedUrls.push(url);
+        return text;
+      })
+      // Bare URLs that are not a markdown link target
+      .replace(/(?<!\]\()([ \t]*)(https?:\/\/[^\s)<>\]]+)/g, (match, _space: string, target: string) => {
+        const url = target.replace(/[.,;:]+$/, '');
+        if (isKnownUrl(url)) return match;
+        removedUrls.push(url);
+        return target.slice(url.length);
+      })
+      .replace(new RegExp(`[ \\t]*${CITATION_MARKER.source}`, 'g'), (match, value: string) => {
+        const marker = Number(value);
+        if (byMarker.has(marker)) {
+          citedMarkers.add(marker);
+          return match;
+        }
+        invalidMarkers.push(marker);
+        return '';
+      })
+      // Drop list items emptied by the removals
+      .replace(/^[ \t]*([-*]|\d+\.)[ \t]*$/gm, '')
+      .replace(/\n{3,}/g, '\n\n')
+      .trim();
+
+    if (citedMarkers.size === 0) {
+      for (const marker of listedMarkers) {
+        if (byMarker.has(marker)) {
+          citedMarkers.add(marker);
+        } else {
+          invalidMarkers.push(marker);
+        }
+      }
+    }
+
+    const citations = citedMarkers.size > 0
+      ? Array.from(citedMarkers).sort((a, b) => a - b).map(marker => byMarker.get(marker)!)
+      : contextCitations;
+
+    if (invalidMarkers.length > 0 || removedUrls.length > 0) {
+      console.warn('[LLMClient] Removed citations not backed by the context', {
+        invalidMarkers,
+        removedUrls: removedUrls.map(url => url.substring(0, 100))
+      });
+    }
+
+    return { answer, citations, invalidMarkers, removedUrls };
+  }
+
   /**
    * Validate response quality
    */
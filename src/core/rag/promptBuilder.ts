@@ -3,12 +3,26 @@
  * Creates structured system prompts that enforce consistent response format
  */
 
-import type { SearchResult, Citation } from '@/types';
+import type { SearchResult, Citation, ConversationTurn } from '@/types';
+import {
+  BUILTIN_PROMPT_TEMPLATE,
+  getPersona,
+  renderPromptTemplate,
+  type PromptPersona,
+  type PromptTemplate
+} from './promptTemplates';
 
 export interface PromptOptions {
   preferSteps: boolean;
   maxTokens: number;
   includeReferences: boolean;
+  history?: ConversationTurn[];
+  /** 'json' asks for a structured answer document instead of free-form markdown */
+  outputFormat?: 'markdown' | 'json';
+  /** System prompt template version; defaults to the built-in template */
+  template?: PromptTemplate;
+  /** Collection the query targets, used to pick the assistant persona */
+  collection?: string;
 }
 
 export interface PromptResult {
@@ -27,16 +41,27 @@ export class PromptBuilder {
     retrievedDocs: SearchResult[],
     options: PromptOptions
   ): PromptResult {
-    const { preferSteps, includeReferences } = options;
-
-    // Extract citations from retrieved documents
+    const {
+      preferSteps,
+      includeReferences,
+      history = [],
+      outputFormat = 'markdown',
+      template = BUILTIN_PROMPT_TEMPLATE,
+      collection,
+    } = options;
+    const persona = getPersona(collection);
+
+    // Extract numbered citations matching the [n] markers in the context
     const citations = this.extractCitations(retrievedDocs);
 
     // Build system prompt
-    const systemPrompt = this.buildSystemPrompt(preferSteps, includeReferences);
+    let systemPrompt = this.buildSystemPrompt(template, persona, preferSteps, includeReferences);
+    if (outputFormat === 'json') {
+      systemPrompt += this.buildJsonOutputInstructions();
+    }
 
     // Build user prompt with context
-    const userPrompt = this.buildUserPrompt(query, context, retrievedDocs);
+    const userPrompt = this.buildUserPrompt(query, context, retrievedDocs, persona, history);
 
     return {
       systemPrompt,
@@ -46,61 +71,46 @@ export class PromptBuilder {
   }
 
   /**
-   * Build the system prompt that enforces response structure
+   * Render the system prompt template with the collection persona and response structure
    */
-  private buildSystemPrompt(preferSteps: boolean, includeReferences: boolean): string {
-    return `You are a PowerSchool PSSIS-Admin expert assistant. Your role is to provide accurate, helpful information about PowerSchool Student Information System administration based on the provided documentation context.
-
-## Response Structure Requirements
-
-You MUST follow this exact structure for every response:
-
-### 1. Summary (Required)
-- Start with exactly one sentence that summarizes the answer
-- Keep it concise and directly address the user's question
-
-### 2. Overview (Required)
-- Provide 2-4 sentences explaining the feature or concept
-- Give context about when and why it's used
-- Explain its importance in PowerSchool PSSIS-Admin
-
-### 3. ${preferSteps ? 'Step-by-Step Instructions' : 'Detailed Information'} (Required)
-${preferSteps ? `- Provide clear, numbered step-by-step instructions
+  private buildSystemPrompt(
+    template: PromptTemplate,
+    persona: PromptPersona,
+    preferSteps: boolean,
+    includeReferences: boolean
+  ): string {
+    return renderPromptTemplate(template.template, {
+      ...persona,
+      detail_heading: preferSteps ? 'Step-by-Step Instructions' : 'Detailed Information',
+      detail_instructions: preferSteps ? `- Provide clear, numbered step-by-step instructions
 - Each step should be actionable and specific
 - Include navigation paths (e.g., "Navigate to Setup > District > General")
 - Mention any prerequisites or permissions needed` : `- Provide detailed information about the topic
 - Include key concepts and best practices
-- Explain any configuration options or settings`}
-
-${includeReferences ? `### 4. References (Required)
+- Explain any configuration options or settings`,
+      references_section: includeReferences ? `### 4. References (Required)
 - Always include a "References" section at the end
-- List the specific PowerSchool documentation pages used
+- List the specific ${persona.docs_name} documentation pages used
 - Format as: "- [Page Title](URL)"
-- Only include URLs from the provided context` : ''}
-
-## Response Guidelines
-
-- **Use Markdown formatting** with proper headings (##, ###), lists, and code blocks
-- **Be specific and actionable** - avoid vague statements
-- **Stay within the PowerSchool context** - don't provide generic advice
-- **If configuration steps are requested**, always provide numbered lists
-- **Use proper PowerSchool terminology** from the documentation
-- **Include relevant warnings or prerequisites** when applicable
+- Only include URLs from the provided context` : '',
+    });
+  }
 
-## Important Rules
+  /**
+   * Instructions for returning the answer as a structured JSON document
+   */
+  private buildJsonOutputInstructions(): string {
+    return `
 
-1. **Only use information from the provided context** - do not add information from your general knowledge
-2. **If the context doesn't contain sufficient information**, state: "I couldn't find a documented answer in the PSSIS-Admin docs. Please consult PowerSchool support or check related documentation."
-3. **Always cite sources** using the exact URLs provided in the context
-4. **Keep responses professional and technical** but accessible
-5. **Focus on practical, actionable guidance** for administrators
+## Output Format
 
-## Context Usage
+Return a single JSON object and nothing else (no code fences or surrounding text) with these fields:
 
-- The context below contains relevant excerpts from PowerSchool PSSIS-Admin documentation
-- Each excerpt includes the source URL
-- Use this information to provide accurate, up-to-date guidance
-- Reference specific sections when helpful (e.g., "As noted in the User Management guide...")`;
+- "summary": the one-sentence summary
+- "answer": the complete markdown answer following the structure above, with inline [n] citations
+- "steps": the numbered steps as objects { "text": "...", "navigation_path": "Start Page > System > ..." }; omit navigation_path when the step has no UI location
+- "citations": the context excerpt numbers the answer relies on, e.g. [1, 3]
+- "confidence": a number from 0 to 1 for how completely the context answers the question`;
   }
 
   /**
@@ -109,9 +119,11 @@ ${includeReferences ? `### 4. References (Required)
   private buildUserPrompt(
     query: string,
     context: string,
-    retrievedDocs: SearchResult[]
+    retrievedDocs: SearchResult[],
+    persona: PromptPersona,
+    history: ConversationTurn[] = []
   ): string {
-    const contextSection = context.trim() ? `## Context from PowerSchool PSSIS-Admin Documentation
+    const contextSection = context.trim() ? `## Context from ${persona.product_name} Documentation
 
 ${context}
 
@@ -120,18 +132,31 @@ ${context}
     const metadataSection = retrievedDocs.length > 0 ? 
       `## Retrieved Documents Metadata
 ${retrievedDocs.map((doc, index) => 
-  `${index + 1}. **${doc.metadata.title}** (Score: ${doc.score.toFixed(3)})
+  `[${index + 1}] **${doc.metadata.title}** (Score: ${doc.score.toFixed(3)})
    - URL: ${doc.metadata.url}
    - Section: ${doc.metadata.section || 'N/A'}
    - Content Type: ${doc.metadata.content_type}`
 ).join('\n')}
 
+---` : '';
+
+    const historySection = history.length > 0 ?
+      `## Previous Conversation
+The user is continuing an earlier conversation. Use it to interpret the question, but answer only from the documentation context above.
+
+${history.map(turn =>
+  `**User:** ${turn.query}
+**Assistant:** ${this.truncate(turn.summary || turn.answer, 400)}`
+).join('\n\n')}
+
 ---` : '';
 
     return `${contextSection}
 
 ${metadataSection}
 
+${historySection}
+
 ## User Question
 ${query}
 
@@ -139,21 +164,37 @@ Please provide a comprehensive answer following the required structure above. Us
   }
 
   /**
-   * Extract citations from retrieved documents
+   * Shorten text to a maximum length on a word boundary
+   */
+  private truncate(text: string, maxLength: number): string {
+    if (text.length <= maxLength) {
+      return text;
+    }
+    const cut = text.substring(0, maxLength);
+    return `${cut.substring(0, cut.lastIndexOf(' ') > 0 ? cut.lastIndexOf(' ') : maxLength)}...`;
+  }
+
+  /**
+   * Extract citations from retrieved documents, one per context excerpt.
+   * Markers follow the excerpt numbering, so [n] refers to retrievedDocs[n - 1].
    */
   private extractCitations(retrievedDocs: SearchResult[]): Citation[] {
-    const citationsMap = new Map<string, Citation>();
+    const citations: Citation[] = [];
 
-    for (const doc of retrievedDocs) {
+    retrievedDocs.forEach((doc, index) => {
       if (doc.metadata.url && doc.metadata.title) {
-        citationsMap.set(doc.metadata.url, {
+        citations.push({
           title: doc.metadata.title,
           url: doc.metadata.url,
+          marker: index + 1,
+          chunk_id: doc.id,
+          ...(doc.metadata.section && { section: doc.metadata.section }),
+          excerpt: this.truncate(doc.content.replace(/\s+/g, ' ').trim(), 300),
         });
       }
-    }
+    });
 
-    return Array.from(citationsMap.values());
+    return citations;
   }
 
   /**
@@ -0,0 +1,491 @@
+/**
+ * Versioned prompt template registry
+ * System prompts with {{variables}}, scoped per collection and intent, that can be
+ * created and activated at runtime instead of requiring a deploy
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import { Pool } from 'pg';
+import { RAGError } from '@/types';
+import config from '@/utils/config';
+
+export type PromptIntent = 'instructions' | 'details';
+
+// Scope value that matches any collection or intent
+export const ANY_SCOPE = '*';
+
+export interface PromptTemplate {
+  id: string;
+  /** Collection name or '*' */
+  collection: string;
+  /** Intent or '*' */
+  intent: string;
+  version: number;
+  template: string;
+  description?: string;
+  active: boolean;
+  createdAt: string;
+}
+
+export interface PromptTemplateInput {
+  collection?: string;
+  intent?: string;
+  template: string;
+  description?: string;
+  activate?: boolean;
+}
+
+/**
+ * Persistent storage for template versions
+ */
+export interface PromptTemplateStore {
+  loadAll(): Promise<PromptTemplate[]>;
+  save(template: PromptTemplate): Promise<void>;
+  /** Mark one version active in its scope and every other version inactive; null deactivates all */
+  setActive(collection: string, intent: string, id: string | null): Promise<void>;
+}
+
+/**
+ * Collection-specific wording substituted into templates
+ */
+export interface PromptPersona {
+  product_name: string;
+  product_description: string;
+  docs_name: string;
+  audience: string;
+}
+
+const PERSONAS: Record<string, PromptPersona> = {
+  'pssis-admin': {
+    product_name: 'PowerSchool PSSIS-Admin',
+    product_description: 'PowerSchool Student Information System administration',
+    docs_name: 'PSSIS-Admin',
+    audience: 'administrators',
+  },
+  schoology: {
+    product_name: 'Schoology',
+    product_description: 'the Schoology learning management system',
+    docs_name: 'Schoology',
+    audience: 'administrators and teachers',
+  },
+};
+
+// Unfiltered queries search every collection
+const DEFAULT_PERSONA: PromptPersona = {
+  product_name: 'PowerSchool PSSIS-Admin and Schoology',
+  product_description: 'PowerSchool Student Information System administration and the Schoology learning management system',
+  docs_name: 'PowerSchool',
+  audience: 'administrators',
+};
+
+export const PROMPT_TEMPLATE_VARIABLES = [
+  'product_name',
+  'product_description',
+  'docs_name',
+  'audience',
+  'detail_heading',
+  'detail_instructions',
+  'references_section',
+] as const;
+
+export type PromptTemplateVariables = Record<(typeof PROMPT_TEMPLATE_VARIABLES)[number], string>;
+
+const VARIABLE_PATTERN = /\{\{\s*(\w+)\s*\}\}/g;
+
+const BUILTIN_TEMPLATE = `You are a {{product_name}} expert assistant. Your role is to provide accurate, helpful information about {{product_description}} based on the provided documentation context.
+
+## Response Structure Requirements
+
+You MUST follow this exact structure for every response:
+
+### 1. Summary (Required)
+- Start with exactly one sentence that summarizes the answer
+- Keep it concise and directly address the user's question
+
+### 2. Overview (Required)
+- Provide 2-4 sentences explaining the feature or concept
+- Give context about when and why it's used
+- Explain its importance in {{product_name}}
+
+### 3. {{detail_heading}} (Required)
+{{detail_instructions}}
+
+{{references_section}}
+
+## Inline Citations
+
+- Each context excerpt is numbered, e.g. "## [2] Page Title"
+- After every statement taken from the context, cite the excerpt it came from with its number in brackets, e.g. "Navigate to Start Page > System [2]."
+- Cite several excerpts as [1][3]; only use numbers that appear in the context
+
+## Response Guidelines
+
+- **Use Markdown formatting** with proper headings (##, ###), lists, and code blocks
+- **Be specific and actionable** - avoid vague statements
+- **Stay within the {{docs_name}} context** - don't provide generic advice
+- **If configuration steps are requested**, always provide numbered lists
+- **Use proper {{docs_name}} terminology** from the documentation
+- **Include relevant warnings or prerequisites** when applicable
+
+## Important Rules
+
+1. **Only use information from the provided context** - do not add information from your general knowledge
+2. **If the context doesn't contain sufficient information**, state: "I couldn't find a documented answer in the {{docs_name}} docs. Please consult PowerSchool support or check related documentation."
+3. **Always cite sources** with inline [n] markers, and only use URLs that appear in the context
+4. **Keep responses professional and technical** but accessible
+5. **Focus on practical, actionable guidance** for {{audience}}
+
+## Context Usage
+
+- The context below contains relevant excerpts from {{product_name}} documentation
+- Each excerpt is numbered and includes the source URL
+- Use this information to provide accurate, up-to-date guidance
+- Reference specific sections when helpful (e.g., "As noted in the User Management guide...")`;
+
+// Shipped default used until an admin activates a stored version in the global scope
+export const BUILTIN_PROMPT_TEMPLATE: PromptTemplate = {
+  id: 'builtin',
+  collection: ANY_SCOPE,
+  intent: ANY_SCOPE,
+  version: 0,
+  template: BUILTIN_TEMPLATE,
+  description: 'Built-in default system prompt',
+  active: true,
+  createdAt: new Date(0).toISOString(),
+};
+
+/**
+ * Wording for a collection, or the combined persona when the query spans collections
+ */
+export function getPersona(collection?: string): PromptPersona {
+  return (collection && PERSONAS[collection]) || DEFAULT_PERSONA;
+}
+
+/**
+ * Substitute {{variables}}; unknown names are left as written
+ */
+export function renderPromptTemplate(template: string, variables: Partial<PromptTemplateVariables>): string {
+  return template.replace(VARIABLE_PATTERN, (match, name: string) =>
+    name in variables ? variables[name as keyof PromptTemplateVariables] ?? '' : match
+  );
+}
+
+/**
+ * Variables referenced by a template that the prompt builder does not provide
+ */
+export function findUnknownVariables(template: string): string[] {
+  const known = new Set<string>(PROMPT_TEMPLATE_VARIABLES);
+  const unknown = new Set<string>();
+
+  for (const match of template.matchAll(VARIABLE_PATTERN)) {
+    if (match[1] && !known.has(match[1])) {
+      unknown.add(match[1]);
+    }
+  }
+
+  return [...unknown];
+}
+
+/**
+ * Short label recorded in debug_info, e.g. "schoology/instructions@v3"
+ */
+export function formatTemplateVersion(template: PromptTemplate): string {
+  return `${template.collection}/${template.intent}@v${template.version}`;
+}
+
+export class PromptTemplateRegistry {
+  private templates = new Map<string, PromptTemplate>();
+  private store: PromptTemplateStore | null = null;
+
+  constructor() {
+    this.templates.set(BUILTIN_PROMPT_TEMPLATE.id, { ...BUILTIN_PROMPT_TEMPLATE });
+  }
+
+  /**
+   * Attach persistent storage and load the stored versions
+   */
+  async connect(store: PromptTemplateStore): Promise<void> {
+    this.store = store;
+    await this.refresh();
+  }
+
+  /**
+   * Reload stored versions, picking up changes made by other instances
+   */
+  async refresh(): Promise<void> {
+    if (!this.store) {
+      return;
+    }
+
+    const stored = await this.store.loadAll();
+    this.templates = new Map([[BUILTIN_PROMPT_TEMPLATE.id, { ...BUILTIN_PROMPT_TEMPLATE }]]);
+    for (const template of stored) {
+      this.templates.set(template.id, template);
+    }
+    this.syncBuiltin();
+
+    console.debug('[PromptTemplates] Loaded stored templates', { count: stored.length });
+  }
+
+  /**
+   * Most specific active template: collection + intent, collection, intent, then global
+   */
+  resolve(collection?: string, intent?: string): PromptTemplate {
+    const scopes: Array<[string, string]> = [
+      [collection || ANY_SCOPE, intent || ANY_SCOPE],
+      [collection || ANY_SCOPE, ANY_SCOPE],
+      [ANY_SCOPE, intent || ANY_SCOPE],
+      [ANY_SCOPE, ANY_SCOPE],
+    ];
+
+    for (const [scopeCollection, scopeIntent] of scopes) {
+      const active = this.findActive(scopeCollection, scopeIntent);
+      if (active) {
+        return active;
+      }
+    }
+
+    return BUILTIN_PROMPT_TEMPLATE;
+  }
+
+  /**
+   * All versions, newest first within each scope
+   */
+  list(): PromptTemplate[] {
+    return [...this.templates.values()].sort((a, b) =>
+      a.collection.localeCompare(b.collection) ||
+      a.intent.localeCompare(b.intent) ||
+      b.version - a.version
+    );
+  }
+
+  get(id: string): PromptTemplate | undefined {
+    return this.templates.get(id);
+  }
+
+  /**
+   * Store a new version of a scope's template, optionally activating it
+   */
+  async create(input: PromptTemplateInput): Promise<PromptTemplate> {
+    const unknown = findUnknownVariables(input.template);
+    if (unknown.length > 0) {
+      throw new RAGError(
+        `Unknown template variables: ${unknown.join(', ')}`,
+        'INVALID_PROMPT_TEMPLATE',
+        { unknown, allowed: PROMPT_TEMPLATE_VARIABLES }
+      );
+    }
+
+    const collection = input.collection || ANY_SCOPE;
+    const intent = input.intent || ANY_SCOPE;
+    const latest = Math.max(
+      0,
+      ...[...this.templates.values()]
+        .filter(template => template.collection === collection && template.intent === intent)
+        .map(template => template.version)
+    );
+
+    const template: PromptTemplate = {
+      id: uuidv4(),
+      collection,
+      intent,
+      version: latest + 1,
+      template: input.template,
+      ...(input.description && { description: input.description }),
+      active: false,
+      createdAt: new Date().toISOString(),
+    };
+
+    await this.store?.save(template);
+    this.templates.set(template.id, template);
+
+    console.debug('[PromptTemplates] Created template version', {
+      id: template.id,
+      version: formatTemplateVersion(template),
+    });
+
+    return input.activate ? this.activate(template.id) : template;
+  }
+
+  /**
+   * Make a version the active one in its scope. Activating the built-in template
+   * deactivates every stored global version, restoring the shipped default.
+   */
+  async activate(id: string): Promise<PromptTemplate> {
+    const template = this.templates.get(id);
+    if (!template) {
+      throw new RAGError(`No prompt template with id ${id}`, 'PROMPT_TEMPLATE_NOT_FOUND');
+    }
+
+    const storedId = template.id === BUILTIN_PROMPT_TEMPLATE.id ? null : template.id;
+    await this.store?.setActive(template.collection, template.intent, storedId);
+
+    for (const candidate of this.templates.values()) {
+      if (candidate.collection === template.collection && candidate.intent === template.intent) {
+        candidate.active = candidate.id === template.id;
+      }
+    }
+    this.syncBuiltin();
+
+    console.debug('[PromptTemplates] Activated template version', {
+      id: template.id,
+      version: formatTemplateVersion(template),
+    });
+
+    return template;
+  }
+
+  private findActive(collection: string, intent: string): PromptTemplate | undefined {
+    for (const template of this.templates.values()) {
+      if (template.active && template.collection === collection && template.intent === intent) {
+        return template;
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * The built-in template is active whenever no stored global version is
+   */
+  private syncBuiltin(): void {
+    const builtin = this.templates.get(BUILTIN_PROMPT_TEMPLATE.id);
+    if (!builtin) {
+      return;
+    }
+
+    builtin.active = ![...this.templates.values()].some(template =>
+      template.id !== builtin.id &&
+      template.active &&
+      template.collection === ANY_SCOPE &&
+      template.intent === ANY_SCOPE
+    );
+  }
+}
+
+export interface PostgresPromptTemplateOptions {
+  connectionString?: string;
+  tableName?: string;
+}
+
+/**
+ * Postgres-backed template storage
+ */
+export class PostgresPromptTemplateStore implements PromptTemplateStore {
+  private readonly pool: Pool;
+  private readonly tableName: string;
+  private disabled = false;
+
+  constructor(options: PostgresPromptTemplateOptions = {}) {
+    this.tableName = options.tableName || 'prompt_templates';
+    this.pool = new Pool({
+      connectionString: options.connectionString || config.DATABASE_URL,
+      max: 2,
+      connectionTimeoutMillis: 5000,
+    });
+
+    this.pool.on('error', (err) => {
+      console.error('[PromptTemplates] Unexpected Postgres pool error', err.message);
+    });
+  }
+
+  async loadAll(): Promise<PromptTemplate[]> {
+    if (this.disabled) {
+      return [];
+    }
+
+    try {
+      const result = await this.pool.query(
+        `SELECT id, collection, intent, version, template, description, active, created_at
+         FROM ${this.tableName}`
+      );
+
+      return result.rows.map(row => ({
+        id: row.id,
+        collection: row.collection,
+        intent: row.intent,
+        version: Number(row.version),
+        template: row.template,
+        ...(row.description && { description: row.description }),
+        active: row.active,
+        createdAt: new Date(row.created_at).toISOString(),
+      }));
+    } catch (error) {
+      // Templates must never stop the API from starting; fall back to the built-in prompt
+      this.handleError('read', error);
+      return [];
+    }
+  }
+
+  async save(template: PromptTemplate): Promise<void> {
+    if (this.disabled) {
+      return;
+    }
+
+    try {
+      await this.pool.query(
+        `INSERT INTO ${this.tableName} (id, collection, intent, version, template, description, active, created_at)
+         VALUES ($1, $2, $3, $4, $5, $6, $7, $8)`,
+        [
+          template.id,
+          template.collection,
+          template.intent,
+          template.version,
+          template.template,
+          template.description ?? null,
+          template.active,
+          template.createdAt,
+        ]
+      );
+    } catch (error) {
+      this.handleError('write', error);
+    }
+  }
+
+  async setActive(collection: string, intent: string, id: string | null): Promise<void> {
+    if (this.disabled) {
+      return;
+    }
+
+    try {
+      await this.pool.query(
+        // id = NULL is NULL, not false, when the built-in template is activated
+        `UPDATE ${this.tableName}
+         SET active = COALESCE(id = $3, false)
+         WHERE collection = $1 AND intent = $2`,
+        [collection, intent, id]
+      );
+    } catch (error) {
+      this.handleError('write', error);
+    }
+  }
+
+  async close(): Promise<void> {
+    await this.pool.end();
+  }
+
+  /**
+   * A missing table leaves templates in memory only; other write failures reach the admin caller
+   */
+  private handleError(operation: 'read' | 'write', error: unknown): void {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+
+    if (/relation .* does not exist/i.test(message)) {
+      this.disabled = true;
+      console.warn('[PromptTemplates] prompt_templates table missing, versions are kept in memory only - run the migration to persist them');
+      return;
+    }
+
+    if (operation === 'read') {
+      console.warn('[PromptTemplates] Postgres read failed', { error: message });
+      return;
+    }
+
+    throw new RAGError(
+      `Failed to store prompt template: ${message}`,
+      'PROMPT_TEMPLATE_STORE_FAILED'
+    );
+  }
+}
+
+// Shared so the API, Slack and Teams pipelines use the same active versions
+export const promptTemplates = new PromptTemplateRegistry();
@@ -0,0 +1,90 @@
+/**
+ * Follow-up query rewriting for multi-turn conversations
+ * Turns context-dependent questions into standalone retrieval queries
+ */
+
+import type { ConversationTurn, LLMAdapter } from '@/types';
+
+export interface QueryRewriteResult {
+  query: string;
+  rewritten: boolean;
+}
+
+// Words that usually point back to an earlier turn
+const FOLLOW_UP_PATTERN = /^(and|also|what about|how about|same|then|ok|okay|but)\b|\b(it|its|this|that|these|those|they|them|there|one|ones|same|instead|else|too)\b/i;
+
+export class QueryRewriter {
+  constructor(
+    private llmAdapter: LLMAdapter,
+    private maxHistoryTurns: number = 3
+  ) {}
+
+  /**
+   * Rewrite a follow-up question into a standalone query using recent turns.
+   * Returns the original query when there is no history or it already stands alone.
+   */
+  async rewrite(query: string, history: ConversationTurn[]): Promise<QueryRewriteResult> {
+    if (history.length === 0 || !this.isLikelyFollowUp(query)) {
+      return { query, rewritten: false };
+    }
+
+    const recentTurns = history.slice(-this.maxHistoryTurns);
+    const transcript = recentTurns
+      .map(turn => `User: ${turn.rewrittenQuery || turn.query}\nAssistant: ${turn.summary}`)
+      .join('\n\n');
+
+    try {
+      const response = await this.llmAdapter.generate(
+        [
+          {
+            role: 'system',
+            content: 'You rewrite follow-up questions about PowerSchool into standalone search queries. Resolve pronouns and implied topics from the conversation. Respond with only the rewritten question.',
+          },
+          {
+            role: 'user',
+            content: `Conversation:\n${transcript}\n\nFollow-up question: ${query}\n\nStandalone question:`,
+          },
+        ],
+        { max_tokens: 100, temperature: 0 }
+      );
+
+      const rewrittenQuery = response
+        .split('\n')[0]!
+        .replace(/^standalone question:\s*/i, '')
+        .replace(/^["']|["']$/g, '')
+        .trim();
+
+      if (!rewrittenQuery) {
+        throw new Error('Empty rewrite response');
+      }
+
+      console.debug('[QueryRewriter] Rewrote follow-up query', {
+        original: query.substring(0, 100),
+        rewritten: rewrittenQuery.substring(0, 100),
+        historyTurns: recentTurns.length
+      });
+
+      return { query: rewrittenQuery, rewritten: true };
+
+    } catch (error) {
+      // Fall back to prefixing the previous question so retrieval still sees the topic
+      const previousQuery = recentTurns[recentTurns.length - 1]!;
+      const fallbackQuery = `${previousQuery.rewrittenQuery || previousQuery.query} ${query}`;
+
+      console.warn('[QueryRewriter] LLM rewrite failed, combining with previous question', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        fallbackQuery: fallbackQuery.substring(0, 100)
+      });
+
+      return { query: fallbackQuery, rewritten: true };
+    }
+  }
+
+  /**
+   * Heuristic check for questions that depend on earlier turns
+   */
+  isLikelyFollowUp(query: string): boolean {
+    const wordCount = query.trim().split(/\s+/).length;
+    return wordCount <= 4 || FOLLOW_UP_PATTERN.test(query);
+  }
+}
@@ -9,14 +9,43 @@ import type {
   LLMAdapter,
   RAGOptions,
   AskResponse,
+  AskStreamEvent,
+  ConversationTurn,
+  DebugInfo,
+  GroundingInfo,
   RetrievedDoc,
   SearchResult
 } from '@/types';
 import { RAGError } from '@/types';
-import { Retriever, type RetrievalOptions } from './retriever';
+import { Retriever, type ContextExpansionOptions, type DiversificationMode, type RetrievalOptions } from './retriever';
 import { PromptBuilder, type PromptOptions } from './promptBuilder';
-import { LLMClient } from './llmClient';
+import { LLMClient, type LLMResult, type ParsedResponse } from './llmClient';
+import { QueryRewriter } from './queryRewriter';
+import { answerCache as sharedAnswerCache, type AnswerCacheHit, type SemanticAnswerCache } from './answerCache';
+import { LLMReranker, LexicalReranker, type Reranker, type RerankerType } from './reranker';
+import {
+  extractClaims,
+  LexicalGroundingVerifier,
+  LLMGroundingVerifier,
+  removeClaims,
+  type GroundingVerifier,
+  type GroundingVerifierType
+} from './groundingVerifier';
+import { formatStructuredSteps, type StructuredAnswer } from './structuredOutput';
+import { getGlossary } from './glossary';
+import {
+  formatTemplateVersion,
+  promptTemplates as sharedPromptTemplates,
+  type PromptIntent,
+  type PromptTemplateRegistry
+} from './promptTemplates';
+import {
+  curatedAnswers as sharedCuratedAnswers,
+  type CuratedAnswerMatch,
+  type CuratedAnswerRegistry
+} from './curatedAnswers';
 import config from '@/utils/config';
+import { tokenCounter, type Tokenizer } from '@/utils/tokenizer';
 
 export interface RAGPipelineOptions {
   topK?: number;
@@ -25,24 +54,66 @@ export interface RAGPipelineOptions {
   contentTypes?: string[];
   sections?: string[];
   collections?: string[];
+  /** Only pages whose URL starts with one of these prefixes */
+  urlPrefixes?: string[];
+  /** Only chunks (re)indexed at or after this time */
+  updatedAfter?: Date;
   useHybridSearch?: boolean;
   vectorWeight?: number;
   textWeight?: number;
+  reranker?: RerankerType | Reranker;
+  rerankTopN?: number;
+  conversationHistory?: ConversationTurn[];
+  maxHistoryTurns?: number;
+  useCache?: boolean;
+  expandContext?: boolean;
+  contextExpansion?: Omit<ContextExpansionOptions, 'maxTokens'>;
+  diversification?: DiversificationMode;
+  mmrLambda?: number;
+  maxChunksPerUrl?: number;
+  groundingVerifier?: GroundingVerifierType | GroundingVerifier;
+  /** What to do with unsupported claims: report only, remove them, or refuse below minGroundedRatio */
+  groundingAction?: GroundingInfo['action'];
+  minGroundedRatio?: number;
+  /** 'json' requests a validated answer document; streaming requests always use markdown */
+  outputFormat?: 'markdown' | 'json';
+  /** Selects intent-specific prompt templates; defaults from prefer_steps */
+  intent?: PromptIntent;
+  /** Aborts a streamed generation, e.g. when the client disconnects */
+  signal?: AbortSignal;
 }
 
 export class RAGPipeline {
   private retriever: Retriever;
   private promptBuilder: PromptBuilder;
   private llmClient: LLMClient;
+  private queryRewriter: QueryRewriter;
+  private rerankers: Record<Exclude<RerankerType, 'none'>, Reranker>;
+  private groundingVerifiers: Record<Exclude<GroundingVerifierType, 'none'>, GroundingVerifier>;
+  private tokenizer: Tokenizer;
 
   constructor(
-    embeddingAdapter: EmbeddingAdapter,
+    private embeddingAdapter: EmbeddingAdapter,
     vectorStore: VectorStoreAdapter,
-    llmAdapter: LLMAdapter
+    llmAdapter: LLMAdapter,
+    private answerCache: SemanticAnswerCache | null = sharedAnswerCache,
+    private promptTemplates: PromptTemplateRegistry = sharedPromptTemplates,
+    private curatedAnswers: CuratedAnswerRegistry | null = sharedCuratedAnswers
   ) {
-    this.retriever = new Retriever(embeddingAdapter, vectorStore);
+    // Count context with the generating model's tokenizer so packing matches what the LLM sees
+    this.tokenizer = tokenCounter.getTokenizer(llmAdapter.getModel());
+    this.retriever = new Retriever(embeddingAdapter, vectorStore, this.tokenizer, getGlossary(config.GLOSSARY_PATH));
     this.promptBuilder = new PromptBuilder();
     this.llmClient = new LLMClient(llmAdapter);
+    this.queryRewriter = new QueryRewriter(llmAdapter);
+    this.rerankers = {
+      lexical: new LexicalReranker(),
+      llm: new LLMReranker(llmAdapter),
+    };
+    this.groundingVerifiers = {
+      lexical: new LexicalGroundingVerifier(),
+      llm: new LLMGroundingVerifier(llmAdapter),
+    };
   }
 
   /**
@@ -51,9 +122,34 @@ export class RAGPipeline {
   async process(
     query: string,
     options: Partial<RAGOptions & RAGPipelineOptions> = {}
+  ): Promise<AskResponse> {
+    return this.execute(query, options);
+  }
+
+  /**
+   * Process a query and emit retrieval results, answer tokens and the final
+   * response as they become available
+   */
+  async processStream(
+    query: string,
+    options: Partial<RAGOptions & RAGPipelineOptions>,
+    onEvent: (event: AskStreamEvent) => void
+  ): Promise<AskResponse> {
+    const response = await this.execute(query, options, onEvent);
+    onEvent({ type: 'done', response });
+    return response;
+  }
+
+  /**
+   * Run the pipeline stages; onEvent is only supplied for streaming requests
+   */
+  private async execute(
+    query: string,
+    options: Partial<RAGOptions & RAGPipelineOptions>,
+    onEvent?: (event: AskStreamEvent) => void
   ): Promise<AskResponse> {
     const pipelineStartTime = Date.now();
-    let debugInfo = {
+    const debugInfo: DebugInfo = {
       is_fallback: false,
       pipeline_stage: 'initialization',
       processing_time_ms: 0,
@@ -65,53 +161,177 @@ export class RAGPipeline {
       const {
         prefer_steps = false,
         max_tokens = config.MAX_TOKENS,
-        top_k = 10,
-        context_window_tokens = 3000,
+        // Accept the camelCase names used by RAGPipelineOptions callers (e.g. the orchestrator)
+        top_k = options.topK ?? 10,
+        context_window_tokens = options.contextWindowTokens ?? 3000,
         similarityThreshold = 0.3, // CHANGED: Lowered from 0.7 to 0.3 for better recall
         contentTypes,
         sections,
         collections,
+        urlPrefixes,
+        updatedAfter,
         useHybridSearch = false,
-        vectorWeight = 0.7,
-        textWeight = 0.3,
+        vectorWeight = 0.5,
+        textWeight = 0.5,
+        reranker: rerankerOption = 'none',
+        rerankTopN = 20,
+        conversationHistory = [],
+        maxHistoryTurns = 3,
+        useCache = true,
+        expandContext = false,
+        contextExpansion = {},
+        diversification = 'none',
+        mmrLambda = 0.7,
+        maxChunksPerUrl,
+        groundingVerifier: groundingVerifierOption = 'lexical',
+        groundingAction = 'flag',
+        minGroundedRatio = 0.5,
+        outputFormat = config.LLM_OUTPUT_FORMAT ?? 'markdown',
+        intent = prefer_steps ? 'instructions' : 'details',
+        signal,
       } = options;
 
+      const reranker = this.resolveReranker(rerankerOption);
+      const groundingVerifier = this.resolveGroundingVerifier(groundingVerifierOption);
+      // Streamed tokens go straight to the client, where raw JSON would be unreadable
+      const structuredOutput = outputFormat === 'json' && !onEvent;
+      const diversify = diversification !== 'none' || maxChunksPerUrl !== undefined;
+      const history = conversationHistory.slice(-maxHistoryTurns);
+      // A single target collection gets its own persona and templates
+      const collection = collections?.length === 1 ? collections[0] : undefined;
+      const promptTemplate = this.promptTemplates.resolve(collection, intent);
+      const promptTemplateVersion = formatTemplateVersion(promptTemplate);
+      debugInfo.prompt_template = promptTemplateVersion;
+
+      // Step 0: Serve near-identical questions from the semantic answer cache.
+      // Follow-ups are never cached because their answers depend on the thread.
+      const cache = useCache && history.length === 0 ? this.answerCache : null;
+      const cacheConfigKey = this.buildCacheConfigKey({
+        prefer_steps,
+        max_tokens,
+        top_k,
+        context_window_tokens,
+        similarityThreshold,
+        contentTypes,
+        sections,
+        urlPrefixes,
+        updatedAfter,
+        useHybridSearch,
+        vectorWeight: useHybridSearch ? vectorWeight : undefined,
+        textWeight: useHybridSearch ? textWeight : undefined,
+        reranker: reranker?.name,
+        contextExpansion: expandContext ? contextExpansion : false,
+        diversification,
+        mmrLambda: diversification === 'mmr' ? mmrLambda : undefined,
+        maxChunksPerUrl,
+        groundingVerifier: groundingVerifier?.name,
+        groundingAction: groundingVerifier ? groundingAction : undefined,
+        minGroundedRatio: groundingVerifier && groundingAction !== 'flag' ? minGroundedRatio : undefined,
+        outputFormat,
+        promptTemplate: promptTemplateVersion,
+      });
+      let queryEmbedding: number[] | undefined;
+      // Follow-ups are never matched against curated answers either
+      const curated = history.length === 0 && this.curatedAnswers && this.curatedAnswers.size > 0
+        ? this.curatedAnswers
+        : null;
+
+      if (cache || curated) {
+        try {
+          queryEmbedding = await this.embeddingAdapter.embed(query);
+        } catch (error) {
+          // The retriever has its own embedding fallback; just skip the cache and similarity matching
+          console.warn('[RAG Pipeline] Query embedding failed, skipping answer cache', {
+            error: error instanceof Error ? error.message : 'Unknown error'
+          });
+        }
+      }
+
+      // Admin-approved answers take precedence over cached and generated ones
+      if (curated) {
+        const match = await curated.match(query, queryEmbedding, collections, this.embeddingAdapter).catch(error => {
+          console.warn('[RAG Pipeline] Curated answer matching failed, continuing with retrieval', {
+            error: error instanceof Error ? error.message : 'Unknown error'
+          });
+          return null;
+        });
+        if (match) {
+          return this.createCuratedResponse(match, pipelineStartTime, onEvent);
+        }
+      }
+
+      if (cache) {
+        const hit = queryEmbedding && cache.lookup(queryEmbedding, collections, cacheConfigKey);
+        if (hit) {
+          return this.createCachedResponse(hit, pipelineStartTime, onEvent);
+        }
+      }
+
+      // Follow-ups like "what about for teachers?" need the earlier topic to retrieve anything useful
+      const { query: retrievalQuery, rewritten } = await this.queryRewriter.rewrite(query, history);
+      if (rewritten) {
+        debugInfo.rewritten_query = retrievalQuery;
+      }
+      if (history.length > 0) {
+        debugInfo.history_turns = history.length;
+      }
+
       // Step 1: Retrieve relevant documents
       console.debug('[RAG Pipeline] Starting document retrieval...', {
         query: query.substring(0, 100),
+        retrievalQuery: rewritten ? retrievalQuery.substring(0, 100) : undefined,
         retrievalOptions: {
           topK: top_k,
           similarityThreshold,
           contentTypes,
           sections,
           collections,
+          urlPrefixes,
+          updatedAfter,
           useHybridSearch
         }
       });
       const retrievalStartTime = Date.now();
       
+      // Over-fetch candidates when reranking so the reranker can promote lower vector hits,
+      // and again when diversifying so there are other pages to choose from
+      const candidateCount = reranker ? Math.max(top_k, rerankTopN) : top_k;
       const retrievalOptions: RetrievalOptions = {
-        topK: top_k,
+        topK: diversify ? candidateCount * 3 : candidateCount,
         similarityThreshold,
         ...(contentTypes && { contentTypes }),
         ...(sections && { sections }),
         ...(collections && { collections }),
+        ...(urlPrefixes && { urlPrefixes }),
+        ...(updatedAfter && { updatedAfter }),
+        ...(queryEmbedding && { queryEmbedding }),
       };
 
       const retrievalResult = useHybridSearch
-        ? await this.retriever.hybridRetrieve(query, {
+        ? await this.retriever.hybridRetrieve(retrievalQuery, {
             ...retrievalOptions,
             vectorWeight,
             textWeight,
           })
-        : await this.retriever.retrieve(query, retrievalOptions);
+        : await this.retriever.retrieve(retrievalQuery, retrievalOptions);
 
       const retrievalTime = Date.now() - retrievalStartTime;
+      const embeddingTime = retrievalResult.embeddingTimeMs ?? 0;
 
       // Update debug info
       debugInfo.pipeline_stage = 'retrieval_completed';
       debugInfo.documents_found = retrievalResult.results.length;
-      debugInfo.used_mock_embedding = (retrievalResult as any).usedMockEmbedding || false;
+      debugInfo.timings = {
+        query_embedding_time_ms: embeddingTime,
+        search_time_ms: retrievalTime - embeddingTime,
+      };
+      if (retrievalResult.results.length > 0) {
+        debugInfo.top_score = Math.max(...retrievalResult.results.map(result => result.score));
+      }
+      debugInfo.used_mock_embedding = retrievalResult.usedMockEmbedding ?? false;
+      if (retrievalResult.glossaryHits) {
+        debugInfo.glossary_hits = retrievalResult.glossaryHits;
+      }
 
       console.debug('[RAG Pipeline] Retrieval completed', {
         documentsFound: retrievalResult.results.length,
@@ -136,7 +356,7 @@ export class RAGPipeline {
         if (!useHybridSearch) {
           console.debug('[RAG Pipeline] Attempting hybrid search fallback...');
           try {
-            const hybridResult = await this.retriever.hybridRetrieve(query, {
+            const hybridResult = await this.retriever.hybridRetrieve(retrievalQuery, {
               ...retrievalOptions,
               vectorWeight: 0.5,
               textWeight: 0.5,
@@ -154,6 +374,10 @@ export class RAGPipeline {
               // Update results and continue with pipeline
               retrievalResult.results = hybridResult.results;
               debugInfo.documents_found = hybridResult.results.length;
+              debugInfo.top_score = Math.max(...hybridResult.results.map(result => result.score));
+              if (hybridResult.glossaryHits) {
+                debugInfo.glossary_hits = hybridResult.glossaryHits;
+              }
               debugInfo.pipeline_stage = 'hybrid_search_fallback';
             } else {
               console.debug('[RAG Pipeline] Hybrid search also returned no results');
@@ -170,15 +394,73 @@ export class RAGPipeline {
         }
       }
 
-      // Step 2: Build context from retrieved documents
+      // Step 2: Optionally diversify so one long page does not fill every slot
+      if (diversify) {
+        retrievalResult.results = await this.retriever.diversify(
+          retrievalResult.results,
+          retrievalResult.usedMockEmbedding ? null : retrievalResult.queryEmbedding,
+          {
+            mode: diversification,
+            lambda: mmrLambda,
+            topK: candidateCount,
+            ...(maxChunksPerUrl !== undefined && { maxChunksPerUrl }),
+          }
+        );
+        debugInfo.diversification = diversification === 'mmr' ? 'mmr' : 'url_cap';
+      }
+
+      // Step 2a: Optionally rerank candidates before context packing
+      if (reranker) {
+        retrievalResult.results = (
+          await this.retriever.rerank(retrievalQuery, retrievalResult.results, reranker, rerankTopN)
+        ).slice(0, top_k);
+        debugInfo.reranker = reranker.name;
+        debugInfo.pipeline_stage = 'rerank_completed';
+      }
+
+      const promptOptions: PromptOptions = {
+        preferSteps: prefer_steps,
+        maxTokens: max_tokens,
+        includeReferences: true,
+        history,
+        outputFormat: structuredOutput ? 'json' : 'markdown',
+        template: promptTemplate,
+        ...(collection && { collection }),
+      };
+      const contextBudget = this.resolveContextBudget(query, promptOptions, context_window_tokens, max_tokens);
+      debugInfo.context_budget_tokens = contextBudget;
+      debugInfo.tokenizer = this.tokenizer.name;
+
+      // Step 2b: Optionally pull in neighbouring chunks so split procedures stay complete
+      if (expandContext) {
+        try {
+          const expandedResults = await this.retriever.expandContext(retrievalResult.results, {
+            ...contextExpansion,
+            maxTokens: contextBudget,
+          });
+          debugInfo.expanded_chunks = expandedResults.reduce(
+            (total, result) => total + (result.expandedChunks ? result.expandedChunks.length - 1 : 0),
+            0
+          );
+          retrievalResult.results = expandedResults;
+        } catch (error) {
+          console.warn('[RAG Pipeline] Context expansion failed, using matched chunks only', {
+            error: error instanceof Error ? error.message : 'Unknown error'
+          });
+        }
+      }
+
+      // Step 3: Build context from retrieved documents
       console.debug('[RAG Pipeline] Building context from retrieved documents...', {
         documentsCount: retrievalResult.results.length,
-        contextWindowTokens: context_window_tokens
+        contextWindowTokens: context_window_tokens,
+        contextBudget
       });
       const contextResult = this.retriever.buildContext(
         retrievalResult.results,
-        context_window_tokens
+        contextBudget
       );
+      debugInfo.context_tokens = contextResult.tokenCount;
 
       console.debug('[RAG Pipeline] Context built successfully', {
         contextTokens: contextResult.tokenCount,
@@ -186,18 +468,12 @@ export class RAGPipeline {
         contextLength: contextResult.context.length
       });
 
-      // Step 3: Build prompts
+      // Step 4: Build prompts
       console.debug('[RAG Pipeline] Building prompts...', {
         preferSteps: prefer_steps,
         maxTokens: max_tokens,
         includeReferences: true
       });
-      const promptOptions: PromptOptions = {
-        preferSteps: prefer_steps,
-        maxTokens: max_tokens,
-        includeReferences: true,
-      };
-
       const promptResult = this.promptBuilder.buildPrompt(
         query,
         contextResult.context,
@@ -205,31 +481,77 @@ export class RAGPipeline {
         promptOptions
       );
 
+      debugInfo.prompt_tokens = tokenCounter.countMessageTokens(
+        [
+          { role: 'system', content: promptResult.systemPrompt },
+          { role: 'user', content: promptResult.userPrompt },
+        ],
+        this.llmClient.getAdapterInfo().model
+      );
+
       console.debug('[RAG Pipeline] Prompts built successfully', {
         systemPromptLength: promptResult.systemPrompt.length,
         userPromptLength: promptResult.userPrompt.length,
+        promptTokens: debugInfo.prompt_tokens,
         citationsCount: promptResult.citations.length
       });
 
-      // Step 4: Generate response with LLM
+      const retrievedDocs = this.formatRetrievedDocs(contextResult.usedResults);
+      onEvent?.({
+        type: 'retrieval',
+        retrieved_docs: retrievedDocs,
+        citations: promptResult.citations,
+      });
+
+      // Step 5: Generate response with LLM
       console.debug('[RAG Pipeline] Generating LLM response...', {
         model: this.llmClient.getAdapterInfo().model,
         maxTokens: max_tokens,
-        temperature: 0.1
+        temperature: 0.1,
+        streaming: Boolean(onEvent),
+        structuredOutput
       });
       const llmStartTime = Date.now();
       
-      const llmResult = await this.llmClient.generate(
-        promptResult.systemPrompt,
-        promptResult.userPrompt,
-        {
-          max_tokens,
-          temperature: 0.1,
-          top_p: 0.9,
+      const generationOptions = {
+        max_tokens,
+        temperature: 0.1,
+        top_p: 0.9,
+      };
+
+      let llmResult: LLMResult;
+      let structured: StructuredAnswer | undefined;
+
+      if (onEvent) {
+        llmResult = await this.llmClient.generateStream(
+          promptResult.systemPrompt,
+          promptResult.userPrompt,
+          delta => onEvent({ type: 'token', delta }),
+          { ...generationOptions, ...(signal && { signal }) }
+        );
+      } else if (structuredOutput) {
+        const structuredResult = await this.llmClient.generateStructured(
+          promptResult.systemPrompt,
+          promptResult.userPrompt,
+          generationOptions
+        );
+        llmResult = structuredResult;
+        structured = structuredResult.structured;
+        debugInfo.output_mode = structured ? 'json' : 'json_fallback';
+        if (structured?.confidence !== undefined) {
+          debugInfo.model_confidence = structured.confidence;
         }
-      );
+      } else {
+        llmResult = await this.llmClient.generate(
+          promptResult.systemPrompt,
+          promptResult.userPrompt,
+          generationOptions
+        );
+      }
+      debugInfo.output_mode ??= 'markdown';
 
       const llmTime = Date.now() - llmStartTime;
+      debugInfo.timings = { ...debugInfo.timings, llm_generation_time_ms: llmTime };
 
       console.debug('[RAG Pipeline] LLM response generated', {
         responseLength: llmResult.response.length,
@@ -239,9 +561,25 @@ export class RAGPipeline {
         responsePreview: llmResult.response.substring(0, 200) + '...'
       });
 
-      // Step 5: Parse and validate response
+      // Step 6: Resolve inline citations, then parse and validate response.
+      // Structured answers carry their markdown in the answer field.
+      const answerText = structured ? structured.answer : llmResult.response;
+      const resolvedCitations = this.llmClient.resolveCitations(answerText, promptResult.citations, structured?.citations);
+      if (resolvedCitations.invalidMarkers.length > 0) {
+        debugInfo.invalid_citation_markers = resolvedCitations.invalidMarkers.length;
+      }
+      if (resolvedCitations.removedUrls.length > 0) {
+        debugInfo.removed_urls = resolvedCitations.removedUrls.length;
+      }
+
       console.debug('[RAG Pipeline] Parsing and validating response...');
-      const parsedResponse = this.llmClient.parseResponse(llmResult.response);
+      const parsedResponse: ParsedResponse = structured
+        ? {
+            summary: structured.summary,
+            ...(structured.steps?.length && { steps: formatStructuredSteps(structured.steps) }),
+            fullAnswer: resolvedCitations.answer,
+          }
+        : this.llmClient.parseResponse(resolvedCitations.answer);
       
       console.debug('[RAG Pipeline] Response parsed', {
         summaryLength: parsedResponse.summary.length,
@@ -250,7 +588,7 @@ export class RAGPipeline {
       });
       
       // Validate response quality
-      const validation = this.llmClient.validateResponse(llmResult.response);
+      const validation = this.llmClient.validateResponse(resolvedCitations.answer);
       if (!validation.valid) {
         console.warn('[RAG Pipeline] Response validation issues detected:', {
           issues: validation.issues,
@@ -259,7 +597,7 @@ export class RAGPipeline {
       }
 
       // Clean and format response
-      const cleanedResponse = this.llmClient.cleanResponse(llmResult.response);
+      const cleanedResponse = this.llmClient.cleanResponse(resolvedCitations.answer);
 
       console.debug('[RAG Pipeline] Response cleaned', {
         originalLength: llmResult.response.length,
@@ -267,19 +605,74 @@ export class RAGPipeline {
         cleanedPreview: cleanedResponse.substring(0, 200) + '...'
       });
 
-      // Step 6: Prepare final response
+      // Step 6b: Verify the answer's claims against the chunks it was generated from
+      let finalAnswer = cleanedResponse;
+      let finalParsed = parsedResponse;
+
+      if (groundingVerifier) {
+        const claims = extractClaims(cleanedResponse);
+        const support = await groundingVerifier.verify(claims, contextResult.usedResults);
+        const unsupportedClaims = support.filter(item => !item.supported).map(item => item.claim);
+        const supportedRatio = support.length > 0 ? (support.length - unsupportedClaims.length) / support.length : 1;
+        const refuse = groundingAction !== 'flag' && supportedRatio < minGroundedRatio;
+
+        const grounding: GroundingInfo = {
+          verdict: unsupportedClaims.length === 0 ? 'grounded' : supportedRatio >= minGroundedRatio ? 'partially_grounded' : 'ungrounded',
+          verifier: groundingVerifier.name,
+          supported_ratio: supportedRatio,
+          action: refuse ? 'refuse' : groundingAction,
+          claims: support.map(item => ({
+            claim: item.claim,
+            supported: item.supported,
+            score: item.score,
+            ...(item.sourceId && { source_id: item.sourceId }),
+          })),
+        };
+
+        if (!refuse && groundingAction === 'strip' && unsupportedClaims.length > 0) {
+          finalAnswer = removeClaims(cleanedResponse, unsupportedClaims);
+          finalParsed = this.llmClient.parseResponse(finalAnswer);
+          grounding.removed_claims = unsupportedClaims.length;
+        }
+
+        debugInfo.grounding = grounding;
+
+        console.debug('[RAG Pipeline] Grounding verification completed', {
+          verifier: grounding.verifier,
+          verdict: grounding.verdict,
+          action: grounding.action,
+          claims: support.length,
+          unsupportedClaims: unsupportedClaims.length,
+          supportedRatio
+        });
+
+        // Refusals are not cached so a later, better-grounded answer can be stored
+        if (refuse) {
+          debugInfo.response_tokens = llmResult.tokenCount;
+          return this.createFallbackResponse(query, pipelineStartTime, 'UNGROUNDED_ANSWER', debugInfo);
+        }
+      }
+
+      // Step 7: Prepare final response
       const totalTime = Date.now() - pipelineStartTime;
       
       // Update final debug info
       debugInfo.pipeline_stage = 'completed';
       debugInfo.processing_time_ms = totalTime;
+      debugInfo.response_tokens = llmResult.tokenCount;
+      debugInfo.timings = {
+        ...debugInfo.timings,
+        total_time_ms: totalTime,
+        context_tokens_used: contextResult.tokenCount,
+        response_tokens: llmResult.tokenCount,
+      };
 
       const response: AskResponse = {
-        answer: cleanedResponse,
-        summary: parsedResponse.summary,
-        ...(parsedResponse.steps && { steps: parsedResponse.steps }),
-        citations: promptResult.citations,
-        retrieved_docs: this.formatRetrievedDocs(contextResult.usedResults),
+        answer: finalAnswer,
+        summary: finalParsed.summary,
+        ...(finalParsed.steps && { steps: finalParsed.steps }),
+        citations: resolvedCitations.citations,
+        retrieved_docs: retrievedDocs,
         debug_info: debugInfo,
       };
 
@@ -297,6 +690,10 @@ export class RAGPipeline {
         debugInfo
       });
 
+      if (cache && queryEmbedding) {
+        cache.store(query, queryEmbedding, collections, cacheConfigKey, response);
+      }
+
       return response;
 
     } catch (error) {
@@ -405,6 +802,7 @@ export class RAGPipeline {
     debugInfo.fallback_reason = reason;
     debugInfo.pipeline_stage = 'fallback';
     debugInfo.processing_time_ms = totalTime;
+    debugInfo.timings = { ...debugInfo.timings, total_time_ms: totalTime };
 
     console.debug('[RAG Pipeline] Creating enhanced fallback response', {
       reason,
@@ -427,6 +825,11 @@ export class RAGPipeline {
         fallbackAnswer = this.buildEnhancedFallbackAnswer(query, 'Search system encountered an error.');
         summary = `Search temporarily unavailable for "${query}" - please try again.`;
         break;
+
+      case 'UNGROUNDED_ANSWER':
+        fallbackAnswer = this.buildEnhancedFallbackAnswer(query, 'The retrieved documentation did not support a reliable answer.');
+        summary = `"${query}" was not found in the PSSIS-Admin documentation.`;
+        break;
         
       default:
         fallbackAnswer = this.buildEnhancedFallbackAnswer(query);
@@ -507,13 +910,172 @@ export class RAGPipeline {
    * Format retrieved documents for the API response
    */
   private formatRetrievedDocs(searchResults: SearchResult[]): RetrievedDoc[] {
+    const round = (score: number): number => Math.round(score * 1000) / 1000; // Round to 3 decimal places
+
     return searchResults.map(result => ({
       id: result.id,
-      score: Math.round(result.score * 1000) / 1000, // Round to 3 decimal places
+      score: round(result.score),
+      url: result.metadata.url,
+      title: result.metadata.title,
       excerpt: this.createExcerpt(result.content, 200),
+      ...(result.preRerankScore !== undefined && {
+        pre_rerank_score: round(result.preRerankScore),
+        rerank_score: round(result.score),
+      }),
     }));
   }
 
+  /**
+   * Cap the context budget so prompt, context and the reserved answer fit the model's window
+   */
+  private resolveContextBudget(
+    query: string,
+    promptOptions: PromptOptions,
+    requestedTokens: number,
+    maxResponseTokens: number
+  ): number {
+    const { model, maxTokens: modelWindow } = this.llmClient.getAdapterInfo();
+    const emptyPrompt = this.promptBuilder.buildPrompt(query, '', [], promptOptions);
+    const promptOverhead = tokenCounter.countMessageTokens(
+      [
+        { role: 'system', content: emptyPrompt.systemPrompt },
+        { role: 'user', content: emptyPrompt.userPrompt },
+      ],
+      model
+    );
+
+    const available = Math.max(0, modelWindow - maxResponseTokens - promptOverhead);
+
+    if (available < requestedTokens) {
+      console.warn('[RAG Pipeline] Context budget reduced to fit the model window', {
+        model,
+        modelWindow,
+        requestedTokens,
+        maxResponseTokens,
+        promptOverhead,
+        available
+      });
+    }
+
+    return Math.min(requestedTokens, available);
+  }
+
+  /**
+   * Build the part of the cache key that depends on pipeline options.
+   * Keys are sorted at every depth so nested options (filters, context expansion) stay part of the key.
+   */
+  private buildCacheConfigKey(options: Record<string, unknown>): string {
+    return JSON.stringify(options, (_key, value: unknown) =>
+      value && typeof value === 'object' && !Array.isArray(value)
+        ? Object.fromEntries(Object.entries(value).sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0)))
+        : value
+    );
+  }
+
+  /**
+   * Return a cached answer, replaying it as stream events when streaming
+   */
+  private createCachedResponse(
+    hit: AnswerCacheHit,
+    pipelineStartTime: number,
+    onEvent?: (event: AskStreamEvent) => void
+  ): AskResponse {
+    const { entry, similarity } = hit;
+
+    console.debug('[RAG Pipeline] Serving answer from semantic cache', {
+      cacheEntryId: entry.id,
+      cachedQuery: entry.query.substring(0, 100),
+      similarity,
+      hits: entry.hits
+    });
+
+    const processingTime = Date.now() - pipelineStartTime;
+    const response: AskResponse = {
+      ...entry.response,
+      debug_info: {
+        ...(entry.response.debug_info || { is_fallback: false, documents_found: entry.response.retrieved_docs.length }),
+        pipeline_stage: 'cache_hit',
+        processing_time_ms: processingTime,
+        timings: { total_time_ms: processingTime },
+        cached: true,
+        cache_similarity: similarity,
+      },
+    };
+
+    onEvent?.({
+      type: 'retrieval',
+      retrieved_docs: response.retrieved_docs,
+      citations: response.citations,
+    });
+    onEvent?.({ type: 'token', delta: response.answer });
+
+    return response;
+  }
+
+  /**
+   * Return a curated answer verbatim, replaying it as stream events when streaming
+   */
+  private createCuratedResponse(
+    match: CuratedAnswerMatch,
+    pipelineStartTime: number,
+    onEvent?: (event: AskStreamEvent) => void
+  ): AskResponse {
+    const { answer, similarity, matchedQuestion } = match;
+
+    console.debug('[RAG Pipeline] Serving curated answer', {
+      curatedAnswerId: answer.id,
+      matchedQuestion: matchedQuestion.substring(0, 100),
+      similarity
+    });
+
+    const processingTime = Date.now() - pipelineStartTime;
+    const response: AskResponse = {
+      answer: answer.answer,
+      summary: answer.summary,
+      citations: answer.citations,
+      retrieved_docs: [],
+      source: 'curated',
+      debug_info: {
+        is_fallback: false,
+        pipeline_stage: 'curated_answer',
+        processing_time_ms: processingTime,
+        documents_found: 0,
+        timings: { total_time_ms: processingTime },
+        curated_answer_id: answer.id,
+        curated_similarity: similarity,
+      },
+    };
+
+    onEvent?.({
+      type: 'retrieval',
+      retrieved_docs: response.retrieved_docs,
+      citations: response.citations,
+    });
+    onEvent?.({ type: 'token', delta: response.answer });
+
+    return response;
+  }
+
+  /**
+   * Resolve the reranker option to a reranker instance (null when disabled)
+   */
+  private resolveReranker(option: RerankerType | Reranker): Reranker | null {
+    if (typeof option !== 'string') {
+      return option;
+    }
+    return option === 'none' ? null : this.rerankers[option];
+  }
+
+  /**
+   * Resolve the grounding verifier option to a verifier instance (null when disabled)
+   */
+  private resolveGroundingVerifier(option: GroundingVerifierType | GroundingVerifier): GroundingVerifier | null {
+    if (typeof option !== 'string') {
+      return option;
+    }
+    return option === 'none' ? null : this.groundingVerifiers[option];
+  }
+
   /**
    * Create a short excerpt from content
    */
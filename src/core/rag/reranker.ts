@@ -0,0 +1,164 @@
+/**
+ * Second-stage rerankers for RAG retrieval
+ * Re-score vector search candidates before context packing
+ */
+
+import type { LLMAdapter, SearchResult } from '@/types';
+import { tokenizeText } from '@/utils/text';
+
+export interface Reranker {
+  readonly name: string;
+  /**
+   * Return the candidates re-scored and sorted by the new score (highest first).
+   * Each result keeps its original score in preRerankScore.
+   */
+  rerank(query: string, results: SearchResult[]): Promise<SearchResult[]>;
+}
+
+export type RerankerType = 'none' | 'lexical' | 'llm';
+
+export interface LexicalRerankerOptions {
+  lexicalWeight?: number;
+  titleBoost?: number;
+}
+
+/**
+ * Cheap reranker based on query term overlap, suited to the local provider
+ */
+export class LexicalReranker implements Reranker {
+  readonly name = 'lexical';
+  private readonly lexicalWeight: number;
+  private readonly titleBoost: number;
+
+  constructor(options: LexicalRerankerOptions = {}) {
+    this.lexicalWeight = options.lexicalWeight ?? 0.5;
+    this.titleBoost = options.titleBoost ?? 0.2;
+  }
+
+  async rerank(query: string, results: SearchResult[]): Promise<SearchResult[]> {
+    const queryTerms = new Set(tokenizeText(query));
+
+    if (queryTerms.size === 0) {
+      return results.map(result => ({ ...result, preRerankScore: result.score }));
+    }
+
+    const reranked = results.map(result => {
+      const contentTerms = new Set(tokenizeText(result.content));
+      const titleTerms = new Set(tokenizeText(`${result.metadata.title} ${result.metadata.section || ''}`));
+
+      let contentMatches = 0;
+      let titleMatches = 0;
+      for (const term of queryTerms) {
+        if (contentTerms.has(term) || titleTerms.has(term)) contentMatches++;
+        if (titleTerms.has(term)) titleMatches++;
+      }
+
+      const overlap = Math.min(
+        1,
+        contentMatches / queryTerms.size + this.titleBoost * (titleMatches / queryTerms.size)
+      );
+
+      return {
+        ...result,
+        preRerankScore: result.score,
+        score: this.lexicalWeight * overlap + (1 - this.lexicalWeight) * result.score,
+      };
+    });
+
+    return reranked.sort((a, b) => b.score - a.score);
+  }
+}
+
+export interface LLMRerankerOptions {
+  maxExcerptLength?: number;
+  maxTokens?: number;
+}
+
+/**
+ * Listwise reranker that asks the configured LLM to order the candidates
+ */
+export class LLMReranker implements Reranker {
+  readonly name = 'llm';
+  private readonly maxExcerptLength: number;
+  private readonly maxTokens: number;
+
+  constructor(
+    private llmAdapter: LLMAdapter,
+    options: LLMRerankerOptions = {}
+  ) {
+    this.maxExcerptLength = options.maxExcerptLength ?? 600;
+    this.maxTokens = options.maxTokens ?? 200;
+  }
+
+  async rerank(query: string, results: SearchResult[]): Promise<SearchResult[]> {
+    if (results.length <= 1) {
+      return results.map(result => ({ ...result, preRerankScore: result.score }));
+    }
+
+    const passages = results
+      .map((result, index) => {
+        const excerpt = result.content.replace(/\s+/g, ' ').trim().substring(0, this.maxExcerptLength);
+        return `[${index + 1}] ${result.metadata.title}\n${excerpt}`;
+      })
+      .join('\n\n');
+
+    try {
+      const response = await this.llmAdapter.generate(
+        [
+          {
+            role: 'system',
+            content: 'You rank PowerSchool documentation passages by how well they answer a question. Respond with only a JSON array of passage numbers, most relevant first.',
+          },
+          {
+            role: 'user',
+            content: `Question: ${query}\n\nPassages:\n\n${passages}\n\nReturn the passage numbers ordered from most to least relevant, e.g. [2, 1, 3].`,
+          },
+        ],
+        { max_tokens: this.maxTokens, temperature: 0 }
+      );
+
+      const ranking = this.parseRanking(response, results.length);
+      if (ranking.length === 0) {
+        throw new Error('No valid passage numbers in reranker response');
+      }
+
+      // Passages the model omitted keep their relative order after the ranked ones
+      const order = [...ranking, ...results.map((_, index) => index).filter(index => !ranking.includes(index))];
+
+      return order.map((resultIndex, rank) => {
+        const result = results[resultIndex]!;
+        return {
+          ...result,
+          preRerankScore: result.score,
+          score: (order.length - rank) / order.length,
+        };
+      });
+
+    } catch (error) {
+      console.warn('[LLMReranker] Reranking failed, keeping retrieval order', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        candidates: results.length
+      });
+      return results.map(result => ({ ...result, preRerankScore: result.score }));
+    }
+  }
+
+  /**
+   * Parse a list of 1-based passage numbers into unique 0-based indexes
+   */
+  private parseRanking(response: string, candidateCount: number): number[] {
+    const arrayMatch = response.match(/\[[\d\s,]*\]/);
+    const numbers = arrayMatch
+      ? (JSON.parse(arrayMatch[0]) as number[])
+      : (response.match(/\d+/g) || []).map(Number);
+
+    const ranking: number[] = [];
+    for (const value of numbers) {
+      const index = value - 1;
+      if (Number.isInteger(index) && index >= 0 && index < candidateCount && !ranking.includes(index)) {
+        ranking.push(index);
+      }
+    }
+    return ranking;
+  }
+}
@@ -3,8 +3,14 @@
  * Handles query embedding and vector similarity search
  */
 
-import type { EmbeddingAdapter, VectorStoreAdapter, SearchResult } from '@/types';
+import type { EmbeddingAdapter, VectorStoreAdapter, SearchResult, TextSearchFilters } from '@/types';
 import { RAGError } from '@/types';
+import { reciprocalRankFusion } from '@/utils/rankFusion';
+import { getPageUrl } from '@/utils/chunks';
+import { maximalMarginalRelevance } from '@/utils/mmr';
+import { tokenCounter, type Tokenizer } from '@/utils/tokenizer';
+import type { Reranker } from './reranker';
+import { Glossary, type GlossaryHit, type QueryExpansion } from './glossary';
 
 export interface RetrievalOptions {
   topK?: number;
@@ -12,19 +18,57 @@ export interface RetrievalOptions {
   contentTypes?: string[];
   sections?: string[];
   collections?: string[];
+  urlPrefixes?: string[];
+  updatedAfter?: Date;
+  /** Precomputed query embedding; skips embedding the query again */
+  queryEmbedding?: number[];
+}
+
+export interface ContextExpansionOptions {
+  /** Number of chunks to add on each side of a hit */
+  windowSize?: number;
+  /** Only the top N hits are expanded */
+  maxExpandedResults?: number;
+  /** Pages with at most this many chunks are included whole */
+  wholePageMaxChunks?: number;
+  /** Token budget for the expanded results; expansions that would exceed it are skipped */
+  maxTokens?: number;
+}
+
+export type DiversificationMode = 'none' | 'mmr';
+
+export interface DiversificationOptions {
+  mode?: DiversificationMode;
+  /** MMR trade-off between relevance (1) and diversity (0) */
+  lambda?: number;
+  topK?: number;
+  /** Maximum chunks kept from the same page */
+  maxChunksPerUrl?: number;
+}
+
+interface ExpansionWindow {
+  pageUrl: string;
+  from: number;
+  to: number;
 }
 
 export interface RetrievalResult {
   results: SearchResult[];
   queryEmbedding: number[];
   retrievalTimeMs: number;
+  /** Time spent embedding the query, when it was not precomputed */
+  embeddingTimeMs?: number;
   usedMockEmbedding?: boolean;
+  /** Glossary terms added to the query before searching */
+  glossaryHits?: GlossaryHit[];
 }
 
 export class Retriever {
   constructor(
     private embeddingAdapter: EmbeddingAdapter,
-    private vectorStore: VectorStoreAdapter
+    private vectorStore: VectorStoreAdapter,
+    private tokenizer: Tokenizer = tokenCounter.getTokenizer(),
+    private glossary: Glossary = new Glossary()
   ) {}
 
   /**
@@ -44,8 +88,13 @@ export class Retriever {
         contentTypes,
         sections,
         collections,
+        urlPrefixes,
+        updatedAfter,
       } = options;
 
+      // Spell out acronyms (and the reverse) so the query matches the docs' wording
+      const expansion = this.expandQuery(query, collections);
+
       // Embed the query with enhanced debugging
       console.debug('[Retriever] Starting query embedding...', {
         query: query.substring(0, 100),
@@ -59,7 +108,9 @@ export class Retriever {
       let usedMockEmbedding = false;
       
       try {
-        queryEmbedding = await this.embeddingAdapter.embed(query);
+        // A precomputed embedding is of the unexpanded query, so only reuse it when nothing was added
+        queryEmbedding = (expansion.hits.length === 0 ? options.queryEmbedding : undefined)
+          ?? await this.embeddingAdapter.embed(expansion.query);
         console.debug('[Retriever] Query embedded successfully', {
           embeddingDimensions: queryEmbedding.length,
           embeddingPreview: queryEmbedding.slice(0, 5),
@@ -83,7 +134,7 @@ export class Retriever {
         topK,
         similarityThreshold,
         usedMockEmbedding,
-        hasFilters: Boolean(contentTypes?.length || sections?.length),
+        hasFilters: Boolean(contentTypes?.length || sections?.length || urlPrefixes?.length || updatedAfter),
         queryPreview: query.substring(0, 50)
       });
       const searchStartTime = Date.now();
@@ -102,20 +153,22 @@ export class Retriever {
       });
 
       // Use filtered search if filters are provided
-      if (contentTypes?.length || sections?.length || collections?.length || similarityThreshold > 0) {
+      if (contentTypes?.length || sections?.length || collections?.length || urlPrefixes?.length || updatedAfter || similarityThreshold > 0) {
         const filters = {
           ...(contentTypes && { contentTypes }),
           ...(sections && { sections }),
           ...(collections && { collections }),
+          ...(urlPrefixes && { urlPrefixes }),
+          ...(updatedAfter && { updatedAfter }),
           ...(similarityThreshold > 0 && { similarityThreshold }),
         };
 
         console.debug('[Retriever] Applying filters to results...', { filters });
 
         // Check if the vector store supports filtered search
-        if ('searchWithFilters' in this.vectorStore) {
+        if (this.vectorStore.searchWithFilters) {
           console.debug('[Retriever] Using native filtered search');
-          searchResults = await (this.vectorStore as any).searchWithFilters(
+          searchResults = await this.vectorStore.searchWithFilters(
             queryEmbedding,
             topK,
             filters
@@ -196,7 +249,9 @@ export class Retriever {
         results: searchResults,
         queryEmbedding,
         retrievalTimeMs: totalTime,
+        embeddingTimeMs: embeddingTime,
         usedMockEmbedding,
+        ...(expansion.hits.length > 0 && { glossaryHits: expansion.hits }),
       };
 
     } catch (error) {
@@ -212,17 +267,28 @@ export class Retriever {
     }
   }
 
+  /**
+   * Expand the query with glossary terms for the searched collections
+   */
+  private expandQuery(query: string, collections?: string[]): QueryExpansion {
+    const expansion = this.glossary.expand(query, collections);
+
+    if (expansion.hits.length > 0) {
+      console.debug('[Retriever] Expanded query with glossary terms', {
+        expandedQuery: expansion.query.substring(0, 150),
+        hits: expansion.hits
+      });
+    }
+
+    return expansion;
+  }
+
   /**
    * Filter search results based on criteria
    */
   private filterResults(
     results: SearchResult[],
-    filters: {
-      similarityThreshold?: number;
-      contentTypes?: string[];
-      sections?: string[];
-      collections?: string[];
-    }
+    filters: TextSearchFilters & { similarityThreshold?: number }
   ): SearchResult[] {
     return results.filter(result => {
       // Filter by similarity threshold
@@ -245,10 +311,272 @@ export class Retriever {
         return false;
       }
 
+      // Filter by URL prefixes
+      if (filters.urlPrefixes?.length && !filters.urlPrefixes.some(prefix => result.metadata.url.startsWith(prefix))) {
+        return false;
+      }
+
+      // Filter by last update
+      if (filters.updatedAfter && new Date(result.metadata.updated_at) < filters.updatedAfter) {
+        return false;
+      }
+
       return true;
     });
   }
 
+  /**
+   * Re-score the top N candidates with a second-stage reranker.
+   * Candidates beyond topN keep their retrieval order after the reranked ones.
+   */
+  async rerank(
+    query: string,
+    results: SearchResult[],
+    reranker: Reranker,
+    topN: number = 20
+  ): Promise<SearchResult[]> {
+    const startTime = Date.now();
+    const candidates = results.slice(0, topN);
+    const remainder = results.slice(topN);
+
+    try {
+      const reranked = await reranker.rerank(query, candidates);
+
+      console.debug('[Retriever] Reranking completed', {
+        reranker: reranker.name,
+        candidates: candidates.length,
+        rerankTimeMs: Date.now() - startTime,
+        topResults: reranked.slice(0, 5).map(r => ({
+          id: r.id.substring(0, 8),
+          preRerankScore: r.preRerankScore,
+          score: r.score,
+          title: r.metadata.title.substring(0, 50)
+        }))
+      });
+
+      return [...reranked, ...remainder];
+
+    } catch (error) {
+      throw new RAGError(
+        `Reranking failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        'RERANK_FAILED',
+        {
+          query: query.substring(0, 100),
+          reranker: reranker.name,
+          originalError: error,
+        }
+      );
+    }
+  }
+
+  /**
+   * Diversify results so one long page cannot crowd out other relevant pages.
+   * 'mmr' re-selects with Maximal Marginal Relevance over the stored embeddings;
+   * maxChunksPerUrl caps chunks per page in either mode. Stores without
+   * getEmbeddings fall back to the per-page cap in retrieval order.
+   */
+  async diversify(
+    results: SearchResult[],
+    queryEmbedding: number[] | null,
+    options: DiversificationOptions = {}
+  ): Promise<SearchResult[]> {
+    const { mode = 'none', lambda = 0.7, topK = results.length, maxChunksPerUrl } = options;
+    const groupOptions = maxChunksPerUrl !== undefined
+      ? { maxPerGroup: maxChunksPerUrl, groupBy: (result: SearchResult) => getPageUrl(result.metadata.url) }
+      : {};
+
+    let embeddings = new Map<string, number[]>();
+    let useMMR = mode === 'mmr' && queryEmbedding !== null;
+
+    if (useMMR && !this.vectorStore.getEmbeddings) {
+      console.warn('[Retriever] Vector store has no getEmbeddings, MMR disabled', {
+        vectorStore: this.vectorStore.constructor.name
+      });
+      useMMR = false;
+    }
+
+    if (useMMR && this.vectorStore.getEmbeddings) {
+      try {
+        embeddings = await this.vectorStore.getEmbeddings(results.map(result => result.id));
+      } catch (error) {
+        throw new RAGError(
+          `Diversification failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
+          'DIVERSIFICATION_FAILED',
+          {
+            candidates: results.length,
+            originalError: error,
+          }
+        );
+      }
+    }
+
+    // Without MMR, lambda = 1 keeps retrieval order and only applies the per-page cap
+    const diversified = maximalMarginalRelevance(
+      useMMR ? queryEmbedding! : [],
+      results.map(result => ({
+        result,
+        ...(embeddings.has(result.id) && { embedding: embeddings.get(result.id)! }),
+      })),
+      { lambda: useMMR ? lambda : 1, topK, ...groupOptions }
+    );
+
+    console.debug('[Retriever] Diversification completed', {
+      mode: useMMR ? 'mmr' : 'none',
+      lambda: useMMR ? lambda : undefined,
+      maxChunksPerUrl,
+      candidates: results.length,
+      selected: diversified.length,
+      distinctPages: new Set(diversified.map(result => getPageUrl(result.metadata.url))).size
+    });
+
+    return diversified;
+  }
+
+  /**
+   * Expand top hits with their neighbouring chunks (or the whole page when it is small).
+   * Overlapping windows on the same page are merged, and lower-ranked hits already
+   * covered by an expansion are dropped. Stores without getPageChunks are left unchanged.
+   */
+  async expandContext(
+    results: SearchResult[],
+    options: ContextExpansionOptions = {}
+  ): Promise<SearchResult[]> {
+    const {
+      windowSize = 1,
+      maxExpandedResults = 3,
+      wholePageMaxChunks = 3,
+      maxTokens = Infinity,
+    } = options;
+
+    if (!this.vectorStore.getPageChunks) {
+      console.warn('[Retriever] Vector store has no getPageChunks, skipping context expansion', {
+        vectorStore: this.vectorStore.constructor.name
+      });
+      return results;
+    }
+    const getPageChunks = this.vectorStore.getPageChunks.bind(this.vectorStore);
+
+    const startTime = Date.now();
+
+    // Collect chunk windows for the top hits, merging overlapping or adjacent windows per page
+    const windows: ExpansionWindow[] = [];
+    for (const result of results.slice(0, maxExpandedResults)) {
+      const { chunk_index: chunkIndex, total_chunks: totalChunks } = result.metadata;
+      if (totalChunks <= 1) {
+        continue;
+      }
+
+      const wholePage = totalChunks <= wholePageMaxChunks;
+      const window: ExpansionWindow = {
+        pageUrl: getPageUrl(result.metadata.url),
+        from: wholePage ? 0 : Math.max(0, chunkIndex - windowSize),
+        to: wholePage ? totalChunks - 1 : Math.min(totalChunks - 1, chunkIndex + windowSize),
+      };
+
+      const overlapping = windows.find(existing =>
+        existing.pageUrl === window.pageUrl &&
+        window.from <= existing.to + 1 &&
+        existing.from <= window.to + 1
+      );
+
+      if (overlapping) {
+        overlapping.from = Math.min(overlapping.from, window.from);
+        overlapping.to = Math.max(overlapping.to, window.to);
+      } else {
+        windows.push(window);
+      }
+    }
+
+    if (windows.length === 0) {
+      return results;
+    }
+
+    try {
+      const windowChunks = await Promise.all(
+        windows.map(window =>
+          getPageChunks(window.pageUrl, window.from, window.to)
+        )
+      );
+
+      const emittedWindows = new Set<ExpansionWindow>();
+      const expanded: SearchResult[] = [];
+      let currentTokens = 0;
+      let addedChunks = 0;
+
+      for (const result of results) {
+        const windowIndex = windows.findIndex(window =>
+          window.pageUrl === getPageUrl(result.metadata.url) &&
+          result.metadata.chunk_index >= window.from &&
+          result.metadata.chunk_index <= window.to
+        );
+        const window = windows[windowIndex];
+
+        if (window && emittedWindows.has(window)) {
+          // Already part of a higher-ranked expansion
+          continue;
+        }
+
+        let piece = result;
+        const chunks = window ? windowChunks[windowIndex]! : [];
+
+        if (window && chunks.length > 1) {
+          const candidate = this.mergeChunks(result, chunks);
+          const candidateTokens = this.tokenizer.countTokens(this.formatContextPiece(candidate, expanded.length + 1));
+
+          if (currentTokens + candidateTokens <= maxTokens) {
+            piece = candidate;
+            emittedWindows.add(window);
+            addedChunks += candidate.expandedChunks!.length - 1;
+          }
+        }
+
+        expanded.push(piece);
+        currentTokens += this.tokenizer.countTokens(this.formatContextPiece(piece, expanded.length));
+      }
+
+      console.debug('[Retriever] Context expansion completed', {
+        windows: windows.map(w => ({ page: w.pageUrl.substring(0, 80), from: w.from, to: w.to })),
+        expandedResults: emittedWindows.size,
+        addedChunks,
+        resultsBefore: results.length,
+        resultsAfter: expanded.length,
+        expansionTimeMs: Date.now() - startTime
+      });
+
+      return expanded;
+
+    } catch (error) {
+      throw new RAGError(
+        `Context expansion failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        'CONTEXT_EXPANSION_FAILED',
+        {
+          windows,
+          originalError: error,
+        }
+      );
+    }
+  }
+
+  /**
+   * Merge a hit with its page chunks into one result, keeping the hit's score and metadata
+   */
+  private mergeChunks(hit: SearchResult, chunks: SearchResult[]): SearchResult {
+    const byIndex = new Map<number, SearchResult>();
+    for (const chunk of chunks) {
+      byIndex.set(chunk.metadata.chunk_index, chunk);
+    }
+    byIndex.set(hit.metadata.chunk_index, hit);
+
+    const ordered = Array.from(byIndex.values())
+      .sort((a, b) => a.metadata.chunk_index - b.metadata.chunk_index);
+
+    return {
+      ...hit,
+      content: ordered.map(chunk => chunk.content.trim()).join('\n\n'),
+      expandedChunks: ordered.map(chunk => chunk.metadata.chunk_index),
+    };
+  }
+
   /**
    * Get context string from retrieved documents
    */
@@ -261,13 +589,10 @@ export class Retriever {
     const contextParts: string[] = [];
     let currentTokens = 0;
 
-    // Rough token estimation (4 chars = 1 token)
-    const estimateTokens = (text: string): number => Math.ceil(text.length / 4);
-
     for (const result of results) {
-      // Format the context piece
-      const contextPiece = this.formatContextPiece(result);
-      const pieceTokens = estimateTokens(contextPiece);
+      // Format the context piece, numbered for inline [n] citations
+      const contextPiece = this.formatContextPiece(result, usedResults.length + 1);
+      const pieceTokens = this.tokenizer.countTokens(contextPiece);
 
       // Check if adding this piece would exceed token limit
       if (currentTokens + pieceTokens > maxTokens) {
@@ -289,10 +614,10 @@ export class Retriever {
   /**
    * Format a single search result for context
    */
-  private formatContextPiece(result: SearchResult): string {
+  private formatContextPiece(result: SearchResult, marker: number): string {
     const { metadata, content } = result;
     
-    let contextPiece = `## ${metadata.title}`;
+    let contextPiece = `## [${marker}] ${metadata.title}`;
     
     if (metadata.section) {
       contextPiece += ` - ${metadata.section}`;
@@ -312,13 +637,71 @@ export class Retriever {
   }
 
   /**
-   * Perform hybrid search if supported
+   * Keyword-only retrieval through the store's full-text search; the query is never embedded
+   */
+  async keywordRetrieve(
+    query: string,
+    options: Omit<RetrievalOptions, 'similarityThreshold' | 'queryEmbedding'> = {}
+  ): Promise<Omit<RetrievalResult, 'queryEmbedding'>> {
+    const startTime = Date.now();
+
+    if (!this.vectorStore.textSearch) {
+      throw new RAGError(
+        'Vector store does not support keyword search',
+        'KEYWORD_SEARCH_UNSUPPORTED',
+        { vectorStore: this.vectorStore.constructor.name }
+      );
+    }
+
+    try {
+      const { topK = 10, contentTypes, sections, collections, urlPrefixes, updatedAfter } = options;
+      const textFilters: TextSearchFilters = {
+        ...(contentTypes && { contentTypes }),
+        ...(sections && { sections }),
+        ...(collections && { collections }),
+        ...(urlPrefixes && { urlPrefixes }),
+        ...(updatedAfter && { updatedAfter }),
+      };
+
+      const expansion = this.expandQuery(query, collections);
+      const results = await this.vectorStore.textSearch(expansion.query, topK, textFilters);
+      const totalTime = Date.now() - startTime;
+
+      console.debug('[Retriever] Keyword retrieval completed', {
+        totalTimeMs: totalTime,
+        resultsFound: results.length,
+        topK
+      });
+
+      return {
+        results,
+        retrievalTimeMs: totalTime,
+        ...(expansion.hits.length > 0 && { glossaryHits: expansion.hits }),
+      };
+
+    } catch (error) {
+      throw new RAGError(
+        `Keyword retrieval failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        'KEYWORD_RETRIEVAL_FAILED',
+        {
+          query: query.substring(0, 100),
+          options,
+          originalError: error,
+        }
+      );
+    }
+  }
+
+  /**
+   * Hybrid retrieval: run vector and keyword searches independently and fuse their
+   * rankings with Reciprocal Rank Fusion. Stores without textSearch degrade to vector-only.
    */
   async hybridRetrieve(
     query: string,
     options: RetrievalOptions & {
       vectorWeight?: number;
       textWeight?: number;
+      rrfK?: number;
     } = {}
   ): Promise<RetrievalResult> {
     const startTime = Date.now();
@@ -326,31 +709,88 @@ export class Retriever {
     try {
       const {
         topK = 10,
-        vectorWeight = 0.7,
-        textWeight = 0.3,
+        similarityThreshold = 0.3,
+        contentTypes,
+        sections,
+        collections,
+        urlPrefixes,
+        updatedAfter,
+        vectorWeight = 0.5,
+        textWeight = 0.5,
+        rrfK = 60,
       } = options;
 
-      // Check if vector store supports hybrid search
-      if ('hybridSearch' in this.vectorStore) {
-        const queryEmbedding = await this.embeddingAdapter.embed(query);
-        
-        const searchResults = await (this.vectorStore as any).hybridSearch(
-          queryEmbedding,
-          query,
-          topK,
-          { vector: vectorWeight, text: textWeight }
-        );
+      // Fetch deeper candidate lists than requested so fusion has overlap to work with
+      const candidateK = Math.max(topK * 2, 20);
+      const textFilters: TextSearchFilters = {
+        ...(contentTypes && { contentTypes }),
+        ...(sections && { sections }),
+        ...(collections && { collections }),
+        ...(urlPrefixes && { urlPrefixes }),
+        ...(updatedAfter && { updatedAfter }),
+      };
 
-        return {
-          results: searchResults,
-          queryEmbedding,
-          retrievalTimeMs: Date.now() - startTime,
-        };
-      } else {
-        // Fall back to vector-only search
-        return this.retrieve(query, options);
+      const expansion = this.expandQuery(query, collections);
+      const embeddingStartTime = Date.now();
+      const queryEmbedding = (expansion.hits.length === 0 ? options.queryEmbedding : undefined)
+        ?? await this.embeddingAdapter.embed(expansion.query);
+      const embeddingTime = Date.now() - embeddingStartTime;
+
+      const vectorSearch: Promise<SearchResult[]> = this.vectorStore.searchWithFilters
+        ? this.vectorStore.searchWithFilters(queryEmbedding, candidateK, {
+            ...textFilters,
+            ...(similarityThreshold > 0 && { similarityThreshold }),
+          })
+        : this.vectorStore.search(queryEmbedding, candidateK * 3).then(results =>
+            this.filterResults(results, { ...textFilters, similarityThreshold }).slice(0, candidateK)
+          );
+
+      if (!this.vectorStore.textSearch) {
+        console.warn('[Retriever] Vector store has no textSearch, hybrid retrieval is vector-only', {
+          vectorStore: this.vectorStore.constructor.name
+        });
       }
 
+      const textSearch: Promise<SearchResult[]> = this.vectorStore.textSearch
+        ? this.vectorStore.textSearch(expansion.query, candidateK, textFilters)
+        : Promise.resolve([]);
+
+      const [vectorResults, textResults] = await Promise.all([vectorSearch, textSearch]);
+
+      const results = reciprocalRankFusion(
+        [
+          { results: vectorResults, weight: vectorWeight },
+          { results: textResults, weight: textWeight },
+        ],
+        { k: rrfK, topK }
+      );
+
+      const totalTime = Date.now() - startTime;
+
+      console.debug('[Retriever] Hybrid retrieval completed', {
+        totalTimeMs: totalTime,
+        vectorResults: vectorResults.length,
+        textResults: textResults.length,
+        fusedResults: results.length,
+        weights: { vector: vectorWeight, text: textWeight },
+        rrfK,
+        topScores: results.slice(0, 5).map(r => ({
+          id: r.id.substring(0, 8),
+          score: r.score,
+          vectorRank: vectorResults.findIndex(v => v.id === r.id) + 1 || null,
+          textRank: textResults.findIndex(t => t.id === r.id) + 1 || null,
+          title: r.metadata.title.substring(0, 50)
+        }))
+      });
+
+      return {
+        results,
+        queryEmbedding,
+        retrievalTimeMs: totalTime,
+        embeddingTimeMs: embeddingTime,
+        ...(expansion.hits.length > 0 && { glossaryHits: expansion.hits }),
+      };
+
     } catch (error) {
       throw new RAGError(
         `Hybrid retrieval failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
@@ -363,4 +803,4 @@ export class Retriever {
       );
     }
   }
-}
\ No newline at end of file
+}
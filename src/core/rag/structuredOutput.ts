@@ -0,0 +1,107 @@
+/**
+ * Structured JSON answer format
+ * Schema sent to providers with native JSON modes, validation, and repair of near-JSON replies
+ */
+
+import { z } from 'zod';
+import type { StructuredOutputFormat } from '@/types';
+
+const structuredStepSchema = z.object({
+  text: z.string().min(1),
+  navigation_path: z.string().optional(),
+});
+
+const structuredAnswerSchema = z.object({
+  summary: z.string().min(1),
+  answer: z.string().min(1),
+  steps: z.array(structuredStepSchema).optional(),
+  citations: z.array(z.number().int().positive()).optional(),
+  confidence: z.number().min(0).max(1).optional(),
+});
+
+export type StructuredAnswer = z.infer<typeof structuredAnswerSchema>;
+
+// JSON Schema equivalent of structuredAnswerSchema for provider-side enforcement
+export const STRUCTURED_ANSWER_FORMAT: StructuredOutputFormat = {
+  name: 'powerschool_answer',
+  schema: {
+    type: 'object',
+    properties: {
+      summary: { type: 'string', description: 'One sentence answering the question' },
+      answer: { type: 'string', description: 'Full markdown answer with inline [n] citations' },
+      steps: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: {
+            text: { type: 'string' },
+            navigation_path: { type: 'string', description: 'UI path, e.g. "Start Page > System > Security"' },
+          },
+          required: ['text'],
+        },
+      },
+      citations: { type: 'array', items: { type: 'integer' }, description: 'Context excerpt numbers used' },
+      confidence: { type: 'number', minimum: 0, maximum: 1 },
+    },
+    required: ['summary', 'answer'],
+  },
+};
+
+export type StructuredParseResult =
+  | { valid: true; value: StructuredAnswer; repaired: boolean }
+  | { valid: false; errors: string[] };
+
+/**
+ * Fix common near-JSON output: code fences, prose around the object and trailing commas
+ */
+export function repairJson(text: string): string {
+  let repaired = text.trim().replace(/^```(?:json)?\s*/i, '').replace(/\s*```$/, '');
+
+  const start = repaired.indexOf('{');
+  const end = repaired.lastIndexOf('}');
+  if (start !== -1 && end > start) {
+    repaired = repaired.substring(start, end + 1);
+  }
+
+  return repaired.replace(/,\s*([}\]])/g, '$1');
+}
+
+/**
+ * Parse and validate a structured answer, repairing the text when it is not valid JSON as-is
+ */
+export function parseStructuredAnswer(text: string): StructuredParseResult {
+  let parsed: unknown;
+  let repaired = false;
+
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    try {
+      parsed = JSON.parse(repairJson(text));
+      repaired = true;
+    } catch (error) {
+      return { valid: false, errors: [`Invalid JSON: ${error instanceof Error ? error.message : 'Unknown error'}`] };
+    }
+  }
+
+  const result = structuredAnswerSchema.safeParse(parsed);
+  if (!result.success) {
+    return {
+      valid: false,
+      errors: result.error.issues.map(issue => `${issue.path.join('.') || 'root'}: ${issue.message}`),
+    };
+  }
+
+  return { valid: true, value: result.data, repaired };
+}
+
+/**
+ * Render structured steps as plain step strings, keeping the navigation path visible
+ */
+export function formatStructuredSteps(steps: StructuredAnswer['steps'] = []): string[] {
+  return steps.map(step =>
+    step.navigation_path && !step.text.includes(step.navigation_path)
+      ? `${step.text} (${step.navigation_path})`
+      : step.text
+  );
+}
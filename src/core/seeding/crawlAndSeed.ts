@@ -6,8 +6,19 @@ import { v4 as uuidv4 } from 'uuid';
 import { PowerSchoolCrawler } from '@/core/crawler/powerschool-crawler';
 import { PostgresVectorAdapter } from '@/adapters/vector-store/postgres';
 import { createEmbeddingAdapter } from '@/adapters/embedding';
-import type { VectorDocument } from '@/types';
+import { answerCache } from '@/core/rag/answerCache';
+import type { CrawledDocument, VectorDocument } from '@/types';
+import { RAGError } from '@/types';
 import config from '@/utils/config';
+import { getChunkUrl } from '@/utils/chunks';
+import {
+  PostgresCrawledPageStore,
+  changedChunkIndexes,
+  classifyPage,
+  hashContent,
+  type CrawlChangeReport,
+  type CrawledPage,
+} from './crawledPages';
 
 export interface CrawlAndSeedOptions {
   baseUrl: string;
@@ -15,6 +26,12 @@ export interface CrawlAndSeedOptions {
   maxPages?: number;
   delayMs?: number;
   chunkSize?: number;
+  /** Aborting stops crawling and embedding; nothing is stored for a cancelled run */
+  signal?: AbortSignal;
+  /** Pages crawled out of the page limit, then documents embedded out of those crawled */
+  onProgress?: (stage: 'crawl' | 'embed', current: number, total: number) => void | Promise<void>;
+  /** False re-fetches and re-embeds every page instead of only changed ones; defaults to true */
+  incremental?: boolean;
 }
 
 export interface CrawlAndSeedResult {
@@ -22,6 +39,10 @@ export interface CrawlAndSeedResult {
   message: string;
   pagesCrawled: number;
   chunksInserted: number;
+  /** Pages added, updated and removed by this run */
+  changes?: CrawlChangeReport;
+  /** True when the crawl ran out of links before reaching the page limit */
+  exhaustive?: boolean;
   errors?: string[];
   duration_ms: number;
 }
@@ -100,14 +121,48 @@ function chunkContent(content: string, maxLength: number = 4000): string[] {
   return chunks.filter(chunk => chunk.length > 0);
 }
 
+function throwIfAborted(signal: AbortSignal | undefined): void {
+  if (signal?.aborted) {
+    throw new RAGError('Crawl and seed was cancelled', 'CRAWL_CANCELLED');
+  }
+}
+
+/**
+ * Build the stored chunk documents of a crawled page
+ */
+function toChunkDocuments(doc: CrawledDocument, chunks: string[], collection: string): VectorDocument[] {
+  return chunks.map((chunk, chunkIndex) => ({
+    id: uuidv4(),
+    content: chunk,
+    embedding: [],
+    metadata: {
+      url: chunks.length === 1 ? doc.url : getChunkUrl(doc.url, chunkIndex),
+      title: chunks.length === 1 ? doc.title : `${doc.title} (Part ${chunkIndex + 1}/${chunks.length})`,
+      content_type: doc.metadata.content_type || 'text',
+      collection, // Tag with collection
+      chunk_index: chunkIndex,
+      total_chunks: chunks.length,
+      ...(doc.metadata.section && { section: doc.metadata.section }),
+      ...(doc.metadata.subsection && { subsection: doc.metadata.subsection }),
+      raw_html: doc.raw_html,
+      created_at: new Date(),
+      updated_at: new Date(),
+    },
+  }));
+}
+
 /**
  * Crawl a documentation site and seed the vector database
+ * Incremental by default: unchanged pages (304 or same content hash) are skipped, only
+ * changed chunks are embedded, and chunks of pages that now answer 404/410 are deleted
  */
 export async function crawlAndSeed(options: CrawlAndSeedOptions): Promise<CrawlAndSeedResult> {
   const startTime = Date.now();
   const errors: string[] = [];
+  const incremental = options.incremental ?? true;
+  const maxPages = options.maxPages || config.MAX_PAGES;
   
-  console.log(`🌱 Starting crawl and seed for collection: ${options.collection}`);
+  console.log(`🌱 Starting ${incremental ? 'incremental' : 'full'} crawl and seed for collection: ${options.collection}`);
   console.log(`📊 Target: ${options.baseUrl}`);
   console.log(`🔗 Database: ${config.DATABASE_URL.replace(/:[^:]*@/, ':****@')}`);
   console.log(`🤖 Embedding Provider: ${config.EMBEDDING_PROVIDER}`);
@@ -115,15 +170,25 @@ export async function crawlAndSeed(options: CrawlAndSeedOptions): Promise<CrawlA
   console.log('');
 
   let vectorStore: PostgresVectorAdapter | undefined;
+  let pageStore: PostgresCrawledPageStore | undefined;
   
   try {
     // Initialize components
     console.log('🔧 Initializing components...');
+
+    pageStore = new PostgresCrawledPageStore({ connectionString: config.DATABASE_URL });
+    const previousPages = await pageStore.loadCollection(options.collection);
+    const activePages = [...previousPages.values()].filter(page => page.status === 'active');
+    console.log(`📚 Known pages for this collection: ${activePages.length}`);
     
     const crawler = new PowerSchoolCrawler({
       baseUrl: options.baseUrl,
-      maxPages: options.maxPages || config.MAX_PAGES,
+      maxPages,
       delayMs: options.delayMs || config.CRAWL_DELAY_MS,
+      ...(options.signal && { signal: options.signal }),
+      ...(options.onProgress && { onPage: (crawled: number, limit: number) => options.onProgress?.('crawl', crawled, limit) }),
+      // A full run fetches every page so each one is re-embedded
+      ...(incremental && { knownPages: new Map(activePages.map(page => [page.url, page])) }),
     });
 
     const embeddingAdapter = await createEmbeddingAdapter(
@@ -163,10 +228,13 @@ export async function crawlAndSeed(options: CrawlAndSeedOptions): Promise<CrawlA
       }
     }
 
+    throwIfAborted(options.signal);
+
     const documents = crawlResult.documents;
-    console.log(`✅ Crawled ${documents.length} pages successfully`);
+    const notModified = crawlResult.not_modified;
+    console.log(`✅ Crawled ${documents.length} pages successfully, ${notModified.length} not modified`);
 
-    if (documents.length === 0) {
+    if (documents.length === 0 && notModified.length === 0) {
       return {
         success: false,
         message: 'No documents were crawled - check the base URL and network connectivity',
@@ -177,82 +245,74 @@ export async function crawlAndSeed(options: CrawlAndSeedOptions): Promise<CrawlA
       };
     }
 
+    const changes: CrawlChangeReport = {
+      collection: options.collection,
+      added: [],
+      updated: [],
+      removed: [],
+      unchanged: notModified.length,
+      chunks_embedded: 0,
+      chunks_deleted: 0,
+    };
+    const unchangedUrls = [...notModified];
+
     // Process documents in batches
     console.log('🔄 Processing documents and generating embeddings...');
     const batchSize = 10; // Process in smaller batches to avoid memory issues
     const vectorDocuments: VectorDocument[] = [];
-    let processedCount = 0;
+    const pageStates: CrawledPage[] = [];
+    // Changed pages and the chunk URLs they now have; older chunks of the page are deleted
+    const changedPages: Array<{ url: string; chunkUrls: string[] }> = [];
     let failedCount = 0;
 
     for (let i = 0; i < documents.length; i += batchSize) {
+      throwIfAborted(options.signal);
       const batch = documents.slice(i, i + batchSize);
       console.log(`   Processing batch ${Math.floor(i / batchSize) + 1}/${Math.ceil(documents.length / batchSize)} (${batch.length} documents)...`);
 
       for (const doc of batch) {
         try {
           // Check if content needs chunking
-          const chunks = chunkContent(doc.content, options.chunkSize);
-          
-          if (chunks.length === 1) {
-            // Single chunk - process normally
-            const embedding = await embeddingAdapter.embed(doc.content);
-            console.log(`     🔍 Generated embedding with ${embedding.length} dimensions (expected: ${embeddingAdapter.getDimensions()})`);
-            
-            const vectorDoc: VectorDocument = {
-              id: uuidv4(),
-              content: doc.content,
-              embedding,
-              metadata: {
-                url: doc.url,
-                title: doc.title,
-                content_type: doc.metadata.content_type || 'text',
-                collection: options.collection, // Tag with collection
-                chunk_index: 0,
-                total_chunks: 1,
-                ...(doc.metadata.section && { section: doc.metadata.section }),
-                ...(doc.metadata.subsection && { subsection: doc.metadata.subsection }),
-                raw_html: doc.raw_html,
-                created_at: new Date(),
-                updated_at: new Date(),
-              },
-            };
-
-            vectorDocuments.push(vectorDoc);
-            processedCount++;
+          const chunks = chunkContent(doc.content, options.chunkSize).filter(chunk => chunk.trim().length > 0);
+          const chunkHashes = chunks.map(hashContent);
+          const contentHash = hashContent(doc.content);
+          const previous = previousPages.get(doc.url);
+          const change = classifyPage(previous, contentHash);
+
+          const embedIndexes = !incremental
+            ? chunks.map((_, index) => index)
+            : change === 'unchanged'
+              ? []
+              : changedChunkIndexes(previous?.status === 'active' ? previous.chunk_hashes : undefined, chunkHashes);
+
+          const chunkDocuments = toChunkDocuments(doc, chunks, options.collection);
+          if (embedIndexes.length > 0) {
+            console.log(`     📄 "${doc.title}" ${change}: embedding ${embedIndexes.length}/${chunks.length} chunks`);
+          }
+
+          for (const chunkIndex of embedIndexes) {
+            const chunkDocument = chunkDocuments[chunkIndex]!;
+            chunkDocument.embedding = await embeddingAdapter.embed(chunkDocument.content);
+            vectorDocuments.push(chunkDocument);
+          }
+
+          pageStates.push({
+            url: doc.url,
+            collection: options.collection,
+            content_hash: contentHash,
+            chunk_hashes: chunkHashes,
+            links: doc.links ?? [],
+            ...(doc.etag && { etag: doc.etag }),
+            ...(doc.last_modified && { last_modified: doc.last_modified }),
+            status: 'active',
+          });
+
+          if (change === 'unchanged') {
+            changes.unchanged++;
+            unchangedUrls.push(doc.url);
           } else {
-            // Multiple chunks - process each chunk
-            console.log(`     📄 Document "${doc.title}" chunked into ${chunks.length} pieces`);
-            
-            for (let chunkIndex = 0; chunkIndex < chunks.length; chunkIndex++) {
-              const chunk = chunks[chunkIndex];
-              if (!chunk || chunk.trim().length === 0) continue;
-              
-              const embedding = await embeddingAdapter.embed(chunk);
-              console.log(`       🔍 Generated chunk embedding with ${embedding.length} dimensions (expected: ${embeddingAdapter.getDimensions()})`);
-              
-              const vectorDoc: VectorDocument = {
-                id: uuidv4(),
-                content: chunk,
-                embedding,
-                metadata: {
-                  url: `${doc.url}#chunk-${chunkIndex}`,
-                  title: `${doc.title} (Part ${chunkIndex + 1}/${chunks.length})`,
-                  content_type: doc.metadata.content_type || 'text',
-                  collection: options.collection, // Tag with collection
-                  chunk_index: chunkIndex,
-                  total_chunks: chunks.length,
-                  ...(doc.metadata.section && { section: doc.metadata.section }),
-                  ...(doc.metadata.subsection && { subsection: doc.metadata.subsection }),
-                  raw_html: doc.raw_html,
-                  created_at: new Date(),
-                  updated_at: new Date(),
-                },
-              };
-
-              vectorDocuments.push(vectorDoc);
-            }
-            
-            processedCount += chunks.length;
+            changes[change].push(doc.url);
+            changedPages.push({ url: doc.url, chunkUrls: chunkDocuments.map(chunk => chunk.metadata.url) });
           }
 
         } catch (error) {
@@ -262,18 +322,20 @@ export async function crawlAndSeed(options: CrawlAndSeedOptions): Promise<CrawlA
         }
       }
 
+      await options.onProgress?.('embed', Math.min(i + batchSize, documents.length), documents.length);
+
       // Small delay between batches
       if (i + batchSize < documents.length) {
         await new Promise(resolve => setTimeout(resolve, 100));
       }
     }
 
-    console.log(`✅ Generated embeddings for ${processedCount} documents`);
+    console.log(`✅ Generated embeddings for ${vectorDocuments.length} chunks`);
     if (failedCount > 0) {
       console.log(`⚠️  Failed to process ${failedCount} documents`);
     }
 
-    if (vectorDocuments.length === 0) {
+    if (documents.length > 0 && failedCount === documents.length) {
       return {
         success: false,
         message: 'No documents could be processed successfully',
@@ -284,20 +346,65 @@ export async function crawlAndSeed(options: CrawlAndSeedOptions): Promise<CrawlA
       };
     }
 
+    // Known pages that answer 404/410 are gone. Pages the crawl did not reach are only
+    // checked when it ran out of links; after hitting the page limit they may simply be further out
+    const gone = new Set(crawlResult.gone);
+    const exhaustive = crawlResult.stats.total_pages < maxPages;
+    if (exhaustive) {
+      const seen = new Set([...documents.map(doc => doc.url), ...notModified, ...gone]);
+      for (const page of activePages) {
+        throwIfAborted(options.signal);
+        if (!seen.has(page.url) && await crawler.isGone(page.url)) {
+          gone.add(page.url);
+        }
+      }
+    }
+
     // Store in vector database
+    throwIfAborted(options.signal);
     console.log('💾 Storing documents in vector database...');
     await vectorStore.upsert(vectorDocuments);
+    changes.chunks_embedded = vectorDocuments.length;
+
+    for (const page of changedPages) {
+      changes.chunks_deleted += await vectorStore.deletePageChunks(page.url, page.chunkUrls);
+    }
+    for (const url of gone) {
+      const deleted = await vectorStore.deletePageChunks(url);
+      changes.chunks_deleted += deleted;
+      if (deleted > 0 || previousPages.get(url)?.status === 'active') {
+        changes.removed.push(url);
+      }
+    }
+
+    await pageStore.save(pageStates);
+    await pageStore.touch(notModified);
+    await pageStore.markRemoved(changes.removed);
+    // Keeps updated_at meaning "last confirmed by a crawl" for reindex and cleanup jobs,
+    // including the chunks an updated page kept without re-embedding
+    await vectorStore.touchPages(options.collection, [...unchangedUrls, ...changedPages.map(page => page.url)]);
     console.log('✅ Documents stored successfully');
 
+    console.log(`📝 Changes: ${changes.added.length} added, ${changes.updated.length} updated, ${changes.removed.length} removed, ${changes.unchanged} unchanged`);
+
+    // Cached answers may cite chunks that just changed
+    if (changes.added.length + changes.updated.length + changes.removed.length > 0) {
+      const invalidatedAnswers = answerCache.invalidate(options.collection);
+      console.log(`🧹 Invalidated ${invalidatedAnswers} cached answers for collection '${options.collection}'`);
+    }
+
     // Verify storage
     const finalCount = await vectorStore.count();
     console.log(`📊 Total documents in database: ${finalCount}`);
 
     const result: CrawlAndSeedResult = {
       success: true,
-      message: `Successfully crawled and seeded ${documents.length} pages with ${vectorDocuments.length} chunks for collection '${options.collection}'`,
-      pagesCrawled: documents.length,
+      message: `Successfully crawled ${documents.length + notModified.length} pages for collection '${options.collection}': ` +
+        `${changes.added.length} added, ${changes.updated.length} updated, ${changes.removed.length} removed, ${changes.unchanged} unchanged`,
+      pagesCrawled: documents.length + notModified.length,
       chunksInserted: vectorDocuments.length,
+      changes,
+      exhaustive,
       duration_ms: Date.now() - startTime,
     };
 
@@ -330,5 +437,8 @@ export async function crawlAndSeed(options: CrawlAndSeedOptions): Promise<CrawlA
         console.error('Warning: Failed to close vector store connection:', error);
       }
     }
+    await pageStore?.close().catch(error => {
+      console.error('Warning: Failed to close crawl state connection:', error);
+    });
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,242 @@
+/**
+ * Per-page crawl state for incremental re-crawls
+ * Content hashes and HTTP validators let a crawl skip unchanged pages; removed pages are kept as tombstones
+ */
+
+import { createHash } from 'crypto';
+import { Pool, type QueryResultRow } from 'pg';
+import { RAGError } from '@/types';
+
+export type CrawledPageStatus = 'active' | 'removed';
+
+export interface CrawledPage {
+  url: string;
+  collection: string;
+  /** sha256 of the page's extracted content */
+  content_hash: string;
+  /** sha256 of each chunk, by chunk index */
+  chunk_hashes: string[];
+  links: string[];
+  etag?: string;
+  last_modified?: string;
+  status: CrawledPageStatus;
+  last_crawled_at?: string;
+  last_changed_at?: string;
+  removed_at?: string;
+}
+
+export type PageChange = 'added' | 'updated' | 'unchanged';
+
+/**
+ * Pages added, updated and removed by one crawl run
+ */
+export interface CrawlChangeReport {
+  collection: string;
+  added: string[];
+  updated: string[];
+  removed: string[];
+  unchanged: number;
+  chunks_embedded: number;
+  chunks_deleted: number;
+}
+
+export function hashContent(content: string): string {
+  return createHash('sha256').update(content).digest('hex');
+}
+
+/**
+ * Compare a crawled page with its stored state; a tombstoned page that is back counts as added
+ */
+export function classifyPage(previous: CrawledPage | undefined, contentHash: string): PageChange {
+  if (!previous || previous.status === 'removed') {
+    return 'added';
+  }
+  return previous.content_hash === contentHash ? 'unchanged' : 'updated';
+}
+
+/**
+ * Chunk indexes that need embedding; all of them when the chunk count changed,
+ * since every chunk's title carries its part number
+ */
+export function changedChunkIndexes(previousHashes: string[] | undefined, chunkHashes: string[]): number[] {
+  const indexes = chunkHashes.map((_, index) => index);
+  if (!previousHashes || previousHashes.length !== chunkHashes.length) {
+    return indexes;
+  }
+  return indexes.filter(index => previousHashes[index] !== chunkHashes[index]);
+}
+
+/**
+ * Persistent crawl state per page
+ */
+export interface CrawledPageStore {
+  /** Active pages and tombstones of a collection, by URL */
+  loadCollection(collection: string): Promise<Map<string, CrawledPage>>;
+  save(pages: CrawledPage[]): Promise<void>;
+  /** Refresh last_crawled_at of pages seen unchanged */
+  touch(urls: string[]): Promise<void>;
+  markRemoved(urls: string[]): Promise<void>;
+  /** Forget a collection's pages, or those not crawled since a given time */
+  deleteCollection(collection: string, options?: { crawledBefore?: Date }): Promise<number>;
+}
+
+/**
+ * A crawled_pages row as returned by pg; timestamps arrive as Dates
+ */
+interface CrawledPageRow extends QueryResultRow {
+  url: string;
+  collection: string;
+  content_hash: string;
+  chunk_hashes: string[];
+  links: string[];
+  etag: string | null;
+  last_modified: string | null;
+  status: CrawledPageStatus;
+  last_crawled_at: Date | null;
+  last_changed_at: Date | null;
+  removed_at: Date | null;
+}
+
+export interface PostgresCrawledPageOptions {
+  connectionString: string;
+  tableName?: string;
+}
+
+/**
+ * Postgres-backed crawl state (see the crawled_pages table in sql/schema.sql)
+ * Without the table every crawl is a full one and nothing is stored
+ */
+export class PostgresCrawledPageStore implements CrawledPageStore {
+  private readonly pool: Pool;
+  private readonly tableName: string;
+  private disabled = false;
+
+  constructor(options: PostgresCrawledPageOptions) {
+    this.tableName = options.tableName || 'crawled_pages';
+    this.pool = new Pool({
+      connectionString: options.connectionString,
+      max: 2,
+      connectionTimeoutMillis: 5000,
+    });
+
+    this.pool.on('error', (err) => {
+      console.error('[CrawledPages] Unexpected Postgres pool error', err.message);
+    });
+  }
+
+  async loadCollection(collection: string): Promise<Map<string, CrawledPage>> {
+    const result = await this.query<CrawledPageRow>(`SELECT * FROM ${this.tableName} WHERE collection = $1`, [collection]);
+    return new Map(result.rows.map(row => [row.url, this.toPage(row)]));
+  }
+
+  async save(pages: CrawledPage[]): Promise<void> {
+    for (const page of pages) {
+      await this.query(
+        `INSERT INTO ${this.tableName} (
+           url, collection, content_hash, chunk_hashes, links, etag, last_modified, status,
+           last_crawled_at, last_changed_at, removed_at
+         ) VALUES ($1, $2, $3, $4, $5, $6, $7, 'active', NOW(), NOW(), NULL)
+         ON CONFLICT (url) DO UPDATE SET
+           collection = EXCLUDED.collection,
+           last_changed_at = CASE
+             WHEN ${this.tableName}.content_hash = EXCLUDED.content_hash AND ${this.tableName}.status = 'active'
+             THEN ${this.tableName}.last_changed_at ELSE NOW() END,
+           content_hash = EXCLUDED.content_hash,
+           chunk_hashes = EXCLUDED.chunk_hashes,
+           links = EXCLUDED.links,
+           etag = EXCLUDED.etag,
+           last_modified = EXCLUDED.last_modified,
+           status = 'active',
+           last_crawled_at = NOW(),
+           removed_at = NULL`,
+        [
+          page.url,
+          page.collection,
+          page.content_hash,
+          page.chunk_hashes,
+          page.links,
+          page.etag ?? null,
+          page.last_modified ?? null,
+        ]
+      );
+    }
+  }
+
+  async touch(urls: string[]): Promise<void> {
+    if (urls.length === 0) {
+      return;
+    }
+    await this.query(`UPDATE ${this.tableName} SET last_crawled_at = NOW() WHERE url = ANY($1)`, [urls]);
+  }
+
+  async markRemoved(urls: string[]): Promise<void> {
+    if (urls.length === 0) {
+      return;
+    }
+    await this.query(
+      `UPDATE ${this.tableName} SET status = 'removed', removed_at = NOW(), last_changed_at = NOW()
+       WHERE url = ANY($1) AND status = 'active'`,
+      [urls]
+    );
+  }
+
+  async deleteCollection(collection: string, options: { crawledBefore?: Date } = {}): Promise<number> {
+    const result = options.crawledBefore
+      ? await this.query(
+        `DELETE FROM ${this.tableName} WHERE collection = $1 AND last_crawled_at < $2`,
+        [collection, options.crawledBefore]
+      )
+      : await this.query(`DELETE FROM ${this.tableName} WHERE collection = $1`, [collection]);
+    return result.rowCount ?? 0;
+  }
+
+  /**
+   * Forget every page, e.g. after the documents table was cleared
+   */
+  async clear(): Promise<void> {
+    await this.query(`TRUNCATE TABLE ${this.tableName}`, []);
+  }
+
+  async close(): Promise<void> {
+    await this.pool.end();
+  }
+
+  private async query<R extends QueryResultRow = QueryResultRow>(
+    sql: string,
+    values: unknown[]
+  ): Promise<{ rows: R[]; rowCount?: number | null }> {
+    if (this.disabled) {
+      return { rows: [], rowCount: 0 };
+    }
+
+    try {
+      return await this.pool.query<R>(sql, values);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+
+      if (/relation .* does not exist/i.test(message)) {
+        this.disabled = true;
+        console.warn('[CrawledPages] crawled_pages table missing, crawling every page in full - run the migration to crawl incrementally');
+        return { rows: [], rowCount: 0 };
+      }
+
+      throw new RAGError(`Crawl state storage failed: ${message}`, 'CRAWLED_PAGES_STORE_FAILED');
+    }
+  }
+
+  private toPage(row: CrawledPageRow): CrawledPage {
+    return {
+      url: row.url,
+      collection: row.collection,
+      content_hash: row.content_hash,
+      chunk_hashes: row.chunk_hashes,
+      links: row.links,
+      ...(row.etag && { etag: row.etag }),
+      ...(row.last_modified && { last_modified: row.last_modified }),
+      status: row.status,
+      ...(row.last_crawled_at && { last_crawled_at: new Date(row.last_crawled_at).toISOString() }),
+      ...(row.last_changed_at && { last_changed_at: new Date(row.last_changed_at).toISOString() }),
+      ...(row.removed_at && { removed_at: new Date(row.removed_at).toISOString() }),
+    };
+  }
+}
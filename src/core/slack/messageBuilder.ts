@@ -3,7 +3,16 @@
  * Provides functions to create buttons, modals, and enhanced message blocks
  */
 
-import type { SlackBlock, SlackElement, InteractiveButtonData, SourcesModalData, FollowupModalData } from '@/types';
+import type { ModalView } from '@slack/bolt';
+import type {
+  SlackBlock,
+  SlackElement,
+  InteractiveButtonData,
+  SourcesModalData,
+  FollowupModalData,
+  FeedbackModalData
+} from '@/types';
+import { FEEDBACK_REASONS, FEEDBACK_REASON_LABELS } from '@/core/analytics/answerFeedback';
 
 /**
  * Generate interactive buttons for bot responses
@@ -34,11 +43,38 @@ export function createInteractiveButtons(responseId: string): SlackBlock {
         },
         action_id: 'ask_followup',
         value: JSON.stringify(buttonData)
-      }
+      },
+      ...createFeedbackButtons(buttonData)
     ] as SlackElement[]
   };
 }
 
+/**
+ * Helpful / not-helpful rating buttons carrying the same button data
+ */
+export function createFeedbackButtons(buttonData: InteractiveButtonData): SlackElement[] {
+  return [
+    {
+      type: 'button',
+      text: {
+        type: 'plain_text',
+        text: '👍 Helpful'
+      },
+      action_id: 'feedback_helpful',
+      value: JSON.stringify(buttonData)
+    },
+    {
+      type: 'button',
+      text: {
+        type: 'plain_text',
+        text: '👎 Not helpful'
+      },
+      action_id: 'feedback_not_helpful',
+      value: JSON.stringify(buttonData)
+    }
+  ];
+}
+
 /**
  * Create sources modal view
  */
@@ -195,6 +231,81 @@ export function createFollowupModal(followupData: FollowupModalData): any {
   };
 }
 
+/**
+ * Create the optional "what was wrong" modal shown after a not-helpful rating
+ */
+export function createFeedbackModal(feedbackData: FeedbackModalData): ModalView {
+  return {
+    type: 'modal',
+    callback_id: 'feedback_modal',
+    title: {
+      type: 'plain_text',
+      text: 'What was wrong?'
+    },
+    submit: {
+      type: 'plain_text',
+      text: 'Send'
+    },
+    close: {
+      type: 'plain_text',
+      text: 'Skip'
+    },
+    private_metadata: JSON.stringify(feedbackData),
+    blocks: [
+      {
+        type: 'section',
+        text: {
+          type: 'mrkdwn',
+          text: 'Thanks for the rating. Telling us what went wrong helps us fix the answer.'
+        }
+      },
+      {
+        type: 'input',
+        block_id: 'feedback_reason',
+        optional: true,
+        element: {
+          type: 'static_select',
+          action_id: 'reason',
+          placeholder: {
+            type: 'plain_text',
+            text: 'Choose a reason'
+          },
+          options: FEEDBACK_REASONS.map(reason => ({
+            text: {
+              type: 'plain_text',
+              text: FEEDBACK_REASON_LABELS[reason]
+            },
+            value: reason
+          }))
+        },
+        label: {
+          type: 'plain_text',
+          text: 'Reason'
+        }
+      },
+      {
+        type: 'input',
+        block_id: 'feedback_comment',
+        optional: true,
+        element: {
+          type: 'plain_text_input',
+          action_id: 'comment',
+          placeholder: {
+            type: 'plain_text',
+            text: 'What should the answer have said?'
+          },
+          multiline: true,
+          max_length: 1000
+        },
+        label: {
+          type: 'plain_text',
+          text: 'Details'
+        }
+      }
+    ]
+  };
+}
+
 /**
  * Add interactive buttons to existing SlackRAGResponse
  */
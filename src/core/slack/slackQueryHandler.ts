@@ -14,13 +14,16 @@ import type {
 } from '@/types';
 import { RAGError } from '@/types';
 import { RAGPipeline } from '@/core/rag/ragPipeline';
+import { queryAnalytics } from '@/core/analytics/queryAnalytics';
+import { answerFeedback, FEEDBACK_REASONS, type FeedbackRating, type FeedbackReason } from '@/core/analytics/answerFeedback';
 import { SlackIntentClassifier } from './intentClassifier';
 import { sourceCache, type CachedSource } from './sourceCache';
 import {
   enhanceResponseWithButtons,
   generateResponseId,
   createSourcesModal,
-  createFollowupModal
+  createFollowupModal,
+  createFeedbackModal
 } from './messageBuilder';
 import {
   validateWorkspace,
@@ -153,6 +156,17 @@ export class SlackQueryHandler {
       };
 
       const ragResponse = await this.ragPipeline.process(finalQuery, ragOptions);
+      const responseId = generateResponseId(context.user_id, context.channel_id);
+
+      queryAnalytics.record({
+        query: finalQuery,
+        response: ragResponse,
+        platform: 'slack',
+        responseId,
+        userId: context.user_id,
+        collection: ragOptions.collections?.[0],
+        preferSteps: ragOptions.prefer_steps,
+      });
 
       // Step 4: Format response for Slack
       console.debug('[Slack Handler] Formatting Slack response...');
@@ -170,6 +184,7 @@ export class SlackQueryHandler {
         selectedCollection
       );
 
+      enhancedResponse.response_id = responseId;
       const processingTime = Date.now() - startTime;
 
       console.debug('[Slack Handler] Query processed successfully', {
@@ -217,7 +232,7 @@ export class SlackQueryHandler {
     response: SlackRAGResponse,
     context: SlackQueryContext
   ): Promise<void> {
-    const responseId = generateResponseId(context.user_id, context.channel_id);
+    const responseId = response.response_id ?? generateResponseId(context.user_id, context.channel_id);
     
     // DUPLICATE DIAGNOSIS: Log response sending attempt
     console.log('[DUPLICATE-DEBUG] sendSlackResponse called', {
@@ -342,12 +357,27 @@ export class SlackQueryHandler {
           });
           actionResult = await this.handleAskFollowup(value, triggerId!);
           break;
+
+        case 'feedback_helpful':
+        case 'feedback_not_helpful':
+          console.log('[SLACK-ACTION-FEEDBACK] Handling answer feedback', {
+            actionTrackingId,
+            value: value?.substring(0, 200),
+            triggerId
+          });
+          actionResult = await this.handleFeedback(
+            value,
+            actionId === 'feedback_helpful' ? 'helpful' : 'not_helpful',
+            context,
+            triggerId
+          );
+          break;
           
         default:
           console.error('[SLACK-ACTION-UNKNOWN] Unknown action ID', {
             actionTrackingId,
             actionId,
-            supportedActions: ['show_sources', 'ask_followup']
+            supportedActions: ['show_sources', 'ask_followup', 'feedback_helpful', 'feedback_not_helpful']
           });
           throw new RAGError(`Unknown action: ${actionId}`, 'UNKNOWN_SLACK_ACTION');
       }
@@ -591,6 +621,75 @@ export class SlackQueryHandler {
     }
   }
 
+  /**
+   * Handle "what was wrong" modal submission for a not-helpful rating
+   */
+  async handleFeedbackSubmission(payload: SlackViewSubmissionPayload): Promise<void> {
+    try {
+      const values = payload.view.state?.values;
+      const reason = values?.feedback_reason?.reason?.selected_option?.value;
+      const comment = values?.feedback_comment?.comment?.value;
+      const metadata = JSON.parse(payload.view.private_metadata || '{}');
+
+      if (!metadata.feedbackId) {
+        throw new RAGError('Invalid feedback submission data', 'INVALID_FEEDBACK');
+      }
+
+      await answerFeedback.addDetails(metadata.feedbackId, {
+        reason: FEEDBACK_REASONS.includes(reason as FeedbackReason) ? reason as FeedbackReason : undefined,
+        comment
+      });
+
+    } catch (error) {
+      // The rating itself is already stored; losing the details is not worth interrupting the user
+      console.error('[Slack Feedback] Failed to store feedback details', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId: payload.user.id
+      });
+    }
+  }
+
+  /**
+   * Handle feedback buttons - stores the rating and asks what was wrong for bad answers
+   */
+  private async handleFeedback(
+    value: string,
+    rating: FeedbackRating,
+    context: SlackQueryContext,
+    triggerId?: string
+  ): Promise<void> {
+    try {
+      const buttonData: InteractiveButtonData = JSON.parse(value);
+      const feedback = await answerFeedback.submit({
+        responseId: buttonData.responseId,
+        platform: 'slack',
+        userId: context.user_id,
+        rating
+      });
+
+      if (rating === 'not_helpful' && triggerId) {
+        await this.slackClient.views.open({
+          trigger_id: triggerId,
+          view: createFeedbackModal({ feedbackId: feedback.id, responseId: buttonData.responseId })
+        });
+        return;
+      }
+
+      await this.slackClient.chat.postEphemeral({
+        channel: context.channel_id,
+        user: context.user_id,
+        text: 'Thanks for the feedback!',
+        ...(context.thread_ts && { thread_ts: context.thread_ts })
+      });
+
+    } catch (error) {
+      console.error('[Slack Action] Failed to record feedback', {
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+      throw error;
+    }
+  }
+
   /**
    * Handle show sources action - opens modal with sources
    */
@@ -22,11 +22,27 @@ import teamsRoute from '@/api/routes/teams';
 
 // Import existing routes (maintain backward compatibility)
 import askRoute from '@/api/routes/ask';
+import searchRoute from '@/api/routes/search';
 import healthRoute from '@/api/routes/health';
 
+// Admin routes (x-api-key)
+import adminJobsRoute from '@/api/routes/admin/jobs';
+import adminCacheRoute from '@/api/routes/admin/cache';
+import adminPromptsRoute from '@/api/routes/admin/prompts';
+import adminAnswersRoute from '@/api/routes/admin/answers';
+import adminFeedbackRoute from '@/api/routes/admin/feedback';
+import adminAnalyticsRoute from '@/api/routes/admin/analytics';
+
 // Import metrics for monitoring
 import { metrics } from '@/utils/metrics';
 
+import { promptTemplates, PostgresPromptTemplateStore } from '@/core/rag/promptTemplates';
+import { curatedAnswers, PostgresCuratedAnswerStore } from '@/core/rag/curatedAnswers';
+import { queryAnalytics, PostgresQueryStatsStore } from '@/core/analytics/queryAnalytics';
+import { answerFeedback, PostgresAnswerFeedbackStore } from '@/core/analytics/answerFeedback';
+import { processingJobs, PostgresProcessingJobStore } from '@/core/jobs/processingJobs';
+import { registerJobHandlers } from '@/core/jobs/jobHandlers';
+
 // Validate configuration on startup
 const configValidation = validateConfig();
 if (!configValidation.success) {
@@ -113,6 +129,17 @@ async function registerRoutes() {
   // Legacy ask route (maintain backward compatibility)
   await fastify.register(askRoute, { prefix: '/api' });
 
+  // Retrieval-only search (no answer generation)
+  await fastify.register(searchRoute, { prefix: '/api' });
+
+  // Admin routes: jobs, answer cache, prompt templates, curated answers, feedback and analytics
+  await fastify.register(adminJobsRoute, { prefix: '/api' });
+  await fastify.register(adminCacheRoute, { prefix: '/api' });
+  await fastify.register(adminPromptsRoute, { prefix: '/api' });
+  await fastify.register(adminAnswersRoute, { prefix: '/api' });
+  await fastify.register(adminFeedbackRoute, { prefix: '/api' });
+  await fastify.register(adminAnalyticsRoute, { prefix: '/api' });
+
   // Unified Slack routes (new implementation)
   if (config.SLACK_BOT_TOKEN && config.SLACK_SIGNING_SECRET) {
     await fastify.register(slackRoute, { prefix: '/api' });
@@ -167,6 +194,8 @@ async function registerRoutes() {
         health: '/api/health',
         metrics: '/api/metrics',
         ask: '/api/ask',
+        askStream: '/api/ask/stream',
+        search: '/api/search',
         ...(integrations.slack && {
           slack: {
             events: '/api/slack/events',
@@ -251,6 +280,8 @@ function setupGracefulShutdown() {
       fastify.log.info({ metrics: summary }, 'Final metrics before shutdown');
       
       await fastify.close();
+      await processingJobs.stop();
+      await queryAnalytics.close();
       fastify.log.info('✅ Server closed successfully');
       process.exit(0);
     } catch (error) {
@@ -289,6 +320,32 @@ async function start() {
     setupErrorHandling();
     setupGracefulShutdown();
 
+    // Load stored prompt template versions; the built-in prompt is used if none are stored
+    await promptTemplates.connect(new PostgresPromptTemplateStore({ connectionString: config.DATABASE_URL }));
+
+    // Load admin-curated answers that take precedence over generated ones
+    await curatedAnswers.connect(new PostgresCuratedAnswerStore({ connectionString: config.DATABASE_URL }));
+
+    // Record asks in query_stats in the background
+    if (config.QUERY_ANALYTICS_ENABLED) {
+      await queryAnalytics.connect(new PostgresQueryStatsStore({ connectionString: config.DATABASE_URL }), {
+        retentionDays: config.QUERY_STATS_RETENTION_DAYS,
+        storeQueryText: config.QUERY_STATS_STORE_TEXT,
+      });
+    }
+
+    // Store Slack and Teams answer ratings in answer_feedback
+    answerFeedback.connect(new PostgresAnswerFeedbackStore({ connectionString: config.DATABASE_URL }));
+
+    // Run crawl and indexing jobs queued through the admin API
+    processingJobs.connect(new PostgresProcessingJobStore({ connectionString: config.DATABASE_URL }));
+    registerJobHandlers(processingJobs);
+    try {
+      await processingJobs.start();
+    } catch (error) {
+      fastify.log.warn({ error }, 'Background job worker not started; run the migration to create processing_jobs');
+    }
+
     // Start server
     const address = await fastify.listen({
       port: config.PORT,
@@ -338,6 +395,7 @@ async function start() {
    • Health: ${address}/api/health
    • Metrics: ${address}/api/metrics
    • Ask (Legacy): ${address}/api/ask
+   • Ask (Streaming): ${address}/api/ask/stream
    ${integrationStatus.slack ? `• Slack Events: ${address}/api/slack/events\n   • Slack Commands: ${address}/api/slack/command\n   • Slack Actions: ${address}/api/slack/actions` : ''}
    ${integrationStatus.teams ? `• Teams Messages: ${address}/api/teams/messages` : ''}
 
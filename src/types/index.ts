@@ -9,10 +9,18 @@ export interface Environment {
   LOG_LEVEL: 'debug' | 'info' | 'warn' | 'error';
   DATABASE_URL: string;
   VECTOR_TABLE_NAME: string;
+  TEXT_SEARCH_CONFIG: string;
+  GLOSSARY_PATH?: string | undefined;
   OPENAI_API_KEY?: string | undefined;
   EMBEDDING_MODEL: string;
   LLM_MODEL: string;
   MAX_TOKENS: number;
+  LLM_OUTPUT_FORMAT: 'markdown' | 'json';
+  EMBEDDING_CACHE_ENABLED: boolean;
+  EMBEDDING_CACHE_MAX_ENTRIES: number;
+  QUERY_ANALYTICS_ENABLED: boolean;
+  QUERY_STATS_RETENTION_DAYS: number;
+  QUERY_STATS_STORE_TEXT: boolean;
   RATE_LIMIT_PER_MIN: number;
   MAX_QUERY_LENGTH: number;
   ADMIN_API_KEY: string;
@@ -65,6 +73,52 @@ export interface AskRequest {
   prefer_steps?: boolean;
   max_tokens?: number;
   collection?: string;
+  filters?: AskFilters;
+  retrieval?: AskRetrievalOptions;
+  /** Unsupported claims are only reported by default; 'strip' and 'refuse' change the answer */
+  grounding_action?: GroundingInfo['action'];
+}
+
+// Metadata filters applied to both vector and keyword search
+export interface AskFilters {
+  sections?: string[];
+  content_types?: string[];
+  /** Only pages whose URL starts with one of these prefixes */
+  url_prefixes?: string[];
+  /** ISO date or date-time; only chunks (re)indexed at or after it */
+  updated_after?: string;
+}
+
+export interface AskRetrievalOptions {
+  top_k?: number;
+  similarity_threshold?: number;
+  hybrid?: boolean;
+  vector_weight?: number;
+  text_weight?: number;
+}
+
+export interface GlossaryHitInfo {
+  /** Text found in the query */
+  matched: string;
+  /** Terms added next to it */
+  added: string[];
+  collection: string;
+}
+
+export interface ClaimSupportInfo {
+  claim: string;
+  supported: boolean;
+  score: number;
+  source_id?: string;
+}
+
+export interface GroundingInfo {
+  verdict: 'grounded' | 'partially_grounded' | 'ungrounded';
+  verifier: string;
+  supported_ratio: number;
+  action: 'flag' | 'strip' | 'refuse';
+  removed_claims?: number;
+  claims: ClaimSupportInfo[];
 }
 
 export interface DebugInfo {
@@ -74,6 +128,33 @@ export interface DebugInfo {
   processing_time_ms: number;
   documents_found: number;
   used_mock_embedding?: boolean;
+  reranker?: string;
+  rewritten_query?: string;
+  history_turns?: number;
+  cached?: boolean;
+  cache_similarity?: number;
+  /** Curated answer served instead of generating one */
+  curated_answer_id?: string;
+  curated_similarity?: number;
+  expanded_chunks?: number;
+  diversification?: string;
+  tokenizer?: string;
+  context_budget_tokens?: number;
+  context_tokens?: number;
+  prompt_tokens?: number;
+  response_tokens?: number;
+  grounding?: GroundingInfo;
+  invalid_citation_markers?: number;
+  removed_urls?: number;
+  output_mode?: 'markdown' | 'json' | 'json_fallback';
+  model_confidence?: number;
+  /** Active system prompt template, e.g. "schoology/instructions@v3" */
+  prompt_template?: string;
+  glossary_hits?: GlossaryHitInfo[];
+  /** Highest retrieval score among the documents found */
+  top_score?: number;
+  /** Per-stage timings; stages that did not run are omitted */
+  timings?: Partial<RAGMetadata>;
 }
 
 export interface AskResponse {
@@ -82,18 +163,86 @@ export interface AskResponse {
   steps?: string[];
   citations: Citation[];
   retrieved_docs: RetrievedDoc[];
+  /** 'curated' when an admin-approved answer was returned verbatim; absent for generated answers */
+  source?: 'curated';
   debug_info?: DebugInfo;
 }
 
+// Retrieval-only search, without answer generation
+export type SearchMode = 'vector' | 'hybrid' | 'keyword';
+
+export interface SearchRequest {
+  query: string;
+  collection?: string;
+  mode?: SearchMode;
+  filters?: AskFilters;
+  similarity_threshold?: number;
+  /** 1-based page number */
+  page?: number;
+  page_size?: number;
+}
+
+export interface SearchHit {
+  id: string;
+  score: number;
+  title: string;
+  url: string;
+  section?: string;
+  subsection?: string;
+  collection?: string;
+  content_type: DocumentMetadata['content_type'];
+  chunk_index: number;
+  /** HTML-escaped excerpt with query terms wrapped in <mark> */
+  snippet: string;
+  updated_at: string;
+}
+
+export interface SearchResponse {
+  query: string;
+  mode: SearchMode;
+  results: SearchHit[];
+  page: number;
+  page_size: number;
+  has_more: boolean;
+  took_ms: number;
+  glossary_hits?: GlossaryHitInfo[];
+}
+
+// Streaming events emitted while an answer is generated
+export type AskStreamEvent =
+  | { type: 'retrieval'; retrieved_docs: RetrievedDoc[]; citations: Citation[] }
+  | { type: 'token'; delta: string }
+  | { type: 'done'; response: AskResponse };
+
 export interface Citation {
   title: string;
   url: string;
+  /** Inline marker number, e.g. 2 for "[2]" in the answer */
+  marker?: number;
+  chunk_id?: string;
+  section?: string;
+  excerpt?: string;
+}
+
+// A completed question/answer exchange in a platform thread
+export interface ConversationTurn {
+  query: string;
+  rewrittenQuery?: string;
+  answer: string;
+  summary: string;
+  citations: Citation[];
+  contextId: string;
+  createdAt: number;
 }
 
 export interface RetrievedDoc {
   id: string;
   score: number;
+  url?: string;
+  title?: string;
   excerpt: string;
+  pre_rerank_score?: number;
+  rerank_score?: number;
 }
 
 export interface HealthResponse {
@@ -137,6 +286,9 @@ export interface SearchResult {
   content: string;
   metadata: DocumentMetadata;
   score: number;
+  preRerankScore?: number;
+  /** Chunk indexes merged into this result by context expansion */
+  expandedChunks?: number[];
 }
 
 // Adapter Types
@@ -149,16 +301,53 @@ export interface EmbeddingAdapter {
 
 export interface LLMAdapter {
   generate(messages: ChatMessage[], options?: GenerateOptions): Promise<string>;
+  generateStream?(
+    messages: ChatMessage[],
+    options?: GenerateOptions,
+    onChunk?: (chunk: string) => void
+  ): Promise<string>;
   getMaxTokens(): number;
   getModel(): string;
 }
 
+// Metadata filters shared by keyword search implementations
+export interface TextSearchFilters {
+  contentTypes?: string[];
+  sections?: string[];
+  collections?: string[];
+  urlPrefixes?: string[];
+  updatedAfter?: Date;
+}
+
+// Stored chunks sampled per collection and section, e.g. to generate evaluation questions
+export interface ChunkSampleOptions {
+  /** Chunks taken from each collection/section pair */
+  perSection: number;
+  collections?: string[];
+  /** Skip chunks shorter than this many characters */
+  minLength?: number;
+  /** The same seed returns the same sample */
+  seed?: string;
+}
+
+// Filters for vector search; similarityThreshold drops results scoring below it
+export interface VectorSearchFilters extends TextSearchFilters {
+  similarityThreshold?: number;
+  dateRange?: { start?: Date; end?: Date };
+}
+
 export interface VectorStoreAdapter {
   upsert(docs: VectorDocument[]): Promise<void>;
   search(query: number[], topK: number): Promise<SearchResult[]>;
   delete(ids: string[]): Promise<void>;
   count(): Promise<number>;
   health(): Promise<boolean>;
+  // Optional capabilities; the retriever falls back or skips a feature when a store lacks one
+  searchWithFilters?(queryEmbedding: number[], topK: number, filters?: VectorSearchFilters): Promise<SearchResult[]>;
+  textSearch?(queryText: string, topK: number, filters?: TextSearchFilters): Promise<SearchResult[]>;
+  getEmbeddings?(ids: string[]): Promise<Map<string, number[]>>;
+  /** Chunks of one page with chunk_index between fromIndex and toIndex, in page order */
+  getPageChunks?(pageUrl: string, fromIndex?: number, toIndex?: number): Promise<SearchResult[]>;
 }
 
 // LLM Types
@@ -167,12 +356,22 @@ export interface ChatMessage {
   content: string;
 }
 
+// JSON document format requested from the model; schema is a JSON Schema object
+export interface StructuredOutputFormat {
+  name: string;
+  schema: Record<string, unknown>;
+}
+
 export interface GenerateOptions {
   max_tokens?: number;
   temperature?: number;
   top_p?: number;
   stop?: string[];
   stream?: boolean;
+  /** Request JSON matching this format, using the provider's native JSON/tool mode when available */
+  response_format?: StructuredOutputFormat;
+  /** Cancels an in-flight streaming request, e.g. once the caller stopped waiting for it */
+  signal?: AbortSignal;
 }
 
 // RAG Pipeline Types
@@ -209,12 +408,21 @@ export interface CrawledDocument {
   content: string;
   raw_html: string;
   metadata: Partial<DocumentMetadata>;
+  // HTTP validators for conditional requests on the next crawl
+  etag?: string;
+  last_modified?: string;
+  /** Crawlable links found on the page */
+  links?: string[];
 }
 
 export interface CrawlResult {
   documents: CrawledDocument[];
   errors: CrawlError[];
   stats: CrawlStats;
+  /** Known pages answered with 304 Not Modified */
+  not_modified: string[];
+  /** Pages answered with 404 or 410 */
+  gone: string[];
 }
 
 export interface CrawlError {
@@ -392,6 +600,8 @@ export interface SlackRAGResponse {
     snippet: string;
     retrieval_score: number;
   }[];
+  /** Id the answer was recorded under in query analytics; feedback buttons reuse it */
+  response_id?: string;
 }
 
 export interface IntentClassificationResult {
@@ -476,6 +686,11 @@ export interface SourcesModalData {
   }>;
 }
 
+export interface FeedbackModalData {
+  feedbackId: string;
+  responseId: string;
+}
+
 export interface FollowupModalData {
   originalResponseId: string;
   originalText: string;
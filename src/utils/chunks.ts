@@ -0,0 +1,20 @@
+/**
+ * Helpers for chunked document URLs
+ * Multi-chunk pages are stored as `${pageUrl}#chunk-${chunkIndex}`
+ */
+
+const CHUNK_URL_SUFFIX = /#chunk-\d+$/;
+
+/**
+ * Build the stored URL of a page chunk
+ */
+export function getChunkUrl(pageUrl: string, chunkIndex: number): string {
+  return `${pageUrl}#chunk-${chunkIndex}`;
+}
+
+/**
+ * Strip the chunk suffix to get the URL of the page a chunk belongs to
+ */
+export function getPageUrl(url: string): string {
+  return url.replace(CHUNK_URL_SUFFIX, '');
+}
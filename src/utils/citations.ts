@@ -0,0 +1,37 @@
+/**
+ * Helpers for inline citation markers such as [1] or [2] in generated answers
+ */
+
+// A bracketed number that is not the text of a markdown link
+export const CITATION_MARKER = /\[(\d{1,3})\](?!\()/g;
+
+export interface MarkedSource {
+  marker?: number;
+  url: string;
+}
+
+/**
+ * Replace citation markers that have a source with a platform-specific link.
+ * Markers without a source are left as plain text.
+ */
+export function linkCitationMarkers(
+  text: string,
+  sources: MarkedSource[],
+  render: (marker: number, url: string) => string
+): string {
+  const urls = new Map<number, string>();
+  for (const source of sources) {
+    if (source.marker !== undefined && !urls.has(source.marker)) {
+      urls.set(source.marker, source.url);
+    }
+  }
+
+  if (urls.size === 0) {
+    return text;
+  }
+
+  return text.replace(CITATION_MARKER, (match, value: string) => {
+    const url = urls.get(Number(value));
+    return url ? render(Number(value), url) : match;
+  });
+}
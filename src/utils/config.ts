@@ -15,12 +15,24 @@ const envSchema = z.object({
   // Database Configuration
   DATABASE_URL: z.string().min(1, 'DATABASE_URL is required'),
   VECTOR_TABLE_NAME: z.string().default('documents'),
+  TEXT_SEARCH_CONFIG: z.string().regex(/^[a-z_][a-z0-9_]*$/, 'TEXT_SEARCH_CONFIG must be a Postgres identifier').default('english'),
+  GLOSSARY_PATH: z.string().optional(),
 
   // OpenAI Configuration (optional when using other providers)
   OPENAI_API_KEY: z.string().optional(),
   EMBEDDING_MODEL: z.string().default('amazon.titan-embed-text-v2:0'),
   LLM_MODEL: z.string().default('gpt-4'),
   MAX_TOKENS: z.coerce.number().min(100).max(4000).default(1500),
+  LLM_OUTPUT_FORMAT: z.enum(['markdown', 'json']).default('markdown'),
+
+  // Embedding Cache Configuration
+  EMBEDDING_CACHE_ENABLED: z.enum(['true', 'false']).default('true').transform(value => value === 'true'),
+  EMBEDDING_CACHE_MAX_ENTRIES: z.coerce.number().min(0).max(1000000).default(10000),
+
+  // Query Analytics Configuration
+  QUERY_ANALYTICS_ENABLED: z.enum(['true', 'false']).default('true').transform(value => value === 'true'),
+  QUERY_STATS_RETENTION_DAYS: z.coerce.number().int().min(0).max(3650).default(90),
+  QUERY_STATS_STORE_TEXT: z.enum(['true', 'false']).default('true').transform(value => value === 'true'),
 
   // Security Configuration
   RATE_LIMIT_PER_MIN: z.coerce.number().min(1).max(1000).default(60),
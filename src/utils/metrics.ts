@@ -41,17 +41,17 @@ class MetricsCollector {
   /**
    * Increment a counter metric
    */
-  incrementCounter(metric: string, labels: MetricLabels = {}): void {
+  incrementCounter(metric: string, labels: MetricLabels = {}, amount: number = 1): void {
     const key = this.createKey(metric, labels);
     const existing = this.counters.get(key);
 
     if (existing) {
-      existing.value += 1;
+      existing.value += amount;
       existing.lastUpdated = Date.now();
     } else {
       this.counters.set(key, {
         name: metric,
-        value: 1,
+        value: amount,
         labels,
         lastUpdated: Date.now()
       });
@@ -238,6 +238,10 @@ export const MetricNames = {
   VALIDATION_FAILURES_TOTAL: 'validation_failures_total',
   FOLLOWUP_MODAL_OPENS_TOTAL: 'followup_modal_opens_total',
   
+  // Embedding cache metrics
+  EMBEDDING_CACHE_HITS_TOTAL: 'embedding_cache_hits_total',
+  EMBEDDING_CACHE_MISSES_TOTAL: 'embedding_cache_misses_total',
+  
   // Error metrics
   RATE_LIMIT_HITS_TOTAL: 'rate_limit_hits_total',
   AUTH_FAILURES_TOTAL: 'auth_failures_total'
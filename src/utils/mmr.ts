@@ -0,0 +1,83 @@
+/**
+ * Maximal Marginal Relevance selection for diversifying retrieved results
+ */
+
+import type { SearchResult } from '@/types';
+import { EmbeddingUtils } from '@/adapters/embedding/base';
+
+export interface MMRCandidate {
+  result: SearchResult;
+  embedding?: number[];
+}
+
+export interface MMROptions {
+  /** Trade-off between relevance (1) and diversity (0) */
+  lambda?: number;
+  topK?: number;
+  /** Maximum results sharing the same group key (e.g. page URL) */
+  maxPerGroup?: number;
+  groupBy?: (result: SearchResult) => string;
+}
+
+/**
+ * Greedily select results maximizing lambda * relevance - (1 - lambda) * redundancy,
+ * where relevance is cosine similarity to the query and redundancy is the highest
+ * cosine similarity to an already selected result. Candidates without an embedding
+ * fall back to their retrieval score and are never considered redundant.
+ */
+export function maximalMarginalRelevance(
+  queryEmbedding: number[],
+  candidates: MMRCandidate[],
+  options: MMROptions = {}
+): SearchResult[] {
+  const { lambda = 0.7, topK = candidates.length, maxPerGroup, groupBy } = options;
+
+  const remaining = candidates.map(candidate => ({
+    ...candidate,
+    relevance: candidate.embedding && candidate.embedding.length === queryEmbedding.length
+      ? EmbeddingUtils.cosineSimilarity(queryEmbedding, candidate.embedding)
+      : candidate.result.score,
+  }));
+  const selected: typeof remaining = [];
+  const groupCounts = new Map<string, number>();
+
+  while (selected.length < topK && remaining.length > 0) {
+    let bestIndex = -1;
+    let bestScore = -Infinity;
+
+    remaining.forEach((candidate, index) => {
+      if (maxPerGroup !== undefined && groupBy) {
+        if ((groupCounts.get(groupBy(candidate.result)) || 0) >= maxPerGroup) {
+          return;
+        }
+      }
+
+      let redundancy = 0;
+      for (const chosen of selected) {
+        if (candidate.embedding && chosen.embedding && candidate.embedding.length === chosen.embedding.length) {
+          redundancy = Math.max(redundancy, EmbeddingUtils.cosineSimilarity(candidate.embedding, chosen.embedding));
+        }
+      }
+
+      const score = lambda * candidate.relevance - (1 - lambda) * redundancy;
+      if (score > bestScore) {
+        bestScore = score;
+        bestIndex = index;
+      }
+    });
+
+    // Every remaining candidate is capped
+    if (bestIndex === -1) {
+      break;
+    }
+
+    const [chosen] = remaining.splice(bestIndex, 1);
+    selected.push(chosen!);
+    if (groupBy) {
+      const group = groupBy(chosen!.result);
+      groupCounts.set(group, (groupCounts.get(group) || 0) + 1);
+    }
+  }
+
+  return selected.map(candidate => candidate.result);
+}
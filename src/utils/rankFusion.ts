@@ -0,0 +1,53 @@
+/**
+ * Reciprocal Rank Fusion for combining independently ranked result lists
+ */
+
+import type { SearchResult } from '@/types';
+
+export interface RankedList {
+  results: SearchResult[];
+  weight?: number;
+}
+
+export interface RankFusionOptions {
+  /** Rank smoothing constant; 60 is the value from the original RRF paper */
+  k?: number;
+  topK?: number;
+}
+
+/**
+ * Fuse ranked lists by summing weight / (k + rank) for every list a result appears in.
+ * Only ranks are used, so lists with incomparable score scales (cosine vs ts_rank vs BM25)
+ * can be combined. Fused scores are normalized so a result ranked first in every list scores 1.
+ */
+export function reciprocalRankFusion(
+  lists: RankedList[],
+  options: RankFusionOptions = {}
+): SearchResult[] {
+  const { k = 60, topK } = options;
+  const fused = new Map<string, { result: SearchResult; score: number }>();
+
+  for (const { results, weight = 1 } of lists) {
+    results.forEach((result, index) => {
+      const contribution = weight / (k + index + 1);
+      const existing = fused.get(result.id);
+
+      if (existing) {
+        existing.score += contribution;
+      } else {
+        fused.set(result.id, { result, score: contribution });
+      }
+    });
+  }
+
+  const maxScore = lists.reduce((sum, list) => sum + (list.weight ?? 1), 0) / (k + 1);
+
+  const ranked = Array.from(fused.values())
+    .sort((a, b) => b.score - a.score)
+    .map(({ result, score }) => ({
+      ...result,
+      score: maxScore > 0 ? score / maxScore : 0,
+    }));
+
+  return topK !== undefined ? ranked.slice(0, topK) : ranked;
+}
@@ -0,0 +1,80 @@
+/**
+ * Text processing helpers shared by lexical retrieval components
+ */
+
+// Common English words that carry no retrieval signal
+export const ENGLISH_STOPWORDS: ReadonlySet<string> = new Set([
+  'a', 'about', 'after', 'all', 'also', 'an', 'and', 'any', 'are', 'as', 'at',
+  'be', 'been', 'but', 'by', 'can', 'could', 'do', 'does', 'for', 'from', 'get',
+  'has', 'have', 'how', 'i', 'if', 'in', 'into', 'is', 'it', 'its', 'me', 'my',
+  'no', 'not', 'of', 'on', 'or', 'our', 'should', 'so', 'some', 'than', 'that',
+  'the', 'their', 'them', 'then', 'there', 'these', 'they', 'this', 'to', 'up',
+  'was', 'we', 'what', 'when', 'where', 'which', 'who', 'why', 'will', 'with',
+  'would', 'you', 'your',
+]);
+
+/**
+ * Split text into lowercase search terms, dropping stopwords and single characters.
+ * Underscores are kept so field names like "Lunch_Balance" survive as one term.
+ */
+export function tokenizeText(text: string): string[] {
+  return (text.toLowerCase().match(/[a-z0-9_]+/g) || []).filter(
+    term => term.length > 1 && !ENGLISH_STOPWORDS.has(term)
+  );
+}
+
+const HTML_ESCAPES: Record<string, string> = {
+  '&': '&amp;',
+  '<': '&lt;',
+  '>': '&gt;',
+  '"': '&quot;',
+  "'": '&#39;',
+};
+
+function escapeHtml(text: string): string {
+  return text.replace(/[&<>"']/g, char => HTML_ESCAPES[char] ?? char);
+}
+
+/**
+ * Excerpt of the text around the densest cluster of query terms, HTML-escaped,
+ * with each matched term wrapped in <mark>
+ */
+export function highlightSnippet(text: string, query: string, maxLength: number = 240): string {
+  const normalized = text.replace(/\s+/g, ' ').trim();
+  const terms = [...new Set(tokenizeText(query))];
+  const pattern = terms.length > 0
+    ? new RegExp(`(?<![a-z0-9_])(${terms.join('|')})(?![a-z0-9_])`, 'gi')
+    : null;
+  const positions = pattern ? [...normalized.matchAll(pattern)].map(match => match.index ?? 0) : [];
+
+  // Start the window at the match with the most other matches within reach
+  let bestPosition = 0;
+  let bestCount = 0;
+  for (const position of positions) {
+    const count = positions.filter(other => other >= position && other < position + maxLength).length;
+    if (count > bestCount) {
+      bestPosition = position;
+      bestCount = count;
+    }
+  }
+
+  // Keep a little leading context and cut on word boundaries
+  let start = Math.max(0, bestPosition - Math.floor(maxLength / 6));
+  if (start > 0) {
+    const space = normalized.indexOf(' ', start);
+    start = space === -1 || space > bestPosition ? start : space + 1;
+  }
+  let end = Math.min(normalized.length, start + maxLength);
+  if (end < normalized.length) {
+    const space = normalized.lastIndexOf(' ', end);
+    end = space > start ? space : end;
+  }
+
+  const excerpt = normalized.slice(start, end);
+  // split() with a capture group puts the matched terms at odd indexes
+  const highlighted = (pattern ? excerpt.split(pattern) : [excerpt])
+    .map((part, index) => index % 2 === 1 ? `<mark>${escapeHtml(part)}</mark>` : escapeHtml(part))
+    .join('');
+
+  return `${start > 0 ? '…' : ''}${highlighted}${end < normalized.length ? '…' : ''}`;
+}
@@ -0,0 +1,142 @@
+/**
+ * Token counting service with per-model tokenizers
+ * Uses tiktoken encodings for OpenAI models and registered approximations elsewhere
+ */
+
+import { get_encoding, type Tiktoken, type TiktokenEncoding } from 'tiktoken';
+import type { ChatMessage } from '@/types';
+
+export interface Tokenizer {
+  readonly name: string;
+  countTokens(text: string): number;
+}
+
+// Chat formatting overhead per message and for priming the reply (OpenAI cookbook values)
+const TOKENS_PER_MESSAGE = 4;
+const TOKENS_PER_REPLY = 3;
+
+/**
+ * Exact tokenizer backed by a tiktoken encoding, loaded on first use
+ */
+export class TiktokenTokenizer implements Tokenizer {
+  readonly name: string;
+  private encoding: Tiktoken | null = null;
+  private fallback: Tokenizer | null = null;
+
+  constructor(private readonly encodingName: TiktokenEncoding) {
+    this.name = `tiktoken:${encodingName}`;
+  }
+
+  countTokens(text: string): number {
+    if (!text) {
+      return 0;
+    }
+
+    if (this.fallback) {
+      return this.fallback.countTokens(text);
+    }
+
+    try {
+      this.encoding ??= get_encoding(this.encodingName);
+      return this.encoding.encode(text).length;
+    } catch (error) {
+      console.warn('[Tokenizer] Failed to load tiktoken encoding, falling back to approximation', {
+        encoding: this.encodingName,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+      this.fallback = new ApproximateTokenizer('approx:4', 4);
+      return this.fallback.countTokens(text);
+    }
+  }
+}
+
+/**
+ * Character-ratio approximation for models without a public tokenizer
+ */
+export class ApproximateTokenizer implements Tokenizer {
+  constructor(
+    readonly name: string,
+    private readonly charsPerToken: number
+  ) {}
+
+  countTokens(text: string): number {
+    if (!text) {
+      return 0;
+    }
+
+    // Punctuation and digits usually split into their own tokens
+    const splitCharacters = (text.match(/[.,!?;:()[\]{}"'`#*|\d]/g) || []).length;
+    return Math.ceil((text.length + splitCharacters) / this.charsPerToken);
+  }
+}
+
+interface TokenizerRegistration {
+  pattern: RegExp;
+  create: () => Tokenizer;
+}
+
+export class TokenCounter {
+  private registrations: TokenizerRegistration[] = [];
+  private tokenizers = new Map<string, Tokenizer>();
+
+  constructor(private readonly defaultTokenizer: Tokenizer = new ApproximateTokenizer('approx:4', 4)) {}
+
+  /**
+   * Register a tokenizer for model names matching a pattern.
+   * Later registrations take precedence over earlier ones.
+   */
+  register(pattern: RegExp, create: () => Tokenizer): void {
+    this.registrations.unshift({ pattern, create });
+    this.tokenizers.clear();
+  }
+
+  /**
+   * Get the tokenizer for a model, or the default approximation for unknown models
+   */
+  getTokenizer(model?: string): Tokenizer {
+    if (!model) {
+      return this.defaultTokenizer;
+    }
+
+    let tokenizer = this.tokenizers.get(model);
+    if (!tokenizer) {
+      const registration = this.registrations.find(entry => entry.pattern.test(model));
+      tokenizer = registration ? registration.create() : this.defaultTokenizer;
+      this.tokenizers.set(model, tokenizer);
+    }
+
+    return tokenizer;
+  }
+
+  /**
+   * Count tokens in text for a model
+   */
+  countTokens(text: string, model?: string): number {
+    return this.getTokenizer(model).countTokens(text);
+  }
+
+  /**
+   * Count prompt tokens for a chat request, including per-message formatting overhead
+   */
+  countMessageTokens(messages: ChatMessage[], model?: string): number {
+    const tokenizer = this.getTokenizer(model);
+
+    return messages.reduce(
+      (sum, message) => sum + TOKENS_PER_MESSAGE + tokenizer.countTokens(message.role) + tokenizer.countTokens(message.content),
+      TOKENS_PER_REPLY
+    );
+  }
+}
+
+// Shared encodings; tiktoken encodings are large, so each is loaded at most once
+const cl100k = new TiktokenTokenizer('cl100k_base');
+const o200k = new TiktokenTokenizer('o200k_base');
+
+// Global token counter instance
+export const tokenCounter = new TokenCounter();
+
+// Claude tokenizes English slightly denser than cl100k; Titan, Cohere and Llama are close to 4 chars/token
+tokenCounter.register(/amazon\.titan|cohere\.|meta\.llama|mistral\./i, () => new ApproximateTokenizer('approx:4', 4));
+tokenCounter.register(/claude|anthropic/i, () => new ApproximateTokenizer('approx:claude', 3.5));
+tokenCounter.register(/(^|\/)(gpt-3\.5|gpt-4|text-embedding-)/i, () => cl100k);
+tokenCounter.register(/(^|\/)(gpt-4o|gpt-4\.1|o1|o3)/i, () => o200k);
@@ -0,0 +1,72 @@
+/**
+ * Metadata filter validation shared by the ask and search endpoints
+ */
+
+import type { AskFilters } from '@/types';
+import { RAGError } from '@/types';
+
+export interface ParsedRetrievalFilters {
+  sections?: string[];
+  contentTypes?: string[];
+  urlPrefixes?: string[];
+  updatedAfter?: Date;
+}
+
+/**
+ * JSON schema for the `filters` request object
+ */
+export const retrievalFiltersSchema = {
+  type: 'object',
+  properties: {
+    sections: {
+      type: 'array',
+      items: { type: 'string', minLength: 1, maxLength: 200 },
+      minItems: 1,
+      maxItems: 20,
+      description: 'Only chunks from these documentation sections, e.g. "State Reporting"',
+    },
+    content_types: {
+      type: 'array',
+      items: { type: 'string', enum: ['text', 'code', 'heading', 'list', 'table'] },
+      minItems: 1,
+      maxItems: 5,
+    },
+    url_prefixes: {
+      type: 'array',
+      items: { type: 'string', pattern: '^https?://', maxLength: 500 },
+      minItems: 1,
+      maxItems: 20,
+      description: 'Only pages whose URL starts with one of these prefixes',
+    },
+    updated_after: {
+      type: 'string',
+      pattern: '^\\d{4}-\\d{2}-\\d{2}([T ][0-9:.]+(Z|[+-]\\d{2}:?\\d{2})?)?$',
+      description: 'ISO date or date-time; only chunks indexed at or after it',
+    },
+  },
+  additionalProperties: false,
+  description: 'Metadata filters applied to vector and keyword search',
+};
+
+/**
+ * Convert request filters to retriever options; throws INVALID_FILTERS for dates that do not parse
+ */
+export function parseRetrievalFilters(filters: AskFilters = {}): ParsedRetrievalFilters {
+  let updatedAfter: Date | undefined;
+  if (filters.updated_after) {
+    updatedAfter = new Date(filters.updated_after);
+    if (Number.isNaN(updatedAfter.getTime())) {
+      throw new RAGError(
+        `Invalid filters.updated_after date: ${filters.updated_after}`,
+        'INVALID_FILTERS'
+      );
+    }
+  }
+
+  return {
+    ...(filters.sections && { sections: filters.sections }),
+    ...(filters.content_types && { contentTypes: filters.content_types }),
+    ...(filters.url_prefixes && { urlPrefixes: filters.url_prefixes }),
+    ...(updatedAfter && { updatedAfter }),
+  };
+}
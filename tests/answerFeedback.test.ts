@@ -0,0 +1,48 @@
+/**
+ * Tests for helpful / not-helpful answer feedback
+ */
+
+import { AnswerFeedbackService, InMemoryAnswerFeedbackStore } from '../src/core/analytics/answerFeedback';
+import { RAGError } from '../src/types';
+
+beforeAll(() => {
+  jest.spyOn(console, 'debug').mockImplementation(() => undefined);
+});
+
+describe('AnswerFeedbackService', () => {
+  let service: AnswerFeedbackService;
+
+  beforeEach(() => {
+    service = new AnswerFeedbackService(new InMemoryAnswerFeedbackStore());
+  });
+
+  it('should keep one rating per response and user', async () => {
+    const first = await service.submit({ responseId: 'ctx-1', platform: 'slack', userId: 'U1', rating: 'helpful' });
+    const second = await service.submit({ responseId: 'ctx-1', platform: 'slack', userId: 'U1', rating: 'not_helpful' });
+    await service.submit({ responseId: 'ctx-1', platform: 'slack', userId: 'U2', rating: 'helpful' });
+
+    expect(second.id).toBe(first.id);
+
+    const { items, summary } = await service.list();
+    expect(items).toHaveLength(2);
+    expect(summary).toEqual({ total: 2, helpful: 1, not_helpful: 1, by_reason: {} });
+  });
+
+  it('should attach what was wrong to a not helpful rating', async () => {
+    const feedback = await service.submit({ responseId: 'ctx-2', platform: 'teams', userId: 'T1', rating: 'not_helpful' });
+    const detailed = await service.addDetails(feedback.id, { reason: 'outdated', comment: '  The menu moved in 24.1  ' });
+
+    expect(detailed).toMatchObject({ reason: 'outdated', comment: 'The menu moved in 24.1' });
+
+    const { items, summary } = await service.list({ rating: 'not_helpful', platform: 'teams' });
+    expect(items.map(item => item.response_id)).toEqual(['ctx-2']);
+    expect(summary.by_reason).toEqual({ outdated: 1 });
+  });
+
+  it('should reject unknown feedback ids and reasons', async () => {
+    const feedback = await service.submit({ responseId: 'ctx-3', platform: 'slack', userId: 'U1', rating: 'not_helpful' });
+
+    await expect(service.addDetails('missing', { reason: 'incorrect' })).rejects.toMatchObject({ code: 'FEEDBACK_NOT_FOUND' });
+    await expect(service.addDetails(feedback.id, { reason: 'rude' as any })).rejects.toBeInstanceOf(RAGError);
+  });
+});
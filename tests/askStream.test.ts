@@ -0,0 +1,116 @@
+/**
+ * Tests for the /ask/stream route's handling of client disconnects
+ */
+
+import http from 'http';
+import Fastify, { type FastifyInstance } from 'fastify';
+import type { AddressInfo } from 'net';
+import { InMemoryVectorAdapter } from '../src/adapters/vector-store/memory';
+import type { EmbeddingAdapter, GenerateOptions, LLMAdapter } from '../src/types';
+
+jest.mock('../src/utils/config', () => ({
+  __esModule: true,
+  default: { MAX_TOKENS: 500, EMBEDDING_PROVIDER: 'mock', LLM_PROVIDER: 'mock' },
+}));
+
+// The adapter streams one token, then hangs until its signal aborts
+const llm = {
+  signal: undefined as AbortSignal | undefined,
+  started: undefined as (() => void) | undefined,
+};
+
+const mockLLMAdapter: LLMAdapter = {
+  generate: jest.fn(),
+  generateStream: (_messages, options: GenerateOptions = {}, onChunk) => {
+    llm.signal = options.signal;
+    onChunk?.('Enroll ');
+    llm.started?.();
+    return new Promise<string>((_resolve, reject) => {
+      options.signal?.addEventListener('abort', () => reject(new Error('aborted')));
+    });
+  },
+  getMaxTokens: () => 8192,
+  getModel: () => 'mock-llm',
+};
+
+const mockEmbeddingAdapter: EmbeddingAdapter = {
+  embed: jest.fn().mockResolvedValue([1, 0, 0]),
+  embedBatch: jest.fn(),
+  getDimensions: () => 3,
+  getModel: () => 'mock-embedding',
+};
+
+jest.mock('../src/adapters/llm', () => ({
+  createLLMAdapter: jest.fn(async () => mockLLMAdapter),
+}));
+
+jest.mock('../src/adapters/embedding', () => ({
+  createEmbeddingAdapter: jest.fn(async () => mockEmbeddingAdapter),
+}));
+
+const mockVectorStore = new InMemoryVectorAdapter();
+
+jest.mock('../src/adapters/vector-store/postgres', () => ({
+  PostgresVectorAdapter: jest.fn(() => mockVectorStore),
+}));
+
+import askRoute from '../src/api/routes/ask';
+
+describe('POST /ask/stream', () => {
+  let fastify: FastifyInstance;
+
+  beforeAll(async () => {
+    jest.spyOn(console, 'debug').mockImplementation(() => undefined);
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+
+    await mockVectorStore.upsert([{
+      id: 'doc-1',
+      content: 'Enroll students from Student Search by selecting Enroll New Student.',
+      embedding: [1, 0, 0],
+      metadata: {
+        url: 'https://docs.example.com/enrollment',
+        title: 'Student Enrollment',
+        content_type: 'text',
+        collection: 'pssis-admin',
+        chunk_index: 0,
+        total_chunks: 1,
+        created_at: new Date(),
+        updated_at: new Date(),
+      },
+    }]);
+
+    fastify = Fastify();
+    await fastify.register(askRoute, { prefix: '/api' });
+    await fastify.listen({ port: 0, host: '127.0.0.1' });
+  });
+
+  afterAll(async () => {
+    await fastify.close();
+  });
+
+  it('should abort the LLM call when the client disconnects', async () => {
+    const started = new Promise<void>(resolve => {
+      llm.started = resolve;
+    });
+    const { port } = fastify.server.address() as AddressInfo;
+
+    const request = http.request({
+      port,
+      host: '127.0.0.1',
+      method: 'POST',
+      path: '/api/ask/stream',
+      headers: { 'Content-Type': 'application/json' },
+    });
+    request.on('error', () => undefined);
+    request.end(JSON.stringify({ query: 'How do I enroll a student?' }));
+
+    await started;
+    expect(llm.signal?.aborted).toBe(false);
+
+    request.destroy();
+    await new Promise(resolve => setTimeout(resolve, 100));
+
+    expect(llm.signal?.aborted).toBe(true);
+  });
+});
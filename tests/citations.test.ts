@@ -0,0 +1,139 @@
+/**
+ * Tests for inline numbered citations: prompt numbering, marker validation and platform rendering
+ */
+
+import { PromptBuilder } from '../src/core/rag/promptBuilder';
+import { LLMClient } from '../src/core/rag/llmClient';
+import { formatResponseForSlack } from '../src/adapters/platform/slackAdapter';
+import { formatResponseForTeams } from '../src/adapters/platform/teamsAdapter';
+import type { OrchestratorResult } from '../src/core/orchestrator/unifiedOrchestrator';
+import type { LLMAdapter, SearchResult } from '../src/types';
+
+jest.mock('../src/utils/config', () => ({
+  __esModule: true,
+  default: {},
+}));
+
+function createResult(id: string, url: string, section?: string): SearchResult {
+  return {
+    id,
+    content: `Content of ${id} describing the   configuration steps.`,
+    score: 0.9,
+    metadata: {
+      url,
+      title: `Title ${id}`,
+      content_type: 'text',
+      ...(section && { section }),
+      chunk_index: 0,
+      total_chunks: 1,
+      created_at: new Date(),
+      updated_at: new Date(),
+    },
+  };
+}
+
+const docs = [
+  createResult('chunk-a', 'https://docs.example.com/enrollment#chunk-0', 'Enrollment'),
+  createResult('chunk-b', 'https://docs.example.com/scheduling'),
+];
+
+const citations = new PromptBuilder().buildPrompt('How?', 'context', docs, {
+  preferSteps: false,
+  maxTokens: 1000,
+  includeReferences: true,
+}).citations;
+
+describe('PromptBuilder citations', () => {
+  it('should number one citation per context chunk', () => {
+    expect(citations).toEqual([
+      {
+        title: 'Title chunk-a',
+        url: 'https://docs.example.com/enrollment#chunk-0',
+        marker: 1,
+        chunk_id: 'chunk-a',
+        section: 'Enrollment',
+        excerpt: 'Content of chunk-a describing the configuration steps.',
+      },
+      expect.objectContaining({ marker: 2, chunk_id: 'chunk-b' }),
+    ]);
+  });
+});
+
+describe('LLMClient.resolveCitations', () => {
+  const client = new LLMClient({} as LLMAdapter);
+
+  beforeAll(() => {
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+  });
+
+  it('should return only the citations referenced by valid markers', () => {
+    const resolved = client.resolveCitations('Open the enrollment page [1]. Then save [7].', citations);
+
+    expect(resolved.answer).toBe('Open the enrollment page [1]. Then save.');
+    expect(resolved.invalidMarkers).toEqual([7]);
+    expect(resolved.citations.map(citation => citation.chunk_id)).toEqual(['chunk-a']);
+  });
+
+  it('should remove links and URLs that are not in the context', () => {
+    const answer = [
+      'See the [enrollment guide](https://docs.example.com/enrollment) [1].',
+      'Also read [this blog](https://blog.example.org/tips) or https://fake.example.net/page.',
+      '- https://fake.example.net/other',
+    ].join('\n');
+
+    const resolved = client.resolveCitations(answer, citations);
+
+    expect(resolved.answer).toBe([
+      'See the [enrollment guide](https://docs.example.com/enrollment) [1].',
+      'Also read this blog or.',
+    ].join('\n'));
+    expect(resolved.removedUrls).toEqual([
+      'https://blog.example.org/tips',
+      'https://fake.example.net/page',
+      'https://fake.example.net/other',
+    ]);
+  });
+
+  it('should keep all context citations when the answer has no markers', () => {
+    const resolved = client.resolveCitations('No markers here.', citations);
+
+    expect(resolved.citations).toBe(citations);
+  });
+});
+
+describe('platform citation rendering', () => {
+  const result: OrchestratorResult = {
+    text: 'Open the enrollment page [1], then the schedule [2]. Unknown [5].',
+    summary: 'Enrollment',
+    sources: [
+      { id: 'chunk-a', title: 'Enrollment', url: 'https://docs.example.com/enrollment', snippet: '', retrieval_score: 0.9, marker: 1 },
+      { id: 'chunk-b', title: 'Scheduling', url: 'https://docs.example.com/scheduling', snippet: '', retrieval_score: 0.8, marker: 2 },
+    ],
+    confidence: 0.9,
+    intent: 'details',
+    platformHints: {},
+    metadata: {
+      processingTimeMs: 10,
+      contextId: 'ctx-1',
+      platform: 'slack',
+      userId: 'U1',
+      channelId: 'C1',
+    },
+  };
+
+  it('should render markers as Slack links', () => {
+    const { blocks } = formatResponseForSlack(result, { includeButtons: false });
+
+    expect(blocks[0]?.text?.text).toBe(
+      'Open the enrollment page <https://docs.example.com/enrollment|[1]>, then the schedule <https://docs.example.com/scheduling|[2]>. Unknown [5].'
+    );
+  });
+
+  it('should render markers as Teams markdown links', () => {
+    const { text } = formatResponseForTeams(result, { includeAdaptiveCard: false });
+
+    expect(text).toBe(
+      'Open the enrollment page [[1]](https://docs.example.com/enrollment), then the schedule [[2]](https://docs.example.com/scheduling). Unknown [5].'
+    );
+  });
+});
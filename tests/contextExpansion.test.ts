@@ -0,0 +1,117 @@
+/**
+ * Tests for neighbour/parent chunk context expansion in the Retriever
+ */
+
+import { InMemoryVectorAdapter } from '../src/adapters/vector-store/memory';
+import { Retriever } from '../src/core/rag/retriever';
+import type { EmbeddingAdapter, SearchResult, VectorDocument, VectorStoreAdapter } from '../src/types';
+
+const embeddingAdapter: EmbeddingAdapter = {
+  embed: async () => [1, 0, 0],
+  embedBatch: async (texts: string[]) => texts.map(() => [1, 0, 0]),
+  getDimensions: () => 3,
+  getModel: () => 'mock-embedding',
+};
+
+function createChunks(page: string, totalChunks: number): VectorDocument[] {
+  return Array.from({ length: totalChunks }, (_, chunkIndex) => ({
+    id: `${page}-${chunkIndex}`,
+    content: `${page} step ${chunkIndex + 1}.`,
+    embedding: [1, 0, 0],
+    metadata: {
+      url: totalChunks > 1
+        ? `https://docs.example.com/${page}#chunk-${chunkIndex}`
+        : `https://docs.example.com/${page}`,
+      title: `${page} (Part ${chunkIndex + 1}/${totalChunks})`,
+      content_type: 'text',
+      collection: 'pssis-admin',
+      chunk_index: chunkIndex,
+      total_chunks: totalChunks,
+      created_at: new Date(),
+      updated_at: new Date(),
+    },
+  }));
+}
+
+function asHit(doc: VectorDocument, score: number): SearchResult {
+  return { id: doc.id, content: doc.content, metadata: doc.metadata, score };
+}
+
+describe('Retriever.expandContext', () => {
+  let store: InMemoryVectorAdapter;
+  let retriever: Retriever;
+  let enrollment: VectorDocument[];
+  let attendance: VectorDocument[];
+
+  beforeAll(() => {
+    jest.spyOn(console, 'debug').mockImplementation(() => undefined);
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+  });
+
+  beforeEach(async () => {
+    store = new InMemoryVectorAdapter();
+    enrollment = createChunks('enrollment', 6);
+    attendance = createChunks('attendance', 3);
+    await store.upsert([...enrollment, ...attendance]);
+    retriever = new Retriever(embeddingAdapter, store);
+  });
+
+  it('should add neighbouring chunks around a hit in page order', async () => {
+    const [expanded] = await retriever.expandContext([asHit(enrollment[3]!, 0.9)]);
+
+    expect(expanded!.expandedChunks).toEqual([2, 3, 4]);
+    expect(expanded!.content).toBe('enrollment step 3.\n\nenrollment step 4.\n\nenrollment step 5.');
+    expect(expanded!.id).toBe('enrollment-3');
+    expect(expanded!.score).toBe(0.9);
+  });
+
+  it('should include small pages whole', async () => {
+    const [expanded] = await retriever.expandContext([asHit(attendance[2]!, 0.8)]);
+
+    expect(expanded!.expandedChunks).toEqual([0, 1, 2]);
+  });
+
+  it('should merge overlapping windows and drop covered hits', async () => {
+    const results = await retriever.expandContext([
+      asHit(enrollment[1]!, 0.9),
+      asHit(attendance[0]!, 0.85),
+      asHit(enrollment[2]!, 0.8),
+    ]);
+
+    expect(results.map(result => result.id)).toEqual(['enrollment-1', 'attendance-0']);
+    expect(results[0]!.expandedChunks).toEqual([0, 1, 2, 3]);
+  });
+
+  it('should keep the matched chunk when the expansion exceeds the token budget', async () => {
+    const hit = asHit(enrollment[3]!, 0.9);
+
+    const [result] = await retriever.expandContext([hit], { maxTokens: 30 });
+
+    expect(result).toEqual(hit);
+  });
+
+  it('should leave results unchanged for stores without getPageChunks', async () => {
+    const vectorOnlyStore: VectorStoreAdapter = {
+      upsert: async () => undefined,
+      search: async () => [],
+      delete: async () => undefined,
+      count: async () => 0,
+      health: async () => true,
+    };
+    const hits = [asHit(enrollment[3]!, 0.9)];
+
+    expect(await new Retriever(embeddingAdapter, vectorOnlyStore).expandContext(hits)).toBe(hits);
+  });
+});
+
+describe('InMemoryVectorAdapter.getPageChunks', () => {
+  it('should return the requested chunk range of a page', async () => {
+    const store = new InMemoryVectorAdapter();
+    await store.upsert([...createChunks('enrollment', 4), ...createChunks('grades', 1)]);
+
+    const chunks = await store.getPageChunks('https://docs.example.com/enrollment', 1, 2);
+
+    expect(chunks.map(chunk => chunk.id)).toEqual(['enrollment-1', 'enrollment-2']);
+    expect(await store.getPageChunks('https://docs.example.com/grades')).toHaveLength(1);
+  });
+});
@@ -0,0 +1,184 @@
+/**
+ * Tests for multi-turn conversation memory: store, query rewriting and orchestrator wiring
+ */
+
+import { InMemoryConversationStore } from '../src/core/orchestrator/conversationStore';
+import { UnifiedOrchestrator, type PlatformQueryContext } from '../src/core/orchestrator/unifiedOrchestrator';
+import { QueryRewriter } from '../src/core/rag/queryRewriter';
+import type { RAGPipeline } from '../src/core/rag/ragPipeline';
+import type { AskResponse, ConversationTurn, LLMAdapter } from '../src/types';
+
+function createTurn(query: string, contextId: string): ConversationTurn {
+  return {
+    query,
+    answer: `Answer to ${query}`,
+    summary: `Summary of ${query}`,
+    citations: [],
+    contextId,
+    createdAt: Date.now(),
+  };
+}
+
+function createLLMAdapter(response: string | Error): LLMAdapter {
+  return {
+    generate: response instanceof Error
+      ? jest.fn().mockRejectedValue(response)
+      : jest.fn().mockResolvedValue(response),
+    getModel: () => 'mock-llm',
+    getMaxTokens: () => 4096,
+  };
+}
+
+describe('InMemoryConversationStore', () => {
+  it('should keep only the newest turns', async () => {
+    const store = new InMemoryConversationStore({ maxTurns: 2 });
+
+    await store.appendTurn('slack:C1:1', createTurn('first', 'ctx-1'));
+    await store.appendTurn('slack:C1:1', createTurn('second', 'ctx-2'));
+    await store.appendTurn('slack:C1:1', createTurn('third', 'ctx-3'));
+
+    const history = await store.getHistory('slack:C1:1');
+    expect(history.map(turn => turn.query)).toEqual(['second', 'third']);
+    expect(await store.findConversationKey('ctx-1')).toBeNull();
+    expect(await store.findConversationKey('ctx-3')).toBe('slack:C1:1');
+  });
+
+  it('should expire idle conversations', async () => {
+    const store = new InMemoryConversationStore({ ttlMs: 1000 });
+    const nowSpy = jest.spyOn(Date, 'now').mockReturnValue(0);
+
+    await store.appendTurn('teams:19:abc', createTurn('question', 'ctx-1'));
+    nowSpy.mockReturnValue(5000);
+
+    expect(await store.getHistory('teams:19:abc')).toEqual([]);
+    expect(await store.findConversationKey('ctx-1')).toBeNull();
+    nowSpy.mockRestore();
+  });
+
+  it('should evict the least recently updated conversation above capacity', async () => {
+    const store = new InMemoryConversationStore({ maxConversations: 2 });
+
+    await store.appendTurn('a', createTurn('a', 'ctx-a'));
+    await store.appendTurn('b', createTurn('b', 'ctx-b'));
+    await store.appendTurn('a', createTurn('a again', 'ctx-a2'));
+    await store.appendTurn('c', createTurn('c', 'ctx-c'));
+
+    expect(await store.getHistory('b')).toEqual([]);
+    expect(await store.getHistory('a')).toHaveLength(2);
+  });
+});
+
+describe('QueryRewriter', () => {
+  const history = [createTurn('How do I create attendance codes for students?', 'ctx-1')];
+
+  beforeAll(() => {
+    jest.spyOn(console, 'debug').mockImplementation(() => undefined);
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+  });
+
+  it('should leave standalone questions untouched', async () => {
+    const llmAdapter = createLLMAdapter('unused');
+    const rewriter = new QueryRewriter(llmAdapter);
+
+    const result = await rewriter.rewrite('How do I print report cards for the whole school?', history);
+
+    expect(result).toEqual({ query: 'How do I print report cards for the whole school?', rewritten: false });
+    expect(llmAdapter.generate).not.toHaveBeenCalled();
+  });
+
+  it('should rewrite follow-ups with the LLM', async () => {
+    const rewriter = new QueryRewriter(createLLMAdapter('"How do I create attendance codes for teachers?"\n'));
+
+    const result = await rewriter.rewrite('what about for teachers?', history);
+
+    expect(result).toEqual({ query: 'How do I create attendance codes for teachers?', rewritten: true });
+  });
+
+  it('should combine with the previous question when the LLM fails', async () => {
+    const rewriter = new QueryRewriter(createLLMAdapter(new Error('timeout')));
+
+    const result = await rewriter.rewrite('what about for teachers?', history);
+
+    expect(result.query).toBe('How do I create attendance codes for students? what about for teachers?');
+  });
+
+  it('should not rewrite without history', async () => {
+    const rewriter = new QueryRewriter(createLLMAdapter('unused'));
+
+    expect(await rewriter.rewrite('what about teachers?', [])).toEqual({ query: 'what about teachers?', rewritten: false });
+  });
+});
+
+describe('UnifiedOrchestrator conversation memory', () => {
+  const ragResponse: AskResponse = {
+    answer: 'Navigate to School Setup > Attendance Codes to add a code.',
+    summary: 'Attendance codes are managed under School Setup.',
+    citations: [{ title: 'Attendance Codes', url: 'https://docs.example.com/attendance' }],
+    retrieved_docs: [{ id: 'doc-1', score: 0.9, excerpt: 'Attendance codes...' }],
+    debug_info: {
+      is_fallback: false,
+      pipeline_stage: 'completed',
+      processing_time_ms: 10,
+      documents_found: 1,
+    },
+  };
+
+  const mockRAGPipeline = {
+    process: jest.fn().mockResolvedValue(ragResponse),
+  } as unknown as RAGPipeline;
+
+  const threadContext: PlatformQueryContext = {
+    platform: 'slack',
+    userId: 'U1',
+    channelId: 'C1',
+    query: 'How do I create attendance codes?',
+    metadata: { messageTs: '1700000000.000100' },
+  };
+
+  beforeAll(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  });
+
+  beforeEach(() => {
+    (mockRAGPipeline.process as jest.Mock).mockClear();
+  });
+
+  it('should pass earlier turns of the same Slack thread to the pipeline', async () => {
+    const orchestrator = new UnifiedOrchestrator(mockRAGPipeline);
+
+    const first = await orchestrator.handlePlatformQuery(threadContext);
+    const second = await orchestrator.handlePlatformQuery({
+      ...threadContext,
+      query: 'what about for teachers?',
+      threadId: '1700000000.000100',
+      metadata: { messageTs: '1700000000.000200' },
+    });
+
+    expect((mockRAGPipeline.process as jest.Mock).mock.calls[0][1].conversationHistory).toBeUndefined();
+    expect((mockRAGPipeline.process as jest.Mock).mock.calls[1][1].conversationHistory).toEqual([
+      expect.objectContaining({ query: 'How do I create attendance codes?', contextId: first.metadata.contextId }),
+    ]);
+    expect(second.metadata.historyTurns).toBe(1);
+    expect(second.metadata.conversationKey).toBe('slack:C1:1700000000.000100');
+  });
+
+  it('should resolve follow-up modal submissions through the parent context ID', async () => {
+    const store = new InMemoryConversationStore();
+    const orchestrator = new UnifiedOrchestrator(mockRAGPipeline, undefined, store);
+
+    const first = await orchestrator.handlePlatformQuery(threadContext);
+    await orchestrator.handlePlatformQuery({
+      platform: 'slack',
+      userId: 'U1',
+      channelId: 'unknown',
+      query: 'Which permissions are required?',
+      metadata: { parentContextId: first.metadata.contextId },
+    });
+
+    const history = await store.getHistory('slack:C1:1700000000.000100');
+    expect(history.map(turn => turn.query)).toEqual([
+      'How do I create attendance codes?',
+      'Which permissions are required?',
+    ]);
+  });
+});
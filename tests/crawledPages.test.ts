@@ -0,0 +1,85 @@
+/**
+ * Tests for incremental crawl change detection
+ */
+
+import {
+  changedChunkIndexes,
+  classifyPage,
+  hashContent,
+  PostgresCrawledPageStore,
+  type CrawledPage,
+} from '../src/core/seeding/crawledPages';
+
+const mockQuery = jest.fn();
+
+jest.mock('pg', () => ({
+  Pool: jest.fn(() => ({ query: mockQuery, on: jest.fn(), end: jest.fn() })),
+}));
+
+function page(content: string, overrides: Partial<CrawledPage> = {}): CrawledPage {
+  return {
+    url: 'https://docs.example.com/attendance',
+    collection: 'pssis-admin',
+    content_hash: hashContent(content),
+    chunk_hashes: [hashContent(content)],
+    links: [],
+    status: 'active',
+    ...overrides,
+  };
+}
+
+describe('classifyPage', () => {
+  it('should compare content hashes with the stored page', () => {
+    const stored = page('Take attendance from the Start Page.');
+
+    expect(classifyPage(stored, hashContent('Take attendance from the Start Page.'))).toBe('unchanged');
+    expect(classifyPage(stored, hashContent('Take attendance from the Attendance page.'))).toBe('updated');
+    expect(classifyPage(undefined, hashContent('New page'))).toBe('added');
+  });
+
+  it('should treat a page that comes back after removal as added', () => {
+    const tombstone = page('Old content', { status: 'removed', removed_at: '2024-06-01T00:00:00.000Z' });
+
+    expect(classifyPage(tombstone, hashContent('Old content'))).toBe('added');
+  });
+});
+
+describe('changedChunkIndexes', () => {
+  it('should only return chunks whose hash changed', () => {
+    expect(changedChunkIndexes(['a', 'b', 'c'], ['a', 'x', 'c'])).toEqual([1]);
+    expect(changedChunkIndexes(['a', 'b'], ['a', 'b'])).toEqual([]);
+  });
+
+  it('should return every chunk for new pages and changed chunk counts', () => {
+    expect(changedChunkIndexes(undefined, ['a', 'b'])).toEqual([0, 1]);
+    expect(changedChunkIndexes(['a', 'b'], ['a', 'b', 'c'])).toEqual([0, 1, 2]);
+  });
+});
+
+describe('PostgresCrawledPageStore', () => {
+  beforeEach(() => {
+    mockQuery.mockReset();
+  });
+
+  it('should fall back to full crawls when the table is missing', async () => {
+    mockQuery.mockRejectedValue(new Error('relation "crawled_pages" does not exist'));
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    const store = new PostgresCrawledPageStore({ connectionString: 'postgres://localhost/test' });
+
+    expect((await store.loadCollection('pssis-admin')).size).toBe(0);
+    await expect(store.save([page('Take attendance from the Start Page.')])).resolves.toBeUndefined();
+    await expect(store.markRemoved(['https://docs.example.com/attendance'])).resolves.toBeUndefined();
+    await expect(store.clear()).resolves.toBeUndefined();
+
+    expect(mockQuery).toHaveBeenCalledTimes(1);
+    expect(warn).toHaveBeenCalledTimes(1);
+    warn.mockRestore();
+  });
+
+  it('should still surface other storage errors', async () => {
+    mockQuery.mockRejectedValue(new Error('connection refused'));
+    const store = new PostgresCrawledPageStore({ connectionString: 'postgres://localhost/test' });
+
+    await expect(store.loadCollection('pssis-admin')).rejects.toMatchObject({ code: 'CRAWLED_PAGES_STORE_FAILED' });
+  });
+});
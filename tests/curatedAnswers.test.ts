@@ -0,0 +1,132 @@
+/**
+ * Tests for admin-curated answers: matching, expiry, scoping and the pipeline short-circuit
+ */
+
+import { CuratedAnswerRegistry, type CuratedAnswerStore } from '../src/core/rag/curatedAnswers';
+import { RAGPipeline } from '../src/core/rag/ragPipeline';
+import { InMemoryVectorAdapter } from '../src/adapters/vector-store/memory';
+import type { EmbeddingAdapter, LLMAdapter } from '../src/types';
+
+jest.mock('../src/utils/config', () => ({
+  __esModule: true,
+  default: { MAX_TOKENS: 1500 },
+}));
+
+// Questions about the same topic share a direction
+const TOPIC_VECTORS: Record<string, number[]> = {
+  rollover: [1, 0, 0],
+  transcript: [0, 1, 0],
+};
+
+function createEmbeddingAdapter(): EmbeddingAdapter {
+  const embedText = (text: string) => {
+    const topic = Object.keys(TOPIC_VECTORS).find(key => text.toLowerCase().includes(key));
+    return topic ? TOPIC_VECTORS[topic]! : [0, 0, 1];
+  };
+
+  return {
+    embed: jest.fn(async (text: string) => embedText(text)),
+    embedBatch: jest.fn(async (texts: string[]) => texts.map(embedText)),
+    getDimensions: () => 3,
+    getModel: () => 'mock-embedding',
+  };
+}
+
+beforeAll(() => {
+  jest.spyOn(console, 'debug').mockImplementation(() => undefined);
+  jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+});
+
+describe('CuratedAnswerRegistry', () => {
+  it('should match exact and similar phrasings of a question variant', async () => {
+    const registry = new CuratedAnswerRegistry();
+    const embeddingAdapter = createEmbeddingAdapter();
+    const created = await registry.create({
+      question: 'When is the year-end rollover window?',
+      variants: ['EOY rollover dates'],
+      answer: '**Run rollover** between June 15 and July 31.\n\nSee the district calendar.',
+    });
+
+    expect(created.summary).toBe('Run rollover between June 15 and July 31.');
+    expect(created.collection).toBe('*');
+
+    const exact = await registry.match('eoy rollover dates?', undefined, ['pssis-admin'], embeddingAdapter);
+    expect(exact).toMatchObject({ similarity: 1, matchedQuestion: 'EOY rollover dates' });
+
+    const similar = await registry.match('Rollover deadline', [1, 0, 0], undefined, embeddingAdapter);
+    expect(similar?.answer.id).toBe(created.id);
+    expect(await registry.match('How do I print a transcript?', [0, 1, 0], undefined, embeddingAdapter)).toBeNull();
+  });
+
+  it('should skip expired answers and answers scoped to another collection', async () => {
+    const registry = new CuratedAnswerRegistry();
+    const embeddingAdapter = createEmbeddingAdapter();
+    await registry.create({
+      question: 'Rollover dates',
+      answer: 'Old dates.',
+      expiresAt: '2020-01-01T00:00:00.000Z',
+    });
+    const scoped = await registry.create({
+      question: 'Print a transcript',
+      answer: 'Use the Reports page.',
+      collection: 'pssis-admin',
+    });
+
+    expect(await registry.match('Rollover dates', [1, 0, 0], undefined, embeddingAdapter)).toBeNull();
+    expect(await registry.match('Print a transcript', [0, 1, 0], ['schoology'], embeddingAdapter)).toBeNull();
+    expect((await registry.match('Print a transcript', [0, 1, 0], ['pssis-admin'], embeddingAdapter))?.answer.id).toBe(scoped.id);
+  });
+
+  it('should persist edits and reject unknown ids', async () => {
+    const store: jest.Mocked<CuratedAnswerStore> = {
+      loadAll: jest.fn().mockResolvedValue([]),
+      save: jest.fn().mockResolvedValue(undefined),
+      delete: jest.fn().mockResolvedValue(undefined),
+    };
+    const registry = new CuratedAnswerRegistry();
+    await registry.connect(store);
+
+    const created = await registry.create({ question: 'Rollover dates', answer: 'June 15 to July 31.' });
+    const updated = await registry.update(created.id, { variants: ['EOY dates'], expiresAt: '2030-01-01T00:00:00.000Z' });
+
+    expect(updated).toMatchObject({ answer: 'June 15 to July 31.', variants: ['EOY dates'], createdAt: created.createdAt });
+    expect(store.save).toHaveBeenCalledTimes(2);
+
+    await registry.delete(created.id);
+    expect(store.delete).toHaveBeenCalledWith(created.id);
+    expect(registry.size).toBe(0);
+
+    await expect(registry.update('missing', { answer: 'x' })).rejects.toMatchObject({ code: 'CURATED_ANSWER_NOT_FOUND' });
+    await expect(registry.create({ question: ' ', answer: 'x' })).rejects.toMatchObject({ code: 'INVALID_CURATED_ANSWER' });
+  });
+});
+
+describe('RAGPipeline curated answers', () => {
+  it('should return a matching curated answer without retrieval or generation', async () => {
+    const registry = new CuratedAnswerRegistry();
+    const curated = await registry.create({
+      question: 'When is the year-end rollover window?',
+      answer: 'Run rollover between June 15 and July 31.',
+      citations: [{ title: 'End of Year Process', url: 'https://docs.example.com/eoy' }],
+    });
+
+    const embeddingAdapter = createEmbeddingAdapter();
+    const vectorStore = new InMemoryVectorAdapter();
+    const search = jest.spyOn(vectorStore, 'search');
+    const generate = jest.fn();
+    const llmAdapter: LLMAdapter = { generate, getMaxTokens: () => 8192, getModel: () => 'mock-llm' };
+
+    const pipeline = new RAGPipeline(embeddingAdapter, vectorStore, llmAdapter, null, undefined, registry);
+    const response = await pipeline.process('What are the rollover dates this year?');
+
+    expect(response).toMatchObject({
+      answer: 'Run rollover between June 15 and July 31.',
+      citations: [{ title: 'End of Year Process', url: 'https://docs.example.com/eoy' }],
+      retrieved_docs: [],
+      source: 'curated',
+    });
+    expect(response.debug_info).toMatchObject({ pipeline_stage: 'curated_answer', curated_answer_id: curated.id });
+    expect(search).not.toHaveBeenCalled();
+    expect(generate).not.toHaveBeenCalled();
+  });
+});
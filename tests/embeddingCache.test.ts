@@ -0,0 +1,127 @@
+/**
+ * Tests for the embedding cache decorator
+ */
+
+jest.mock('../src/utils/config', () => ({
+  __esModule: true,
+  default: { DATABASE_URL: 'postgresql://localhost:5432/test' },
+}));
+
+import {
+  CachedEmbeddingAdapter,
+  EmbeddingLRUCache,
+  createEmbeddingCacheKey,
+  type EmbeddingCacheRecord,
+  type EmbeddingCacheStore,
+} from '../src/adapters/embedding/cache';
+import { metrics, MetricNames } from '../src/utils/metrics';
+import type { EmbeddingAdapter } from '../src/types';
+
+function createInnerAdapter(): EmbeddingAdapter & { embed: jest.Mock; embedBatch: jest.Mock } {
+  const toEmbedding = (text: string): number[] => [text.length, 1, 0];
+
+  return {
+    embed: jest.fn(async (text: string) => toEmbedding(text)),
+    embedBatch: jest.fn(async (texts: string[]) => texts.map(toEmbedding)),
+    getDimensions: () => 3,
+    getModel: () => 'test-model',
+  };
+}
+
+class FakeCacheStore implements EmbeddingCacheStore {
+  records = new Map<string, number[]>();
+
+  getMany = jest.fn(async (keys: string[]) => {
+    const found = new Map<string, number[]>();
+    for (const key of keys) {
+      const embedding = this.records.get(key);
+      if (embedding) found.set(key, embedding);
+    }
+    return found;
+  });
+
+  setMany = jest.fn(async (records: EmbeddingCacheRecord[]) => {
+    for (const record of records) {
+      this.records.set(record.key, record.embedding);
+    }
+  });
+}
+
+describe('CachedEmbeddingAdapter', () => {
+  beforeAll(() => {
+    jest.spyOn(console, 'debug').mockImplementation(() => undefined);
+  });
+
+  beforeEach(() => {
+    metrics.reset();
+  });
+
+  it('should normalize whitespace when building cache keys', () => {
+    expect(createEmbeddingCacheKey('m', '  Attendance\n codes ')).toBe(createEmbeddingCacheKey('m', 'Attendance codes'));
+    expect(createEmbeddingCacheKey('m', 'Attendance codes')).not.toBe(createEmbeddingCacheKey('other', 'Attendance codes'));
+  });
+
+  it('should serve repeated texts from memory', async () => {
+    const inner = createInnerAdapter();
+    const adapter = new CachedEmbeddingAdapter(inner);
+
+    const first = await adapter.embed('How do I add a student?');
+    const second = await adapter.embed('How do I  add a student?');
+
+    expect(second).toEqual(first);
+    expect(inner.embed).toHaveBeenCalledTimes(1);
+    expect(metrics.getCounter(MetricNames.EMBEDDING_CACHE_HITS_TOTAL, { tier: 'memory', model: 'test-model' })).toBe(1);
+    expect(metrics.getCounter(MetricNames.EMBEDDING_CACHE_MISSES_TOTAL, { model: 'test-model' })).toBe(1);
+  });
+
+  it('should embed only distinct uncached texts in a batch and keep order', async () => {
+    const inner = createInnerAdapter();
+    const adapter = new CachedEmbeddingAdapter(inner);
+    await adapter.embed('a');
+
+    const result = await adapter.embedBatch(['bb', 'a', 'ccc', 'bb']);
+
+    expect(result).toEqual([[2, 1, 0], [1, 1, 0], [3, 1, 0], [2, 1, 0]]);
+    expect(inner.embedBatch).toHaveBeenCalledWith(['bb', 'ccc']);
+  });
+
+  it('should return every embedding of a batch larger than the memory tier', async () => {
+    const adapter = new CachedEmbeddingAdapter(createInnerAdapter(), { memory: new EmbeddingLRUCache(0) });
+
+    const result = await adapter.embedBatch(['a', 'bb', 'ccc']);
+
+    expect(result).toEqual([[1, 1, 0], [2, 1, 0], [3, 1, 0]]);
+  });
+
+  it('should read through and write back to the persistent tier', async () => {
+    const store = new FakeCacheStore();
+
+    const seeding = new CachedEmbeddingAdapter(createInnerAdapter(), { store });
+    await seeding.embedBatch(['chunk one', 'chunk two']);
+    expect(store.records.size).toBe(2);
+
+    // A fresh process with an empty memory tier reuses the stored embeddings
+    const inner = createInnerAdapter();
+    const reseeding = new CachedEmbeddingAdapter(inner, { store, memory: new EmbeddingLRUCache(10) });
+    await reseeding.embedBatch(['chunk one', 'chunk two']);
+
+    expect(inner.embedBatch).not.toHaveBeenCalled();
+    expect(inner.embed).not.toHaveBeenCalled();
+    expect(metrics.getCounter(MetricNames.EMBEDDING_CACHE_HITS_TOTAL, { tier: 'postgres', model: 'test-model' })).toBe(2);
+  });
+});
+
+describe('EmbeddingLRUCache', () => {
+  it('should evict the least recently used entry', () => {
+    const cache = new EmbeddingLRUCache(2);
+
+    cache.set('a', [1]);
+    cache.set('b', [2]);
+    cache.get('a');
+    cache.set('c', [3]);
+
+    expect(cache.get('b')).toBeUndefined();
+    expect(cache.get('a')).toEqual([1]);
+    expect(cache.size).toBe(2);
+  });
+});
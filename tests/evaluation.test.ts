@@ -0,0 +1,168 @@
+/**
+ * Tests for the offline evaluation harness: golden set loading, metrics, runs and report diffs
+ */
+
+import { mkdtempSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import path from 'path';
+import { loadGoldenSet } from '../src/core/evaluation/goldenSet';
+import {
+  citationPrecision,
+  factCoverage,
+  percentile,
+  recallAtK,
+  reciprocalRank,
+} from '../src/core/evaluation/metrics';
+import { runEvaluation, type EvaluationReport } from '../src/core/evaluation/evaluator';
+import { diffReports, formatMarkdownReport } from '../src/core/evaluation/report';
+import type { AskResponse, AskStreamEvent } from '../src/types';
+
+const FTE_URL = 'https://docs.example.com/state-reporting/fte';
+const ADA_URL = 'https://docs.example.com/attendance/ada';
+
+function writeJsonl(lines: string[]): string {
+  const filePath = path.join(mkdtempSync(path.join(tmpdir(), 'golden-')), 'golden.jsonl');
+  writeFileSync(filePath, lines.join('\n'));
+  return filePath;
+}
+
+describe('evaluation metrics', () => {
+  it('should score retrieval by page, ignoring chunk suffixes and trailing slashes', () => {
+    const retrieved = [`${ADA_URL}#chunk-0`, `${ADA_URL}#chunk-1`, `${FTE_URL}/`];
+
+    expect(recallAtK(retrieved, [FTE_URL], 2)).toBe(1);
+    expect(recallAtK(retrieved, [FTE_URL], 1)).toBe(0);
+    expect(reciprocalRank(retrieved, [FTE_URL])).toBe(0.5);
+    expect(reciprocalRank(retrieved, ['https://docs.example.com/other'])).toBe(0);
+  });
+
+  it('should score citations and facts, and skip them when not applicable', () => {
+    expect(citationPrecision([FTE_URL, ADA_URL], [FTE_URL])).toBe(0.5);
+    expect(citationPrecision([], [FTE_URL])).toBeNull();
+
+    const answer = 'Define codes under District Setup > FTE; extracts use the FTE on each count date.';
+    expect(factCoverage(answer, ['District Setup > FTE', 'count date', 'Transfer Info page'])).toBeCloseTo(2 / 3);
+    expect(factCoverage(answer)).toBeNull();
+  });
+
+  it('should compute nearest-rank percentiles', () => {
+    expect(percentile([100, 300, 200, 400], 50)).toBe(200);
+    expect(percentile([100, 300, 200, 400], 95)).toBe(400);
+    expect(percentile([], 50)).toBe(0);
+  });
+});
+
+describe('loadGoldenSet', () => {
+  it('should assign ids and skip blank and comment lines', () => {
+    const filePath = writeJsonl([
+      '// FTE questions',
+      JSON.stringify({ question: 'What is FTE?', expected_urls: [FTE_URL] }),
+      '',
+      JSON.stringify({ id: 'ada', question: 'What is ADA?', expected_urls: [ADA_URL], expected_facts: ['average'] }),
+    ]);
+
+    expect(loadGoldenSet(filePath).map(example => example.id)).toEqual(['q1', 'ada']);
+  });
+
+  it('should report the line of an invalid example', () => {
+    const filePath = writeJsonl([
+      JSON.stringify({ question: 'What is FTE?', expected_urls: [FTE_URL] }),
+      JSON.stringify({ question: 'What is ADA?' }),
+    ]);
+
+    expect(() => loadGoldenSet(filePath)).toThrow(/golden\.jsonl:2 needs "expected_urls"/);
+  });
+});
+
+describe('runEvaluation', () => {
+  beforeAll(() => {
+    jest.spyOn(console, 'debug').mockImplementation(() => undefined);
+  });
+
+  it('should score retrieval from the retrieval event even when the answer is refused', async () => {
+    const refused: AskResponse = {
+      answer: 'No documented answer.',
+      summary: '',
+      citations: [{ title: 'PowerSchool Support', url: 'https://support.powerschool.com/' }],
+      retrieved_docs: [],
+      debug_info: { is_fallback: true, pipeline_stage: 'fallback', processing_time_ms: 1, documents_found: 1 },
+    };
+    const processStream = jest.fn(async (_query: string, _options: unknown, onEvent: (event: AskStreamEvent) => void) => {
+      onEvent({
+        type: 'retrieval',
+        retrieved_docs: [{ id: 'fte-0', score: 0.9, url: `${FTE_URL}#chunk-0`, excerpt: '' }],
+        citations: [],
+      });
+      return refused;
+    });
+
+    const report = await runEvaluation({ processStream }, [
+      { id: 'fte', question: 'What is FTE?', expected_urls: [FTE_URL], collection: 'pssis-admin' },
+    ], { k: 3, label: 'refusal' });
+
+    expect(processStream.mock.calls[0]![1]).toMatchObject({ top_k: 3, collections: ['pssis-admin'] });
+    expect(report.examples[0]).toMatchObject({ recall_at_k: 1, citation_precision: 0, is_fallback: true });
+    expect(report.summary).toMatchObject({ examples: 1, errors: 0, recall_at_k: 1, mrr: 1 });
+  });
+
+  it('should record failures as errors with zero retrieval scores', async () => {
+    const processStream = jest.fn().mockRejectedValue(new Error('LLM unavailable'));
+
+    const report = await runEvaluation({ processStream }, [
+      { id: 'ada', question: 'What is ADA?', expected_urls: [ADA_URL], expected_facts: ['attendance'] },
+    ]);
+
+    expect(report.examples[0]).toMatchObject({ error: 'LLM unavailable', recall_at_k: 0, missing_facts: ['attendance'] });
+    expect(report.summary.errors).toBe(1);
+  });
+});
+
+describe('diffReports', () => {
+  function createReport(recall: number, p50: number, runId: string): EvaluationReport {
+    return {
+      run_id: runId,
+      created_at: '2026-01-01T00:00:00.000Z',
+      k: 5,
+      settings: {},
+      summary: {
+        examples: 1,
+        errors: 0,
+        recall_at_k: recall,
+        mrr: recall,
+        citation_precision: null,
+        fact_coverage: 1,
+        latency_ms: { mean: p50, p50, p95: p50 },
+      },
+      examples: [{
+        id: 'fte',
+        question: 'What is FTE?',
+        recall_at_k: recall,
+        reciprocal_rank: recall,
+        citation_precision: null,
+        fact_coverage: 1,
+        missing_facts: [],
+        retrieved_urls: [],
+        cited_urls: [],
+        latency_ms: p50,
+      }],
+    };
+  }
+
+  it('should flag quality drops and latency growth as regressions', () => {
+    const diff = diffReports(createReport(0.5, 2000, 'current'), createReport(1, 1000, 'baseline'));
+
+    expect(diff.metrics.filter(change => change.regressed).map(change => change.metric))
+      .toEqual(['recall_at_k', 'mrr', 'latency_p50', 'latency_p95']);
+    expect(diff.regressed_examples).toEqual([{ id: 'fte', metric: 'recall_at_k', baseline: 1, current: 0.5 }]);
+    expect(diff.metrics.find(change => change.metric === 'citation_precision')?.delta).toBeNull();
+  });
+
+  it('should render the comparison as Markdown', () => {
+    const current = createReport(1, 900, 'current');
+    const markdown = formatMarkdownReport(current, diffReports(current, createReport(0.5, 1000, 'baseline')));
+
+    expect(markdown).toContain('| Recall@5 | 1.000 | 0.500 | +0.500 |');
+    expect(markdown).toContain('| Citation precision | n/a | n/a |  |');
+    expect(markdown).toContain('- ⬆️ `fte` recall_at_k: 0.50 → 1.00');
+  });
+});
@@ -0,0 +1,122 @@
+/**
+ * Tests for glossary query expansion, the generated thesaurus and retriever integration
+ */
+
+import path from 'path';
+import { Glossary } from '../src/core/rag/glossary';
+import { Retriever } from '../src/core/rag/retriever';
+import { InMemoryVectorAdapter } from '../src/adapters/vector-store/memory';
+import type { EmbeddingAdapter, VectorDocument } from '../src/types';
+
+jest.mock('../src/utils/config', () => ({
+  __esModule: true,
+  default: {},
+}));
+
+const glossary = new Glossary({
+  '*': [{ term: 'SIS', expansions: ['Student Information System'] }],
+  'pssis-admin': [{ term: 'FTE', expansions: ['Full-Time Equivalent'] }],
+  schoology: [
+    { term: 'AMP', expansions: ['Assessment Management Platform'] },
+    { term: 'SSO', expansions: ['Single Sign-On'] },
+  ],
+});
+
+describe('Glossary.expand', () => {
+  it('should add expansions after acronyms', () => {
+    const expansion = glossary.expand('How is fte calculated in the SIS?');
+
+    expect(expansion.query).toBe('How is fte (Full-Time Equivalent) calculated in the SIS (Student Information System)?');
+    expect(expansion.hits).toEqual([
+      { matched: 'SIS', added: ['Student Information System'], collection: '*' },
+      { matched: 'fte', added: ['Full-Time Equivalent'], collection: 'pssis-admin' },
+    ]);
+  });
+
+  it('should add the acronym after a spelled-out phrase', () => {
+    const expansion = glossary.expand('Configure full time equivalent values');
+
+    expect(expansion.query).toBe('Configure full time equivalent (FTE) values');
+  });
+
+  it('should only use entries for the searched collections', () => {
+    expect(glossary.expand('Where is FTE shown?', ['schoology']).hits).toEqual([]);
+    expect(glossary.expand('Open AMP', ['schoology']).hits).toHaveLength(1);
+  });
+
+  it('should leave queries that already contain both forms unchanged', () => {
+    const query = 'What does FTE (full-time equivalent) mean?';
+
+    expect(glossary.expand(query)).toEqual({ query, hits: [] });
+  });
+});
+
+describe('Glossary.toThesaurus', () => {
+  it('should map spelled-out phrases to terms with stop words marked', () => {
+    const lines = glossary.toThesaurus().split('\n').filter(line => line && !line.startsWith('#'));
+
+    expect(lines).toEqual([
+      'student information system : sis',
+      'full time equivalent : fte',
+      'assessment management platform : amp',
+      'single sign ? : sso',
+    ]);
+  });
+});
+
+describe('Glossary.fromFile', () => {
+  it('should load the bundled glossary', () => {
+    const bundled = Glossary.fromFile(path.resolve(__dirname, '../data/glossary.json'));
+
+    expect(bundled.entries(['pssis-admin']).map(entry => entry.term)).toEqual(
+      expect.arrayContaining(['SIS', 'ADA', 'ADM', 'FTE', 'DDA', 'SLG'])
+    );
+  });
+});
+
+describe('Retriever glossary expansion', () => {
+  const doc: VectorDocument = {
+    id: 'fte',
+    content: 'Full-Time Equivalent values determine state funding.',
+    embedding: [0, 1, 0],
+    metadata: {
+      url: 'https://docs.example.com/fte',
+      title: 'Full-Time Equivalent',
+      content_type: 'text',
+      collection: 'pssis-admin',
+      chunk_index: 0,
+      total_chunks: 1,
+      created_at: new Date(),
+      updated_at: new Date(),
+    },
+  };
+
+  beforeAll(() => {
+    jest.spyOn(console, 'debug').mockImplementation(() => undefined);
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+  });
+
+  it('should embed and keyword-search the expanded query and report hits', async () => {
+    const embed = jest.fn().mockResolvedValue([1, 0, 0]);
+    const embeddingAdapter: EmbeddingAdapter = {
+      embed,
+      embedBatch: jest.fn(),
+      getDimensions: () => 3,
+      getModel: () => 'mock-embedding',
+    };
+    const store = new InMemoryVectorAdapter();
+    await store.upsert([doc]);
+    const retriever = new Retriever(embeddingAdapter, store, undefined, glossary);
+
+    const result = await retriever.hybridRetrieve('What is FTE?', {
+      similarityThreshold: 0.5,
+      queryEmbedding: [1, 0, 0],
+    });
+
+    expect(embed).toHaveBeenCalledWith('What is FTE (Full-Time Equivalent)?');
+    expect(result.results.map(r => r.id)).toEqual(['fte']);
+    expect(result.glossaryHits).toEqual([
+      { matched: 'FTE', added: ['Full-Time Equivalent'], collection: 'pssis-admin' },
+    ]);
+  });
+});
@@ -0,0 +1,180 @@
+/**
+ * Tests for answer grounding verification and the pipeline's strip/refuse modes
+ */
+
+import {
+  extractClaims,
+  LexicalGroundingVerifier,
+  LLMGroundingVerifier,
+  removeClaims,
+} from '../src/core/rag/groundingVerifier';
+import { RAGPipeline } from '../src/core/rag/ragPipeline';
+import { InMemoryVectorAdapter } from '../src/adapters/vector-store/memory';
+import type { EmbeddingAdapter, LLMAdapter, SearchResult, VectorDocument } from '../src/types';
+
+jest.mock('../src/utils/config', () => ({
+  __esModule: true,
+  default: { MAX_TOKENS: 1500 },
+}));
+
+const enrollmentContent =
+  'To enroll a student, open the Student Search page and select Enroll New Student. ' +
+  'Enter the entry date, grade level and home room, then click Submit to save the enrollment.';
+
+function createResult(id: string, content: string): SearchResult {
+  return {
+    id,
+    content,
+    score: 0.9,
+    metadata: {
+      url: `https://docs.example.com/${id}`,
+      title: 'Student Enrollment',
+      content_type: 'text',
+      chunk_index: 0,
+      total_chunks: 1,
+      created_at: new Date(),
+      updated_at: new Date(),
+    },
+  };
+}
+
+function createLLMAdapter(responses: string[]): LLMAdapter {
+  const generate = jest.fn();
+  responses.forEach(response => generate.mockResolvedValueOnce(response));
+  return {
+    generate,
+    getMaxTokens: () => 8192,
+    getModel: () => 'mock-llm',
+  };
+}
+
+const supportedAnswer = [
+  '## Enrolling a Student',
+  '',
+  '1. Open the **Student Search** page and select Enroll New Student.',
+  '2. Enter the entry date, grade level and home room.',
+  '3. Configure automatic tuition billing for the enrolled household.',
+  '',
+  '## Sources',
+  '- Student Enrollment guide for PowerSchool administrators',
+].join('\n');
+
+describe('extractClaims', () => {
+  it('should split list items and sentences while skipping headings and sources', () => {
+    const claims = extractClaims(`${supportedAnswer}\nClick Submit.`);
+
+    expect(claims).toEqual([
+      'Open the Student Search page and select Enroll New Student.',
+      'Enter the entry date, grade level and home room.',
+      'Configure automatic tuition billing for the enrolled household.',
+    ]);
+  });
+});
+
+describe('LexicalGroundingVerifier', () => {
+  it('should support claims found in a chunk and flag the rest', async () => {
+    const verifier = new LexicalGroundingVerifier();
+    const support = await verifier.verify(extractClaims(supportedAnswer), [createResult('enrollment', enrollmentContent)]);
+
+    expect(support.map(item => item.supported)).toEqual([true, true, false]);
+    expect(support[0]?.sourceId).toBe('enrollment');
+  });
+});
+
+describe('removeClaims', () => {
+  it('should drop list items made only of unsupported claims', () => {
+    const stripped = removeClaims(supportedAnswer, ['Configure automatic tuition billing for the enrolled household.']);
+
+    expect(stripped).not.toContain('tuition');
+    expect(stripped).toContain('1. Open the **Student Search** page');
+    expect(stripped).toContain('## Sources');
+  });
+});
+
+describe('LLMGroundingVerifier', () => {
+  beforeAll(() => {
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+  });
+
+  it('should mark the claim numbers returned by the judge as unsupported', async () => {
+    const verifier = new LLMGroundingVerifier(createLLMAdapter(['Unsupported: [2]']));
+    const support = await verifier.verify(['First claim here.', 'Second claim here.'], [createResult('doc', 'text')]);
+
+    expect(support.map(item => item.supported)).toEqual([true, false]);
+  });
+
+  it('should fall back to lexical verification when the judge reply is unusable', async () => {
+    const verifier = new LLMGroundingVerifier(createLLMAdapter(['I cannot tell.']));
+    const support = await verifier.verify(
+      ['Enter the entry date, grade level and home room.'],
+      [createResult('enrollment', enrollmentContent)]
+    );
+
+    expect(support[0]?.supported).toBe(true);
+  });
+});
+
+describe('RAGPipeline grounding', () => {
+  const embeddingAdapter: EmbeddingAdapter = {
+    embed: jest.fn().mockResolvedValue([1, 0, 0]),
+    embedBatch: jest.fn(),
+    getDimensions: () => 3,
+    getModel: () => 'mock-embedding',
+  };
+  let vectorStore: InMemoryVectorAdapter;
+
+  beforeAll(() => {
+    jest.spyOn(console, 'debug').mockImplementation(() => undefined);
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+  });
+
+  beforeEach(async () => {
+    const doc: VectorDocument = {
+      ...createResult('enrollment', enrollmentContent),
+      embedding: [1, 0, 0],
+    };
+    vectorStore = new InMemoryVectorAdapter();
+    await vectorStore.upsert([doc]);
+  });
+
+  it('should report per-claim support without changing the answer by default', async () => {
+    const pipeline = new RAGPipeline(embeddingAdapter, vectorStore, createLLMAdapter([supportedAnswer]), null);
+
+    const response = await pipeline.process('How do I enroll a student?');
+
+    expect(response.answer).toContain('tuition');
+    expect(response.debug_info?.grounding).toMatchObject({
+      verdict: 'partially_grounded',
+      verifier: 'lexical',
+      action: 'flag',
+    });
+    expect(response.debug_info?.grounding?.claims).toHaveLength(3);
+  });
+
+  it('should strip unsupported claims in strip mode', async () => {
+    const pipeline = new RAGPipeline(embeddingAdapter, vectorStore, createLLMAdapter([supportedAnswer]), null);
+
+    const response = await pipeline.process('How do I enroll a student?', { groundingAction: 'strip' });
+
+    expect(response.answer).not.toContain('tuition');
+    expect(response.steps?.some(step => step.includes('tuition'))).toBeFalsy();
+    expect(response.debug_info?.grounding?.removed_claims).toBe(1);
+  });
+
+  it('should refuse when too few claims are supported', async () => {
+    const unsupportedAnswer = [
+      'Export the district gradebook to the state reporting portal nightly.',
+      'Parents approve transcript corrections through the mobile application.',
+    ].join('\n');
+    const pipeline = new RAGPipeline(embeddingAdapter, vectorStore, createLLMAdapter([unsupportedAnswer]), null);
+
+    const response = await pipeline.process('How do I enroll a student?', { groundingAction: 'strip' });
+
+    expect(response.debug_info).toMatchObject({
+      is_fallback: true,
+      fallback_reason: 'UNGROUNDED_ANSWER',
+      grounding: { verdict: 'ungrounded', action: 'refuse', supported_ratio: 0 },
+    });
+    expect(response.answer).not.toContain('gradebook');
+  });
+});
@@ -0,0 +1,103 @@
+/**
+ * Tests for InMemoryVectorAdapter keyword and hybrid search
+ */
+
+import { InMemoryVectorAdapter } from '../src/adapters/vector-store/memory';
+import type { VectorDocument } from '../src/types';
+
+function createDoc(
+  id: string,
+  title: string,
+  content: string,
+  embedding: number[] = [1, 0, 0],
+  collection: 'pssis-admin' | 'schoology' = 'pssis-admin'
+): VectorDocument {
+  return {
+    id,
+    content,
+    embedding,
+    metadata: {
+      url: `https://docs.example.com/${id}`,
+      title,
+      content_type: 'text',
+      collection,
+      chunk_index: 0,
+      total_chunks: 1,
+      created_at: new Date(),
+      updated_at: new Date(),
+    },
+  };
+}
+
+describe('InMemoryVectorAdapter', () => {
+  let store: InMemoryVectorAdapter;
+
+  beforeEach(async () => {
+    store = new InMemoryVectorAdapter();
+    await store.upsert([
+      createDoc('lunch', 'Cafeteria Fields', 'The Lunch_Balance field shows the current Lunch_Balance for each student.'),
+      createDoc('attendance', 'Attendance Setup', 'Configure attendance codes and attendance modes for the school.', [0, 1, 0]),
+      createDoc('grades', 'Gradebook', 'Teachers enter grades and attendance comments in the gradebook.', [0, 0, 1], 'schoology'),
+    ]);
+  });
+
+  describe('textSearch', () => {
+    it('should rank documents by BM25 relevance', async () => {
+      const results = await store.textSearch('attendance codes', 10);
+
+      expect(results.map(result => result.id)).toEqual(['attendance', 'grades']);
+      expect(results[0]!.score).toBeGreaterThan(results[1]!.score);
+    });
+
+    it('should match exact field names', async () => {
+      const results = await store.textSearch('Where is Lunch_Balance stored?', 10);
+
+      expect(results.map(result => result.id)).toEqual(['lunch']);
+    });
+
+    it('should apply collection filters', async () => {
+      const results = await store.textSearch('attendance', 10, { collections: ['schoology'] });
+
+      expect(results.map(result => result.id)).toEqual(['grades']);
+    });
+
+    it('should keep the index in sync with upsert and delete', async () => {
+      await store.upsert([createDoc('attendance', 'Attendance Setup', 'Daily attendance codes were renamed.', [0, 1, 0])]);
+      expect((await store.textSearch('modes', 10))).toHaveLength(0);
+      expect((await store.textSearch('renamed', 10)).map(result => result.id)).toEqual(['attendance']);
+
+      await store.delete(['attendance']);
+      expect((await store.textSearch('renamed', 10))).toHaveLength(0);
+
+      await store.clear();
+      expect((await store.textSearch('gradebook', 10))).toHaveLength(0);
+    });
+  });
+
+  describe('hybridSearch', () => {
+    it('should fuse vector and keyword rankings', async () => {
+      const results = await store.hybridSearch([1, 0, 0], 'attendance codes', 3);
+
+      expect(results[0]?.id).toBe('attendance');
+      expect(results.map(result => result.id)).toEqual(expect.arrayContaining(['lunch', 'grades']));
+    });
+  });
+
+  describe('searchWithFilters', () => {
+    it('should apply URL prefix and updated-after filters', async () => {
+      const stale = createDoc('state-reporting', 'State Reporting', 'Submit the fall state report.', [1, 0, 0]);
+      stale.metadata.url = 'https://docs.example.com/state-reporting/fall';
+      stale.metadata.updated_at = new Date('2023-06-01');
+      await store.upsert([stale]);
+
+      const byPrefix = await store.searchWithFilters([1, 0, 0], 10, {
+        urlPrefixes: ['https://docs.example.com/state-reporting/'],
+      });
+      expect(byPrefix.map(result => result.id)).toEqual(['state-reporting']);
+
+      const recent = await store.searchWithFilters([1, 0, 0], 10, { updatedAfter: new Date('2024-01-01') });
+      expect(recent.map(result => result.id)).not.toContain('state-reporting');
+      expect(recent).toHaveLength(3);
+    });
+  });
+});
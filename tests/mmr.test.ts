@@ -0,0 +1,103 @@
+/**
+ * Tests for Maximal Marginal Relevance diversification
+ */
+
+import { maximalMarginalRelevance } from '../src/utils/mmr';
+import { InMemoryVectorAdapter } from '../src/adapters/vector-store/memory';
+import { Retriever } from '../src/core/rag/retriever';
+import type { EmbeddingAdapter, SearchResult, VectorDocument } from '../src/types';
+
+function createDoc(id: string, url: string, embedding: number[], chunkIndex: number = 0): VectorDocument {
+  return {
+    id,
+    content: `Content of ${id}`,
+    embedding,
+    metadata: {
+      url,
+      title: id,
+      content_type: 'text',
+      chunk_index: chunkIndex,
+      total_chunks: 4,
+      created_at: new Date(),
+      updated_at: new Date(),
+    },
+  };
+}
+
+function asResult(doc: VectorDocument, score: number): SearchResult {
+  return { id: doc.id, content: doc.content, metadata: doc.metadata, score };
+}
+
+const embeddingAdapter: EmbeddingAdapter = {
+  embed: async () => [1, 0, 0],
+  embedBatch: async (texts: string[]) => texts.map(() => [1, 0, 0]),
+  getDimensions: () => 3,
+  getModel: () => 'mock-embedding',
+};
+
+// Three near-duplicate chunks of one page and a slightly less relevant, different page
+const enrollmentChunks = [
+  createDoc('enrollment-0', 'https://docs.example.com/enrollment#chunk-0', [0.95, 0.31, 0], 0),
+  createDoc('enrollment-1', 'https://docs.example.com/enrollment#chunk-1', [0.94, 0.34, 0], 1),
+  createDoc('enrollment-2', 'https://docs.example.com/enrollment#chunk-2', [0.93, 0.37, 0], 2),
+];
+const scheduling = createDoc('scheduling', 'https://docs.example.com/scheduling', [0.8, 0, 0.6]);
+
+describe('maximalMarginalRelevance', () => {
+  const candidates = [...enrollmentChunks, scheduling].map(doc => ({
+    result: asResult(doc, 0.9),
+    embedding: doc.embedding,
+  }));
+
+  it('should prefer a different page over near-duplicate chunks', () => {
+    const selected = maximalMarginalRelevance([1, 0, 0], candidates, { lambda: 0.5, topK: 2 });
+
+    expect(selected.map(result => result.id)).toEqual(['enrollment-0', 'scheduling']);
+  });
+
+  it('should rank purely by relevance when lambda is 1', () => {
+    const selected = maximalMarginalRelevance([1, 0, 0], candidates, { lambda: 1, topK: 3 });
+
+    expect(selected.map(result => result.id)).toEqual(['enrollment-0', 'enrollment-1', 'enrollment-2']);
+  });
+
+  it('should enforce the per-group cap', () => {
+    const selected = maximalMarginalRelevance([1, 0, 0], candidates, {
+      lambda: 1,
+      maxPerGroup: 1,
+      groupBy: result => result.metadata.url.replace(/#chunk-\d+$/, ''),
+    });
+
+    expect(selected.map(result => result.id)).toEqual(['enrollment-0', 'scheduling']);
+  });
+});
+
+describe('Retriever.diversify', () => {
+  let retriever: Retriever;
+  const results = [
+    asResult(enrollmentChunks[0]!, 0.95),
+    asResult(enrollmentChunks[1]!, 0.94),
+    asResult(enrollmentChunks[2]!, 0.93),
+    asResult(scheduling, 0.8),
+  ];
+
+  beforeAll(async () => {
+    jest.spyOn(console, 'debug').mockImplementation(() => undefined);
+
+    const store = new InMemoryVectorAdapter();
+    await store.upsert([...enrollmentChunks, scheduling]);
+    retriever = new Retriever(embeddingAdapter, store);
+  });
+
+  it('should use stored embeddings for MMR selection', async () => {
+    const diversified = await retriever.diversify(results, [1, 0, 0], { mode: 'mmr', lambda: 0.5, topK: 2 });
+
+    expect(diversified.map(result => result.id)).toEqual(['enrollment-0', 'scheduling']);
+  });
+
+  it('should cap chunks per page while keeping retrieval order', async () => {
+    const diversified = await retriever.diversify(results, null, { maxChunksPerUrl: 2 });
+
+    expect(diversified.map(result => result.id)).toEqual(['enrollment-0', 'enrollment-1', 'scheduling']);
+  });
+});
@@ -0,0 +1,143 @@
+/**
+ * Tests for the background job queue: ordering, progress, failures and cancellation
+ */
+
+import {
+  InMemoryProcessingJobStore,
+  ProcessingJobQueue,
+  type JobContext,
+} from '../src/core/jobs/processingJobs';
+import { RAGError } from '../src/types';
+
+beforeAll(() => {
+  jest.spyOn(console, 'debug').mockImplementation(() => undefined);
+  jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+});
+
+describe('ProcessingJobQueue', () => {
+  let queue: ProcessingJobQueue;
+
+  beforeEach(() => {
+    queue = new ProcessingJobQueue(new InMemoryProcessingJobStore());
+  });
+
+  it('should run queued jobs oldest first and store progress and results', async () => {
+    const ran: string[] = [];
+    queue.register('crawl', async ({ job, reportProgress }) => {
+      ran.push(job.config.collection);
+      await reportProgress(3, 10);
+      return { pages_crawled: 3 };
+    });
+
+    const first = await queue.enqueue('crawl', { collection: 'pssis-admin' });
+    await new Promise(resolve => setTimeout(resolve, 5));
+    await queue.enqueue('crawl', { collection: 'schoology' });
+
+    expect(await queue.runNext()).toBe(true);
+    expect(await queue.runNext()).toBe(true);
+    expect(await queue.runNext()).toBe(false);
+
+    expect(ran).toEqual(['pssis-admin', 'schoology']);
+    expect(await queue.get(first.id)).toMatchObject({
+      status: 'completed',
+      progress_current: 3,
+      progress_total: 10,
+      result: { pages_crawled: 3 },
+    });
+  });
+
+  it('should record handler errors as failed jobs', async () => {
+    queue.register('cleanup', async () => {
+      throw new Error('database unavailable');
+    });
+
+    const job = await queue.enqueue('cleanup', { collection: 'schoology' });
+    await queue.runNext();
+
+    expect(await queue.get(job.id)).toMatchObject({ status: 'failed', error_message: 'database unavailable' });
+  });
+
+  it('should cancel pending jobs and stop running ones', async () => {
+    let started!: () => void;
+    const running = new Promise<void>(resolve => { started = resolve; });
+    queue.register('reindex', async ({ signal }: JobContext) => {
+      started();
+      await new Promise(resolve => signal.addEventListener('abort', resolve));
+      return { pages_crawled: 1 };
+    });
+
+    const active = await queue.enqueue('reindex', { collection: 'pssis-admin' });
+    const run = queue.runNext();
+    await running;
+    const pending = await queue.enqueue('reindex', { collection: 'schoology' });
+
+    expect((await queue.cancel(pending.id)).status).toBe('cancelled');
+    await queue.cancel(active.id);
+    await run;
+
+    expect(await queue.get(active.id)).toMatchObject({ status: 'cancelled', result: { pages_crawled: 1 } });
+    expect(await queue.runNext()).toBe(false);
+    await expect(queue.cancel(active.id)).rejects.toMatchObject({ code: 'JOB_NOT_CANCELLABLE' });
+    await expect(queue.get('missing')).rejects.toBeInstanceOf(RAGError);
+  });
+
+  it('should only fail running jobs whose heartbeat is stale', async () => {
+    const store = new InMemoryProcessingJobStore();
+    const worker = new ProcessingJobQueue(store, { leaseMs: 50 });
+    let started!: () => void;
+    const running = new Promise<void>(resolve => { started = resolve; });
+    let release!: () => void;
+    worker.register('crawl', async () => {
+      started();
+      await new Promise<void>(resolve => { release = resolve; });
+      return { pages_crawled: 1 };
+    });
+
+    const job = await worker.enqueue('crawl', { collection: 'schoology' });
+    const run = worker.runNext();
+    await running;
+
+    // Another instance starting up leaves a job with a fresh heartbeat alone
+    const other = new ProcessingJobQueue(store, { leaseMs: 50 });
+    expect(await other.failInterrupted()).toBe(0);
+
+    // Once the lease lapses it fails the job, and the late finish does not overwrite that
+    expect(await store.failInterrupted(new Date(Date.now() + 1000))).toBe(1);
+    release();
+    await run;
+
+    expect(await worker.get(job.id)).toMatchObject({ status: 'failed', error_message: expect.stringContaining('Interrupted') });
+  });
+
+  it('should hand the running job back to the queue on stop', async () => {
+    const store = new InMemoryProcessingJobStore();
+    const worker = new ProcessingJobQueue(store, { pollIntervalMs: 60000 });
+    let started!: () => void;
+    const running = new Promise<void>(resolve => { started = resolve; });
+    worker.register('crawl', async ({ signal, reportProgress }) => {
+      await reportProgress(2, 10);
+      started();
+      await new Promise(resolve => signal.addEventListener('abort', resolve));
+      return { pages_crawled: 2 };
+    });
+
+    const job = await worker.enqueue('crawl', { collection: 'pssis-admin' });
+    await worker.start();
+    await running;
+    await worker.stop();
+
+    const released = await worker.get(job.id);
+    expect(released).toMatchObject({ status: 'pending', progress_current: 0 });
+    expect(released.started_at).toBeUndefined();
+
+    // The next worker to start picks it up again
+    const next = new ProcessingJobQueue(store);
+    next.register('crawl', async () => ({ pages_crawled: 10 }));
+    expect(await next.runNext()).toBe(true);
+    expect(await next.get(job.id)).toMatchObject({ status: 'completed', result: { pages_crawled: 10 } });
+  });
+
+  it('should reject job types without a handler', async () => {
+    await expect(queue.enqueue('index', { collection: 'schoology' })).rejects.toMatchObject({ code: 'INVALID_JOB' });
+  });
+});
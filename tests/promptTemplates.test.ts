@@ -0,0 +1,188 @@
+/**
+ * Tests for the prompt template registry: rendering, scope resolution, versioning and personas
+ */
+
+import {
+  BUILTIN_PROMPT_TEMPLATE,
+  PostgresPromptTemplateStore,
+  PromptTemplateRegistry,
+  formatTemplateVersion,
+  renderPromptTemplate,
+  type PromptTemplate,
+  type PromptTemplateStore
+} from '../src/core/rag/promptTemplates';
+import { PromptBuilder } from '../src/core/rag/promptBuilder';
+import { RAGPipeline } from '../src/core/rag/ragPipeline';
+import { InMemoryVectorAdapter } from '../src/adapters/vector-store/memory';
+import type { EmbeddingAdapter, LLMAdapter } from '../src/types';
+
+jest.mock('../src/utils/config', () => ({
+  __esModule: true,
+  default: { MAX_TOKENS: 1500 },
+}));
+
+function createStore(stored: PromptTemplate[] = []): jest.Mocked<PromptTemplateStore> {
+  return {
+    loadAll: jest.fn().mockResolvedValue(stored),
+    save: jest.fn().mockResolvedValue(undefined),
+    setActive: jest.fn().mockResolvedValue(undefined),
+  };
+}
+
+beforeAll(() => {
+  jest.spyOn(console, 'debug').mockImplementation(() => undefined);
+  jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+});
+
+describe('renderPromptTemplate', () => {
+  it('should substitute known variables and keep unknown placeholders', () => {
+    expect(renderPromptTemplate('You help {{ audience }} with {{product_name}} ({{other}}).', {
+      audience: 'teachers',
+      product_name: 'Schoology',
+    })).toBe('You help teachers with Schoology ({{other}}).');
+  });
+});
+
+describe('PromptTemplateRegistry', () => {
+  it('should resolve the built-in template when nothing is stored', () => {
+    const template = new PromptTemplateRegistry().resolve('schoology', 'instructions');
+
+    expect(template.id).toBe(BUILTIN_PROMPT_TEMPLATE.id);
+    expect(formatTemplateVersion(template)).toBe('*/*@v0');
+  });
+
+  it('should prefer the most specific active scope', async () => {
+    const registry = new PromptTemplateRegistry();
+    const collectionWide = await registry.create({ collection: 'schoology', template: 'Schoology', activate: true });
+    const intentSpecific = await registry.create({
+      collection: 'schoology',
+      intent: 'instructions',
+      template: 'Schoology steps',
+      activate: true,
+    });
+
+    expect(registry.resolve('schoology', 'instructions').id).toBe(intentSpecific.id);
+    expect(registry.resolve('schoology', 'details').id).toBe(collectionWide.id);
+    expect(registry.resolve('pssis-admin', 'instructions').id).toBe(BUILTIN_PROMPT_TEMPLATE.id);
+  });
+
+  it('should version each scope and keep one active version', async () => {
+    const store = createStore();
+    const registry = new PromptTemplateRegistry();
+    await registry.connect(store);
+
+    const first = await registry.create({ template: 'First', activate: true });
+    const second = await registry.create({ template: 'Second' });
+
+    expect([first.version, second.version]).toEqual([1, 2]);
+    expect(registry.resolve().id).toBe(first.id);
+    expect(registry.get(BUILTIN_PROMPT_TEMPLATE.id)?.active).toBe(false);
+
+    await registry.activate(second.id);
+    expect(registry.resolve().id).toBe(second.id);
+    expect(registry.get(first.id)?.active).toBe(false);
+    expect(store.setActive).toHaveBeenLastCalledWith('*', '*', second.id);
+
+    await registry.activate(BUILTIN_PROMPT_TEMPLATE.id);
+    expect(registry.resolve().id).toBe(BUILTIN_PROMPT_TEMPLATE.id);
+    expect(store.setActive).toHaveBeenLastCalledWith('*', '*', null);
+  });
+
+  it('should load stored versions and reject unknown variables', async () => {
+    const stored: PromptTemplate = {
+      id: 'stored-1',
+      collection: 'pssis-admin',
+      intent: '*',
+      version: 4,
+      template: 'Stored {{product_name}}',
+      active: true,
+      createdAt: new Date().toISOString(),
+    };
+    const registry = new PromptTemplateRegistry();
+    await registry.connect(createStore([stored]));
+
+    expect(registry.resolve('pssis-admin', 'details').id).toBe('stored-1');
+    await expect(registry.create({ template: 'Hello {{user_name}}' }))
+      .rejects.toMatchObject({ code: 'INVALID_PROMPT_TEMPLATE' });
+    await expect(registry.activate('missing'))
+      .rejects.toMatchObject({ code: 'PROMPT_TEMPLATE_NOT_FOUND' });
+  });
+});
+
+describe('PostgresPromptTemplateStore', () => {
+  it('should deactivate every stored version when the built-in template is activated', async () => {
+    const store = new PostgresPromptTemplateStore({ connectionString: 'postgresql://localhost:5432/test' });
+    const query = jest.spyOn((store as any).pool, 'query').mockResolvedValue({ rows: [] } as never);
+
+    await store.setActive('*', '*', null);
+
+    const [sql, values] = query.mock.calls[0] as [string, unknown[]];
+    expect(sql).toContain('SET active = COALESCE(id = $3, false)');
+    expect(values).toEqual(['*', '*', null]);
+    await store.close();
+  });
+});
+
+describe('PromptBuilder personas', () => {
+  const options = { preferSteps: true, maxTokens: 1000, includeReferences: true };
+
+  it('should describe the targeted collection', () => {
+    const builder = new PromptBuilder();
+
+    const schoology = builder.buildPrompt('How?', 'context', [], { ...options, collection: 'schoology' });
+    const pssis = builder.buildPrompt('How?', 'context', [], { ...options, collection: 'pssis-admin' });
+
+    expect(schoology.systemPrompt).toContain('You are a Schoology expert assistant.');
+    expect(schoology.systemPrompt).not.toContain('PSSIS-Admin');
+    expect(schoology.userPrompt).toContain('## Context from Schoology Documentation');
+    expect(pssis.systemPrompt).toContain('You are a PowerSchool PSSIS-Admin expert assistant.');
+    expect(pssis.systemPrompt).toContain('### 3. Step-by-Step Instructions (Required)');
+  });
+});
+
+describe('RAGPipeline prompt templates', () => {
+  it('should use the resolved template and record its version', async () => {
+    const registry = new PromptTemplateRegistry();
+    await registry.create({
+      collection: 'schoology',
+      intent: 'instructions',
+      template: 'Custom {{product_name}} prompt',
+      activate: true,
+    });
+
+    const embeddingAdapter: EmbeddingAdapter = {
+      embed: jest.fn().mockResolvedValue([1, 0, 0]),
+      embedBatch: jest.fn(),
+      getDimensions: () => 3,
+      getModel: () => 'mock-embedding',
+    };
+    const vectorStore = new InMemoryVectorAdapter();
+    await vectorStore.upsert([{
+      id: 'courses',
+      content: 'Create a course section from the Courses page.',
+      embedding: [1, 0, 0],
+      metadata: {
+        url: 'https://docs.example.com/courses',
+        title: 'Courses',
+        content_type: 'text',
+        collection: 'schoology',
+        chunk_index: 0,
+        total_chunks: 1,
+        created_at: new Date(),
+        updated_at: new Date(),
+      },
+    }]);
+    const generate = jest.fn().mockResolvedValue('## Summary\nCreate the section from the Courses page [1].');
+    const llmAdapter: LLMAdapter = { generate, getMaxTokens: () => 8192, getModel: () => 'mock-llm' };
+
+    const pipeline = new RAGPipeline(embeddingAdapter, vectorStore, llmAdapter, null, registry);
+    const response = await pipeline.process('How do I create a course section?', {
+      prefer_steps: true,
+      collections: ['schoology'],
+      groundingVerifier: 'none',
+    });
+
+    expect(generate.mock.calls[0][0][0]).toEqual({ role: 'system', content: 'Custom Schoology prompt' });
+    expect(response.debug_info?.prompt_template).toBe('schoology/instructions@v1');
+  });
+});
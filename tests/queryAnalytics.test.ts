@@ -0,0 +1,120 @@
+/**
+ * Tests for query analytics recording
+ */
+
+import {
+  QueryAnalytics,
+  classifyQueryType,
+  hashQuery,
+  type QueryStatsRecord,
+  type QueryStatsStore,
+} from '../src/core/analytics/queryAnalytics';
+import type { AskResponse } from '../src/types';
+
+class FakeStatsStore implements QueryStatsStore {
+  records: QueryStatsRecord[] = [];
+  insertMany = jest.fn(async (records: QueryStatsRecord[]) => {
+    this.records.push(...records);
+  });
+  deleteOlderThan = jest.fn(async () => 0);
+}
+
+const answered: AskResponse = {
+  answer: 'Define FTE codes under District Setup > FTE.',
+  summary: 'FTE codes are defined in District Setup.',
+  citations: [],
+  retrieved_docs: [{ id: 'fte-0', score: 0.82, excerpt: '' }],
+  debug_info: {
+    is_fallback: false,
+    pipeline_stage: 'completed',
+    processing_time_ms: 1250,
+    documents_found: 4,
+    top_score: 0.82,
+    timings: {
+      query_embedding_time_ms: 40,
+      search_time_ms: 60,
+      llm_generation_time_ms: 1100,
+      total_time_ms: 1250,
+    },
+  },
+};
+
+beforeAll(() => {
+  jest.spyOn(console, 'debug').mockImplementation(() => undefined);
+});
+
+describe('classifyQueryType', () => {
+  it('should classify questions by keywords', () => {
+    expect(classifyQueryType('Attendance codes are not working after rollover')).toBe('troubleshooting');
+    expect(classifyQueryType('How do I enable SSO settings for teachers?')).toBe('configuration');
+    expect(classifyQueryType('What is the difference between ADA and ADM?')).toBe('feature');
+    expect(classifyQueryType('Show me the gradebook')).toBe('general');
+    expect(classifyQueryType('   ')).toBe('unknown');
+  });
+});
+
+describe('QueryAnalytics', () => {
+  it('should not record anything until connected', () => {
+    expect(new QueryAnalytics().record({ query: 'What is FTE?', response: answered, platform: 'api' })).toBeNull();
+  });
+
+  it('should write timings, scores and classification in a background batch', async () => {
+    const store = new FakeStatsStore();
+    const analytics = new QueryAnalytics({ retentionDays: 0 });
+    await analytics.connect(store);
+
+    const id = analytics.record({
+      query: 'What is FTE?',
+      response: answered,
+      platform: 'slack',
+      userId: 'U123',
+      collection: 'pssis-admin',
+    });
+
+    expect(store.insertMany).not.toHaveBeenCalled();
+    await analytics.flush();
+
+    expect(store.records).toEqual([expect.objectContaining({
+      id,
+      query_text: 'What is FTE?',
+      query_hash: hashQuery('what is  FTE?'),
+      user_id: 'U123',
+      platform: 'slack',
+      collection: 'pssis-admin',
+      embedding_time_ms: 40,
+      search_time_ms: 60,
+      llm_time_ms: 1100,
+      total_time_ms: 1250,
+      results_count: 4,
+      top_score: 0.82,
+      query_type: 'feature',
+      is_fallback: false,
+      cached: false,
+    })]);
+  });
+
+  it('should keep only the hash when raw text storage is off and survive store failures', async () => {
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    const store = new FakeStatsStore();
+    store.insertMany.mockRejectedValueOnce(new Error('connection refused'));
+    const analytics = new QueryAnalytics({ retentionDays: 0, maxBatchSize: 1 });
+    await analytics.connect(store, { storeQueryText: false });
+
+    analytics.record({ query: 'first', response: answered, platform: 'api' });
+    analytics.record({ query: 'second', response: answered, platform: 'teams' });
+    await analytics.close();
+
+    expect(store.insertMany).toHaveBeenCalledTimes(2);
+    expect(store.records).toHaveLength(1);
+    expect(store.records[0]).toMatchObject({ query_text: null, query_hash: hashQuery('second'), platform: 'teams' });
+  });
+
+  it('should delete expired records on connect', async () => {
+    const store = new FakeStatsStore();
+    const analytics = new QueryAnalytics();
+    await analytics.connect(store, { retentionDays: 30 });
+    await analytics.close();
+
+    expect(store.deleteOlderThan).toHaveBeenCalledWith(30);
+  });
+});
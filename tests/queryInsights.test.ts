@@ -0,0 +1,105 @@
+/**
+ * Tests for content-gap clustering and analytics reports
+ */
+
+import {
+  QueryInsights,
+  clusterQuestions,
+  type GapCandidate,
+  type QueryInsightsStore,
+} from '../src/core/analytics/queryInsights';
+import type { EmbeddingAdapter } from '../src/types';
+
+function candidate(query_text: string, occurrences: number, overrides: Partial<GapCandidate> = {}): GapCandidate {
+  return {
+    query_hash: `${query_text.replace(/\W/g, '').toLowerCase()}0000000000000`,
+    query_text,
+    occurrences,
+    fallback_count: occurrences,
+    low_confidence_count: 0,
+    not_helpful_count: 0,
+    collections: [],
+    last_seen: '2024-06-01T00:00:00.000Z',
+    ...overrides,
+  };
+}
+
+// Questions about the same topic share a direction
+const TOPIC_VECTORS: Record<string, number[]> = {
+  transcript: [1, 0, 0],
+  rollover: [0, 1, 0],
+  sso: [0, 0, 1],
+};
+
+const fakeEmbeddings: EmbeddingAdapter = {
+  embed: async (text: string) => embedText(text),
+  embedBatch: jest.fn(async (texts: string[]) => texts.map(embedText)),
+  getDimensions: () => 3,
+  getModel: () => 'fake',
+};
+
+function embedText(text: string): number[] {
+  const topic = Object.keys(TOPIC_VECTORS).find(key => text.toLowerCase().includes(key));
+  const [x, y, z] = topic ? TOPIC_VECTORS[topic]! : [0.5, 0.5, 0.5];
+  // A little noise so near-duplicates are similar but not identical
+  return [x! + text.length / 1000, y!, z!];
+}
+
+beforeAll(() => {
+  jest.spyOn(console, 'debug').mockImplementation(() => undefined);
+});
+
+describe('clusterQuestions', () => {
+  it('should group similar questions and rank clusters by frequency', () => {
+    const clusters = clusterQuestions(
+      [
+        candidate('How do I print a transcript?', 3, { collections: ['pssis-admin'] }),
+        candidate('Year-end rollover steps', 2),
+        candidate('Printing a transcript for a student', 4, { not_helpful_count: 1, last_seen: '2024-06-03T00:00:00.000Z' }),
+        candidate('Rollover failed for one school', 1, { collections: ['pssis-admin'] }),
+      ].map(gap => ({ ...gap, embedding: embedText(gap.query_text) })),
+      0.85
+    );
+
+    expect(clusters).toHaveLength(2);
+    expect(clusters[0]).toMatchObject({
+      representative_question: 'Printing a transcript for a student',
+      occurrences: 7,
+      unique_questions: 2,
+      not_helpful_count: 1,
+      collections: ['pssis-admin'],
+      last_seen: '2024-06-03T00:00:00.000Z',
+    });
+    expect(clusters[0]!.examples.map(example => example.question)).toEqual([
+      'Printing a transcript for a student',
+      'How do I print a transcript?',
+    ]);
+    expect(clusters[1]).toMatchObject({ representative_question: 'Year-end rollover steps', occurrences: 3 });
+  });
+});
+
+describe('QueryInsights', () => {
+  it('should embed gap candidates from the requested window and limit the clusters', async () => {
+    const store: QueryInsightsStore = {
+      findGapCandidates: jest.fn(async () => [
+        candidate('Configure SSO for parents', 5),
+        candidate('Rollover failed', 2),
+      ]),
+      topQueries: jest.fn(),
+      collectionVolume: jest.fn(),
+      latencyPercentiles: jest.fn(),
+    };
+    const insights = new QueryInsights(store, fakeEmbeddings);
+
+    const analysis = await insights.findGaps({ days: 30, platform: 'slack', lowConfidenceThreshold: 0.4, limit: 1 });
+
+    const [window, threshold] = (store.findGapCandidates as jest.Mock).mock.calls[0];
+    expect(window.platform).toBe('slack');
+    expect(Date.now() - window.since.getTime()).toBeGreaterThanOrEqual(30 * 24 * 60 * 60 * 1000);
+    expect(threshold).toBe(0.4);
+    expect(fakeEmbeddings.embedBatch).toHaveBeenCalledWith(['Configure SSO for parents', 'Rollover failed']);
+    expect(analysis.questions_analyzed).toBe(2);
+    expect(analysis.clusters).toHaveLength(1);
+    expect(analysis.clusters[0]!.representative_question).toBe('Configure SSO for parents');
+  });
+});
@@ -0,0 +1,116 @@
+/**
+ * Tests for synthetic golden example generation and chunk sampling
+ */
+
+import { QuestionGenerator, questionSimilarity } from '../src/core/evaluation/questionGenerator';
+import { InMemoryVectorAdapter } from '../src/adapters/vector-store/memory';
+import type { LLMAdapter, SearchResult, VectorDocument } from '../src/types';
+
+function createDoc(id: string, section: string, collection: 'pssis-admin' | 'schoology', content: string): VectorDocument {
+  return {
+    id,
+    content,
+    embedding: [1, 0, 0],
+    metadata: {
+      url: `https://docs.example.com/${id}#chunk-0`,
+      title: `${section} page`,
+      section,
+      content_type: 'text',
+      collection,
+      chunk_index: 0,
+      total_chunks: 2,
+      created_at: new Date(),
+      updated_at: new Date(),
+    },
+  };
+}
+
+function toChunk(doc: VectorDocument): SearchResult {
+  return { id: doc.id, content: doc.content, metadata: doc.metadata, score: 0 };
+}
+
+function createLLM(...replies: string[]): LLMAdapter {
+  const generate = jest.fn();
+  for (const reply of replies) {
+    generate.mockResolvedValueOnce(reply);
+  }
+  return { generate, getMaxTokens: () => 8192, getModel: () => 'mock-llm' };
+}
+
+beforeAll(() => {
+  jest.spyOn(console, 'debug').mockImplementation(() => undefined);
+  jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+});
+
+describe('questionSimilarity', () => {
+  it('should compare questions by their search terms', () => {
+    expect(questionSimilarity('How do I add an attendance code?', 'How can I add attendance codes?')).toBeLessThan(1);
+    expect(questionSimilarity('How do I add an attendance code?', 'how to add attendance code')).toBe(1);
+    expect(questionSimilarity('Where are FTE codes defined?', 'How do I create a course?')).toBe(0);
+  });
+});
+
+describe('QuestionGenerator', () => {
+  const fte = createDoc('fte', 'State Reporting', 'pssis-admin', 'Define FTE codes under District Setup > FTE before the count date.');
+  const sso = createDoc('sso', 'Authentication', 'schoology', 'Configure SSO under System Settings > Integration using SAML 2.0.');
+
+  it('should write golden examples with the chunk page as the expected URL', async () => {
+    const llm = createLLM(
+      '```json\n{"questions": [{"question": "Where do I define FTE codes?", "facts": ["District Setup > FTE", "invented fact"]}]}\n```'
+    );
+
+    const { examples } = await new QuestionGenerator(llm, { questionsPerChunk: 1 }).generate([toChunk(fte)]);
+
+    expect(examples).toEqual([{
+      id: 'pssis-admin-state-reporting-1',
+      question: 'Where do I define FTE codes?',
+      expected_urls: ['https://docs.example.com/fte'],
+      expected_facts: ['District Setup > FTE'],
+      collection: 'pssis-admin',
+      section: 'State Reporting',
+      source_chunk_id: 'fte',
+      synthetic: true,
+    }]);
+  });
+
+  it('should drop near-duplicates, including questions already in the set, and keep ids unique', async () => {
+    const llm = createLLM(
+      JSON.stringify({ questions: [
+        { question: 'Where are FTE codes defined?' },
+        { question: 'When is the FTE count date?' },
+      ] }),
+      'not json',
+      JSON.stringify({ questions: [{ question: 'How do I set up SAML SSO?' }] })
+    );
+    const existing = [{
+      id: 'pssis-admin-state-reporting-1',
+      question: 'where are the FTE codes defined',
+      expected_urls: ['https://docs.example.com/fte'],
+    }];
+
+    const { examples, stats } = await new QuestionGenerator(llm).generate([toChunk(fte), toChunk(sso), toChunk(sso)], existing);
+
+    expect(examples.map(example => example.id)).toEqual(['pssis-admin-state-reporting-2', 'schoology-authentication-1']);
+    expect(stats).toEqual({ chunks: 3, generated: 3, duplicates: 1, failedChunks: 1 });
+  });
+});
+
+describe('InMemoryVectorAdapter.sampleChunks', () => {
+  it('should take a repeatable sample from every collection and section', async () => {
+    const store = new InMemoryVectorAdapter();
+    await store.upsert([
+      createDoc('a1', 'Attendance', 'pssis-admin', 'Attendance codes are configured per school.'),
+      createDoc('a2', 'Attendance', 'pssis-admin', 'Daily attendance is recorded by teachers.'),
+      createDoc('a3', 'Attendance', 'pssis-admin', 'Short.'),
+      createDoc('c1', 'Courses', 'schoology', 'Course sections are created from the Courses page.'),
+    ]);
+
+    const sample = await store.sampleChunks({ perSection: 1, minLength: 10, seed: 'x' });
+    const again = await store.sampleChunks({ perSection: 1, minLength: 10, seed: 'x' });
+
+    expect(sample.map(chunk => chunk.metadata.section)).toEqual(['Attendance', 'Courses']);
+    expect(sample.map(chunk => chunk.id)).toEqual(again.map(chunk => chunk.id));
+    expect(sample[0]!.id).not.toBe('a3');
+    expect(await store.sampleChunks({ perSection: 5, collections: ['schoology'] })).toHaveLength(1);
+  });
+});
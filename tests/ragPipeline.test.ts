@@ -0,0 +1,254 @@
+/**
+ * Tests for RAGPipeline processing against the in-memory vector store
+ */
+
+import { RAGPipeline } from '../src/core/rag/ragPipeline';
+import { SemanticAnswerCache } from '../src/core/rag/answerCache';
+import { InMemoryVectorAdapter } from '../src/adapters/vector-store/memory';
+import { LocalLLMAdapter } from '../src/adapters/llm/local';
+import { LLMClient } from '../src/core/rag/llmClient';
+import { AnthropicLLMAdapter } from '../src/adapters/llm/anthropic';
+import { OpenRouterLLMAdapter } from '../src/adapters/llm/openrouter';
+import type { AskStreamEvent, EmbeddingAdapter, GenerateOptions, LLMAdapter, VectorDocument } from '../src/types';
+
+jest.mock('../src/utils/config', () => ({
+  __esModule: true,
+  default: { MAX_TOKENS: 1500 },
+}));
+
+// Deterministic embedding adapter: every query maps onto the first axis
+const mockEmbeddingAdapter: EmbeddingAdapter = {
+  embed: jest.fn().mockResolvedValue([1, 0, 0]),
+  embedBatch: jest.fn(),
+  getDimensions: () => 3,
+  getModel: () => 'mock-embedding',
+};
+
+function createDoc(id: string, embedding: number[], title: string): VectorDocument {
+  return {
+    id,
+    content: `${title} content describing how to configure the feature.`,
+    embedding,
+    metadata: {
+      url: `https://docs.example.com/${id}`,
+      title,
+      content_type: 'text',
+      collection: 'pssis-admin',
+      chunk_index: 0,
+      total_chunks: 1,
+      created_at: new Date(),
+      updated_at: new Date(),
+    },
+  };
+}
+
+describe('RAGPipeline', () => {
+  let vectorStore: InMemoryVectorAdapter;
+  let pipeline: RAGPipeline;
+  let answerCache: SemanticAnswerCache;
+
+  beforeAll(() => {
+    jest.spyOn(console, 'debug').mockImplementation(() => undefined);
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+  });
+
+  beforeEach(async () => {
+    vectorStore = new InMemoryVectorAdapter();
+    await vectorStore.upsert([
+      createDoc('doc-1', [1, 0, 0], 'Student Enrollment'),
+      createDoc('doc-2', [0.9, 0.1, 0], 'Enrollment Settings'),
+    ]);
+    answerCache = new SemanticAnswerCache();
+    pipeline = new RAGPipeline(mockEmbeddingAdapter, vectorStore, new LocalLLMAdapter(), answerCache);
+  });
+
+  describe('processStream', () => {
+    it('should emit retrieval, token and done events in order', async () => {
+      const events: AskStreamEvent[] = [];
+
+      const response = await pipeline.processStream(
+        'How to configure enrollment?',
+        { prefer_steps: true },
+        event => events.push(event)
+      );
+
+      expect(events[0]?.type).toBe('retrieval');
+      expect(events[events.length - 1]).toEqual({ type: 'done', response });
+
+      const tokens = events.filter(
+        (event): event is Extract<AskStreamEvent, { type: 'token' }> => event.type === 'token'
+      );
+      expect(tokens.length).toBeGreaterThan(1);
+      expect(tokens.map(event => event.delta).join('').length).toBeGreaterThan(0);
+
+      const retrieval = events[0] as Extract<AskStreamEvent, { type: 'retrieval' }>;
+      expect(retrieval.retrieved_docs.map(doc => doc.id)).toEqual(['doc-1', 'doc-2']);
+      expect(response.retrieved_docs).toEqual(retrieval.retrieved_docs);
+      expect(response.debug_info?.pipeline_stage).toBe('completed');
+    });
+
+    it('should emit only a done event for fallback responses', async () => {
+      await vectorStore.clear();
+      const events: AskStreamEvent[] = [];
+
+      const response = await pipeline.processStream('Unknown topic', {}, event => events.push(event));
+
+      expect(events).toEqual([{ type: 'done', response }]);
+      expect(response.debug_info?.is_fallback).toBe(true);
+    });
+  });
+
+  describe('process', () => {
+    it('should return the same response shape without streaming', async () => {
+      const response = await pipeline.process('How to configure enrollment?');
+
+      expect(response.answer.length).toBeGreaterThan(0);
+      expect(response.citations).toHaveLength(2);
+      expect(response.debug_info?.is_fallback).toBe(false);
+    });
+
+    it('should keep context within the model window and report token usage', async () => {
+      const response = await pipeline.process('How to configure enrollment?', { contextWindowTokens: 100000 });
+      const debugInfo = response.debug_info!;
+
+      // LocalLLMAdapter has a 4096-token window and 1500 tokens are reserved for the answer
+      expect(debugInfo.context_budget_tokens).toBeLessThan(4096 - 1500);
+      expect(debugInfo.context_tokens).toBeGreaterThan(0);
+      expect(debugInfo.prompt_tokens).toBeGreaterThan(debugInfo.context_tokens!);
+      expect(debugInfo.response_tokens).toBeGreaterThan(0);
+      expect(debugInfo.tokenizer).toBe('approx:4');
+    });
+  });
+
+  describe('answer cache', () => {
+    it('should serve repeated questions from the cache', async () => {
+      const llmAdapter = new LocalLLMAdapter();
+      const generateSpy = jest.spyOn(llmAdapter, 'generate');
+      pipeline = new RAGPipeline(mockEmbeddingAdapter, vectorStore, llmAdapter, answerCache);
+
+      const first = await pipeline.process('How do I add a new student?');
+      const second = await pipeline.process('how to add new student?');
+
+      expect(generateSpy).toHaveBeenCalledTimes(1);
+      expect(first.debug_info?.cached).toBeUndefined();
+      expect(second.debug_info).toMatchObject({ cached: true, cache_similarity: 1, pipeline_stage: 'cache_hit' });
+      expect(second.answer).toBe(first.answer);
+    });
+
+    it('should not share answers across collections or pipeline options', async () => {
+      await pipeline.process('How do I add a new student?', { collections: ['pssis-admin'] });
+
+      const otherCollection = await pipeline.process('How do I add a new student?', { collections: ['schoology'] });
+      const otherOptions = await pipeline.process('How do I add a new student?', { collections: ['pssis-admin'], prefer_steps: true });
+
+      expect(otherCollection.debug_info?.cached).toBeUndefined();
+      expect(otherOptions.debug_info?.cached).toBeUndefined();
+      expect(answerCache.getStats().entries).toBe(2);
+    });
+
+    it('should miss after the collection is invalidated', async () => {
+      await pipeline.process('How do I add a new student?', { collections: ['pssis-admin'] });
+
+      expect(answerCache.invalidate('pssis-admin')).toBe(1);
+
+      const response = await pipeline.process('How do I add a new student?', { collections: ['pssis-admin'] });
+      expect(response.debug_info?.cached).toBeUndefined();
+    });
+
+    it('should keep nested options apart in the cache key', async () => {
+      await pipeline.process('How do I add a new student?', {
+        expandContext: true,
+        contextExpansion: { windowSize: 1 },
+      });
+
+      const narrow = await pipeline.process('How do I add a new student?', {
+        expandContext: true,
+        contextExpansion: { windowSize: 1 },
+      });
+      const wide = await pipeline.process('How do I add a new student?', {
+        expandContext: true,
+        contextExpansion: { windowSize: 3 },
+      });
+
+      expect(narrow.debug_info?.cached).toBe(true);
+      expect(wide.debug_info?.cached).toBeUndefined();
+    });
+
+    it('should replay cached answers as stream events', async () => {
+      await pipeline.process('How do I add a new student?');
+      const events: AskStreamEvent[] = [];
+
+      const response = await pipeline.processStream('How do I add a new student?', {}, event => events.push(event));
+
+      expect(events.map(event => event.type)).toEqual(['retrieval', 'token', 'done']);
+      expect(response.debug_info?.cached).toBe(true);
+    });
+  });
+});
+
+describe('RAGPipeline context budget', () => {
+  async function budgetWarnings(llmAdapter: LLMAdapter): Promise<unknown[][]> {
+    const vectorStore = new InMemoryVectorAdapter();
+    await vectorStore.upsert([createDoc('doc-1', [1, 0, 0], 'Student Enrollment')]);
+    jest.spyOn(llmAdapter, 'generate').mockResolvedValue('## Summary\nEnroll students from Student Search [1].');
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    warn.mockClear();
+
+    const pipeline = new RAGPipeline(mockEmbeddingAdapter, vectorStore, llmAdapter, null);
+    await pipeline.process('How do I enroll a student?', { context_window_tokens: 20000, useCache: false });
+
+    return warn.mock.calls.filter(([message]) => String(message).includes('Context budget reduced'));
+  }
+
+  beforeAll(() => {
+    jest.spyOn(console, 'debug').mockImplementation(() => undefined);
+  });
+
+  it('should budget against the model window, not its output limit', async () => {
+    const claude = new AnthropicLLMAdapter({ apiKey: 'test-key', model: 'claude-3-sonnet-20240229' });
+
+    expect(claude.getMaxTokens()).toBe(200000);
+    expect(claude.getModelInfo()).toMatchObject({ maxTokens: 4096, contextWindow: 200000 });
+    expect(await budgetWarnings(claude)).toHaveLength(0);
+  });
+
+  it('should still cap context for small-window models', async () => {
+    const gpt4 = new OpenRouterLLMAdapter({ apiKey: 'test-key', model: 'openai/gpt-4' });
+
+    expect(gpt4.getMaxTokens()).toBe(8192);
+    expect(await budgetWarnings(gpt4)).toHaveLength(1);
+    expect(new OpenRouterLLMAdapter({ apiKey: 'test-key', model: 'anthropic/claude-3-haiku' }).getMaxTokens()).toBe(200000);
+  });
+});
+
+describe('LLMClient.generateStream', () => {
+  beforeAll(() => {
+    jest.spyOn(console, 'debug').mockImplementation(() => undefined);
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+  });
+
+  it('should abort the adapter stream and drop tokens after a timeout', async () => {
+    let emit!: (chunk: string) => void;
+    let signal: AbortSignal | undefined;
+    const adapter: LLMAdapter = {
+      generate: jest.fn(),
+      generateStream: (_messages, options: GenerateOptions = {}, onChunk) => {
+        signal = options.signal;
+        emit = chunk => onChunk?.(chunk);
+        emit('Enroll ');
+        return new Promise<string>(() => undefined);
+      },
+      getMaxTokens: () => 8192,
+      getModel: () => 'mock-llm',
+    };
+    const tokens: string[] = [];
+
+    await expect(
+      new LLMClient(adapter).generateStream('system', 'user', delta => tokens.push(delta), { timeoutMs: 10 })
+    ).rejects.toThrow('LLM request timeout');
+
+    emit('students');
+    expect(signal?.aborted).toBe(true);
+    expect(tokens).toEqual(['Enroll ']);
+  });
+});
@@ -0,0 +1,111 @@
+/**
+ * Tests for Reciprocal Rank Fusion and hybrid retrieval
+ */
+
+import { reciprocalRankFusion } from '../src/utils/rankFusion';
+import { Retriever } from '../src/core/rag/retriever';
+import { InMemoryVectorAdapter } from '../src/adapters/vector-store/memory';
+import type { EmbeddingAdapter, SearchResult, VectorDocument, VectorStoreAdapter } from '../src/types';
+
+function createDoc(id: string, embedding: number[], title: string, content: string): VectorDocument {
+  return {
+    id,
+    content,
+    embedding,
+    metadata: {
+      url: `https://docs.example.com/${id}`,
+      title,
+      content_type: 'text',
+      chunk_index: 0,
+      total_chunks: 1,
+      created_at: new Date(),
+      updated_at: new Date(),
+    },
+  };
+}
+
+function toResult(doc: VectorDocument, score: number): SearchResult {
+  return { id: doc.id, content: doc.content, metadata: doc.metadata, score };
+}
+
+const mockEmbeddingAdapter: EmbeddingAdapter = {
+  embed: jest.fn().mockResolvedValue([1, 0, 0]),
+  embedBatch: jest.fn(),
+  getDimensions: () => 3,
+  getModel: () => 'mock-embedding',
+};
+
+describe('reciprocalRankFusion', () => {
+  const docA = createDoc('a', [1, 0, 0], 'A', 'a');
+  const docB = createDoc('b', [1, 0, 0], 'B', 'b');
+  const docC = createDoc('c', [1, 0, 0], 'C', 'c');
+
+  it('should rank results found by both lists above single-list results', () => {
+    const fused = reciprocalRankFusion([
+      { results: [toResult(docA, 0.9), toResult(docB, 0.8)] },
+      { results: [toResult(docB, 12.5), toResult(docC, 3.1)] },
+    ]);
+
+    expect(fused.map(result => result.id)).toEqual(['b', 'a', 'c']);
+  });
+
+  it('should normalize scores so a result ranked first everywhere scores 1', () => {
+    const fused = reciprocalRankFusion([
+      { results: [toResult(docA, 0.9)], weight: 0.7 },
+      { results: [toResult(docA, 4.2)], weight: 0.3 },
+    ]);
+
+    expect(fused[0]?.score).toBeCloseTo(1);
+  });
+
+  it('should apply list weights and topK', () => {
+    const fused = reciprocalRankFusion(
+      [
+        { results: [toResult(docA, 0.9)], weight: 0.2 },
+        { results: [toResult(docC, 1.0)], weight: 0.8 },
+      ],
+      { topK: 1 }
+    );
+
+    expect(fused.map(result => result.id)).toEqual(['c']);
+  });
+});
+
+describe('Retriever.hybridRetrieve', () => {
+  let vectorStore: InMemoryVectorAdapter;
+  let retriever: Retriever;
+  const fieldDoc = createDoc('field', [0, 1, 0], 'Lunch_Balance Field', 'The Lunch_Balance field stores the meal balance.');
+  const semanticDoc = createDoc('semantic', [1, 0, 0], 'Meal Accounts', 'Managing cafeteria accounts for students.');
+
+  beforeAll(() => {
+    jest.spyOn(console, 'debug').mockImplementation(() => undefined);
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+  });
+
+  beforeEach(async () => {
+    vectorStore = new InMemoryVectorAdapter();
+    await vectorStore.upsert([fieldDoc, semanticDoc]);
+    retriever = new Retriever(mockEmbeddingAdapter, vectorStore);
+  });
+
+  it('should surface keyword matches the vector search filters out', async () => {
+    const result = await retriever.hybridRetrieve('Lunch_Balance', { similarityThreshold: 0.5 });
+
+    expect(result.results.map(r => r.id)).toEqual(['semantic', 'field']);
+  });
+
+  it('should fall back to vector-only rankings when the store has no text search', async () => {
+    const vectorOnlyStore: VectorStoreAdapter = {
+      upsert: docs => vectorStore.upsert(docs),
+      search: (query, topK) => vectorStore.search(query, topK),
+      delete: ids => vectorStore.delete(ids),
+      count: () => vectorStore.count(),
+      health: () => vectorStore.health(),
+    };
+    retriever = new Retriever(mockEmbeddingAdapter, vectorOnlyStore);
+
+    const result = await retriever.hybridRetrieve('Lunch_Balance', { similarityThreshold: 0.5 });
+
+    expect(result.results.map(r => r.id)).toEqual(['semantic']);
+  });
+});
@@ -0,0 +1,84 @@
+/**
+ * Tests for second-stage rerankers
+ */
+
+import { LexicalReranker, LLMReranker } from '../src/core/rag/reranker';
+import type { LLMAdapter, SearchResult } from '../src/types';
+
+function createResult(id: string, score: number, title: string, content: string): SearchResult {
+  return {
+    id,
+    content,
+    score,
+    metadata: {
+      url: `https://docs.example.com/${id}`,
+      title,
+      content_type: 'text',
+      chunk_index: 0,
+      total_chunks: 1,
+      created_at: new Date(),
+      updated_at: new Date(),
+    },
+  };
+}
+
+function createLLMAdapter(response: string | Error): LLMAdapter {
+  return {
+    generate: response instanceof Error
+      ? jest.fn().mockRejectedValue(response)
+      : jest.fn().mockResolvedValue(response),
+    getModel: () => 'mock-llm',
+    getMaxTokens: () => 4096,
+  };
+}
+
+describe('Rerankers', () => {
+  const results = [
+    createResult('doc-1', 0.9, 'District Setup', 'General district configuration options.'),
+    createResult('doc-2', 0.8, 'Attendance Codes', 'How to create attendance codes for daily attendance.'),
+    createResult('doc-3', 0.7, 'Report Cards', 'Printing report cards for students.'),
+  ];
+
+  beforeAll(() => {
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+  });
+
+  describe('LexicalReranker', () => {
+    it('should promote candidates that match the query terms', async () => {
+      const reranked = await new LexicalReranker().rerank('create attendance codes', results);
+
+      expect(reranked.map(result => result.id)).toEqual(['doc-2', 'doc-1', 'doc-3']);
+      expect(reranked[0]?.preRerankScore).toBe(0.8);
+      expect(reranked[0]?.score).toBeGreaterThan(0.8);
+    });
+
+    it('should keep the original order when the query has no usable terms', async () => {
+      const reranked = await new LexicalReranker().rerank('how to', results);
+
+      expect(reranked.map(result => result.id)).toEqual(['doc-1', 'doc-2', 'doc-3']);
+      expect(reranked.every(result => result.score === result.preRerankScore)).toBe(true);
+    });
+  });
+
+  describe('LLMReranker', () => {
+    it('should order candidates by the ranking returned from the LLM', async () => {
+      const reranker = new LLMReranker(createLLMAdapter('Ranking: [3, 1]'));
+
+      const reranked = await reranker.rerank('print report cards', results);
+
+      // Omitted passages are appended after the ranked ones
+      expect(reranked.map(result => result.id)).toEqual(['doc-3', 'doc-1', 'doc-2']);
+      expect(reranked.map(result => result.preRerankScore)).toEqual([0.7, 0.9, 0.8]);
+      expect(reranked[0]?.score).toBe(1);
+    });
+
+    it('should fall back to retrieval order when the LLM call fails', async () => {
+      const reranker = new LLMReranker(createLLMAdapter(new Error('rate limited')));
+
+      const reranked = await reranker.rerank('print report cards', results);
+
+      expect(reranked.map(result => result.id)).toEqual(['doc-1', 'doc-2', 'doc-3']);
+      expect(reranked[0]?.score).toBe(0.9);
+    });
+  });
+});
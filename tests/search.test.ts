@@ -0,0 +1,85 @@
+/**
+ * Tests for retrieval-only search: keyword retrieval and highlighted snippets
+ */
+
+import { highlightSnippet } from '../src/utils/text';
+import { Retriever } from '../src/core/rag/retriever';
+import { InMemoryVectorAdapter } from '../src/adapters/vector-store/memory';
+import type { EmbeddingAdapter, VectorDocument, VectorStoreAdapter } from '../src/types';
+
+function createDoc(id: string, content: string, section: string): VectorDocument {
+  return {
+    id,
+    content,
+    embedding: [1, 0, 0],
+    metadata: {
+      url: `https://docs.example.com/${id}`,
+      title: id,
+      section,
+      content_type: 'text',
+      collection: 'pssis-admin',
+      chunk_index: 0,
+      total_chunks: 1,
+      created_at: new Date(),
+      updated_at: new Date(),
+    },
+  };
+}
+
+describe('highlightSnippet', () => {
+  it('should mark query terms and escape HTML', () => {
+    expect(highlightSnippet('Use <b>Attendance</b> codes & modes.', 'attendance codes'))
+      .toBe('Use &lt;b&gt;<mark>Attendance</mark>&lt;/b&gt; <mark>codes</mark> &amp; modes.');
+  });
+
+  it('should center the excerpt on the densest cluster of matches', () => {
+    const text = `${'Filler words about nothing in particular. '.repeat(10)}Configure FTE values for state reporting here. ${'More filler text. '.repeat(10)}`;
+
+    const snippet = highlightSnippet(text, 'FTE state reporting', 80);
+
+    expect(snippet.startsWith('…')).toBe(true);
+    expect(snippet.endsWith('…')).toBe(true);
+    expect(snippet).toContain('<mark>FTE</mark> values for <mark>state</mark> <mark>reporting</mark>');
+    expect(snippet.replace(/<\/?mark>|…/g, '').length).toBeLessThanOrEqual(80);
+  });
+
+  it('should not match terms inside other words', () => {
+    expect(highlightSnippet('Grades and upgrades', 'grades')).toBe('<mark>Grades</mark> and upgrades');
+  });
+});
+
+describe('Retriever.keywordRetrieve', () => {
+  const embed = jest.fn();
+  const embeddingAdapter: EmbeddingAdapter = {
+    embed,
+    embedBatch: jest.fn(),
+    getDimensions: () => 3,
+    getModel: () => 'mock-embedding',
+  };
+
+  beforeAll(() => {
+    jest.spyOn(console, 'debug').mockImplementation(() => undefined);
+  });
+
+  it('should search text with filters without embedding the query', async () => {
+    const store = new InMemoryVectorAdapter();
+    await store.upsert([
+      createDoc('fall-report', 'Submit the fall state report after attendance is final.', 'State Reporting'),
+      createDoc('attendance', 'Attendance codes are configured per school.', 'Attendance'),
+    ]);
+    const retriever = new Retriever(embeddingAdapter, store);
+
+    const result = await retriever.keywordRetrieve('attendance', { sections: ['State Reporting'] });
+
+    expect(result.results.map(r => r.id)).toEqual(['fall-report']);
+    expect(embed).not.toHaveBeenCalled();
+  });
+
+  it('should reject stores without text search', async () => {
+    const store = { search: jest.fn() } as unknown as VectorStoreAdapter;
+    const retriever = new Retriever(embeddingAdapter, store);
+
+    await expect(retriever.keywordRetrieve('attendance'))
+      .rejects.toMatchObject({ code: 'KEYWORD_SEARCH_UNSUPPORTED' });
+  });
+});
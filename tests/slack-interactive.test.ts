@@ -8,15 +8,22 @@ import {
   createInteractiveButtons, 
   createSourcesModal, 
   createFollowupModal,
+  createFeedbackModal,
   enhanceResponseWithButtons,
   generateResponseId
 } from '../src/core/slack/messageBuilder';
+import { extractFeedbackData } from '../src/adapters/platform/slackAdapter';
 import type { 
   SlackRAGResponse, 
   SourcesModalData,
   FollowupModalData
 } from '../src/types';
 
+jest.mock('../src/utils/config', () => ({
+  __esModule: true,
+  default: {},
+}));
+
 describe('Source Cache', () => {
   beforeEach(() => {
     // Clear cache before each test
@@ -118,7 +125,7 @@ describe('Message Builder', () => {
 
       expect(buttonBlock.type).toBe('actions');
       expect(buttonBlock.block_id).toBe(`interactive_actions_${responseId}`);
-      expect(buttonBlock.elements).toHaveLength(2);
+      expect(buttonBlock.elements).toHaveLength(4);
 
       const showSourcesButton = buttonBlock.elements![0] as any;
       expect(showSourcesButton.type).toBe('button');
@@ -133,6 +140,30 @@ describe('Message Builder', () => {
       expect(askFollowupButton.text.text).toBe('🔄 Ask Follow-up');
       expect(askFollowupButton.action_id).toBe('ask_followup');
     });
+
+    it('should include helpful and not helpful buttons for the same response', () => {
+      const buttonBlock = createInteractiveButtons('test-response-123');
+      const [, , helpfulButton, notHelpfulButton] = buttonBlock.elements as any[];
+
+      expect(helpfulButton.action_id).toBe('feedback_helpful');
+      expect(notHelpfulButton.action_id).toBe('feedback_not_helpful');
+      expect(JSON.parse(notHelpfulButton.value).responseId).toBe('test-response-123');
+    });
+  });
+
+  describe('createFeedbackModal', () => {
+    it('should create optional reason and comment inputs with feedback metadata', () => {
+      const modal = createFeedbackModal({ feedbackId: 'fb-1', responseId: 'test-response-123' });
+
+      expect(modal.callback_id).toBe('feedback_modal');
+      expect(JSON.parse(modal.private_metadata!)).toEqual({ feedbackId: 'fb-1', responseId: 'test-response-123' });
+      expect(modal.blocks[1]).toMatchObject({
+        type: 'input',
+        optional: true,
+        element: { options: expect.arrayContaining([expect.objectContaining({ value: 'incorrect' })]) },
+      });
+      expect(modal.blocks[2]).toMatchObject({ element: { action_id: 'comment' } });
+    });
   });
 
   describe('createSourcesModal', () => {
@@ -224,7 +255,7 @@ describe('Message Builder', () => {
       
       const buttonBlock = enhanced.blocks.find((block: any) => block.type === 'actions');
       expect(buttonBlock).toBeDefined();
-      expect(buttonBlock.elements).toHaveLength(2);
+      expect(buttonBlock.elements).toHaveLength(4);
     });
 
     it('should insert buttons before context blocks', () => {
@@ -317,4 +348,30 @@ describe('Message Builder', () => {
       expect(id1).toContain(channelId);
     });
   });
-});
\ No newline at end of file
+});
+
+describe('extractFeedbackData', () => {
+  const submission = (values: Record<string, unknown>, metadata: unknown = { feedbackId: 'fb-1' }) => ({
+    type: 'view_submission',
+    view: { callback_id: 'feedback_modal', private_metadata: JSON.stringify(metadata), state: { values } },
+  });
+
+  it('should read the selected reason and comment', () => {
+    const payload = submission({
+      feedback_reason: { reason: { type: 'static_select', selected_option: { value: 'outdated' } } },
+      feedback_comment: { comment: { type: 'plain_text_input', value: 'The menu moved in 24.1' } },
+    });
+
+    expect(extractFeedbackData(payload)).toEqual({ feedbackId: 'fb-1', reason: 'outdated', comment: 'The menu moved in 24.1' });
+  });
+
+  it('should ignore unknown reasons and malformed payloads', () => {
+    const payload = submission({ feedback_reason: { reason: { type: 'static_select', selected_option: { value: 'rude' } } } });
+
+    expect(extractFeedbackData(payload)).toEqual({ feedbackId: 'fb-1' });
+    expect(extractFeedbackData(submission({}, { feedbackId: 42 }))).toBeNull();
+    expect(extractFeedbackData({ type: 'view_submission' })).toBeNull();
+    expect(extractFeedbackData('not a payload')).toBeNull();
+    expect(extractFeedbackData(null)).toBeNull();
+  });
+});
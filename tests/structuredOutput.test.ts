@@ -0,0 +1,148 @@
+/**
+ * Tests for structured JSON answers: validation, repair, retries and pipeline fallback
+ */
+
+import { parseStructuredAnswer, STRUCTURED_ANSWER_FORMAT } from '../src/core/rag/structuredOutput';
+import { LLMClient } from '../src/core/rag/llmClient';
+import { RAGPipeline } from '../src/core/rag/ragPipeline';
+import { InMemoryVectorAdapter } from '../src/adapters/vector-store/memory';
+import type { EmbeddingAdapter, LLMAdapter, VectorDocument } from '../src/types';
+
+jest.mock('../src/utils/config', () => ({
+  __esModule: true,
+  default: { MAX_TOKENS: 1500 },
+}));
+
+const validDocument = {
+  summary: 'Enroll students from the Student Search page.',
+  answer: '## Summary\nEnroll students from the Student Search page [1].\n\n## Steps\n1. Select Enroll New Student [1].',
+  steps: [{ text: 'Select Enroll New Student', navigation_path: 'Start Page > Student Search' }],
+  citations: [1],
+  confidence: 0.8,
+};
+
+function createLLMAdapter(responses: string[]): LLMAdapter {
+  const generate = jest.fn();
+  responses.forEach(response => generate.mockResolvedValueOnce(response));
+  return {
+    generate,
+    getMaxTokens: () => 8192,
+    getModel: () => 'mock-llm',
+  };
+}
+
+describe('parseStructuredAnswer', () => {
+  it('should accept a valid document', () => {
+    const result = parseStructuredAnswer(JSON.stringify(validDocument));
+
+    expect(result).toEqual({ valid: true, value: validDocument, repaired: false });
+  });
+
+  it('should repair code fences, surrounding prose and trailing commas', () => {
+    const result = parseStructuredAnswer(
+      'Here is the answer:\n```json\n{"summary": "Short.", "answer": "Long answer.", "citations": [1, 2,],}\n```'
+    );
+
+    expect(result).toMatchObject({ valid: true, repaired: true, value: { citations: [1, 2] } });
+  });
+
+  it('should report schema violations', () => {
+    const result = parseStructuredAnswer('{"summary": "", "confidence": 3}');
+
+    expect(result.valid).toBe(false);
+    if (!result.valid) {
+      expect(result.errors).toEqual(expect.arrayContaining([
+        expect.stringContaining('summary'),
+        expect.stringContaining('answer'),
+        expect.stringContaining('confidence'),
+      ]));
+    }
+  });
+});
+
+describe('LLMClient.generateStructured', () => {
+  beforeAll(() => {
+    jest.spyOn(console, 'debug').mockImplementation(() => undefined);
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+  });
+
+  it('should request the answer format and ask the model to repair invalid output', async () => {
+    const adapter = createLLMAdapter(['{"summary": "Missing answer"}', JSON.stringify(validDocument)]);
+
+    const result = await new LLMClient(adapter).generateStructured('system', 'user', { retries: 0 });
+
+    expect(result.structured).toEqual(validDocument);
+    expect(result.repairAttempts).toBe(1);
+    expect(adapter.generate).toHaveBeenCalledTimes(2);
+    expect((adapter.generate as jest.Mock).mock.calls[0][1]).toMatchObject({ response_format: STRUCTURED_ANSWER_FORMAT });
+
+    const repairMessages = (adapter.generate as jest.Mock).mock.calls[1][0];
+    expect(repairMessages[2]).toEqual({ role: 'assistant', content: '{"summary": "Missing answer"}' });
+    expect(repairMessages[3].content).toContain('answer: Required');
+  });
+
+  it('should leave structured undefined when repairs fail', async () => {
+    const adapter = createLLMAdapter(['## Summary\nPlain markdown.', '## Summary\nStill markdown.']);
+
+    const result = await new LLMClient(adapter).generateStructured('system', 'user', { retries: 0 });
+
+    expect(result.structured).toBeUndefined();
+    expect(result.response).toContain('Still markdown');
+  });
+});
+
+describe('RAGPipeline structured output', () => {
+  const embeddingAdapter: EmbeddingAdapter = {
+    embed: jest.fn().mockResolvedValue([1, 0, 0]),
+    embedBatch: jest.fn(),
+    getDimensions: () => 3,
+    getModel: () => 'mock-embedding',
+  };
+  let vectorStore: InMemoryVectorAdapter;
+
+  beforeAll(() => {
+    jest.spyOn(console, 'debug').mockImplementation(() => undefined);
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+  });
+
+  beforeEach(async () => {
+    const doc: VectorDocument = {
+      id: 'enrollment',
+      content: 'Open Start Page > Student Search and select Enroll New Student to enroll students.',
+      embedding: [1, 0, 0],
+      metadata: {
+        url: 'https://docs.example.com/enrollment',
+        title: 'Student Enrollment',
+        content_type: 'text',
+        chunk_index: 0,
+        total_chunks: 1,
+        created_at: new Date(),
+        updated_at: new Date(),
+      },
+    };
+    vectorStore = new InMemoryVectorAdapter();
+    await vectorStore.upsert([doc]);
+  });
+
+  it('should build the response from a valid JSON document', async () => {
+    const pipeline = new RAGPipeline(embeddingAdapter, vectorStore, createLLMAdapter([JSON.stringify(validDocument)]), null);
+
+    const response = await pipeline.process('How do I enroll a student?', { outputFormat: 'json', groundingVerifier: 'none' });
+
+    expect(response.summary).toBe(validDocument.summary);
+    expect(response.answer).toContain('Enroll New Student [1]');
+    expect(response.steps).toEqual(['Select Enroll New Student (Start Page > Student Search)']);
+    expect(response.citations.map(citation => citation.chunk_id)).toEqual(['enrollment']);
+    expect(response.debug_info).toMatchObject({ output_mode: 'json', model_confidence: 0.8 });
+  });
+
+  it('should fall back to markdown parsing when the model never returns valid JSON', async () => {
+    const markdown = '## Summary\nSelect Enroll New Student on the Student Search page [1].';
+    const pipeline = new RAGPipeline(embeddingAdapter, vectorStore, createLLMAdapter([markdown, markdown]), null);
+
+    const response = await pipeline.process('How do I enroll a student?', { outputFormat: 'json', groundingVerifier: 'none' });
+
+    expect(response.answer).toContain('Select Enroll New Student');
+    expect(response.debug_info?.output_mode).toBe('json_fallback');
+  });
+});
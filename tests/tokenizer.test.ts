@@ -0,0 +1,70 @@
+/**
+ * Tests for the token counting service and tokenizer-based context packing
+ */
+
+import { ApproximateTokenizer, TokenCounter, tokenCounter } from '../src/utils/tokenizer';
+import { Retriever } from '../src/core/rag/retriever';
+import type { EmbeddingAdapter, SearchResult, VectorStoreAdapter } from '../src/types';
+
+describe('tokenCounter', () => {
+  it('should use tiktoken encodings for OpenAI models', () => {
+    expect(tokenCounter.getTokenizer('gpt-4').name).toBe('tiktoken:cl100k_base');
+    expect(tokenCounter.getTokenizer('openai/gpt-4o-mini').name).toBe('tiktoken:o200k_base');
+    expect(tokenCounter.countTokens('Hello world', 'gpt-4')).toBe(2);
+  });
+
+  it('should use registered approximations for Bedrock models', () => {
+    expect(tokenCounter.getTokenizer('anthropic.claude-3-haiku-20240307-v1:0').name).toBe('approx:claude');
+    expect(tokenCounter.getTokenizer('amazon.titan-text-express-v1').name).toBe('approx:4');
+    expect(tokenCounter.getTokenizer('unknown-model').name).toBe('approx:4');
+  });
+
+  it('should include chat formatting overhead in message counts', () => {
+    const content = 'How do I enroll a student?';
+    const messageTokens = tokenCounter.countMessageTokens([{ role: 'user', content }], 'gpt-4');
+
+    expect(messageTokens).toBeGreaterThan(tokenCounter.countTokens(content, 'gpt-4'));
+  });
+
+  it('should let later registrations override earlier ones', () => {
+    const counter = new TokenCounter();
+    counter.register(/^custom-/, () => new ApproximateTokenizer('approx:2', 2));
+    counter.register(/^custom-large/, () => new ApproximateTokenizer('approx:8', 8));
+
+    expect(counter.getTokenizer('custom-small').name).toBe('approx:2');
+    expect(counter.getTokenizer('custom-large-v1').name).toBe('approx:8');
+  });
+});
+
+describe('Retriever.buildContext token budgeting', () => {
+  const embeddingAdapter = {} as EmbeddingAdapter;
+  const vectorStore = {} as VectorStoreAdapter;
+
+  function createResult(id: string, content: string): SearchResult {
+    return {
+      id,
+      content,
+      score: 0.9,
+      metadata: {
+        url: `https://docs.example.com/${id}`,
+        title: id,
+        content_type: 'text',
+        chunk_index: 0,
+        total_chunks: 1,
+        created_at: new Date(),
+        updated_at: new Date(),
+      },
+    };
+  }
+
+  it('should count context with the injected tokenizer', () => {
+    const retriever = new Retriever(embeddingAdapter, vectorStore, tokenCounter.getTokenizer('gpt-4'));
+    const results = [createResult('first', 'word '.repeat(50)), createResult('second', 'word '.repeat(50))];
+    const firstPieceTokens = retriever.buildContext(results.slice(0, 1), 10000).tokenCount;
+
+    const context = retriever.buildContext(results, firstPieceTokens + 10);
+
+    expect(context.usedResults.map(result => result.id)).toEqual(['first']);
+    expect(context.tokenCount).toBe(firstPieceTokens);
+  });
+});
@@ -277,6 +277,29 @@ describe('UnifiedOrchestrator', () => {
       expect(result.confidence).toBeLessThan(0.5); // Low confidence for fallback
     });
 
+    it('should lower confidence for poorly grounded answers', async () => {
+      const groundedResult = await orchestrator.handlePlatformQuery(mockSlackContext);
+
+      (mockRAGPipeline.process as jest.Mock).mockResolvedValue({
+        ...mockRAGResponse,
+        debug_info: {
+          ...mockRAGResponse.debug_info!,
+          grounding: {
+            verdict: 'ungrounded',
+            verifier: 'lexical',
+            supported_ratio: 0.25,
+            action: 'flag',
+            claims: []
+          }
+        }
+      });
+
+      const result = await orchestrator.handlePlatformQuery(mockSlackContext);
+
+      expect(result.confidence).toBeLessThan(groundedResult.confidence);
+      expect(result.confidence).toBeLessThanOrEqual(0.3);
+    });
+
     it('should determine intent correctly', async () => {
       // Test instructions intent
       const instructionsContext: PlatformQueryContext = {